@@ -0,0 +1,230 @@
+/**
+ * Conversation Sidebar Component
+ *
+ * Lists the signed-in user's stored conversations, most recently active
+ * first, with a button to start a new one and one to delete each. The chat
+ * components render it beside their messages and load a conversation when
+ * it's selected.
+ *
+ * The list is fetched again whenever `refreshKey` changes, so bump it after
+ * each reply to pick up new titles and ordering. Signed-out users get no
+ * sidebar.
+ *
+ * Usage:
+ * <ConversationSidebar
+ *   activeId={conversationId}
+ *   onSelect={(conversation) => loadConversation(conversation.id)}
+ *   onNew={startNewChat}
+ *   refreshKey={repliesReceived}
+ * />
+ */
+
+import { useEffect, useState } from 'react';
+import { deleteConversation, fetchConversations } from './conversation-api';
+import type { Conversation } from './types';
+import { ApiRequestError } from '../../../src/lib/api-error';
+
+interface ConversationSidebarProps {
+  /** The conversation shown in the chat, highlighted in the list */
+  activeId: string | null;
+  onSelect: (conversation: Conversation) => void;
+  /** Start a new chat; also called when the active conversation is deleted */
+  onNew: () => void;
+  /** The list is fetched again whenever this changes */
+  refreshKey?: unknown;
+  /** Disables switching while a reply is on its way */
+  disabled?: boolean;
+}
+
+export default function ConversationSidebar({
+  activeId,
+  onSelect,
+  onNew,
+  refreshKey,
+  disabled = false,
+}: ConversationSidebarProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [signedOut, setSignedOut] = useState(false);
+  const [listError, setListError] = useState<string | null>(null);
+  // Bumped after a delete so the list refetches
+  const [deletions, setDeletions] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchConversations()
+      .then((data) => {
+        if (cancelled) return;
+        setConversations(data);
+        setSignedOut(false);
+        setListError(null);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+
+        if (error instanceof ApiRequestError && error.status === 401) {
+          setSignedOut(true);
+        } else {
+          console.error('Failed to load conversations:', error);
+          setListError('Could not load conversations');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, deletions]);
+
+  const handleDelete = async (conversation: Conversation) => {
+    if (!window.confirm(`Delete "${conversation.title ?? 'New chat'}"?`)) {
+      return;
+    }
+
+    try {
+      await deleteConversation(conversation.id);
+
+      if (conversation.id === activeId) {
+        onNew();
+      }
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+      setListError(
+        error instanceof Error ? error.message : 'Could not delete conversation'
+      );
+    } finally {
+      setDeletions((count) => count + 1);
+    }
+  };
+
+  if (signedOut) return null;
+
+  return (
+    <nav className="conversation-sidebar">
+      <button
+        onClick={onNew}
+        className="conversation-new"
+        disabled={disabled}
+      >
+        + New chat
+      </button>
+
+      {listError && <div className="conversation-error">{listError}</div>}
+
+      <ul className="conversation-list">
+        {conversations.map((conversation) => (
+          <li
+            key={conversation.id}
+            className={`conversation-item${
+              conversation.id === activeId ? ' conversation-item-active' : ''
+            }`}
+          >
+            <button
+              onClick={() => onSelect(conversation)}
+              className="conversation-select"
+              disabled={disabled}
+              title={`Last message ${new Date(conversation.updatedAt).toLocaleString()}`}
+            >
+              {conversation.title ?? 'New chat'}
+            </button>
+            <button
+              onClick={() => handleDelete(conversation)}
+              className="conversation-delete"
+              disabled={disabled}
+              aria-label="Delete conversation"
+            >
+              &times;
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {/* Inline Styles (for demo - move to CSS file in production) */}
+      <style>{`
+        .conversation-sidebar {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+          width: 240px;
+          flex-shrink: 0;
+          height: 600px;
+          padding: 12px;
+          box-sizing: border-box;
+          border: 1px solid #e0e0e0;
+          border-radius: 8px;
+          background: #f8f9fa;
+        }
+
+        .conversation-new {
+          padding: 8px 12px;
+          background: #007bff;
+          color: white;
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+          font-size: 14px;
+        }
+
+        .conversation-new:hover:not(:disabled) {
+          background: #0056b3;
+        }
+
+        .conversation-error {
+          font-size: 12px;
+          color: #721c24;
+        }
+
+        .conversation-list {
+          flex: 1;
+          overflow-y: auto;
+          list-style: none;
+          margin: 0;
+          padding: 0;
+        }
+
+        .conversation-item {
+          display: flex;
+          align-items: center;
+          border-radius: 4px;
+        }
+
+        .conversation-item:hover,
+        .conversation-item-active {
+          background: #e9ecef;
+        }
+
+        .conversation-select {
+          flex: 1;
+          min-width: 0;
+          padding: 8px;
+          background: none;
+          border: none;
+          text-align: left;
+          font-size: 14px;
+          color: #333;
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          cursor: pointer;
+        }
+
+        .conversation-delete {
+          padding: 0 8px;
+          background: none;
+          border: none;
+          font-size: 18px;
+          color: #999;
+          cursor: pointer;
+        }
+
+        .conversation-delete:hover:not(:disabled) {
+          color: #dc3545;
+        }
+
+        .conversation-sidebar button:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+      `}</style>
+    </nav>
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * Conversation API client
+ *
+ * Calls to /api/conversations for the chat components and
+ * ConversationSidebar. Failures throw ApiRequestError with the shared
+ * error envelope; a 401 means the user isn't signed in.
+ */
+
+import type {
+  Conversation,
+  ConversationListResponse,
+  ConversationMessage,
+  ConversationMessagesResponse,
+  ConversationResponse,
+} from './types';
+import { parseApiResponse } from '../../../src/lib/api-error';
+import { fetchWithCsrf } from '../../../src/lib/fetch-with-csrf';
+
+/**
+ * The signed-in user's conversations, most recently active first
+ */
+export async function fetchConversations(): Promise<Conversation[]> {
+  const response = await fetch('/api/conversations');
+  const { data } = await parseApiResponse<ConversationListResponse>(response);
+
+  return data;
+}
+
+/**
+ * Start a conversation; without a title, the first message names it
+ */
+export async function createConversation(title?: string): Promise<Conversation> {
+  const response = await fetchWithCsrf('/api/conversations', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ title }),
+  });
+  const { data } = await parseApiResponse<ConversationResponse>(response);
+
+  return data;
+}
+
+/**
+ * A conversation's messages, oldest first
+ */
+export async function fetchConversationMessages(
+  id: string
+): Promise<ConversationMessage[]> {
+  const response = await fetch(
+    `/api/conversations/${encodeURIComponent(id)}/messages`
+  );
+  const { data } = await parseApiResponse<ConversationMessagesResponse>(response);
+
+  return data;
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  const response = await fetchWithCsrf(
+    `/api/conversations/${encodeURIComponent(id)}`,
+    { method: 'DELETE' }
+  );
+
+  await parseApiResponse<{ success: true }>(response);
+}
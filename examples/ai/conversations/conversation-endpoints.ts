@@ -0,0 +1,268 @@
+/**
+ * Conversation Endpoints
+ *
+ * GET    /api/conversations               - the user's conversations, most recent first
+ * POST   /api/conversations               - start a conversation
+ * GET    /api/conversations/:id           - one conversation
+ * PATCH  /api/conversations/:id           - rename it
+ * DELETE /api/conversations/:id           - delete it with its messages
+ * GET    /api/conversations/:id/messages  - its messages, oldest first
+ * GET    /api/conversations/:id/room      - WebSocket to its ConversationRoom
+ *
+ * Messages are added by the chat endpoints when they're sent a
+ * conversationId, never through these routes, so a client can't write
+ * replies the model didn't give. A conversation that belongs to someone
+ * else is reported as not found.
+ *
+ * Every route accepts a session (cookie or access token) or an API key,
+ * like the chat endpoints.
+ *
+ * Prerequisites:
+ * 1. The kv-sessions example set up (users and sessions)
+ * 2. migrations/0009_create_conversations.sql applied
+ * 3. For /room only: ConversationRoomDurableObject bound as
+ *    "CONVERSATION_ROOM" (see conversation-room-durable-object.ts)
+ */
+
+import {
+  ROOM_CONVERSATION_HEADER,
+  ROOM_ROUTE_HEADER,
+  ROOM_USER_HEADER,
+  type ConversationRoomDurableObject,
+} from './conversation-room-durable-object';
+import { getConversationStore } from './conversation-store';
+import {
+  CreateConversationSchema,
+  DEFAULT_CONVERSATION_PAGE_SIZE,
+  MAX_CONVERSATION_PAGE_SIZE,
+  UpdateConversationSchema,
+  type ConversationListResponse,
+  type ConversationMessagesResponse,
+  type ConversationResponse,
+} from './types';
+import { requireAuthOrApiKey } from '../../database/kv-sessions/worker-middleware';
+import { parseAllowedOrigins } from '../../../worker/cors';
+import { ApiError, ForbiddenError, NotFoundError } from '../../../worker/errors';
+import type { RouteContext, RouteGroup } from '../../../worker/router';
+import { parseJsonBody } from '../../../worker/validation';
+
+// Conversations change with every message; never serve them from a cache
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+/**
+ * GET /api/conversations - List the user's conversations
+ * Query parameters:
+ * - limit: Number of conversations to return (default: 50, max: 100)
+ * - offset: Number of conversations to skip (default: 0)
+ */
+export async function listConversations(
+  request: Request,
+  env: Env,
+  { url }: RouteContext
+): Promise<Response> {
+  const store = getConversationStore(env);
+  const session = await requireAuthOrApiKey(request, env);
+
+  const limit = Math.min(
+    parseInt(url.searchParams.get('limit') || '') ||
+      DEFAULT_CONVERSATION_PAGE_SIZE,
+    MAX_CONVERSATION_PAGE_SIZE
+  );
+  const offset = Math.max(parseInt(url.searchParams.get('offset') || '0') || 0, 0);
+
+  const { conversations, count } = await store.list(
+    session.user.id,
+    Math.max(limit, 1),
+    offset
+  );
+
+  const response: ConversationListResponse = {
+    success: true,
+    data: conversations,
+    count,
+  };
+
+  return Response.json(response, { headers: NO_STORE });
+}
+
+/**
+ * POST /api/conversations - Start a conversation
+ * Without a title, the first message sent to it becomes the title.
+ */
+export async function createConversation(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const store = getConversationStore(env);
+  const session = await requireAuthOrApiKey(request, env);
+  const body = await parseJsonBody(request, CreateConversationSchema);
+
+  const response: ConversationResponse = {
+    success: true,
+    data: await store.create(session.user.id, body.title ?? null),
+  };
+
+  return Response.json(response, { status: 201 });
+}
+
+/**
+ * GET /api/conversations/:id - Get one conversation
+ */
+export async function getConversation(
+  request: Request,
+  env: Env,
+  { params }: RouteContext
+): Promise<Response> {
+  const store = getConversationStore(env);
+  const session = await requireAuthOrApiKey(request, env);
+  const conversation = await store.get(session.user.id, params.id);
+
+  if (!conversation) {
+    throw new NotFoundError('Conversation not found');
+  }
+
+  const response: ConversationResponse = {
+    success: true,
+    data: conversation,
+  };
+
+  return Response.json(response, { headers: NO_STORE });
+}
+
+/**
+ * PATCH /api/conversations/:id - Rename a conversation
+ */
+export async function renameConversation(
+  request: Request,
+  env: Env,
+  { params }: RouteContext
+): Promise<Response> {
+  const store = getConversationStore(env);
+  const session = await requireAuthOrApiKey(request, env);
+  const body = await parseJsonBody(request, UpdateConversationSchema);
+
+  const conversation = await store.rename(session.user.id, params.id, body.title);
+
+  if (!conversation) {
+    throw new NotFoundError('Conversation not found');
+  }
+
+  const response: ConversationResponse = {
+    success: true,
+    data: conversation,
+  };
+
+  return Response.json(response);
+}
+
+/**
+ * DELETE /api/conversations/:id - Delete a conversation and its messages
+ */
+export async function deleteConversation(
+  request: Request,
+  env: Env,
+  { params }: RouteContext
+): Promise<Response> {
+  const store = getConversationStore(env);
+  const session = await requireAuthOrApiKey(request, env);
+
+  if (!(await store.delete(session.user.id, params.id))) {
+    throw new NotFoundError('Conversation not found');
+  }
+
+  // Open tabs can't keep sending to a conversation that's gone
+  const namespace: DurableObjectNamespace<ConversationRoomDurableObject> | undefined =
+    env.CONVERSATION_ROOM;
+  await namespace?.get(namespace.idFromName(params.id)).closeRoom();
+
+  return Response.json({ success: true });
+}
+
+/**
+ * GET /api/conversations/:id/messages - List a conversation's messages
+ */
+export async function listConversationMessages(
+  request: Request,
+  env: Env,
+  { params }: RouteContext
+): Promise<Response> {
+  const store = getConversationStore(env);
+  const session = await requireAuthOrApiKey(request, env);
+
+  if (!(await store.get(session.user.id, params.id))) {
+    throw new NotFoundError('Conversation not found');
+  }
+
+  const response: ConversationMessagesResponse = {
+    success: true,
+    data: await store.messages(params.id),
+  };
+
+  return Response.json(response, { headers: NO_STORE });
+}
+
+/**
+ * GET /api/conversations/:id/room - Join the conversation's room
+ * A WebSocket upgrade, handed to the conversation's
+ * ConversationRoomDurableObject once the user is known to own it.
+ *
+ * Browsers send cookies with a WebSocket handshake from any site and it
+ * isn't subject to CORS or the CSRF check, so the Origin must be this
+ * site's or one in CORS_ALLOWED_ORIGINS ("*" is not honoured here).
+ */
+export async function joinConversationRoom(
+  request: Request,
+  env: Env,
+  { params, url }: RouteContext
+): Promise<Response> {
+  if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+    throw new ApiError(426, 'UPGRADE_REQUIRED', 'Expected a WebSocket upgrade', {
+      headers: { Upgrade: 'websocket' },
+    });
+  }
+
+  const origin = request.headers.get('Origin');
+  if (
+    origin &&
+    origin !== url.origin &&
+    !parseAllowedOrigins(env.CORS_ALLOWED_ORIGINS).includes(origin)
+  ) {
+    throw new ForbiddenError('Origin not allowed', 'ORIGIN_NOT_ALLOWED');
+  }
+
+  const namespace: DurableObjectNamespace<ConversationRoomDurableObject> | undefined =
+    env.CONVERSATION_ROOM;
+
+  if (!namespace) {
+    throw new ApiError(500, 'CONFIGURATION_ERROR', 'Conversation rooms not configured');
+  }
+
+  const store = getConversationStore(env);
+  const session = await requireAuthOrApiKey(request, env);
+
+  if (!(await store.get(session.user.id, params.id))) {
+    throw new NotFoundError('Conversation not found');
+  }
+
+  // Set here, after the checks, so a client can't choose its own
+  const headers = new Headers(request.headers);
+  headers.set(ROOM_USER_HEADER, session.user.id);
+  headers.set(ROOM_CONVERSATION_HEADER, params.id);
+  headers.set(ROOM_ROUTE_HEADER, url.pathname);
+
+  const room = namespace.get(namespace.idFromName(params.id));
+  return room.fetch(new Request(request, { headers }));
+}
+
+/**
+ * Registers the /api/conversations routes on the given router group
+ */
+export function registerConversationRoutes(api: RouteGroup): void {
+  api.get('/conversations', listConversations);
+  api.post('/conversations', createConversation);
+  api.get('/conversations/:id', getConversation);
+  api.patch('/conversations/:id', renameConversation);
+  api.delete('/conversations/:id', deleteConversation);
+  api.get('/conversations/:id/messages', listConversationMessages);
+  api.get('/conversations/:id/room', joinConversationRoom);
+}
@@ -0,0 +1,74 @@
+/**
+ * Conversation History for the Chat Endpoints
+ *
+ * A chat request names a stored conversation with `conversationId`, and the
+ * endpoint loads the context from D1 instead of taking the client's word for
+ * what was said. Requests without one still send `conversationHistory`,
+ * which is used as before and not stored.
+ *
+ * const { conversationId, history } = await loadChatHistory(env, userId, body);
+ * // ...call the model with conversationMessages(body.message, history)...
+ * if (conversationId) await saveChatExchange(env, conversationId, body.message, reply);
+ */
+
+import { getConversationStore } from './conversation-store';
+import type { ConversationMessage } from './types';
+import type { LLMMessage } from '../llm-providers/llm-provider';
+import { MAX_HISTORY_MESSAGES } from '../shared/chat-schema';
+import { NotFoundError, ValidationError } from '../../../worker/errors';
+
+export interface ChatHistory {
+  // Null for a stateless request
+  conversationId: string | null;
+  history: LLMMessage[];
+}
+
+/**
+ * The history to send the model with this request. A stored conversation
+ * must be the user's; only its last MAX_HISTORY_MESSAGES messages are used.
+ */
+export async function loadChatHistory(
+  env: Env,
+  userId: string,
+  body: { conversationId?: string; conversationHistory?: LLMMessage[] }
+): Promise<ChatHistory> {
+  if (!body.conversationId) {
+    return { conversationId: null, history: body.conversationHistory ?? [] };
+  }
+
+  if (body.conversationHistory?.length) {
+    const message = 'Send conversationId or conversationHistory, not both';
+    throw new ValidationError(message, [
+      { field: 'conversationHistory', message },
+    ]);
+  }
+
+  const store = getConversationStore(env);
+
+  if (!(await store.get(userId, body.conversationId))) {
+    throw new NotFoundError('Conversation not found');
+  }
+
+  const messages = await store.recentMessages(
+    body.conversationId,
+    MAX_HISTORY_MESSAGES
+  );
+
+  return {
+    conversationId: body.conversationId,
+    history: messages.map(({ role, content }) => ({ role, content })),
+  };
+}
+
+/**
+ * Store the user's message and the model's reply in the conversation.
+ * Returns the two stored messages.
+ */
+export function saveChatExchange(
+  env: Env,
+  conversationId: string,
+  message: string,
+  reply: { content: string; model: string }
+): Promise<ConversationMessage[]> {
+  return getConversationStore(env).appendExchange(conversationId, message, reply);
+}
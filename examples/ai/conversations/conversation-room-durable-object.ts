@@ -0,0 +1,364 @@
+/**
+ * Conversation Room Durable Object
+ *
+ * One instance per conversation; conversation-endpoints.ts addresses it with
+ * idFromName(<conversation ID>) and hands it the WebSocket connections of
+ * every tab that has the conversation open. The room holds the
+ * conversation's history and writes one reply at a time, broadcasting the
+ * user's message and each streamed token to every connection, so all tabs
+ * show the same conversation as it happens.
+ *
+ * History is loaded from D1 when the room first needs it and kept in
+ * memory; each finished exchange is stored in D1 and added to it. A client
+ * that connects gets the history and any reply in progress, so a tab that
+ * reconnects picks up where it left off.
+ *
+ * Connections use the WebSocket Hibernation API: an idle room is evicted
+ * from memory without dropping its connections, and reloads the history
+ * from D1 on the next message.
+ *
+ * A connection keeps the credentials it was opened with, and they're
+ * checked again, with the user's ownership of the conversation, before
+ * each message is answered: a connection that outlives its session (a
+ * logout, "sign out other devices", an expired or revoked API key) is
+ * closed instead. Deleting the conversation closes every connection.
+ *
+ * The room only sees what goes through it. A message sent to the same
+ * conversation through POST /api/chat or /api/chat-stream while the room
+ * is in memory is stored, but isn't in the room's history, or the model's
+ * context, until the room is evicted and reloads.
+ *
+ * Prerequisites:
+ * 1. Binding and migration in wrangler.jsonc:
+ *    "durable_objects": {
+ *      "bindings": [{ "name": "CONVERSATION_ROOM", "class_name": "ConversationRoomDurableObject" }]
+ *    },
+ *    "migrations": [{ "tag": "v3", "new_sqlite_classes": ["ConversationRoomDurableObject"] }]
+ *    (use the next unused tag)
+ *
+ * 2. Export the class from worker/index.ts:
+ *    export { ConversationRoomDurableObject } from '../examples/ai/conversations/conversation-room-durable-object';
+ *
+ * 3. The Env of the streaming chat: provider credentials and DB
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import { saveChatExchange } from './conversation-history';
+import { getConversationStore } from './conversation-store';
+import {
+  RoomSendSchema,
+  type ConversationMessage,
+  type PendingReply,
+  type RoomEvent,
+  type RoomSendMessage,
+} from './types';
+import {
+  conversationMessages,
+  type LLMUsage,
+} from '../llm-providers/llm-provider';
+import { getLLMProvider } from '../llm-providers/provider-config';
+import { RetryingProvider } from '../llm-providers/retry';
+import { MAX_HISTORY_MESSAGES } from '../shared/chat-schema';
+import { estimateCost } from '../shared/pricing';
+import { getTokenBudget } from '../usage-metering/token-budget';
+import {
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+  toErrorBody,
+} from '../../../worker/errors';
+import {
+  getAuthHeaders,
+  requireAuthOrApiKey,
+} from '../../database/kv-sessions/worker-middleware';
+import { parse } from '../../../worker/validation';
+
+/**
+ * Who a connection belongs to. conversation-endpoints.ts sends these as headers
+ * on the upgrade request, after checking the user owns the conversation.
+ */
+export const ROOM_USER_HEADER = 'X-Room-User-Id';
+export const ROOM_CONVERSATION_HEADER = 'X-Room-Conversation-Id';
+export const ROOM_ROUTE_HEADER = 'X-Room-Route';
+
+// Kept with each WebSocket, so it survives hibernation
+interface Connection {
+  userId: string;
+  conversationId: string;
+  // Path recorded in the usage ledger
+  route: string;
+  // Authorization and session cookie from the upgrade, checked again
+  // before each reply (see getAuthHeaders)
+  auth: Record<string, string>;
+}
+
+// Sent when a connection's credentials or conversation are gone
+const POLICY_VIOLATION = 1008;
+
+export class ConversationRoomDurableObject extends DurableObject<Env> {
+  // Null until loaded, and again after hibernation
+  private history: ConversationMessage[] | null = null;
+  private loading: Promise<ConversationMessage[]> | null = null;
+  // The reply being written, if any; lost with the instance, like the stream
+  private pending: PendingReply | null = null;
+
+  /**
+   * Accept a WebSocket upgrade from conversation-endpoints.ts
+   */
+  async fetch(request: Request): Promise<Response> {
+    const connection: Connection = {
+      userId: request.headers.get(ROOM_USER_HEADER) ?? '',
+      conversationId: request.headers.get(ROOM_CONVERSATION_HEADER) ?? '',
+      route: request.headers.get(ROOM_ROUTE_HEADER) ?? '',
+      auth: getAuthHeaders(request, this.env),
+    };
+
+    if (!connection.userId || !connection.conversationId) {
+      return new Response('Missing room headers', { status: 400 });
+    }
+
+    const history = await this.loadHistory(connection.conversationId);
+
+    const { 0: client, 1: server } = new WebSocketPair();
+    this.ctx.acceptWebSocket(server);
+    server.serializeAttachment(connection);
+
+    // Nothing has been awaited since the history was read, so this and
+    // `pending` can't have moved on without the new connection
+    this.send(server, { type: 'history', messages: history, pending: this.pending });
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  async webSocketMessage(ws: WebSocket, data: string | ArrayBuffer): Promise<void> {
+    const connection = ws.deserializeAttachment() as Connection;
+    let input: RoomSendMessage;
+
+    // Before the pending check below, which must not be followed by an await
+    try {
+      await this.authorize(connection);
+    } catch (error) {
+      this.sendError(ws, error, crypto.randomUUID());
+      ws.close(POLICY_VIOLATION, 'Not authorized');
+      return;
+    }
+
+    try {
+      if (typeof data !== 'string') {
+        throw new ValidationError('Messages must be JSON text');
+      }
+
+      input = parse(RoomSendSchema, parseJson(data));
+
+      if (this.pending) {
+        throw new ConflictError(
+          'A reply is already being written in this conversation',
+          'REPLY_IN_PROGRESS'
+        );
+      }
+    } catch (error) {
+      this.sendError(ws, error, crypto.randomUUID());
+      return;
+    }
+
+    await this.reply(connection, input);
+  }
+
+  /**
+   * Close every connection; called when the conversation is deleted
+   */
+  async closeRoom(): Promise<void> {
+    for (const ws of this.ctx.getWebSockets()) {
+      ws.close(POLICY_VIOLATION, 'Conversation deleted');
+    }
+
+    this.history = null;
+    this.loading = null;
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    // Complete the closing handshake
+    ws.close(code, reason);
+  }
+
+  async webSocketError(_ws: WebSocket, error: unknown): Promise<void> {
+    console.error('Conversation room WebSocket error:', error);
+  }
+
+  /**
+   * Write a reply to `input`, streaming it to every connection, then store
+   * the exchange. Usage counts against the user who sent the message.
+   */
+  private async reply(connection: Connection, input: RoomSendMessage): Promise<void> {
+    const requestId = crypto.randomUUID();
+    // Claimed before anything is awaited, so a second message is refused
+    const pending: PendingReply = { message: input.message, content: '' };
+    this.pending = pending;
+    // Before any await too: a client connecting from here on gets the
+    // message in its snapshot's `pending` instead
+    this.broadcast({ type: 'user_message', content: input.message });
+
+    const budget = getTokenBudget(this.env);
+    let model: string | null = null;
+    let usage: LLMUsage | null = null;
+
+    try {
+      await budget.assertWithinBudget(connection.userId);
+      const history = await this.loadHistory(connection.conversationId);
+
+      const provider = new RetryingProvider(getLLMProvider(this.env), { requestId });
+      const stream = provider.stream({
+        model: input.model,
+        system: input.system,
+        messages: conversationMessages(
+          input.message,
+          history
+            .slice(-MAX_HISTORY_MESSAGES)
+            .map(({ role, content }) => ({ role, content }))
+        ),
+        maxTokens: input.maxTokens || 2048,
+        temperature: input.temperature ?? 0.7,
+      });
+
+      for await (const event of stream) {
+        if (event.type === 'start') {
+          model = event.model;
+          usage = event.usage;
+        } else if (event.type === 'text') {
+          pending.content += event.text;
+          this.broadcast({ type: 'content', text: event.text });
+        } else {
+          model = event.model;
+          usage = event.usage;
+
+          if (pending.content) {
+            history.push(
+              ...(await saveChatExchange(
+                this.env,
+                connection.conversationId,
+                input.message,
+                { content: pending.content, model: event.model }
+              ))
+            );
+          }
+
+          this.pending = null;
+          this.broadcast({
+            type: 'done',
+            model: event.model,
+            usage: usage
+              ? {
+                  input_tokens: usage.inputTokens,
+                  output_tokens: usage.outputTokens,
+                }
+              : undefined,
+            stop_reason: event.stopReason ?? undefined,
+            estimatedCost: usage
+              ? estimateCost(event.model, usage) ?? undefined
+              : undefined,
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`[${requestId}] Conversation room error:`, error);
+
+      // Every tab saw the message, so every tab hears that it failed
+      for (const ws of this.ctx.getWebSockets()) {
+        this.sendError(ws, error, requestId);
+      }
+    } finally {
+      this.pending = null;
+
+      if (model) {
+        await budget.record({
+          userId: connection.userId,
+          model,
+          route: connection.route,
+          inputTokens: usage?.inputTokens ?? 0,
+          outputTokens: usage?.outputTokens ?? 0,
+          requestId,
+        });
+      }
+    }
+  }
+
+  /**
+   * Check that the connection's credentials still hold and its user still
+   * owns the conversation
+   */
+  private async authorize(connection: Connection): Promise<void> {
+    const session = await requireAuthOrApiKey(
+      new Request('https://conversation-room.internal/', { headers: connection.auth }),
+      this.env
+    );
+
+    if (session.user.id !== connection.userId) {
+      throw new UnauthorizedError();
+    }
+
+    const conversation = await getConversationStore(this.env).get(
+      connection.userId,
+      connection.conversationId
+    );
+    if (!conversation) {
+      throw new NotFoundError('Conversation not found');
+    }
+  }
+
+  // One load at a time; later callers share it
+  private loadHistory(conversationId: string): Promise<ConversationMessage[]> {
+    if (this.history) {
+      return Promise.resolve(this.history);
+    }
+
+    this.loading ??= getConversationStore(this.env)
+      .messages(conversationId)
+      .then(
+        (messages) => {
+          this.history = messages;
+          return messages;
+        },
+        (error: unknown) => {
+          this.loading = null;
+          throw error;
+        }
+      );
+
+    return this.loading;
+  }
+
+  private broadcast(event: RoomEvent): void {
+    for (const ws of this.ctx.getWebSockets()) {
+      this.send(ws, event);
+    }
+  }
+
+  private send(ws: WebSocket, event: RoomEvent): void {
+    try {
+      ws.send(JSON.stringify(event));
+    } catch {
+      // Closed while we were writing; it's dropped from getWebSockets()
+    }
+  }
+
+  private sendError(ws: WebSocket, error: unknown, requestId: string): void {
+    const body = toErrorBody(error, requestId);
+
+    this.send(ws, {
+      type: 'error',
+      error: body.error,
+      message: body.message,
+      details: body.details,
+      requestId: body.requestId,
+    });
+  }
+}
+
+function parseJson(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new ValidationError('Messages must be valid JSON');
+  }
+}
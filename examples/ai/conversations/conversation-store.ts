@@ -0,0 +1,220 @@
+/**
+ * D1 Conversation Store
+ *
+ * Conversations belong to one user, and every query that takes a user ID
+ * is scoped to it, so a conversation ID from another account reads as
+ * missing. Messages are only ever appended, as a user message and the
+ * reply to it together, and are ordered by their autoincrement ID.
+ *
+ * Prerequisites:
+ * 1. D1 database bound as "DB" (the kv-sessions database)
+ * 2. migrations/0009_create_conversations.sql applied
+ */
+
+import {
+  MAX_TITLE_LENGTH,
+  rowToConversation,
+  rowToMessage,
+  type Conversation,
+  type ConversationMessage,
+  type ConversationRow,
+  type MessageRow,
+} from './types';
+import { ApiError } from '../../../worker/errors';
+
+/**
+ * A title taken from the first message: its first line, cut to
+ * MAX_TITLE_LENGTH characters
+ */
+export function titleFromMessage(message: string): string {
+  const line = message.trim().split('\n')[0].trim();
+
+  return line.length > MAX_TITLE_LENGTH
+    ? `${line.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : line;
+}
+
+export class ConversationStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  async create(userId: string, title: string | null): Promise<Conversation> {
+    const now = new Date().toISOString();
+    const row: ConversationRow = {
+      id: crypto.randomUUID(),
+      user_id: userId,
+      title,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await this.db
+      .prepare(
+        `INSERT INTO conversations (id, user_id, title, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .bind(row.id, row.user_id, row.title, row.created_at, row.updated_at)
+      .run();
+
+    return rowToConversation(row);
+  }
+
+  /**
+   * A page of the user's conversations, most recently active first, and
+   * how many they have in total
+   */
+  async list(
+    userId: string,
+    limit: number,
+    offset: number
+  ): Promise<{ conversations: Conversation[]; count: number }> {
+    const [page, total] = await Promise.all([
+      this.db
+        .prepare(
+          `SELECT * FROM conversations
+           WHERE user_id = ?
+           ORDER BY updated_at DESC
+           LIMIT ? OFFSET ?`
+        )
+        .bind(userId, limit, offset)
+        .all<ConversationRow>(),
+      this.db
+        .prepare('SELECT COUNT(*) AS count FROM conversations WHERE user_id = ?')
+        .bind(userId)
+        .first<{ count: number }>(),
+    ]);
+
+    return {
+      conversations: page.results.map(rowToConversation),
+      count: total?.count ?? 0,
+    };
+  }
+
+  /**
+   * The conversation, or null if it doesn't exist or isn't the user's
+   */
+  async get(userId: string, id: string): Promise<Conversation | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM conversations WHERE id = ? AND user_id = ?')
+      .bind(id, userId)
+      .first<ConversationRow>();
+
+    return row ? rowToConversation(row) : null;
+  }
+
+  /**
+   * Returns the renamed conversation, or null if it isn't the user's
+   */
+  async rename(
+    userId: string,
+    id: string,
+    title: string
+  ): Promise<Conversation | null> {
+    const row = await this.db
+      .prepare(
+        `UPDATE conversations SET title = ?
+         WHERE id = ? AND user_id = ?
+         RETURNING *`
+      )
+      .bind(title, id, userId)
+      .first<ConversationRow>();
+
+    return row ? rowToConversation(row) : null;
+  }
+
+  /**
+   * Deletes the conversation and its messages.
+   * Returns false if it isn't the user's.
+   */
+  async delete(userId: string, id: string): Promise<boolean> {
+    const result = await this.db
+      .prepare('DELETE FROM conversations WHERE id = ? AND user_id = ?')
+      .bind(id, userId)
+      .run();
+
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Every message in the conversation, oldest first. Callers check that the
+   * conversation is the user's first.
+   */
+  async messages(conversationId: string): Promise<ConversationMessage[]> {
+    const { results } = await this.db
+      .prepare(
+        `SELECT * FROM messages
+         WHERE conversation_id = ?
+         ORDER BY id`
+      )
+      .bind(conversationId)
+      .all<MessageRow>();
+
+    return results.map(rowToMessage);
+  }
+
+  /**
+   * The last `limit` messages, oldest first, for use as model context
+   */
+  async recentMessages(
+    conversationId: string,
+    limit: number
+  ): Promise<ConversationMessage[]> {
+    const { results } = await this.db
+      .prepare(
+        `SELECT * FROM messages
+         WHERE conversation_id = ?
+         ORDER BY id DESC
+         LIMIT ?`
+      )
+      .bind(conversationId, limit)
+      .all<MessageRow>();
+
+    return results.map(rowToMessage).reverse();
+  }
+
+  /**
+   * Append a user message and the model's reply in one batch, so neither is
+   * stored without the other. An untitled conversation is named after the
+   * user message. Returns the two stored messages.
+   */
+  async appendExchange(
+    conversationId: string,
+    message: string,
+    reply: { content: string; model: string }
+  ): Promise<ConversationMessage[]> {
+    const now = new Date().toISOString();
+    const insert = this.db.prepare(
+      `INSERT INTO messages (conversation_id, role, content, model, created_at)
+       VALUES (?, ?, ?, ?, ?)
+       RETURNING *`
+    );
+
+    const [user, assistant] = await this.db.batch<MessageRow>([
+      insert.bind(conversationId, 'user', message, null, now),
+      insert.bind(conversationId, 'assistant', reply.content, reply.model, now),
+      this.db
+        .prepare(
+          `UPDATE conversations
+           SET updated_at = ?, title = COALESCE(title, ?)
+           WHERE id = ?`
+        )
+        .bind(now, titleFromMessage(message), conversationId),
+    ]);
+
+    return [...user.results, ...assistant.results].map(rowToMessage);
+  }
+}
+
+/**
+ * ConversationStore for the D1 database bound as DB
+ */
+export function getConversationStore(env: Env): ConversationStore {
+  if (!env.DB) {
+    throw new ApiError(500, 'CONFIGURATION_ERROR', 'Conversation database not configured');
+  }
+
+  return new ConversationStore(env.DB);
+}
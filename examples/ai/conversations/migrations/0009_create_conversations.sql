@@ -0,0 +1,35 @@
+-- Migration: Create conversations and messages tables
+-- Created: 2026-10-19
+-- Description: Chat conversations stored server-side, so the chat endpoints load
+-- history from D1 instead of taking it from the client (see conversation-store.ts)
+-- Numbered to follow the usage-metering migrations
+
+-- Up Migration
+CREATE TABLE conversations (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title TEXT,                          -- NULL until the first message, which names it
+  created_at TEXT NOT NULL,            -- ISO 8601 UTC
+  updated_at TEXT NOT NULL             -- ISO 8601 UTC; bumped by every new message
+);
+
+-- A user's conversations, most recently active first
+CREATE INDEX idx_conversations_user_updated ON conversations(user_id, updated_at);
+
+CREATE TABLE messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT, -- Also the order of the conversation
+  conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  model TEXT,                          -- Model that wrote an assistant message; NULL for user messages
+  created_at TEXT NOT NULL             -- ISO 8601 UTC
+);
+
+-- Load a conversation's messages in order
+CREATE INDEX idx_messages_conversation ON messages(conversation_id, id);
+
+-- Down Migration (commented out - uncomment to rollback)
+-- DROP INDEX IF EXISTS idx_messages_conversation;
+-- DROP TABLE IF EXISTS messages;
+-- DROP INDEX IF EXISTS idx_conversations_user_updated;
+-- DROP TABLE IF EXISTS conversations;
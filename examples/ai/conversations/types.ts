@@ -0,0 +1,186 @@
+/**
+ * Type definitions for Conversations
+ *
+ * Shared by the Worker (conversation store, /api/conversations, the chat
+ * endpoints, ConversationRoomDurableObject) and the React components
+ * (ConversationSidebar, useConversationRoom).
+ */
+
+import type {
+  ContentStreamEvent,
+  DoneStreamEvent,
+  ErrorStreamEvent,
+} from '../streaming-chat/types';
+import { claudeChatRequestFields } from '../shared/chat-schema';
+import { v, type Infer } from '../../../worker/validation';
+
+/**
+ * Database row from the conversations table
+ */
+export interface ConversationRow {
+  id: string;
+  user_id: string;
+  title: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Database row from the messages table
+ */
+export interface MessageRow {
+  id: number;
+  conversation_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  model: string | null;
+  created_at: string;
+}
+
+export interface Conversation {
+  id: string;
+  /** Null until the first message has been sent */
+  title: string | null;
+  /** ISO 8601 */
+  createdAt: string;
+  /** ISO 8601; when the last message was added */
+  updatedAt: string;
+}
+
+export interface ConversationMessage {
+  /** Increasing within a conversation */
+  id: number;
+  role: 'user' | 'assistant';
+  content: string;
+  /** Model that wrote an assistant message; null for user messages */
+  model: string | null;
+  /** ISO 8601 */
+  createdAt: string;
+}
+
+/** Conversations returned per page by GET /api/conversations */
+export const DEFAULT_CONVERSATION_PAGE_SIZE = 50;
+export const MAX_CONVERSATION_PAGE_SIZE = 100;
+
+/** Titles taken from a first message are cut to this many characters */
+export const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Request body for POST /api/conversations
+ */
+export const CreateConversationSchema = v.object({
+  /** Optional; otherwise the first message names the conversation */
+  title: v.optional(v.string({ trim: true, min: 1, max: MAX_TITLE_LENGTH })),
+});
+
+export type CreateConversationRequest = Infer<typeof CreateConversationSchema>;
+
+/**
+ * Request body for PATCH /api/conversations/:id
+ */
+export const UpdateConversationSchema = v.object({
+  title: v.string({ trim: true, min: 1, max: MAX_TITLE_LENGTH }),
+});
+
+export type UpdateConversationRequest = Infer<typeof UpdateConversationSchema>;
+
+/**
+ * Response from GET /api/conversations
+ */
+export interface ConversationListResponse {
+  success: true;
+  data: Conversation[];
+  /** The user's conversations in total, for paging */
+  count: number;
+}
+
+/**
+ * Response from POST, GET and PATCH /api/conversations/:id
+ */
+export interface ConversationResponse {
+  success: true;
+  data: Conversation;
+}
+
+/**
+ * Response from GET /api/conversations/:id/messages
+ */
+export interface ConversationMessagesResponse {
+  success: true;
+  data: ConversationMessage[];
+}
+
+/**
+ * A WebSocket message from a client to a conversation room: send a chat
+ * message. The history comes from the room, so unlike the HTTP chat
+ * endpoints there's no conversationId or conversationHistory.
+ */
+export const RoomSendSchema = v.object({
+  type: v.enum(['send']),
+  message: claudeChatRequestFields.message,
+  system: claudeChatRequestFields.system,
+  model: claudeChatRequestFields.model,
+  maxTokens: claudeChatRequestFields.maxTokens,
+  temperature: claudeChatRequestFields.temperature,
+});
+
+export type RoomSendMessage = Infer<typeof RoomSendSchema>;
+
+/**
+ * A reply being written: the message it answers and the text so far
+ */
+export interface PendingReply {
+  message: string;
+  content: string;
+}
+
+/**
+ * Sent to a client when it connects, and so after every reconnect: the
+ * stored messages, plus the reply being written if there is one
+ */
+export interface RoomHistoryEvent {
+  type: 'history';
+  messages: ConversationMessage[];
+  pending: PendingReply | null;
+}
+
+/**
+ * A client sent a message; a reply follows as content events
+ */
+export interface RoomUserMessageEvent {
+  type: 'user_message';
+  content: string;
+}
+
+/**
+ * WebSocket messages from a conversation room to its clients. content,
+ * done and error are the streaming chat's events: every client receives
+ * the reply as it's written. An error for a message that couldn't be
+ * accepted (invalid, or sent while a reply was being written) goes only
+ * to the client that sent it.
+ */
+export type RoomEvent =
+  | RoomHistoryEvent
+  | RoomUserMessageEvent
+  | ContentStreamEvent
+  | DoneStreamEvent
+  | ErrorStreamEvent;
+
+export function rowToConversation(row: ConversationRow): Conversation {
+  return {
+    id: row.id,
+    title: row.title,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export function rowToMessage(row: MessageRow): ConversationMessage {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    model: row.model,
+    createdAt: row.created_at,
+  };
+}
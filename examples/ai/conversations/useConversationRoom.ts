@@ -0,0 +1,147 @@
+/**
+ * useConversationRoom Hook
+ *
+ * Keeps a WebSocket open to a conversation's room
+ * (GET /api/conversations/:id/room) and passes each event it sends to
+ * `onEvent`. Every tab with the conversation open receives the same
+ * events, including the messages other tabs send and their replies.
+ *
+ * The connection is reopened with backoff when it drops. The room sends
+ * its history on every connect, so treat a `history` event as the whole
+ * conversation and replace what's shown.
+ *
+ * Usage:
+ * const room = useConversationRoom(conversationId, (event) => {
+ *   if (event.type === 'content') appendToReply(event.text);
+ * });
+ *
+ * room.send(conversationId, { type: 'send', message: 'Hello!' });
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RoomEvent, RoomSendMessage } from './types';
+
+export type RoomStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+// Reconnect delays double from the first to the last, in milliseconds
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30_000;
+
+interface QueuedMessage {
+  conversationId: string;
+  data: string;
+}
+
+export function useConversationRoom(
+  conversationId: string | null,
+  onEvent: (event: RoomEvent) => void
+) {
+  const [status, setStatus] = useState<RoomStatus>('idle');
+  const socketRef = useRef<{ socket: WebSocket; conversationId: string } | null>(
+    null
+  );
+  // Sent when the socket for their conversation opens
+  const queueRef = useRef<QueuedMessage[]>([]);
+  // The latest callback, so a new one doesn't reconnect
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  });
+
+  useEffect(() => {
+    if (!conversationId) {
+      setStatus('idle');
+      return;
+    }
+
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const url = `${protocol}//${window.location.host}/api/conversations/${encodeURIComponent(conversationId)}/room`;
+
+    let socket: WebSocket | null = null;
+    let closed = false;
+    let attempts = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      setStatus(attempts === 0 ? 'connecting' : 'reconnecting');
+
+      const current = new WebSocket(url);
+      socket = current;
+      socketRef.current = { socket: current, conversationId };
+
+      current.onopen = () => {
+        attempts = 0;
+        setStatus('open');
+
+        // Anything queued for another conversation is dropped
+        const queued = queueRef.current;
+        queueRef.current = [];
+        for (const message of queued) {
+          if (message.conversationId === conversationId) {
+            current.send(message.data);
+          }
+        }
+      };
+
+      current.onmessage = (message) => {
+        let event: RoomEvent;
+        try {
+          event = JSON.parse(message.data);
+        } catch (parseError) {
+          console.error('Failed to parse room event:', parseError);
+          return;
+        }
+
+        onEventRef.current(event);
+      };
+
+      // A failed handshake (not signed in, not found) also ends up here
+      current.onclose = () => {
+        if (closed) return;
+
+        socketRef.current = null;
+        const delay = Math.min(
+          RECONNECT_BASE_DELAY * 2 ** attempts,
+          RECONNECT_MAX_DELAY
+        );
+        attempts += 1;
+        setStatus('reconnecting');
+        timer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(timer);
+      socket?.close();
+      socketRef.current = null;
+    };
+  }, [conversationId]);
+
+  /**
+   * Send a message to the conversation's room, or queue it until the
+   * connection opens. Pass the ID explicitly: a conversation created for
+   * this message won't be the hook's until the next render.
+   */
+  const send = useCallback(
+    (conversationId: string, message: RoomSendMessage) => {
+      const data = JSON.stringify(message);
+      const current = socketRef.current;
+
+      if (
+        current?.conversationId === conversationId &&
+        current.socket.readyState === WebSocket.OPEN
+      ) {
+        current.socket.send(data);
+      } else {
+        queueRef.current.push({ conversationId, data });
+      }
+    },
+    []
+  );
+
+  return { status, send };
+}
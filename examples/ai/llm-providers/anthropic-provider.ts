@@ -0,0 +1,160 @@
+/**
+ * Anthropic Provider
+ *
+ * Claude via the Anthropic SDK. Pass `baseURL` to route calls through
+ * Cloudflare AI Gateway (see with-ai-gateway).
+ *
+ * Prerequisites:
+ * 1. npm install @anthropic-ai/sdk
+ * 2. ANTHROPIC_API_KEY secret
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  DEFAULT_MAX_TOKENS,
+  providerHttpError,
+  type LLMCompletion,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMStreamEvent,
+  type LLMUsage,
+  type StopReason,
+} from './llm-provider';
+import { RateLimitedError, UpstreamAIError } from '../../../worker/errors';
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  baseURL?: string;
+  defaultModel?: string;
+  defaultHeaders?: Record<string, string>;
+  /**
+   * The SDK's own retries. Off by default: RetryingProvider (retry.ts)
+   * retries every provider the same way, and logs it.
+   */
+  maxRetries?: number;
+}
+
+// Claude's stop reasons already use the normalized names, except tool use
+// and pauses, which these examples never request
+function toStopReason(reason: string | null): StopReason | null {
+  switch (reason) {
+    case 'end_turn':
+    case 'max_tokens':
+    case 'stop_sequence':
+    case 'refusal':
+      return reason;
+    default:
+      return null;
+  }
+}
+
+// Keeps the Retry-After Anthropic sends with 429s and 529 overloaded errors
+function toUpstreamError(error: unknown): unknown {
+  if (error instanceof Anthropic.APIError) {
+    const retryAfter = Number(
+      new Headers(error.headers as HeadersInit | undefined).get('retry-after')
+    );
+
+    if (error.status === 429) {
+      return new RateLimitedError(error.message, retryAfter > 0 ? retryAfter : undefined);
+    }
+
+    const headers = retryAfter > 0 ? { 'Retry-After': String(retryAfter) } : undefined;
+
+    // Connection errors and timeouts have no status
+    return error.status
+      ? providerHttpError(error.message, error.status, { headers, cause: error })
+      : new UpstreamAIError(error.message, { headers, cause: error });
+  }
+
+  return error;
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly defaultModel: string;
+  private client: Anthropic;
+
+  constructor(options: AnthropicProviderOptions) {
+    this.defaultModel = options.defaultModel ?? 'claude-3-5-sonnet-20241022';
+    this.client = new Anthropic({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      defaultHeaders: options.defaultHeaders,
+      maxRetries: options.maxRetries ?? 0,
+    });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    try {
+      const response = await this.client.messages.create({
+        model: request.model ?? this.defaultModel,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        system: request.system,
+        messages: request.messages,
+      }, { signal: request.signal });
+
+      return {
+        provider: this.name,
+        model: response.model,
+        text: response.content
+          .map((block) => (block.type === 'text' ? block.text : ''))
+          .join(''),
+        usage: {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens,
+        },
+        stopReason: toStopReason(response.stop_reason),
+      };
+    } catch (error) {
+      throw toUpstreamError(error);
+    }
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    let model = request.model ?? this.defaultModel;
+    let stopReason: StopReason | null = null;
+    const usage: LLMUsage = { inputTokens: 0, outputTokens: 0 };
+
+    try {
+      const stream = await this.client.messages.create({
+        model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        system: request.system,
+        messages: request.messages,
+        stream: true,
+      }, { signal: request.signal });
+
+      for await (const event of stream) {
+        switch (event.type) {
+          case 'message_start':
+            // Input tokens are known as soon as the message starts
+            model = event.message.model;
+            usage.inputTokens = event.message.usage.input_tokens;
+            yield { type: 'start', model, usage: { ...usage } };
+            break;
+
+          case 'content_block_delta':
+            if (event.delta.type === 'text_delta') {
+              yield { type: 'text', text: event.delta.text };
+            }
+            break;
+
+          case 'message_delta':
+            // Cumulative output token count and the stop reason
+            usage.outputTokens = event.usage.output_tokens;
+            stopReason = toStopReason(event.delta.stop_reason);
+            break;
+
+          case 'message_stop':
+            yield { type: 'done', model, usage: { ...usage }, stopReason };
+            return;
+        }
+      }
+    } catch (error) {
+      throw toUpstreamError(error);
+    }
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Circuit Breaker Durable Object
+ *
+ * Tracks the health of one provider and model; fallback-chain.ts addresses
+ * it with idFromName(`<provider>:<model>`). Every isolate reports outcomes
+ * to the same instance, so a provider that is failing for everyone is
+ * skipped by everyone, instead of each isolate discovering it on its own.
+ *
+ * - closed: calls go through; outcomes are counted over a rolling window
+ * - open: too many recent calls failed; calls are skipped until the
+ *   cooldown has passed
+ * - half-open: after the cooldown, one probe call goes through. Success
+ *   closes the circuit, failure opens it for another cooldown.
+ *
+ * Idle state is deleted by an alarm, which leaves the circuit closed.
+ *
+ * Prerequisites:
+ * 1. Binding and migration in wrangler.jsonc:
+ *    "durable_objects": {
+ *      "bindings": [{ "name": "CIRCUIT_BREAKER", "class_name": "CircuitBreakerDurableObject" }]
+ *    },
+ *    "migrations": [{ "tag": "v2", "new_sqlite_classes": ["CircuitBreakerDurableObject"] }]
+ *    (use the next unused tag: v2 here assumes v1 added the rate limiter)
+ *
+ * 2. Export the class from worker/index.ts:
+ *    export { CircuitBreakerDurableObject } from '../examples/ai/llm-providers/circuit-breaker-durable-object';
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+
+export interface CircuitBreakerPolicy {
+  // Share of failed calls in the window (0-1) that opens the circuit
+  failureThreshold: number;
+  // Calls needed in the window before the failure rate is trusted
+  minRequests: number;
+  // Seconds of history the failure rate covers
+  window: number;
+  // Seconds an open circuit waits before letting a probe through
+  cooldown: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_POLICY: CircuitBreakerPolicy = {
+  failureThreshold: 0.5,
+  minRequests: 5,
+  window: 60,
+  cooldown: 30,
+};
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStatus {
+  state: CircuitState;
+  // Whether this call may go to the provider
+  allowed: boolean;
+  // Calls and failures counted in the current window
+  requests: number;
+  failures: number;
+  // Seconds until a skipped call could be tried again; 0 if allowed
+  retryAfter: number;
+}
+
+interface Bucket {
+  // Epoch milliseconds
+  start: number;
+  successes: number;
+  failures: number;
+}
+
+interface CircuitData {
+  state: CircuitState;
+  // Epoch milliseconds; set while open or half-open
+  openedAt: number | null;
+  // Epoch milliseconds until which the half-open probe is in flight
+  probeUntil: number | null;
+  buckets: Bucket[];
+}
+
+const CIRCUIT_KEY = 'circuit';
+
+// The window is counted in this many slices, so old outcomes drop out
+// gradually instead of all at once
+const BUCKETS_PER_WINDOW = 10;
+
+export class CircuitBreakerDurableObject extends DurableObject {
+  /**
+   * Ask whether a call may go through. In half-open state only the first
+   * caller gets the probe; a probe that never reports frees itself after
+   * `probeTimeout` seconds.
+   */
+  async acquire(
+    policy: CircuitBreakerPolicy,
+    probeTimeout: number
+  ): Promise<CircuitStatus> {
+    const now = Date.now();
+    const data = await this.load(policy, now);
+
+    if (data.state !== 'closed') {
+      const reopensAt = (data.openedAt ?? now) + policy.cooldown * 1000;
+      const probeBusy = data.probeUntil !== null && data.probeUntil > now;
+
+      if (now < reopensAt || probeBusy) {
+        const waitUntil = Math.max(reopensAt, data.probeUntil ?? 0);
+        return this.status(data, false, (waitUntil - now) / 1000);
+      }
+
+      data.state = 'half-open';
+      data.probeUntil = now + probeTimeout * 1000;
+      await this.save(data, policy, now);
+    }
+
+    return this.status(data, true, 0);
+  }
+
+  /**
+   * Report the outcome of a call that acquire() allowed.
+   * Returns the state after counting it.
+   */
+  async record(policy: CircuitBreakerPolicy, success: boolean): Promise<CircuitState> {
+    const now = Date.now();
+    const data = await this.load(policy, now);
+
+    // The probe decides: healthy again, or another cooldown
+    if (data.state === 'half-open') {
+      data.probeUntil = null;
+
+      if (success) {
+        data.state = 'closed';
+        data.openedAt = null;
+        data.buckets = [];
+      } else {
+        data.state = 'open';
+        data.openedAt = now;
+      }
+    }
+
+    this.count(data, policy, now, success);
+
+    if (data.state === 'closed') {
+      const { requests, failures } = totals(data.buckets);
+
+      if (
+        requests >= policy.minRequests &&
+        failures / requests >= policy.failureThreshold
+      ) {
+        data.state = 'open';
+        data.openedAt = now;
+      }
+    }
+
+    await this.save(data, policy, now);
+
+    return data.state;
+  }
+
+  // Nothing stored affects the circuit any more; start closed
+  async alarm(): Promise<void> {
+    await this.ctx.storage.deleteAll();
+  }
+
+  // Stored state with outcomes older than the window dropped
+  private async load(policy: CircuitBreakerPolicy, now: number): Promise<CircuitData> {
+    const data = (await this.ctx.storage.get<CircuitData>(CIRCUIT_KEY)) ?? {
+      state: 'closed',
+      openedAt: null,
+      probeUntil: null,
+      buckets: [],
+    };
+
+    const windowStart = now - policy.window * 1000;
+    data.buckets = data.buckets.filter((bucket) => bucket.start > windowStart);
+
+    return data;
+  }
+
+  private count(
+    data: CircuitData,
+    policy: CircuitBreakerPolicy,
+    now: number,
+    success: boolean
+  ): void {
+    const bucketMs = (policy.window * 1000) / BUCKETS_PER_WINDOW;
+    const start = now - (now % bucketMs);
+
+    let bucket = data.buckets.at(-1);
+    if (!bucket || bucket.start !== start) {
+      bucket = { start, successes: 0, failures: 0 };
+      data.buckets.push(bucket);
+    }
+
+    if (success) {
+      bucket.successes += 1;
+    } else {
+      bucket.failures += 1;
+    }
+  }
+
+  private async save(
+    data: CircuitData,
+    policy: CircuitBreakerPolicy,
+    now: number
+  ): Promise<void> {
+    await this.ctx.storage.put<CircuitData>(CIRCUIT_KEY, data);
+
+    // Idle once the window has emptied and any cooldown has passed
+    const idleAt = Math.max(
+      now + policy.window * 1000,
+      (data.openedAt ?? 0) + policy.cooldown * 1000,
+      data.probeUntil ?? 0
+    );
+    const current = await this.ctx.storage.getAlarm();
+
+    if (current === null || idleAt > current) {
+      await this.ctx.storage.setAlarm(idleAt);
+    }
+  }
+
+  private status(data: CircuitData, allowed: boolean, retryAfter: number): CircuitStatus {
+    return {
+      state: data.state,
+      allowed,
+      ...totals(data.buckets),
+      retryAfter: Math.max(0, retryAfter),
+    };
+  }
+}
+
+function totals(buckets: Bucket[]): { requests: number; failures: number } {
+  let requests = 0;
+  let failures = 0;
+
+  for (const bucket of buckets) {
+    requests += bucket.successes + bucket.failures;
+    failures += bucket.failures;
+  }
+
+  return { requests, failures };
+}
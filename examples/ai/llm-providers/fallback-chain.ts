@@ -0,0 +1,341 @@
+/**
+ * Fallback Chain
+ *
+ * Sends a completion to an ordered list of providers and models, moving to
+ * the next one only for errors the policy says another provider might not
+ * hit:
+ *
+ * const completion = await completeWithFallback(env, {
+ *   targets: [
+ *     { provider: 'anthropic', model: 'claude-3-5-sonnet-20241022', timeout: 20 },
+ *     { provider: 'openai', model: 'gpt-4o-mini' },
+ *   ],
+ * }, { messages }, context);
+ *
+ * completion.provider and completion.model name the target that answered;
+ * completion.attempts lists every target tried or skipped on the way.
+ *
+ * Errors are sorted into classes (see classifyError). By default timeouts,
+ * rate limits and 5xx responses fail over; a 400 is returned straight away,
+ * since the same request would be rejected by every provider.
+ *
+ * Each target has a circuit breaker (circuit-breaker-durable-object.ts):
+ * targets that have been failing recently are skipped without a call until
+ * they've had time to recover. If the breaker can't be reached, calls go
+ * through and the failure is logged.
+ *
+ * Prerequisites:
+ * 1. Credentials for each named provider (see provider-config.ts)
+ * 2. CircuitBreakerDurableObject bound as "CIRCUIT_BREAKER", unless the
+ *    policy sets `circuitBreaker: false`
+ */
+
+import {
+  DEFAULT_CIRCUIT_BREAKER_POLICY,
+  type CircuitBreakerDurableObject,
+  type CircuitBreakerPolicy,
+  type CircuitStatus,
+} from './circuit-breaker-durable-object';
+import {
+  upstreamStatus,
+  type LLMCompletion,
+  type LLMProvider,
+  type LLMRequest,
+  type ProviderName,
+} from './llm-provider';
+import { getLLMProvider } from './provider-config';
+import { ApiError, UpstreamAIError } from '../../../worker/errors';
+import type { RouteContext } from '../../../worker/router';
+
+export interface FallbackTarget {
+  // A configured provider by name, or an adapter built by the caller
+  // (for example one pointed at AI Gateway)
+  provider: ProviderName | LLMProvider;
+  // Defaults to the provider's default model
+  model?: string;
+  // Seconds before this attempt is abandoned; defaults to the policy's
+  timeout?: number;
+}
+
+/**
+ * What went wrong with an attempt:
+ * - timeout: no response within the attempt's timeout, or a 504
+ * - rate_limit: 429 from the provider
+ * - server: 5xx, or the provider couldn't be reached
+ * - auth: 401 or 403, usually a bad or missing key for that provider
+ * - client: any other 4xx; the request itself was rejected
+ * - configuration: the provider isn't set up in this environment
+ */
+export type FailoverErrorClass =
+  | 'timeout'
+  | 'rate_limit'
+  | 'server'
+  | 'auth'
+  | 'client'
+  | 'configuration';
+
+export interface FallbackPolicy {
+  // Tried in order
+  targets: FallbackTarget[];
+  // Error classes that move on to the next target; defaults to
+  // DEFAULT_FAILOVER_ON. Anything else is thrown as is.
+  failoverOn?: FailoverErrorClass[];
+  // Seconds per attempt unless a target sets its own; defaults to 30
+  timeout?: number;
+  // Defaults to DEFAULT_CIRCUIT_BREAKER_POLICY; false turns breakers off
+  circuitBreaker?: CircuitBreakerPolicy | false;
+}
+
+export const DEFAULT_FAILOVER_ON: readonly FailoverErrorClass[] = [
+  'timeout',
+  'rate_limit',
+  'server',
+];
+
+const DEFAULT_ATTEMPT_TIMEOUT = 30;
+
+// Only these say something about the provider's health. The rest mean it
+// answered, so they count as successes for the breaker.
+const UNHEALTHY: readonly FailoverErrorClass[] = ['timeout', 'rate_limit', 'server'];
+
+export interface FallbackAttempt {
+  provider: ProviderName;
+  // Null when the provider couldn't be set up and had no model given
+  model: string | null;
+  // skipped: the target's circuit was open, so it wasn't called
+  outcome: 'success' | 'failed' | 'skipped';
+  errorClass?: FailoverErrorClass;
+  // HTTP status of the error, when it had one
+  status?: number;
+  // Seconds until a skipped target may be tried again
+  retryAfter?: number;
+  durationMs: number;
+}
+
+export type FallbackCompletion = LLMCompletion & { attempts: FallbackAttempt[] };
+
+/**
+ * Which class an error from a provider falls into
+ */
+export function classifyError(error: unknown): FailoverErrorClass {
+  if (!(error instanceof ApiError)) {
+    // Network failures and unexpected responses
+    return 'server';
+  }
+
+  if (error.code === 'CONFIGURATION_ERROR') return 'configuration';
+
+  const status = upstreamStatus(error);
+  if (status === 504) return 'timeout';
+  if (status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  if (status === 401 || status === 403) return 'auth';
+
+  return 'client';
+}
+
+/**
+ * Complete `request` with the first target in the policy that succeeds.
+ *
+ * Errors the policy doesn't fail over on are thrown from the target that
+ * raised them. If every target fails or is skipped, throws a 503
+ * UPSTREAM_AI_ERROR with the attempts in `details`.
+ *
+ * Pass the route context so breaker updates run after the response via
+ * ctx.waitUntil, and logs carry the request ID.
+ */
+export async function completeWithFallback(
+  env: Env,
+  policy: FallbackPolicy,
+  request: LLMRequest,
+  context?: Pick<RouteContext, 'ctx' | 'requestId'>
+): Promise<FallbackCompletion> {
+  const failoverOn = policy.failoverOn ?? DEFAULT_FAILOVER_ON;
+  const breakerPolicy =
+    policy.circuitBreaker === false
+      ? null
+      : (policy.circuitBreaker ?? DEFAULT_CIRCUIT_BREAKER_POLICY);
+  const logPrefix = context ? `[${context.requestId}] ` : '';
+
+  const attempts: FallbackAttempt[] = [];
+  let lastError: unknown;
+
+  for (const target of policy.targets) {
+    const started = Date.now();
+    let provider: LLMProvider;
+
+    try {
+      provider =
+        typeof target.provider === 'string'
+          ? getLLMProvider(env, target.provider)
+          : target.provider;
+    } catch (error) {
+      const name = typeof target.provider === 'string' ? target.provider : target.provider.name;
+      attempts.push(failedAttempt(name, target.model ?? null, error, started));
+
+      if (!failoverOn.includes('configuration')) throw error;
+      lastError = error;
+      continue;
+    }
+
+    const model = target.model ?? provider.defaultModel;
+    const timeout = target.timeout ?? policy.timeout ?? DEFAULT_ATTEMPT_TIMEOUT;
+    const breaker = breakerPolicy
+      ? getBreaker(env, `${provider.name}:${model}`)
+      : null;
+
+    if (breaker && breakerPolicy) {
+      const status = await acquire(breaker, breakerPolicy, timeout, logPrefix);
+
+      if (status && !status.allowed) {
+        attempts.push({
+          provider: provider.name,
+          model,
+          outcome: 'skipped',
+          retryAfter: Math.ceil(status.retryAfter),
+          durationMs: Date.now() - started,
+        });
+        continue;
+      }
+    }
+
+    try {
+      const completion = await withTimeout(timeout, (signal) =>
+        provider.complete({ ...request, model, signal })
+      );
+
+      attempts.push({
+        provider: provider.name,
+        model,
+        outcome: 'success',
+        durationMs: Date.now() - started,
+      });
+
+      if (breaker && breakerPolicy) {
+        report(breaker, breakerPolicy, true, context, logPrefix);
+      }
+
+      return { ...completion, attempts };
+    } catch (error) {
+      const errorClass = classifyError(error);
+      attempts.push(failedAttempt(provider.name, model, error, started));
+
+      if (breaker && breakerPolicy) {
+        report(breaker, breakerPolicy, !UNHEALTHY.includes(errorClass), context, logPrefix);
+      }
+
+      if (!failoverOn.includes(errorClass)) {
+        throw error;
+      }
+
+      console.warn(
+        `${logPrefix}${provider.name}:${model} failed (${errorClass}), trying the next target`
+      );
+      lastError = error;
+    }
+  }
+
+  // When every target was skipped, the earliest reopening is worth waiting for
+  const waits = attempts
+    .filter((attempt) => attempt.outcome === 'skipped')
+    .map((attempt) => attempt.retryAfter ?? 0);
+  const retryAfter =
+    waits.length === attempts.length && waits.length > 0 ? Math.min(...waits) : 0;
+
+  throw new UpstreamAIError('All AI providers failed', {
+    status: 503,
+    details: { attempts },
+    headers: retryAfter > 0 ? { 'Retry-After': String(retryAfter) } : undefined,
+    cause: lastError,
+  });
+}
+
+function failedAttempt(
+  provider: ProviderName,
+  model: string | null,
+  error: unknown,
+  started: number
+): FallbackAttempt {
+  return {
+    provider,
+    model,
+    outcome: 'failed',
+    errorClass: classifyError(error),
+    status: error instanceof ApiError ? upstreamStatus(error) : undefined,
+    durationMs: Date.now() - started,
+  };
+}
+
+/**
+ * Run `call` with a signal that aborts after `seconds`. Providers that
+ * can't be aborted are still raced, so the chain moves on either way.
+ */
+async function withTimeout<T>(
+  seconds: number,
+  call: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  let timeOut: (error: Error) => void = () => {};
+  const timedOut = new Promise<never>((_resolve, reject) => {
+    timeOut = reject;
+  });
+
+  const timer = setTimeout(() => {
+    // Settle first, so the race isn't won by the provider's abort error
+    timeOut(new UpstreamAIError(`No response within ${seconds}s`, { status: 504 }));
+    controller.abort();
+  }, seconds * 1000);
+
+  try {
+    return await Promise.race([call(controller.signal), timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function getBreaker(
+  env: Env,
+  key: string
+): DurableObjectStub<CircuitBreakerDurableObject> {
+  const namespace: DurableObjectNamespace<CircuitBreakerDurableObject> | undefined =
+    env.CIRCUIT_BREAKER;
+
+  if (!namespace) {
+    throw new ApiError(500, 'CONFIGURATION_ERROR', 'Circuit breaker not configured');
+  }
+
+  return namespace.get(namespace.idFromName(key));
+}
+
+// Null when the breaker is unavailable, which lets the call through
+async function acquire(
+  breaker: DurableObjectStub<CircuitBreakerDurableObject>,
+  policy: CircuitBreakerPolicy,
+  probeTimeout: number,
+  logPrefix: string
+): Promise<CircuitStatus | null> {
+  try {
+    return await breaker.acquire(policy, probeTimeout);
+  } catch (error) {
+    console.error(`${logPrefix}Circuit breaker unavailable:`, error);
+    return null;
+  }
+}
+
+// Outcomes don't change the response, so they're recorded after it
+function report(
+  breaker: DurableObjectStub<CircuitBreakerDurableObject>,
+  policy: CircuitBreakerPolicy,
+  success: boolean,
+  context: Pick<RouteContext, 'ctx'> | undefined,
+  logPrefix: string
+): void {
+  const recorded = breaker.record(policy, success).then(
+    () => undefined,
+    (error: unknown) => {
+      console.error(`${logPrefix}Circuit breaker unavailable:`, error);
+    }
+  );
+
+  context?.ctx.waitUntil(recorded);
+}
@@ -0,0 +1,134 @@
+/**
+ * LLM Providers
+ *
+ * One interface for every model backend the AI examples call. Handlers build
+ * an LLMRequest, call complete() or stream(), and get back the same shapes
+ * whichever provider served it:
+ *
+ * - AnthropicProvider (anthropic-provider.ts): Claude via the Anthropic SDK
+ * - WorkersAIProvider (workers-ai-provider.ts): the Workers AI binding
+ * - OpenAIProvider (openai-provider.ts): OpenAI and any API that speaks its
+ *   chat completions format
+ *
+ * getLLMProvider (provider-config.ts) picks one from the environment, so
+ * switching providers is a config change.
+ *
+ * Adapters throw the typed errors from worker/errors.ts (UpstreamAIError,
+ * RateLimitedError), so handlers don't need to know provider error classes.
+ * An HTTP error from a provider reaches the client as a 502, or a 503 when
+ * the provider is overloaded; its own status stays on `upstreamStatus`.
+ */
+
+import { ApiError, UpstreamAIError } from '../../../worker/errors';
+
+export type ProviderName = 'anthropic' | 'workers-ai' | 'openai';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  /** Provider model ID; each provider falls back to its default */
+  model?: string;
+  /** Sent the way each provider expects (Anthropic's `system`, or a first message) */
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  /** Aborts the upstream request; used for timeouts */
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Why generation stopped. Provider values are mapped onto these;
+ * anything else is reported as null.
+ */
+export type StopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'refusal';
+
+export interface LLMCompletion {
+  provider: ProviderName;
+  /** Model that served the call, as reported by the provider */
+  model: string;
+  text: string;
+  /** Null when the provider doesn't report token counts */
+  usage: LLMUsage | null;
+  stopReason: StopReason | null;
+}
+
+/**
+ * Events yielded by LLMProvider.stream()
+ *
+ * `start` comes first, with the input tokens when the provider reports them
+ * up front, so a stream that fails part way can still be accounted for.
+ * `done` comes last, only if the stream completed.
+ */
+export type LLMStreamEvent =
+  | { type: 'start'; model: string; usage: LLMUsage | null }
+  | { type: 'text'; text: string }
+  | {
+      type: 'done';
+      model: string;
+      usage: LLMUsage | null;
+      stopReason: StopReason | null;
+    };
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly defaultModel: string;
+
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+
+  /**
+   * Stream a response. The request is sent when iteration starts; stopping
+   * iteration early cancels the upstream request.
+   */
+  stream(request: LLMRequest): AsyncIterable<LLMStreamEvent>;
+}
+
+/** Output token limit when a request doesn't set one */
+export const DEFAULT_MAX_TOKENS = 1024;
+
+/**
+ * Conversation history plus the new user message, skipping empty entries
+ */
+export function conversationMessages(
+  message: string,
+  history: LLMMessage[] = []
+): LLMMessage[] {
+  return [
+    ...history.filter((entry) => entry.role && entry.content),
+    { role: 'user', content: message },
+  ];
+}
+
+// Provider statuses that mean "busy, try later"; sent to the client as 503
+const OVERLOADED_STATUSES = [503, 529];
+
+/**
+ * UpstreamAIError for an HTTP error from a provider
+ */
+export function providerHttpError(
+  message: string,
+  upstreamStatus: number,
+  options: { headers?: Record<string, string>; cause?: unknown } = {}
+): UpstreamAIError {
+  return new UpstreamAIError(message, {
+    ...options,
+    status: OVERLOADED_STATUSES.includes(upstreamStatus) ? 503 : 502,
+    upstreamStatus,
+  });
+}
+
+/**
+ * The status the provider answered with, for retries and failover; the
+ * error's own status otherwise
+ */
+export function upstreamStatus(error: ApiError): number {
+  return (error instanceof UpstreamAIError && error.upstreamStatus) || error.status;
+}
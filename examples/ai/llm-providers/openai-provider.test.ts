@@ -0,0 +1,50 @@
+import { fetchMock } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { OpenAIProvider } from './openai-provider';
+import { isRetryable } from './retry';
+import { UpstreamAIError } from '../../../worker/errors';
+
+const provider = new OpenAIProvider({ apiKey: 'test', baseURL: 'https://openai.test/v1' });
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+async function failWith(status: number): Promise<UpstreamAIError> {
+  fetchMock
+    .get('https://openai.test')
+    .intercept({ path: '/v1/chat/completions', method: 'POST' })
+    .reply(status, { error: { message: 'Provider says no' } });
+
+  const error = await provider
+    .complete({ messages: [{ role: 'user', content: 'Hi' }] })
+    .catch((error: unknown) => error);
+
+  expect(error).toBeInstanceOf(UpstreamAIError);
+  return error as UpstreamAIError;
+}
+
+describe('OpenAIProvider errors', () => {
+  it('sends a bad API key to the client as a 502', async () => {
+    const error = await failWith(401);
+
+    expect(error.status).toBe(502);
+    expect(error.upstreamStatus).toBe(401);
+    expect(isRetryable(error)).toBe(false);
+  });
+
+  it('sends an overloaded provider to the client as a 503', async () => {
+    const error = await failWith(503);
+
+    expect(error.status).toBe(503);
+    expect(isRetryable(error)).toBe(true);
+  });
+
+  it('sends a rejected request to the client as a 502', async () => {
+    const error = await failWith(400);
+
+    expect(error.status).toBe(502);
+    expect(isRetryable(error)).toBe(false);
+  });
+});
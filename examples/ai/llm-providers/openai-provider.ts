@@ -0,0 +1,178 @@
+/**
+ * OpenAI Provider
+ *
+ * The chat completions API over fetch, so there's no SDK to install. Any API
+ * that speaks the same format works by changing `baseURL`: OpenAI itself,
+ * AI Gateway's /openai endpoint, Groq, OpenRouter, a local server, ...
+ *
+ * Prerequisites:
+ * 1. OPENAI_API_KEY secret (and OPENAI_BASE_URL for other compatible APIs)
+ */
+
+import {
+  DEFAULT_MAX_TOKENS,
+  providerHttpError,
+  type LLMCompletion,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMStreamEvent,
+  type LLMUsage,
+  type StopReason,
+} from './llm-provider';
+import { readServerSentEvents } from './sse';
+import { RateLimitedError, UpstreamAIError } from '../../../worker/errors';
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  /** Defaults to https://api.openai.com/v1 */
+  baseURL?: string;
+  defaultModel?: string;
+  defaultHeaders?: Record<string, string>;
+}
+
+// The parts of the chat completions response (and stream chunks) used here
+interface ChatCompletion {
+  model: string;
+  choices: Array<{
+    message?: { content: string | null };
+    delta?: { content?: string | null };
+    finish_reason: string | null;
+  }>;
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
+function toStopReason(reason: string | null): StopReason | null {
+  switch (reason) {
+    case 'stop':
+      return 'end_turn';
+    case 'length':
+      return 'max_tokens';
+    case 'content_filter':
+      return 'refusal';
+    default:
+      return null;
+  }
+}
+
+function toUsage(usage: ChatCompletion['usage']): LLMUsage | null {
+  if (!usage) {
+    return null;
+  }
+
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+  };
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  readonly defaultModel: string;
+  private options: OpenAIProviderOptions;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.options = options;
+    this.defaultModel = options.defaultModel ?? 'gpt-4o-mini';
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const response = await this.post(request, false);
+    const data = (await response.json()) as ChatCompletion;
+    const choice = data.choices[0];
+
+    return {
+      provider: this.name,
+      model: data.model,
+      text: choice?.message?.content ?? '',
+      usage: toUsage(data.usage),
+      stopReason: toStopReason(choice?.finish_reason ?? null),
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const response = await this.post(request, true);
+
+    let model = request.model ?? this.defaultModel;
+    let started = false;
+    let usage: LLMUsage | null = null;
+    let stopReason: StopReason | null = null;
+
+    try {
+      for await (const data of readServerSentEvents(response.body!)) {
+        if (data === '[DONE]') break;
+
+        const chunk = JSON.parse(data) as ChatCompletion;
+
+        if (!started) {
+          model = chunk.model || model;
+          started = true;
+          yield { type: 'start', model, usage: null };
+        }
+
+        const choice = chunk.choices[0];
+        if (choice?.delta?.content) {
+          yield { type: 'text', text: choice.delta.content };
+        }
+        if (choice?.finish_reason) {
+          stopReason = toStopReason(choice.finish_reason);
+        }
+        // Requested with stream_options.include_usage: a final chunk with no choices
+        usage = toUsage(chunk.usage) ?? usage;
+      }
+    } catch (error) {
+      // A dropped connection or a malformed chunk part way through
+      throw new UpstreamAIError('OpenAI stream failed', { cause: error });
+    }
+
+    yield { type: 'done', model, usage, stopReason };
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const messages: Array<LLMMessage | { role: 'system'; content: string }> =
+      request.system
+        ? [{ role: 'system', content: request.system }, ...request.messages]
+        : request.messages;
+
+    const baseURL = this.options.baseURL ?? 'https://api.openai.com/v1';
+    let response: Response;
+
+    try {
+      response = await fetch(`${baseURL}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          ...this.options.defaultHeaders,
+          'Authorization': `Bearer ${this.options.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: request.model ?? this.defaultModel,
+          messages,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: request.temperature,
+          ...(stream && { stream: true, stream_options: { include_usage: true } }),
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      throw new UpstreamAIError('OpenAI request failed', { cause: error });
+    }
+
+    if (response.ok) {
+      return response;
+    }
+
+    // Error bodies look like { error: { message } }
+    const body = (await response.json().catch(() => null)) as {
+      error?: { message?: string };
+    } | null;
+    const message = body?.error?.message ?? `OpenAI returned ${response.status}`;
+
+    if (response.status === 429) {
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw new RateLimitedError(message, retryAfter > 0 ? retryAfter : undefined);
+    }
+
+    throw providerHttpError(message, response.status);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Provider Configuration
+ *
+ * getLLMProvider builds the provider named by the LLM_PROVIDER variable, so
+ * the chat endpoints move between Claude, Workers AI and OpenAI-compatible
+ * APIs without code changes:
+ *
+ * LLM_PROVIDER     "anthropic" (default), "workers-ai" or "openai"
+ * LLM_MODEL        Optional default model for that provider
+ * OPENAI_BASE_URL  Optional, for OpenAI-compatible APIs other than OpenAI
+ *
+ * Plus the chosen provider's credentials: ANTHROPIC_API_KEY, the AI binding,
+ * or OPENAI_API_KEY.
+ */
+
+import { AnthropicProvider } from './anthropic-provider';
+import type { LLMProvider, ProviderName } from './llm-provider';
+import { OpenAIProvider } from './openai-provider';
+import { WorkersAIProvider } from './workers-ai-provider';
+import { ApiError } from '../../../worker/errors';
+
+export const PROVIDER_NAMES: readonly ProviderName[] = [
+  'anthropic',
+  'workers-ai',
+  'openai',
+];
+
+function isProviderName(value: string): value is ProviderName {
+  return (PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * The provider to use: `name` when given (for endpoints tied to one
+ * backend), otherwise LLM_PROVIDER, otherwise Anthropic.
+ * Missing credentials are a 500 CONFIGURATION_ERROR.
+ */
+export function getLLMProvider(env: Env, name?: ProviderName): LLMProvider {
+  const selected: string = name ?? env.LLM_PROVIDER ?? 'anthropic';
+  const defaultModel = name ? undefined : env.LLM_MODEL || undefined;
+
+  if (!isProviderName(selected)) {
+    throw new ApiError(
+      500,
+      'CONFIGURATION_ERROR',
+      `Unknown LLM_PROVIDER "${selected}". Use one of: ${PROVIDER_NAMES.join(', ')}`
+    );
+  }
+
+  switch (selected) {
+    case 'anthropic':
+      if (!env.ANTHROPIC_API_KEY) {
+        console.error('ANTHROPIC_API_KEY not found in environment');
+        throw new ApiError(500, 'CONFIGURATION_ERROR', 'API key not configured');
+      }
+      return new AnthropicProvider({
+        apiKey: env.ANTHROPIC_API_KEY,
+        defaultModel,
+      });
+
+    case 'workers-ai':
+      if (!env.AI) {
+        console.error('AI binding not found in environment');
+        throw new ApiError(
+          500,
+          'CONFIGURATION_ERROR',
+          'Workers AI not configured. Add AI binding to wrangler.jsonc'
+        );
+      }
+      return new WorkersAIProvider(env.AI, { defaultModel });
+
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        console.error('OPENAI_API_KEY not found in environment');
+        throw new ApiError(500, 'CONFIGURATION_ERROR', 'API key not configured');
+      }
+      return new OpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        baseURL: env.OPENAI_BASE_URL || undefined,
+        defaultModel,
+      });
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import { isRetryable, withRetry, type RetryPolicy } from './retry';
+import { RateLimitedError, UpstreamAIError } from '../../../worker/errors';
+
+// No waiting between tries
+const policy: RetryPolicy = { maxAttempts: 3, baseDelay: 0, maxDelay: 1, budget: 10 };
+
+describe('isRetryable', () => {
+  it.each([
+    ['a 502', new UpstreamAIError('Bad gateway')],
+    ['a 529', new UpstreamAIError('Overloaded', { status: 529 })],
+    ['a rate limit', new RateLimitedError('Slow down')],
+    ['a timeout', new DOMException('Timed out', 'TimeoutError')],
+    ['a network error', new DOMException('Connection lost', 'NetworkError')],
+  ])('retries %s', (_name, error) => {
+    expect(isRetryable(error)).toBe(true);
+  });
+
+  it.each([
+    ['a 400', new UpstreamAIError('Bad request', { status: 400 })],
+    ['a TypeError', new TypeError('x is undefined')],
+    ['a JSON parse error', new SyntaxError('Unexpected token')],
+    ['an abort', new DOMException('Aborted', 'AbortError')],
+    ['a thrown string', 'oops'],
+  ])('does not retry %s', (_name, error) => {
+    expect(isRetryable(error)).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries a transient failure', async () => {
+    const call = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new UpstreamAIError('Overloaded', { status: 529 }))
+      .mockResolvedValue('ok');
+
+    await expect(withRetry('test', call, { policy })).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws a programming error on the first try', async () => {
+    const error = new TypeError('x is undefined');
+    const call = vi.fn<() => Promise<string>>().mockRejectedValue(error);
+
+    await expect(withRetry('test', call, { policy })).rejects.toBe(error);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Retries
+ *
+ * Retries provider calls that failed for reasons likely to pass: overload
+ * (Anthropic's 529), rate limits, 5xx, timeouts and dropped connections.
+ * Waits grow exponentially with full jitter, so isolates that failed
+ * together don't retry together. A Retry-After from the provider is used
+ * instead when there is one. Any other error, such as a bug in an adapter
+ * or a request rejected by the provider, is thrown at once.
+ *
+ * RetryingProvider wraps any LLMProvider:
+ *
+ * const provider = new RetryingProvider(getLLMProvider(env), {
+ *   requestId: context.requestId,
+ * });
+ *
+ * - complete() is retried as a whole
+ * - stream() is retried until the first event arrives. After that, text
+ *   may have reached the client, so a failure is thrown as usual.
+ *
+ * Every retry is bounded by the policy's budget, counted from the first
+ * try: a wait that would end past it isn't started, and neither is one for
+ * a Retry-After longer than maxDelay. Waiting costs no CPU time, but the
+ * client is waiting too, so the default budget keeps well inside a normal
+ * request timeout.
+ *
+ * Retries, give-ups and late successes are logged with the request ID.
+ */
+
+import {
+  upstreamStatus,
+  type LLMCompletion,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMStreamEvent,
+} from './llm-provider';
+import { ApiError } from '../../../worker/errors';
+
+export interface RetryPolicy {
+  // Tries in total, including the first
+  maxAttempts: number;
+  // Seconds; the longest first wait, doubling for each retry after it
+  baseDelay: number;
+  // Seconds; the longest any one wait may be
+  maxDelay: number;
+  // Seconds from the first try after which no retry is started
+  budget: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 0.5,
+  maxDelay: 5,
+  budget: 15,
+};
+
+export interface RetryOptions {
+  policy?: RetryPolicy;
+  // Prefixes log lines, to match them with the error envelope
+  requestId?: string;
+  // Stops retrying once aborted
+  signal?: AbortSignal;
+}
+
+// 408 timeout, 429 rate limited, 5xx, and Anthropic's 529 overloaded
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504, 529];
+
+// DOMException names for a timed-out signal and a failed connection
+const TRANSIENT_ERROR_NAMES = ['TimeoutError', 'NetworkError'];
+
+/**
+ * Whether another try might succeed. The adapters turn network failures
+ * into 502 UpstreamAIErrors; the only other errors retried are timeouts
+ * and network errors that reach here unwrapped.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof ApiError) {
+    return RETRYABLE_STATUSES.includes(upstreamStatus(error));
+  }
+
+  return error instanceof DOMException && TRANSIENT_ERROR_NAMES.includes(error.name);
+}
+
+/**
+ * Seconds from the error's Retry-After header, if it has a usable one
+ */
+export function retryAfterSeconds(error: unknown): number | null {
+  if (!(error instanceof ApiError)) {
+    return null;
+  }
+
+  const seconds = Number(error.headers['Retry-After']);
+  return seconds > 0 ? seconds : null;
+}
+
+// Full jitter: anywhere from 0 up to the exponential cap
+function backoff(policy: RetryPolicy, attempt: number): number {
+  const cap = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  return Math.random() * cap;
+}
+
+function describe(error: unknown): string {
+  if (error instanceof ApiError) {
+    return `${upstreamStatus(error)} ${error.code}: ${error.message}`;
+  }
+
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Why a retry after this attempt won't be made, or null if it will
+function stopReason(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfter: number | null,
+  retryAt: number
+): string | null {
+  if (attempt >= policy.maxAttempts) {
+    return `${attempt} attempts`;
+  }
+  if (retryAfter !== null && retryAfter > policy.maxDelay) {
+    return `Retry-After of ${retryAfter}s`;
+  }
+  if (retryAt > policy.budget) {
+    return `${policy.budget}s retry budget`;
+  }
+
+  return null;
+}
+
+/**
+ * Run `call` until it succeeds, fails with an error that isn't retryable,
+ * or the policy runs out. The last error is thrown unchanged, so callers
+ * see the same typed errors as without retries.
+ */
+export async function withRetry<T>(
+  label: string,
+  call: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const policy = options.policy ?? DEFAULT_RETRY_POLICY;
+  const prefix = options.requestId ? `[${options.requestId}] ` : '';
+  const started = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await call();
+
+      if (attempt > 1) {
+        console.log(`${prefix}${label} succeeded on attempt ${attempt}`);
+      }
+
+      return result;
+    } catch (error) {
+      if (!isRetryable(error) || options.signal?.aborted) {
+        throw error;
+      }
+
+      const retryAfter = retryAfterSeconds(error);
+      const delay = retryAfter ?? backoff(policy, attempt);
+      const elapsed = (Date.now() - started) / 1000;
+      const reason = stopReason(policy, attempt, retryAfter, elapsed + delay);
+
+      if (reason) {
+        console.warn(`${prefix}${label} giving up (${reason}): ${describe(error)}`);
+        throw error;
+      }
+
+      console.warn(
+        `${prefix}${label} attempt ${attempt}/${policy.maxAttempts} failed (${describe(error)}), ` +
+          `retrying in ${delay.toFixed(1)}s`
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, delay * 1000));
+    }
+  }
+}
+
+/**
+ * An LLMProvider that retries the provider it wraps
+ */
+export class RetryingProvider implements LLMProvider {
+  readonly name: LLMProvider['name'];
+  readonly defaultModel: string;
+  private provider: LLMProvider;
+  private options: RetryOptions;
+
+  constructor(provider: LLMProvider, options: RetryOptions = {}) {
+    this.provider = provider;
+    this.options = options;
+    this.name = provider.name;
+    this.defaultModel = provider.defaultModel;
+  }
+
+  complete(request: LLMRequest): Promise<LLMCompletion> {
+    return withRetry(
+      this.label(request),
+      () => this.provider.complete(request),
+      this.retryOptions(request)
+    );
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    // The request is sent by the first next(); nothing has been yielded yet
+    const { iterator, first } = await withRetry(
+      this.label(request),
+      async () => {
+        const iterator = this.provider.stream(request)[Symbol.asyncIterator]();
+        return { iterator, first: await iterator.next() };
+      },
+      this.retryOptions(request)
+    );
+
+    try {
+      for (let next = first; !next.done; next = await iterator.next()) {
+        yield next.value;
+      }
+    } finally {
+      // Cancels the upstream request if the consumer stopped early
+      await iterator.return?.();
+    }
+  }
+
+  private label(request: LLMRequest): string {
+    return `${this.name}:${request.model ?? this.defaultModel}`;
+  }
+
+  private retryOptions(request: LLMRequest): RetryOptions {
+    return { ...this.options, signal: request.signal ?? this.options.signal };
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Server-Sent Events reader for provider streams
+ *
+ * Workers AI and OpenAI-compatible APIs both stream `data:` lines. This
+ * yields each event's data (multi-line data joined with newlines) and
+ * leaves parsing to the caller. Comments and other fields are skipped.
+ */
+
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // Normalized on the whole buffer, so a \r\n split across chunks still matches
+      buffer = (buffer + value).replace(/\r\n/g, '\n');
+
+      // Events end with a blank line; keep any partial event for the next chunk
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        const data = buffer
+          .slice(0, end)
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).replace(/^ /, ''))
+          .join('\n');
+        buffer = buffer.slice(end + 2);
+
+        if (data) {
+          yield data;
+        }
+      }
+    }
+  } finally {
+    // Also runs when the consumer stops early: cancel the upstream body
+    await reader.cancel().catch(() => {});
+  }
+}
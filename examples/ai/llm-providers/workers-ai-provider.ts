@@ -0,0 +1,178 @@
+/**
+ * Workers AI Provider
+ *
+ * Text generation models on the Workers AI binding. No API key; the model
+ * runs on Cloudflare's network.
+ *
+ * Prerequisites:
+ * 1. AI binding in wrangler.jsonc: { "ai": { "binding": "AI" } }
+ */
+
+import type {
+  LLMCompletion,
+  LLMProvider,
+  LLMRequest,
+  LLMStreamEvent,
+  LLMUsage,
+} from './llm-provider';
+import { readServerSentEvents } from './sse';
+import {
+  ApiError,
+  RateLimitedError,
+  UpstreamAIError,
+} from '../../../worker/errors';
+
+// What text generation models return; older models use `text` or `content`
+interface WorkersAIOutput {
+  response?: string;
+  text?: string;
+  content?: string;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+function toUsage(usage: WorkersAIOutput['usage']): LLMUsage | null {
+  if (!usage) {
+    return null;
+  }
+
+  return {
+    inputTokens: usage.prompt_tokens ?? 0,
+    outputTokens: usage.completion_tokens ?? 0,
+  };
+}
+
+function secondsUntilMidnightUTC(): number {
+  const midnight = new Date();
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - Date.now()) / 1000);
+}
+
+// Workers AI errors are plain Errors; map the known ones by message
+function toUpstreamError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (!(error instanceof Error)) {
+    return new UpstreamAIError('Workers AI error', { cause: error });
+  }
+
+  if (error.message.includes('model not found')) {
+    return new UpstreamAIError(
+      'The requested model is not available in Workers AI',
+      { status: 400, cause: error }
+    );
+  }
+
+  if (error.message.includes('rate limit')) {
+    return new RateLimitedError('Workers AI rate limit exceeded. Please try again in a moment');
+  }
+
+  // Busy for the moment; worth retrying
+  if (/capacity/i.test(error.message)) {
+    return new UpstreamAIError(
+      'Workers AI is over capacity. Please try again in a moment',
+      { status: 503, cause: error }
+    );
+  }
+
+  // The daily allocation resets at midnight UTC; saying so stops retries
+  if (error.message.includes('quota')) {
+    return new UpstreamAIError(
+      'Your Workers AI usage limit has been reached',
+      {
+        status: 503,
+        headers: { 'Retry-After': String(secondsUntilMidnightUTC()) },
+        cause: error,
+      }
+    );
+  }
+
+  return new UpstreamAIError('Workers AI error', {
+    details: error.message,
+    cause: error,
+  });
+}
+
+export class WorkersAIProvider implements LLMProvider {
+  readonly name = 'workers-ai';
+  readonly defaultModel: string;
+  private ai: Ai;
+
+  constructor(ai: Ai, options: { defaultModel?: string } = {}) {
+    this.ai = ai;
+    this.defaultModel = options.defaultModel ?? '@cf/meta/llama-3.1-8b-instruct';
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const model = request.model ?? this.defaultModel;
+    let output: unknown;
+
+    try {
+      output = await this.run(model, request, false);
+    } catch (error) {
+      throw toUpstreamError(error);
+    }
+
+    if (typeof output === 'string') {
+      return { provider: this.name, model, text: output, usage: null, stopReason: null };
+    }
+
+    if (typeof output !== 'object' || output === null) {
+      throw new UpstreamAIError('Unexpected response format from Workers AI');
+    }
+
+    const { response, text, content, usage } = output as WorkersAIOutput;
+
+    return {
+      provider: this.name,
+      model,
+      // Fallback: stringify unknown shapes rather than dropping them
+      text: response ?? text ?? content ?? JSON.stringify(output),
+      usage: toUsage(usage),
+      // Workers AI doesn't say why generation stopped
+      stopReason: null,
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const model = request.model ?? this.defaultModel;
+    let usage: LLMUsage | null = null;
+
+    try {
+      const body = (await this.run(model, request, true)) as ReadableStream<Uint8Array>;
+      yield { type: 'start', model, usage: null };
+
+      for await (const data of readServerSentEvents(body)) {
+        if (data === '[DONE]') break;
+
+        const chunk = JSON.parse(data) as WorkersAIOutput;
+        if (chunk.response) {
+          yield { type: 'text', text: chunk.response };
+        }
+        // Models that report usage send it with the last chunk
+        usage = toUsage(chunk.usage) ?? usage;
+      }
+    } catch (error) {
+      throw toUpstreamError(error);
+    }
+
+    yield { type: 'done', model, usage, stopReason: null };
+  }
+
+  // Any text generation model ID is accepted; the binding rejects unknown
+  // ones. Without maxTokens the model's own default applies (256 for most).
+  // The binding takes no abort signal, so request.signal is ignored.
+  private run(model: string, request: LLMRequest, stream: boolean): Promise<unknown> {
+    const messages = request.system
+      ? [{ role: 'system', content: request.system }, ...request.messages]
+      : request.messages;
+
+    return this.ai.run(model as keyof AiModels, {
+      messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream,
+    } as AiTextGenerationInput);
+  }
+}
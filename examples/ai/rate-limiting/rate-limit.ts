@@ -0,0 +1,375 @@
+/**
+ * Rate Limiting
+ *
+ * Limits AI endpoints per client with counters kept in
+ * RateLimiterDurableObject (rate-limiter-durable-object.ts), so limits hold
+ * across every isolate and location:
+ *
+ * - withRateLimit(options, handler): limit one route
+ * - rateLimit(options): router middleware limiting every route under `paths`
+ * - withStreamLimit(options, handler): cap concurrent SSE streams per client
+ *
+ * Usage:
+ * api.post('/chat', withRateLimit(
+ *   { name: 'chat', rule: { algorithm: 'sliding-window', limit: 20, window: 60 } },
+ *   handleChat
+ * ));
+ *
+ * Allowed responses carry RateLimit-Limit, RateLimit-Remaining,
+ * RateLimit-Reset and RateLimit-Policy headers; rejected ones are a
+ * 429 RATE_LIMITED error envelope with the same headers plus Retry-After.
+ *
+ * Clients are told apart by the `keys` option: the first key function that
+ * returns a value wins, and the client IP is the fallback.
+ *
+ * If the Durable Object can't be reached, requests are let through and the
+ * failure is logged: an outage of the limiter shouldn't take the API down.
+ *
+ * Prerequisites:
+ * 1. RateLimiterDurableObject bound as "RATE_LIMITER" and exported from
+ *    worker/index.ts (see rate-limiter-durable-object.ts)
+ */
+
+import type {
+  RateLimitResult,
+  RateLimitRule,
+  RateLimiterDurableObject,
+  StreamLease,
+} from './rate-limiter-durable-object';
+import { ApiError, RateLimitedError, toErrorResponse } from '../../../worker/errors';
+import type { Middleware, RouteContext, RouteHandler } from '../../../worker/router';
+
+export type { RateLimitResult, RateLimitRule };
+
+/**
+ * Identifies the client a request counts against, or null to defer to the
+ * next key function
+ */
+export type RateLimitKey = (
+  request: Request,
+  env: Env,
+  context: RouteContext
+) => string | null | Promise<string | null>;
+
+export interface RateLimitOptions {
+  // Names the counter, so routes with the same name share one limit
+  name: string;
+  rule: RateLimitRule;
+  // Tried in order; defaults to [byIp()]
+  keys?: RateLimitKey[];
+}
+
+export interface StreamLimitOptions {
+  name: string;
+  // Streams one client may have open at once
+  maxConcurrent: number;
+  keys?: RateLimitKey[];
+  // Seconds after which a slot frees itself if its stream never reported
+  // ending (e.g. the isolate was evicted). Longer streams lose their slot.
+  leaseTTL?: number;
+}
+
+/**
+ * Headers to list in the CORS exposeHeaders option so cross-origin
+ * frontends can read them: cors({ exposeHeaders: RATE_LIMIT_HEADERS })
+ */
+export const RATE_LIMIT_HEADERS = [
+  'RateLimit-Limit',
+  'RateLimit-Remaining',
+  'RateLimit-Reset',
+  'RateLimit-Policy',
+  'Retry-After',
+];
+
+const DEFAULT_LEASE_TTL = 10 * 60; // 10 minutes
+
+// Streams give no hint of when they'll end; suggest an early retry
+const STREAM_RETRY_AFTER = 5;
+
+/**
+ * Key by client IP (CF-Connecting-IP). Always returns a key; requests
+ * without the header (local development) share one counter.
+ */
+export function byIp(): RateLimitKey {
+  return ipKey;
+}
+
+function ipKey(request: Request): string {
+  return `ip:${request.headers.get('CF-Connecting-IP') ?? 'unknown'}`;
+}
+
+/**
+ * Key by signed-in user. `getUserId` returns null for anonymous requests,
+ * which then fall through to the next key. With the kv-sessions example:
+ *
+ * byUser(async (request, env) =>
+ *   (await getOptionalSession(request, getSessionManager(env)))?.user.id ?? null)
+ */
+export function byUser(
+  getUserId: (request: Request, env: Env) => string | null | Promise<string | null>
+): RateLimitKey {
+  return async (request, env) => {
+    const userId = await getUserId(request, env);
+    return userId ? `user:${userId}` : null;
+  };
+}
+
+/**
+ * Key by API key. `getApiKeyId` must return the ID of a verified key, never
+ * the raw header: unverified values would let a client pick a fresh
+ * counter for every request. With the kv-sessions example:
+ *
+ * byApiKey(async (request, env) =>
+ *   (await authenticateApiKey(request, env.DB))?.apiKeyId ?? null)
+ */
+export function byApiKey(
+  getApiKeyId: (request: Request, env: Env) => string | null | Promise<string | null>
+): RateLimitKey {
+  return async (request, env) => {
+    const keyId = await getApiKeyId(request, env);
+    return keyId ? `api_key:${keyId}` : null;
+  };
+}
+
+async function resolveKey(
+  keys: RateLimitKey[],
+  request: Request,
+  env: Env,
+  context: RouteContext
+): Promise<string> {
+  for (const key of keys) {
+    const value = await key(request, env, context);
+    if (value) {
+      return value;
+    }
+  }
+
+  return ipKey(request);
+}
+
+async function getLimiter(
+  request: Request,
+  env: Env,
+  context: RouteContext,
+  name: string,
+  keys: RateLimitKey[] = []
+): Promise<DurableObjectStub<RateLimiterDurableObject>> {
+  const namespace: DurableObjectNamespace<RateLimiterDurableObject> | undefined =
+    env.RATE_LIMITER;
+
+  if (!namespace) {
+    throw new ApiError(500, 'CONFIGURATION_ERROR', 'Rate limiter not configured');
+  }
+
+  const key = await resolveKey(keys, request, env, context);
+  return namespace.get(namespace.idFromName(`${name}:${key}`));
+}
+
+// Advertises the rule, e.g. "20;w=60"
+function describePolicy(rule: RateLimitRule): string {
+  return rule.algorithm === 'token-bucket'
+    ? `${rule.capacity};w=${Math.ceil(rule.capacity / rule.refillRate)}`
+    : `${rule.limit};w=${rule.window}`;
+}
+
+/**
+ * RateLimit-* headers describing a result
+ */
+export function rateLimitHeaders(
+  result: RateLimitResult,
+  rule: RateLimitRule
+): Record<string, string> {
+  return {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(Math.ceil(result.reset)),
+    'RateLimit-Policy': describePolicy(rule),
+  };
+}
+
+// Copy so headers are mutable even for fetched or streamed responses
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  const copy = new Response(response.body, response);
+
+  for (const [name, value] of Object.entries(headers)) {
+    copy.headers.set(name, value);
+  }
+
+  return copy;
+}
+
+async function applyRateLimit(
+  request: Request,
+  env: Env,
+  context: RouteContext,
+  options: RateLimitOptions,
+  next: () => Promise<Response>
+): Promise<Response> {
+  const limiter = await getLimiter(request, env, context, options.name, options.keys);
+
+  let result: RateLimitResult;
+  try {
+    result = await limiter.consume(options.rule);
+  } catch (error) {
+    console.error(`[${context.requestId}] Rate limiter unavailable:`, error);
+    return next();
+  }
+
+  const headers = rateLimitHeaders(result, options.rule);
+
+  if (!result.allowed) {
+    // Built here rather than thrown, so it works before or after the catch
+    return withHeaders(
+      toErrorResponse(
+        new RateLimitedError(
+          'Too many requests. Please try again later.',
+          result.retryAfter
+        ),
+        context.requestId
+      ),
+      headers
+    );
+  }
+
+  return withHeaders(await next(), headers);
+}
+
+/**
+ * Route wrapper: counts each request to `handler` against `options.rule`
+ *
+ * api.post('/chat', withRateLimit({ name: 'chat', rule }, handleChat));
+ */
+export function withRateLimit(
+  options: RateLimitOptions,
+  handler: RouteHandler
+): RouteHandler {
+  return (request, env, context) =>
+    applyRateLimit(request, env, context, options, async () =>
+      handler(request, env, context)
+    );
+}
+
+/**
+ * Router middleware: counts every request whose path starts with one of
+ * `paths` (all requests when omitted). CORS preflights are never counted.
+ *
+ * router.use(rateLimit({ name: 'ai', rule, paths: ['/api/chat'] }));
+ */
+export function rateLimit(
+  options: RateLimitOptions & { paths?: string[] }
+): Middleware {
+  return (request, env, context, next) => {
+    const { pathname } = context.url;
+    const matches =
+      !options.paths ||
+      options.paths.some(
+        (path) => pathname === path || pathname.startsWith(`${path}/`)
+      );
+
+    if (!matches || request.method === 'OPTIONS') {
+      return next();
+    }
+
+    return applyRateLimit(request, env, context, options, next);
+  };
+}
+
+/**
+ * Calls `onClose` once the stream finishes, fails or is cancelled by the
+ * client disconnecting
+ */
+function onStreamClose(body: ReadableStream, onClose: () => void): ReadableStream {
+  const reader = body.getReader();
+  let closed = false;
+
+  const close = () => {
+    if (!closed) {
+      closed = true;
+      onClose();
+    }
+  };
+
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          close();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        close();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      close();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Route wrapper for streaming endpoints: each client may hold at most
+ * `maxConcurrent` open responses. The slot is held until the response
+ * body ends, not just until the handler returns.
+ *
+ * api.post('/chat-stream', withStreamLimit(
+ *   { name: 'chat-stream', maxConcurrent: 2 },
+ *   handleStreamingChat
+ * ));
+ */
+export function withStreamLimit(
+  options: StreamLimitOptions,
+  handler: RouteHandler
+): RouteHandler {
+  return async (request, env, context) => {
+    const limiter = await getLimiter(request, env, context, options.name, options.keys);
+
+    let lease: StreamLease;
+    try {
+      lease = await limiter.acquireStream(
+        options.maxConcurrent,
+        options.leaseTTL ?? DEFAULT_LEASE_TTL
+      );
+    } catch (error) {
+      console.error(`[${context.requestId}] Rate limiter unavailable:`, error);
+      return handler(request, env, context);
+    }
+
+    const { leaseId } = lease;
+    if (!leaseId) {
+      return toErrorResponse(
+        new RateLimitedError(
+          `Too many concurrent streams (at most ${options.maxConcurrent})`,
+          STREAM_RETRY_AFTER
+        ),
+        context.requestId
+      );
+    }
+
+    const release = () =>
+      context.ctx.waitUntil(
+        limiter.releaseStream(leaseId).catch((error: unknown) => {
+          console.error(`[${context.requestId}] Failed to release stream slot:`, error);
+        })
+      );
+
+    let response: Response;
+    try {
+      response = await handler(request, env, context);
+    } catch (error) {
+      release();
+      throw error;
+    }
+
+    if (!response.body) {
+      release();
+      return response;
+    }
+
+    return new Response(onStreamClose(response.body, release), response);
+  };
+}
@@ -0,0 +1,252 @@
+/**
+ * Rate Limiter Durable Object
+ *
+ * Holds the counters for one rate-limit key; rate-limit.ts addresses it
+ * with idFromName(`<limit name>:<key>`). Every request for that key goes
+ * through the same instance, so unlike a KV counter two requests can't
+ * both read the same count and both get through, and unlike an in-memory
+ * Map the count is shared by every isolate.
+ *
+ * Idle state is deleted by an alarm once it no longer affects any limit.
+ *
+ * Prerequisites:
+ * 1. Binding and migration in wrangler.jsonc:
+ *    "durable_objects": {
+ *      "bindings": [{ "name": "RATE_LIMITER", "class_name": "RateLimiterDurableObject" }]
+ *    },
+ *    "migrations": [{ "tag": "v1", "new_sqlite_classes": ["RateLimiterDurableObject"] }]
+ *
+ * 2. Export the class from worker/index.ts:
+ *    export { RateLimiterDurableObject } from '../examples/ai/rate-limiting/rate-limiter-durable-object';
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+
+/**
+ * How requests are counted
+ *
+ * - token-bucket: holds up to `capacity` tokens and refills `refillRate`
+ *   tokens per second. Allows short bursts while capping the average rate.
+ * - sliding-window: at most `limit` requests in any `window` seconds,
+ *   estimated from the current and previous fixed windows.
+ */
+export type RateLimitRule =
+  | { algorithm: 'token-bucket'; capacity: number; refillRate: number }
+  | { algorithm: 'sliding-window'; limit: number; window: number };
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the limit is fully available again
+  reset: number;
+  // Seconds until a request of the same cost would be allowed; 0 if allowed
+  retryAfter: number;
+}
+
+export interface StreamLease {
+  // Pass to releaseStream when the stream ends; null when the cap is reached
+  leaseId: string | null;
+  limit: number;
+  active: number;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  // Epoch milliseconds
+  updatedAt: number;
+}
+
+interface SlidingWindowState {
+  // Epoch milliseconds
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+// Lease ID -> epoch milliseconds when the lease lapses
+type StreamLeases = Record<string, number>;
+
+const BUCKET_KEY = 'bucket';
+const WINDOW_KEY = 'window';
+const STREAMS_KEY = 'streams';
+
+export class RateLimiterDurableObject extends DurableObject {
+  /**
+   * Count a request of `cost` against `rule`. Denied requests cost nothing.
+   */
+  async consume(rule: RateLimitRule, cost = 1): Promise<RateLimitResult> {
+    return rule.algorithm === 'token-bucket'
+      ? this.consumeToken(rule.capacity, rule.refillRate, cost)
+      : this.consumeWindow(rule.limit, rule.window, cost);
+  }
+
+  /**
+   * Take one of `limit` concurrent stream slots for `leaseTTL` seconds.
+   * The lease lapses on its own if the Worker never releases it.
+   */
+  async acquireStream(limit: number, leaseTTL: number): Promise<StreamLease> {
+    const now = Date.now();
+    const leases = await this.activeLeases(now);
+    const active = Object.keys(leases).length;
+
+    if (active >= limit) {
+      return { leaseId: null, limit, active };
+    }
+
+    const leaseId = crypto.randomUUID();
+    const expiresAt = now + leaseTTL * 1000;
+    leases[leaseId] = expiresAt;
+
+    await this.ctx.storage.put<StreamLeases>(STREAMS_KEY, leases);
+    await this.scheduleCleanup(expiresAt);
+
+    return { leaseId, limit, active: active + 1 };
+  }
+
+  async releaseStream(leaseId: string): Promise<void> {
+    const leases = await this.activeLeases(Date.now());
+
+    if (leaseId in leases) {
+      delete leases[leaseId];
+      await this.ctx.storage.put<StreamLeases>(STREAMS_KEY, leases);
+    }
+  }
+
+  // Nothing stored changes a limit any more; start from scratch
+  async alarm(): Promise<void> {
+    await this.ctx.storage.deleteAll();
+  }
+
+  private async consumeToken(
+    capacity: number,
+    refillRate: number,
+    cost: number
+  ): Promise<RateLimitResult> {
+    const now = Date.now();
+    const state = await this.ctx.storage.get<TokenBucketState>(BUCKET_KEY);
+
+    const elapsed = state ? (now - state.updatedAt) / 1000 : 0;
+    let tokens = state
+      ? Math.min(capacity, state.tokens + elapsed * refillRate)
+      : capacity;
+
+    const allowed = tokens >= cost;
+    if (allowed) {
+      tokens -= cost;
+    }
+
+    await this.ctx.storage.put<TokenBucketState>(BUCKET_KEY, {
+      tokens,
+      updatedAt: now,
+    });
+
+    const reset = (capacity - tokens) / refillRate;
+    await this.scheduleCleanup(now + reset * 1000);
+
+    return {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(tokens),
+      reset,
+      retryAfter: allowed ? 0 : (cost - tokens) / refillRate,
+    };
+  }
+
+  private async consumeWindow(
+    limit: number,
+    window: number,
+    cost: number
+  ): Promise<RateLimitResult> {
+    const now = Date.now();
+    const windowMs = window * 1000;
+    const windowStart = now - (now % windowMs);
+
+    let state = await this.ctx.storage.get<SlidingWindowState>(WINDOW_KEY);
+    if (!state || state.windowStart !== windowStart) {
+      // Only the window right before this one still counts
+      const previous =
+        state && state.windowStart === windowStart - windowMs ? state.current : 0;
+      state = { windowStart, current: 0, previous };
+    }
+
+    // Share of the previous window that still overlaps the sliding window
+    const overlap = 1 - (now - windowStart) / windowMs;
+    const estimate = state.previous * overlap + state.current;
+    const allowed = estimate + cost <= limit;
+
+    if (allowed) {
+      state.current += cost;
+    }
+
+    await this.ctx.storage.put<SlidingWindowState>(WINDOW_KEY, state);
+
+    // Both windows stop counting two windows from now
+    const windowEnd = windowStart + windowMs;
+    await this.scheduleCleanup(windowEnd + windowMs);
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(
+        0,
+        Math.floor(limit - state.previous * overlap - state.current)
+      ),
+      reset: (windowEnd - now) / 1000,
+      retryAfter: allowed ? 0 : windowRetryAfter(state, limit, cost, windowMs, now),
+    };
+  }
+
+  private async activeLeases(now: number): Promise<StreamLeases> {
+    const leases = (await this.ctx.storage.get<StreamLeases>(STREAMS_KEY)) ?? {};
+
+    for (const [leaseId, expiresAt] of Object.entries(leases)) {
+      if (expiresAt <= now) {
+        delete leases[leaseId];
+      }
+    }
+
+    return leases;
+  }
+
+  // Push the cleanup alarm back so it fires once all state is idle
+  private async scheduleCleanup(idleAt: number): Promise<void> {
+    const current = await this.ctx.storage.getAlarm();
+
+    if (current === null || idleAt > current) {
+      await this.ctx.storage.setAlarm(idleAt);
+    }
+  }
+}
+
+/**
+ * Seconds until the sliding-window estimate leaves room for `cost`
+ */
+function windowRetryAfter(
+  state: SlidingWindowState,
+  limit: number,
+  cost: number,
+  windowMs: number,
+  now: number
+): number {
+  if (cost > limit) {
+    return windowMs / 1000;
+  }
+
+  // Room appears as the previous window's share shrinks...
+  let start = state.windowStart;
+  let previous = state.previous;
+  let current = state.current;
+
+  // ...unless this window alone is too full; then wait for the next one
+  if (current + cost > limit) {
+    start += windowMs;
+    previous = current;
+    current = 0;
+  }
+
+  const neededOverlap = previous > 0 ? (limit - current - cost) / previous : 1;
+  const allowedAt = start + (1 - Math.min(1, neededOverlap)) * windowMs;
+
+  return Math.max(0, (allowedAt - now) / 1000);
+}
@@ -0,0 +1,58 @@
+/**
+ * Shared request schema fields for the AI chat examples
+ *
+ * simple-claude-chat, streaming-chat and workers-ai-chat accept the same
+ * message and history fields, so the limits live here instead of being
+ * repeated in each worker endpoint.
+ */
+
+import { v } from '../../../worker/validation';
+
+/** Maximum length of a single user message (prevents abuse) */
+export const MAX_MESSAGE_LENGTH = 10_000;
+
+/** Maximum number of history messages accepted per request */
+export const MAX_HISTORY_MESSAGES = 100;
+
+/** Maximum tokens a client may request for a Claude response */
+export const MAX_OUTPUT_TOKENS = 8192;
+
+/**
+ * Fields common to every chat request body
+ */
+export const chatRequestFields = {
+  /** The user's message */
+  message: v.string({ min: 1, max: MAX_MESSAGE_LENGTH }),
+  /**
+   * Optional stored conversation (see ../conversations). Its history is
+   * loaded from D1 and the exchange is saved to it.
+   */
+  conversationId: v.optional(v.string({ min: 1, max: 100 })),
+  /** Optional conversation history for context, when there's no conversationId */
+  conversationHistory: v.optional(
+    v.array(
+      v.object({
+        role: v.enum(['user', 'assistant']),
+        content: v.string(),
+      }),
+      { max: MAX_HISTORY_MESSAGES }
+    )
+  ),
+  /** Optional system prompt to guide the model's behavior */
+  system: v.optional(v.string({ max: MAX_MESSAGE_LENGTH })),
+};
+
+/**
+ * Fields for the Claude endpoints (/api/chat and /api/chat-stream)
+ */
+export const claudeChatRequestFields = {
+  ...chatRequestFields,
+  /** Optional model to use (defaults to claude-3-5-sonnet) */
+  model: v.optional(v.string({ min: 1, max: 100 })),
+  /** Optional maximum tokens for response */
+  maxTokens: v.optional(
+    v.number({ integer: true, min: 1, max: MAX_OUTPUT_TOKENS })
+  ),
+  /** Optional temperature (0-1) for response creativity */
+  temperature: v.optional(v.number({ min: 0, max: 1 })),
+};
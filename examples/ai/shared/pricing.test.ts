@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { estimateCost } from './pricing';
+import { CLAUDE_MODELS } from '../streaming-chat/types';
+import { WORKERS_AI_MODELS } from '../workers-ai-chat/types';
+import { OpenAIProvider } from '../llm-providers/openai-provider';
+
+const usage = { inputTokens: 1_000_000, outputTokens: 1_000_000 };
+
+describe('estimateCost', () => {
+  it.each([
+    ...Object.values(CLAUDE_MODELS),
+    ...Object.values(WORKERS_AI_MODELS),
+    new OpenAIProvider({ apiKey: 'test' }).defaultModel,
+    'gpt-4',
+  ])('prices %s', (model) => {
+    expect(estimateCost(model, usage)).not.toBeNull();
+  });
+
+  it('prices an OpenAI snapshot by its alias', () => {
+    expect(estimateCost('gpt-4o-mini-2024-07-18', usage)).toEqual({ usd: 0.75 });
+    expect(estimateCost('gpt-4-0613', usage)).toEqual({ usd: 90 });
+  });
+
+  it('has no estimate for an unknown model', () => {
+    expect(estimateCost('unknown-model', usage)).toBeNull();
+  });
+});
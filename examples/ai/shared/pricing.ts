@@ -0,0 +1,150 @@
+/**
+ * Model pricing for cost estimates
+ *
+ * One registry for every model the AI examples can call, so chat responses,
+ * the usage ledger and the admin cost report all price a call the same way.
+ * Rates are list prices when this table was written; check the providers'
+ * pricing pages and update them here, in one place, when they change.
+ *
+ * - Anthropic: USD per million input and output tokens
+ *   https://www.anthropic.com/pricing
+ * - OpenAI: USD per million input and output tokens
+ *   https://openai.com/api/pricing/
+ * - Workers AI: neurons per million input and output tokens, billed at
+ *   WORKERS_AI_USD_PER_1K_NEURONS beyond the daily free allocation
+ *   https://developers.cloudflare.com/workers-ai/platform/pricing/
+ *
+ * Estimates ignore free allocations, caching discounts and batch pricing,
+ * so treat them as an upper bound on what a call cost.
+ */
+
+export type ModelPricing =
+  | {
+      provider: 'anthropic' | 'openai';
+      inputPerMillion: number;
+      outputPerMillion: number;
+    }
+  | {
+      provider: 'workers-ai';
+      inputNeuronsPerMillion: number;
+      outputNeuronsPerMillion: number;
+    };
+
+/** Workers AI price per 1,000 neurons above the free allocation */
+export const WORKERS_AI_USD_PER_1K_NEURONS = 0.011;
+
+/**
+ * Pricing per model ID, as sent to the provider. OpenAI reports a dated
+ * snapshot (gpt-4o-mini-2024-07-18) and is priced by the alias.
+ * Models missing here get no estimate rather than a wrong one.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-3-5-sonnet-20241022': {
+    provider: 'anthropic',
+    inputPerMillion: 3,
+    outputPerMillion: 15,
+  },
+  'claude-3-sonnet-20240229': {
+    provider: 'anthropic',
+    inputPerMillion: 3,
+    outputPerMillion: 15,
+  },
+  'claude-3-haiku-20240307': {
+    provider: 'anthropic',
+    inputPerMillion: 0.25,
+    outputPerMillion: 1.25,
+  },
+  '@cf/meta/llama-3.1-8b-instruct': {
+    provider: 'workers-ai',
+    inputNeuronsPerMillion: 25_608,
+    outputNeuronsPerMillion: 75_147,
+  },
+  '@cf/meta/llama-3.2-1b-instruct': {
+    provider: 'workers-ai',
+    inputNeuronsPerMillion: 2_457,
+    outputNeuronsPerMillion: 18_252,
+  },
+  '@cf/meta/llama-3.2-3b-instruct': {
+    provider: 'workers-ai',
+    inputNeuronsPerMillion: 4_625,
+    outputNeuronsPerMillion: 30_475,
+  },
+  '@cf/mistral/mistral-7b-instruct-v0.1': {
+    provider: 'workers-ai',
+    inputNeuronsPerMillion: 10_000,
+    outputNeuronsPerMillion: 17_300,
+  },
+  // A beta model; Workers AI doesn't bill beta models
+  '@cf/qwen/qwen1.5-14b-chat-awq': {
+    provider: 'workers-ai',
+    inputNeuronsPerMillion: 0,
+    outputNeuronsPerMillion: 0,
+  },
+  'gpt-4o-mini': {
+    provider: 'openai',
+    inputPerMillion: 0.15,
+    outputPerMillion: 0.6,
+  },
+  'gpt-4': {
+    provider: 'openai',
+    inputPerMillion: 30,
+    outputPerMillion: 60,
+  },
+};
+
+// OpenAI snapshot suffixes: -2024-07-18, or -0613 for older models
+const SNAPSHOT_SUFFIX = /-(\d{4}-\d{2}-\d{2}|\d{4})$/;
+
+function pricingFor(model: string): ModelPricing | undefined {
+  return MODEL_PRICING[model] ?? MODEL_PRICING[model.replace(SNAPSHOT_SUFFIX, '')];
+}
+
+/**
+ * Estimated cost of one call
+ */
+export interface CostEstimate {
+  /** US dollars, rounded to a millionth of a dollar */
+  usd: number;
+  /** Workers AI only: neurons the call consumed */
+  neurons?: number;
+}
+
+// Sub-cent amounts add up over many calls; keep six decimals
+function roundUsd(usd: number): number {
+  return Math.round(usd * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Estimate what a call cost from its token counts.
+ * Returns null for models without pricing.
+ */
+export function estimateCost(
+  model: string,
+  usage: { inputTokens: number; outputTokens: number }
+): CostEstimate | null {
+  const pricing = pricingFor(model);
+  if (!pricing) {
+    return null;
+  }
+
+  if (pricing.provider !== 'workers-ai') {
+    return {
+      usd: roundUsd(
+        (usage.inputTokens * pricing.inputPerMillion +
+          usage.outputTokens * pricing.outputPerMillion) /
+          1_000_000
+      ),
+    };
+  }
+
+  const neurons = Math.ceil(
+    (usage.inputTokens * pricing.inputNeuronsPerMillion +
+      usage.outputTokens * pricing.outputNeuronsPerMillion) /
+      1_000_000
+  );
+
+  return {
+    usd: roundUsd((neurons / 1000) * WORKERS_AI_USD_PER_1K_NEURONS),
+    neurons,
+  };
+}
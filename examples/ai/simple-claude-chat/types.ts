@@ -5,6 +5,11 @@
  * from the React frontend to the Cloudflare Worker backend.
  */
 
+import type { ApiErrorResponse } from '../../../src/lib/api-error';
+import { v, type Infer } from '../../../worker/validation';
+import { claudeChatRequestFields } from '../shared/chat-schema';
+import type { CostEstimate } from '../shared/pricing';
+
 /**
  * Represents a single message in the conversation
  */
@@ -21,21 +26,11 @@ export interface ChatMessage {
 
 /**
  * Request body for the /api/chat endpoint
+ * The schema is the runtime validator; the type is inferred from it.
  */
-export interface ChatRequest {
-  /** The user's message to send to Claude */
-  message: string;
-  /** Optional conversation history for context */
-  conversationHistory?: ChatMessage[];
-  /** Optional model to use (defaults to claude-3-5-sonnet) */
-  model?: string;
-  /** Optional maximum tokens for response */
-  maxTokens?: number;
-  /** Optional temperature (0-1) for response creativity */
-  temperature?: number;
-  /** Optional system prompt to guide Claude's behavior */
-  system?: string;
-}
+export const ChatRequestSchema = v.object(claudeChatRequestFields);
+
+export type ChatRequest = Infer<typeof ChatRequestSchema>;
 
 /**
  * Successful response from the /api/chat endpoint
@@ -50,17 +45,14 @@ export interface ChatResponse {
     input_tokens: number;
     output_tokens: number;
   };
+  /** Estimated cost of this call; omitted for models without pricing */
+  estimatedCost?: CostEstimate;
 }
 
 /**
- * Error response from the /api/chat endpoint
+ * Error response from the /api/chat endpoint (the shared error envelope)
  */
-export interface ChatErrorResponse {
-  /** Error message */
-  error: string;
-  /** Optional error details */
-  details?: string;
-}
+export type ChatErrorResponse = ApiErrorResponse;
 
 /**
  * Type guard to check if response is an error
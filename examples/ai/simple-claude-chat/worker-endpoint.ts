@@ -2,170 +2,135 @@
  * Simple Claude Chat - Worker Endpoint
  *
  * This file contains the Worker endpoint implementation for handling
- * chat requests with Claude API (non-streaming).
+ * chat requests (non-streaming). Calls go through the LLM provider
+ * abstraction, so Claude is the default but not a requirement.
  *
  * INTEGRATION INSTRUCTIONS:
  * 1. Install dependencies: npm install @anthropic-ai/sdk
  * 2. Add this code to your worker/index.ts
  * 3. Set ANTHROPIC_API_KEY in .dev.vars (local) or Cloudflare secrets (production)
  * 4. Add the route handler to your fetch function
+ * 5. Set up the kv-sessions example and the usage-metering migration:
+ *    callers must be signed in, and every call counts against their quota
+ * 6. Optional: set LLM_PROVIDER to use another provider (see ../llm-providers)
+ * 7. Optional: apply the conversations migration to keep chats in D1
+ *    (see ../conversations)
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import type { ChatRequest, ChatResponse, ChatErrorResponse } from './types';
+import { ChatRequestSchema, type ChatResponse } from './types';
+import {
+  loadChatHistory,
+  saveChatExchange,
+} from '../conversations/conversation-history';
+import { conversationMessages } from '../llm-providers/llm-provider';
+import { getLLMProvider } from '../llm-providers/provider-config';
+import { RetryingProvider } from '../llm-providers/retry';
+import { estimateCost } from '../shared/pricing';
+import { getTokenBudget } from '../usage-metering/token-budget';
+import { requireAuthOrApiKey } from '../../database/kv-sessions/worker-middleware';
+import type { RouteContext, RouteGroup } from '../../../worker/router';
+import { UpstreamAIError } from '../../../worker/errors';
+import { parseJsonBody } from '../../../worker/validation';
 
 /**
  * Handles POST requests to /api/chat
  *
+ * Errors are thrown as typed errors from worker/errors.ts and converted to
+ * the shared error envelope by the top-level catch in worker/index.ts.
+ * Users over their token quota get 429 QUOTA_EXCEEDED before the model is
+ * called; the tokens each call used are added to the usage ledger.
+ * Overloaded, rate-limited and 5xx provider responses are retried with
+ * backoff (../llm-providers/retry.ts) before an error is returned.
+ *
+ * With a conversationId, the history comes from that stored conversation
+ * and the message and reply are added to it.
+ *
  * @param request - The incoming request
- * @param env - Environment bindings (contains ANTHROPIC_API_KEY)
- * @returns JSON response with Claude's message or error
+ * @param env - Environment bindings (provider credentials, LLM_PROVIDER)
+ * @param context - Route context (request path and ID for the ledger)
+ * @returns JSON response with the model's message
  */
 export async function handleChat(
   request: Request,
-  env: Env
+  env: Env,
+  context: RouteContext
 ): Promise<Response> {
-  // CORS headers for browser requests
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
-  };
-
-  // Handle preflight requests
-  if (request.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  // Only accept POST requests
-  if (request.method !== 'POST') {
-    return Response.json(
-      { error: 'Method not allowed' } as ChatErrorResponse,
-      { status: 405, headers: corsHeaders }
-    );
+  // Fails with CONFIGURATION_ERROR if the provider's credentials are missing
+  const provider = new RetryingProvider(getLLMProvider(env), {
+    requestId: context.requestId,
+  });
+
+  const session = await requireAuthOrApiKey(request, env);
+
+  // Parse and validate request body (400 with field details on failure)
+  const body = await parseJsonBody(request, ChatRequestSchema);
+
+  // Refuse before spending anything if a quota is used up
+  const budget = getTokenBudget(env);
+  await budget.assertWithinBudget(session.user.id);
+
+  const { conversationId, history } = await loadChatHistory(
+    env,
+    session.user.id,
+    body
+  );
+
+  const completion = await provider.complete({
+    model: body.model,
+    system: body.system,
+    messages: conversationMessages(body.message, history),
+    maxTokens: body.maxTokens || 1024,
+    temperature: body.temperature ?? 0.7,
+  });
+
+  // Counted even if the response turns out to be unusable: it was billed.
+  // Awaited so GET /api/usage includes it once the client has the reply.
+  const usage = completion.usage ?? { inputTokens: 0, outputTokens: 0 };
+  await budget.record({
+    userId: session.user.id,
+    model: completion.model,
+    route: context.url.pathname,
+    ...usage,
+    requestId: context.requestId,
+  });
+
+  if (!completion.text) {
+    throw new UpstreamAIError('No text content in response');
   }
 
-  try {
-    // Validate API key exists
-    if (!env.ANTHROPIC_API_KEY) {
-      console.error('ANTHROPIC_API_KEY not found in environment');
-      return Response.json(
-        { error: 'API key not configured' } as ChatErrorResponse,
-        { status: 500, headers: corsHeaders }
-      );
-    }
-
-    // Parse request body
-    const body = (await request.json()) as ChatRequest;
-
-    // Validate required fields
-    if (!body.message || typeof body.message !== 'string') {
-      return Response.json(
-        { error: 'Message is required and must be a string' } as ChatErrorResponse,
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
-    // Validate message length (prevent abuse)
-    if (body.message.length > 10000) {
-      return Response.json(
-        { error: 'Message too long (max 10,000 characters)' } as ChatErrorResponse,
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
-    // Initialize Anthropic client
-    const anthropic = new Anthropic({
-      apiKey: env.ANTHROPIC_API_KEY,
+  if (conversationId) {
+    await saveChatExchange(env, conversationId, body.message, {
+      content: completion.text,
+      model: completion.model,
     });
+  }
 
-    // Build messages array for Claude API
-    const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [];
-
-    // Add conversation history if provided
-    if (body.conversationHistory && Array.isArray(body.conversationHistory)) {
-      // Validate and add history messages
-      for (const msg of body.conversationHistory) {
-        if (msg.role && msg.content) {
-          messages.push({
-            role: msg.role,
-            content: msg.content,
-          });
+  // Build success response
+  const chatResponse: ChatResponse = {
+    message: completion.text,
+    model: completion.model,
+    usage: completion.usage
+      ? {
+          input_tokens: completion.usage.inputTokens,
+          output_tokens: completion.usage.outputTokens,
         }
-      }
-    }
-
-    // Add current user message
-    messages.push({
-      role: 'user',
-      content: body.message,
-    });
+      : undefined,
+    estimatedCost: estimateCost(completion.model, usage) ?? undefined,
+  };
 
-    // Call Claude API (non-streaming)
-    const response = await anthropic.messages.create({
-      model: body.model || 'claude-3-5-sonnet-20241022',
-      max_tokens: body.maxTokens || 1024,
-      temperature: body.temperature ?? 0.7,
-      system: body.system,
-      messages,
-    });
+  return Response.json(chatResponse, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
 
-    // Extract text content from response
-    const messageContent = response.content.find(
-      (block) => block.type === 'text'
-    );
-
-    if (!messageContent || messageContent.type !== 'text') {
-      throw new Error('No text content in response');
-    }
-
-    // Build success response
-    const chatResponse: ChatResponse = {
-      message: messageContent.text,
-      model: response.model,
-      usage: {
-        input_tokens: response.usage.input_tokens,
-        output_tokens: response.usage.output_tokens,
-      },
-    };
-
-    return Response.json(chatResponse, {
-      status: 200,
-      headers: {
-        ...corsHeaders,
-        'Content-Type': 'application/json',
-      },
-    });
-  } catch (error) {
-    // Log error for debugging
-    console.error('Chat API error:', error);
-
-    // Handle Anthropic API errors
-    if (error instanceof Anthropic.APIError) {
-      return Response.json(
-        {
-          error: 'AI API error',
-          details: error.message,
-        } as ChatErrorResponse,
-        {
-          status: error.status || 500,
-          headers: corsHeaders,
-        }
-      );
-    }
-
-    // Handle other errors
-    return Response.json(
-      {
-        error: 'An error occurred processing your request',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      } as ChatErrorResponse,
-      {
-        status: 500,
-        headers: corsHeaders,
-      }
-    );
-  }
+/**
+ * Registers POST /api/chat on the given router group
+ */
+export function registerChatRoutes(api: RouteGroup): void {
+  api.post('/chat', handleChat);
 }
 
 /**
@@ -174,20 +139,20 @@ export async function handleChat(
  * Add this to your worker/index.ts:
  *
  * ```typescript
- * import { handleChat } from './api/chat'; // Adjust path as needed
+ * import { Router } from './router';
+ * import { registerChatRoutes } from './api/chat';
  *
- * export default {
- *   async fetch(request: Request, env: Env): Promise<Response> {
- *     const url = new URL(request.url);
+ * const router = new Router({ base: '/api' });
  *
- *     // Chat endpoint
- *     if (url.pathname === '/api/chat') {
- *       return handleChat(request, env);
- *     }
+ * // Chat endpoint
+ * registerChatRoutes(router);
  *
- *     // ... other routes ...
+ * // ... other routes ...
  *
- *     return new Response(null, { status: 404 });
+ * export default {
+ *   async fetch(request, env, ctx) {
+ *     const response = await router.handle(request, env, ctx);
+ *     return response ?? new Response(null, { status: 404 });
  *   },
  * } satisfies ExportedHandler<Env>;
  * ```
@@ -206,6 +171,7 @@ export async function handleChat(
  * ```typescript
  * interface Env {
  *   ANTHROPIC_API_KEY: string;
+ *   LLM_PROVIDER?: string; // optional, see ../llm-providers
  *   // ... other bindings ...
  * }
  * ```
@@ -214,20 +180,17 @@ export async function handleChat(
 /**
  * RATE LIMITING (Optional but recommended):
  *
- * For production, implement rate limiting using Cloudflare KV or Durable Objects:
+ * Wrap the handler with withRateLimit from the rate-limiting example. Its
+ * counters live in a Durable Object, so they hold across isolates:
  *
  * ```typescript
- * async function checkRateLimit(env: Env, ip: string): Promise<boolean> {
- *   const key = `rate_limit:${ip}`;
- *   const current = await env.KV.get(key);
- *
- *   if (current && parseInt(current) >= 10) { // 10 requests per minute
- *     return false;
- *   }
+ * import { withRateLimit } from '../rate-limiting/rate-limit';
  *
- *   const count = current ? parseInt(current) + 1 : 1;
- *   await env.KV.put(key, count.toString(), { expirationTtl: 60 });
- *   return true;
- * }
+ * api.post('/chat', withRateLimit(
+ *   { name: 'chat', rule: { algorithm: 'sliding-window', limit: 10, window: 60 } },
+ *   handleChat
+ * ));
  * ```
+ *
+ * See ../rate-limiting/README.md for per-user and per-API-key limits.
  */
@@ -9,6 +9,12 @@
  * 2. Copy types.ts to src/types/streaming-chat.ts (or adjust import path)
  * 3. Import and use in your App.tsx or other component
  * 4. Ensure the worker endpoint is set up at /api/chat-stream
+ * 5. Copy ../usage-metering/UsageMeter.tsx and set up GET /api/usage
+ * 6. Copy ../conversations (ConversationSidebar.tsx, conversation-api.ts and
+ *    types.ts) and set up /api/conversations
+ * 7. Optional: for transport="websocket", also copy
+ *    ../conversations/useConversationRoom.ts and set up the conversation
+ *    rooms (see ../conversations/README.md)
  */
 
 import { useState, useRef, useEffect } from 'react';
@@ -18,11 +24,33 @@ import type {
   StreamEvent,
   StreamingChatUIState,
 } from './types';
+import {
+  createConversation,
+  fetchConversationMessages,
+} from '../conversations/conversation-api';
+import ConversationSidebar from '../conversations/ConversationSidebar';
+import type { Conversation, RoomEvent } from '../conversations/types';
+import { useConversationRoom } from '../conversations/useConversationRoom';
+import UsageMeter from '../usage-metering/UsageMeter';
+import { ApiRequestError, parseApiError } from '../../../src/lib/api-error';
+import { fetchWithCsrf } from '../../../src/lib/fetch-with-csrf';
+
+interface StreamingChatProps {
+  /**
+   * 'sse' POSTs each message to /api/chat-stream and reads the reply from
+   * the response. 'websocket' sends it to the conversation's room instead,
+   * which streams the reply to every tab with the conversation open.
+   */
+  transport?: 'sse' | 'websocket';
+}
+
+// Room errors sent only to the tab whose message was refused
+const REFUSED_MESSAGE_ERRORS = ['REPLY_IN_PROGRESS', 'VALIDATION_ERROR'];
 
 /**
  * Main Streaming Chat Component
  */
-export default function StreamingChat() {
+export default function StreamingChat({ transport = 'sse' }: StreamingChatProps) {
   // Component state
   const [state, setState] = useState<StreamingChatUIState>({
     isStreaming: false,
@@ -33,12 +61,104 @@ export default function StreamingChat() {
     isReady: true,
   });
 
+  // Stored conversation the messages belong to; the first message creates it
+  const [conversationId, setConversationId] = useState<string | null>(null);
+
+  // Bumped after every stream ends so the usage meter and conversation list refetch
+  const [usageRefresh, setUsageRefresh] = useState(0);
+
   // Reference to abort controller for cancelling streams
   const abortControllerRef = useRef<AbortController | null>(null);
 
   // Reference to messages container for auto-scrolling
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  /**
+   * Applies an event from the conversation's room (websocket transport).
+   * Messages from every tab arrive here, this one's included.
+   */
+  const handleRoomEvent = (event: RoomEvent) => {
+    if (event.type === 'history') {
+      // Sent on every (re)connect: the whole conversation, so replace ours
+      const messages: ChatMessage[] = event.messages.map((message) => ({
+        role: message.role,
+        content: message.content,
+        timestamp: Date.parse(message.createdAt),
+        id: String(message.id),
+      }));
+
+      if (event.pending) {
+        messages.push({
+          role: 'user',
+          content: event.pending.message,
+          timestamp: Date.now(),
+          id: crypto.randomUUID(),
+        });
+      }
+
+      setState((prev) => ({
+        ...prev,
+        messages,
+        isStreaming: event.pending !== null,
+        streamingContent: event.pending?.content ?? '',
+      }));
+    } else if (event.type === 'user_message') {
+      const userMessage: ChatMessage = {
+        role: 'user',
+        content: event.content,
+        timestamp: Date.now(),
+        id: crypto.randomUUID(),
+      };
+
+      setState((prev) => ({
+        ...prev,
+        messages: [...prev.messages, userMessage],
+        isStreaming: true,
+        error: null,
+        streamingContent: '',
+      }));
+    } else if (event.type === 'content') {
+      setState((prev) => ({
+        ...prev,
+        isStreaming: true,
+        streamingContent: prev.streamingContent + event.text,
+      }));
+    } else if (event.type === 'done') {
+      setState((prev) => ({
+        ...prev,
+        messages: [
+          ...prev.messages,
+          {
+            role: 'assistant',
+            content: prev.streamingContent,
+            timestamp: Date.now(),
+            id: crypto.randomUUID(),
+          },
+        ],
+        isStreaming: false,
+        streamingContent: '',
+      }));
+      setUsageRefresh((count) => count + 1);
+    } else if (REFUSED_MESSAGE_ERRORS.includes(event.error)) {
+      // Only this tab's message was refused. A reply another tab asked for
+      // may still be streaming here, so keep it.
+      setState((prev) => ({ ...prev, error: event.message }));
+    } else {
+      setState((prev) => ({
+        ...prev,
+        isStreaming: false,
+        streamingContent: '',
+        error: event.message,
+      }));
+      setUsageRefresh((count) => count + 1);
+    }
+  };
+
+  const room = useConversationRoom(
+    transport === 'websocket' ? conversationId : null,
+    handleRoomEvent
+  );
+
   // Auto-scroll to bottom when new messages or streaming content arrives
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -64,6 +184,32 @@ export default function StreamingChat() {
     if (!userMessage) return;
     if (state.isStreaming) return;
 
+    if (transport === 'websocket') {
+      setState((prev) => ({ ...prev, input: '', error: null }));
+
+      try {
+        let id = conversationId;
+        if (!id) {
+          id = (await createConversation()).id;
+          setConversationId(id);
+        }
+
+        // No local copy: the room sends the message back to every tab,
+        // this one included, followed by the reply
+        room.send(id, { type: 'send', message: userMessage });
+      } catch (error) {
+        console.error('Failed to start conversation:', error);
+        setState((prev) => ({
+          ...prev,
+          error:
+            error instanceof Error
+              ? error.message
+              : 'Failed to send message. Please try again.',
+        }));
+      }
+      return;
+    }
+
     // Add user message to chat
     const newUserMessage: ChatMessage = {
       role: 'user',
@@ -86,17 +232,20 @@ export default function StreamingChat() {
       const abortController = new AbortController();
       abortControllerRef.current = abortController;
 
-      // Build request payload
+      let id = conversationId;
+      if (!id) {
+        id = (await createConversation()).id;
+        setConversationId(id);
+      }
+
+      // Build request payload; the Worker loads the history from the conversation
       const requestBody: StreamingChatRequest = {
         message: userMessage,
-        conversationHistory: state.messages.map((msg) => ({
-          role: msg.role,
-          content: msg.content,
-        })),
+        conversationId: id,
       };
 
       // Make streaming request
-      const response = await fetch('/api/chat-stream', {
+      const response = await fetchWithCsrf('/api/chat-stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -105,8 +254,9 @@ export default function StreamingChat() {
         signal: abortController.signal,
       });
 
+      // Errors before the stream starts come back as the JSON error envelope
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw await parseApiError(response);
       }
 
       // Process SSE stream
@@ -136,6 +286,7 @@ export default function StreamingChat() {
       }));
     } finally {
       abortControllerRef.current = null;
+      setUsageRefresh((count) => count + 1);
     }
   };
 
@@ -171,38 +322,40 @@ export default function StreamingChat() {
 
           // Parse SSE format: "data: {json}"
           if (eventText.startsWith('data: ')) {
+            let event: StreamEvent;
             try {
               const jsonData = eventText.slice(6); // Remove "data: " prefix
-              const event: StreamEvent = JSON.parse(jsonData);
-
-              if (event.type === 'content') {
-                // Append text to streaming content
-                fullResponse += event.text;
-                setState((prev) => ({
-                  ...prev,
-                  streamingContent: fullResponse,
-                }));
-              } else if (event.type === 'done') {
-                // Stream complete - add assistant message
-                const assistantMessage: ChatMessage = {
-                  role: 'assistant',
-                  content: fullResponse,
-                  timestamp: Date.now(),
-                  id: crypto.randomUUID(),
-                };
-
-                setState((prev) => ({
-                  ...prev,
-                  messages: [...prev.messages, assistantMessage],
-                  isStreaming: false,
-                  streamingContent: '',
-                }));
-              } else if (event.type === 'error') {
-                // Error event
-                throw new Error(event.error);
-              }
+              event = JSON.parse(jsonData);
             } catch (parseError) {
               console.error('Failed to parse SSE event:', parseError);
+              continue;
+            }
+
+            if (event.type === 'content') {
+              // Append text to streaming content
+              fullResponse += event.text;
+              setState((prev) => ({
+                ...prev,
+                streamingContent: fullResponse,
+              }));
+            } else if (event.type === 'done') {
+              // Stream complete - add assistant message
+              const assistantMessage: ChatMessage = {
+                role: 'assistant',
+                content: fullResponse,
+                timestamp: Date.now(),
+                id: crypto.randomUUID(),
+              };
+
+              setState((prev) => ({
+                ...prev,
+                messages: [...prev.messages, assistantMessage],
+                isStreaming: false,
+                streamingContent: '',
+              }));
+            } else if (event.type === 'error') {
+              // Error event carries the shared error envelope fields
+              throw new ApiRequestError(event);
             }
           }
         }
@@ -223,14 +376,15 @@ export default function StreamingChat() {
   };
 
   /**
-   * Clears the conversation
+   * Starts a new conversation (stored once its first message is sent)
    */
-  const handleClearChat = () => {
+  const handleNewChat = () => {
     // Cancel any active stream
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
 
+    setConversationId(null);
     setState({
       isStreaming: false,
       error: null,
@@ -241,6 +395,49 @@ export default function StreamingChat() {
     });
   };
 
+  /**
+   * Shows a stored conversation picked in the sidebar
+   */
+  const handleSelectConversation = async (conversation: Conversation) => {
+    if (transport === 'websocket') {
+      // The room sends the messages once the new connection opens
+      setConversationId(conversation.id);
+      setState((prev) => ({
+        ...prev,
+        error: null,
+        messages: [],
+        isStreaming: false,
+        streamingContent: '',
+      }));
+      return;
+    }
+
+    try {
+      const messages = await fetchConversationMessages(conversation.id);
+
+      setConversationId(conversation.id);
+      setState((prev) => ({
+        ...prev,
+        error: null,
+        messages: messages.map((message) => ({
+          role: message.role,
+          content: message.content,
+          timestamp: Date.parse(message.createdAt),
+          id: String(message.id),
+        })),
+      }));
+    } catch (error) {
+      console.error('Failed to load conversation:', error);
+      setState((prev) => ({
+        ...prev,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to load the conversation. Please try again.',
+      }));
+    }
+  };
+
   /**
    * Stops the current streaming response
    */
@@ -251,317 +448,347 @@ export default function StreamingChat() {
   };
 
   return (
-    <div className="streaming-chat-container">
-      {/* Chat Header */}
-      <div className="chat-header">
-        <h2>Claude Chat (Streaming)</h2>
-        <div className="header-actions">
-          {state.isStreaming && (
-            <button
-              onClick={handleStopStream}
-              className="stop-button"
-            >
-              Stop
-            </button>
-          )}
-          {state.messages.length > 0 && !state.isStreaming && (
-            <button onClick={handleClearChat} className="clear-button">
-              Clear Chat
-            </button>
-          )}
+    <div className="streaming-chat-layout">
+      <ConversationSidebar
+        activeId={conversationId}
+        onSelect={handleSelectConversation}
+        onNew={handleNewChat}
+        refreshKey={usageRefresh}
+        disabled={state.isStreaming}
+      />
+
+      <div className="streaming-chat-container">
+        {/* Chat Header */}
+        <div className="chat-header">
+          <h2>Claude Chat (Streaming)</h2>
+          <UsageMeter refreshKey={usageRefresh} />
+          <div className="header-actions">
+            {room.status === 'reconnecting' && (
+              <span className="connection-status">Reconnecting...</span>
+            )}
+            {/* A room's reply is shared by every tab, so it can't be stopped */}
+            {state.isStreaming && transport === 'sse' && (
+              <button
+                onClick={handleStopStream}
+                className="stop-button"
+              >
+                Stop
+              </button>
+            )}
+            {state.messages.length > 0 && !state.isStreaming && (
+              <button onClick={handleNewChat} className="clear-button">
+                New Chat
+              </button>
+            )}
+          </div>
         </div>
-      </div>
 
-      {/* Messages Area */}
-      <div className="messages-container">
-        {state.messages.length === 0 && !state.isStreaming && (
-          <div className="empty-state">
-            <p>Start a conversation with Claude!</p>
-            <p className="empty-state-hint">
-              Responses will stream in real-time for better experience.
-            </p>
-          </div>
-        )}
+        {/* Messages Area */}
+        <div className="messages-container">
+          {state.messages.length === 0 && !state.isStreaming && (
+            <div className="empty-state">
+              <p>Start a conversation with Claude!</p>
+              <p className="empty-state-hint">
+                Responses will stream in real-time for better experience.
+              </p>
+            </div>
+          )}
 
-        {state.messages.map((message) => (
-          <div key={message.id} className={`message message-${message.role}`}>
-            <div className="message-role">
-              {message.role === 'user' ? 'You' : 'Claude'}
+          {state.messages.map((message) => (
+            <div key={message.id} className={`message message-${message.role}`}>
+              <div className="message-role">
+                {message.role === 'user' ? 'You' : 'Claude'}
+              </div>
+              <div className="message-content">{message.content}</div>
+              {message.timestamp && (
+                <div className="message-timestamp">
+                  {new Date(message.timestamp).toLocaleTimeString()}
+                </div>
+              )}
             </div>
-            <div className="message-content">{message.content}</div>
-            {message.timestamp && (
-              <div className="message-timestamp">
-                {new Date(message.timestamp).toLocaleTimeString()}
+          ))}
+
+          {/* Streaming message */}
+          {state.isStreaming && (
+            <div className="message message-assistant streaming">
+              <div className="message-role">Claude</div>
+              <div className="message-content">
+                {state.streamingContent}
+                <span className="cursor">▊</span>
               </div>
-            )}
-          </div>
-        ))}
-
-        {/* Streaming message */}
-        {state.isStreaming && (
-          <div className="message message-assistant streaming">
-            <div className="message-role">Claude</div>
-            <div className="message-content">
-              {state.streamingContent}
-              <span className="cursor">▊</span>
             </div>
+          )}
+
+          {/* Auto-scroll anchor */}
+          <div ref={messagesEndRef} />
+        </div>
+
+        {/* Error Display */}
+        {state.error && (
+          <div className="error-message">
+            <strong>Error:</strong> {state.error}
+            <button
+              onClick={() => setState((prev) => ({ ...prev, error: null }))}
+              className="error-close"
+            >
+              &times;
+            </button>
           </div>
         )}
 
-        {/* Auto-scroll anchor */}
-        <div ref={messagesEndRef} />
-      </div>
-
-      {/* Error Display */}
-      {state.error && (
-        <div className="error-message">
-          <strong>Error:</strong> {state.error}
+        {/* Input Area */}
+        <div className="input-container">
+          <input
+            type="text"
+            value={state.input}
+            onChange={(e) =>
+              setState((prev) => ({ ...prev, input: e.target.value }))
+            }
+            onKeyPress={handleKeyPress}
+            placeholder="Type your message..."
+            disabled={state.isStreaming}
+            className="message-input"
+          />
           <button
-            onClick={() => setState((prev) => ({ ...prev, error: null }))}
-            className="error-close"
+            onClick={handleSendMessage}
+            disabled={state.isStreaming || !state.input.trim()}
+            className="send-button"
           >
-            &times;
+            {state.isStreaming ? 'Streaming...' : 'Send'}
           </button>
         </div>
-      )}
-
-      {/* Input Area */}
-      <div className="input-container">
-        <input
-          type="text"
-          value={state.input}
-          onChange={(e) =>
-            setState((prev) => ({ ...prev, input: e.target.value }))
-          }
-          onKeyPress={handleKeyPress}
-          placeholder="Type your message..."
-          disabled={state.isStreaming}
-          className="message-input"
-        />
-        <button
-          onClick={handleSendMessage}
-          disabled={state.isStreaming || !state.input.trim()}
-          className="send-button"
-        >
-          {state.isStreaming ? 'Streaming...' : 'Send'}
-        </button>
-      </div>
 
-      {/* Inline Styles (for demo - move to CSS file in production) */}
-      <style>{`
-        .streaming-chat-container {
-          display: flex;
-          flex-direction: column;
-          max-width: 800px;
-          margin: 0 auto;
-          height: 600px;
-          border: 1px solid #e0e0e0;
-          border-radius: 8px;
-          background: #fff;
-          overflow: hidden;
-        }
+        {/* Inline Styles (for demo - move to CSS file in production) */}
+        <style>{`
+          .streaming-chat-layout {
+            display: flex;
+            gap: 16px;
+            max-width: 1056px;
+            margin: 0 auto;
+          }
 
-        .chat-header {
-          display: flex;
-          justify-content: space-between;
-          align-items: center;
-          padding: 16px;
-          border-bottom: 1px solid #e0e0e0;
-          background: #f8f9fa;
-        }
+          .streaming-chat-container {
+            display: flex;
+            flex-direction: column;
+            flex: 1;
+            min-width: 0;
+            max-width: 800px;
+            margin: 0 auto;
+            height: 600px;
+            border: 1px solid #e0e0e0;
+            border-radius: 8px;
+            background: #fff;
+            overflow: hidden;
+          }
 
-        .chat-header h2 {
-          margin: 0;
-          font-size: 20px;
-          color: #333;
-        }
+          .chat-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            padding: 16px;
+            border-bottom: 1px solid #e0e0e0;
+            background: #f8f9fa;
+          }
 
-        .header-actions {
-          display: flex;
-          gap: 8px;
-        }
+          .chat-header h2 {
+            margin: 0;
+            font-size: 20px;
+            color: #333;
+          }
 
-        .stop-button {
-          padding: 6px 12px;
-          background: #ffc107;
-          color: #000;
-          border: none;
-          border-radius: 4px;
-          cursor: pointer;
-          font-size: 14px;
-          font-weight: 600;
-        }
+          .header-actions {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+          }
 
-        .stop-button:hover {
-          background: #e0a800;
-        }
+          .connection-status {
+            font-size: 12px;
+            color: #856404;
+          }
 
-        .clear-button {
-          padding: 6px 12px;
-          background: #dc3545;
-          color: white;
-          border: none;
-          border-radius: 4px;
-          cursor: pointer;
-          font-size: 14px;
-        }
+          .stop-button {
+            padding: 6px 12px;
+            background: #ffc107;
+            color: #000;
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            font-size: 14px;
+            font-weight: 600;
+          }
 
-        .clear-button:hover {
-          background: #c82333;
-        }
+          .stop-button:hover {
+            background: #e0a800;
+          }
 
-        .messages-container {
-          flex: 1;
-          overflow-y: auto;
-          padding: 16px;
-          display: flex;
-          flex-direction: column;
-          gap: 16px;
-        }
+          .clear-button {
+            padding: 6px 12px;
+            background: #dc3545;
+            color: white;
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            font-size: 14px;
+          }
 
-        .empty-state {
-          text-align: center;
-          color: #666;
-          padding: 40px 20px;
-        }
+          .clear-button:hover {
+            background: #c82333;
+          }
 
-        .empty-state p {
-          margin: 8px 0;
-        }
+          .messages-container {
+            flex: 1;
+            overflow-y: auto;
+            padding: 16px;
+            display: flex;
+            flex-direction: column;
+            gap: 16px;
+          }
 
-        .empty-state-hint {
-          font-size: 14px;
-          color: #999;
-        }
+          .empty-state {
+            text-align: center;
+            color: #666;
+            padding: 40px 20px;
+          }
 
-        .message {
-          display: flex;
-          flex-direction: column;
-          gap: 4px;
-        }
+          .empty-state p {
+            margin: 8px 0;
+          }
 
-        .message-user {
-          align-items: flex-end;
-        }
+          .empty-state-hint {
+            font-size: 14px;
+            color: #999;
+          }
 
-        .message-assistant {
-          align-items: flex-start;
-        }
+          .message {
+            display: flex;
+            flex-direction: column;
+            gap: 4px;
+          }
 
-        .message-role {
-          font-size: 12px;
-          font-weight: 600;
-          color: #666;
-          text-transform: uppercase;
-        }
+          .message-user {
+            align-items: flex-end;
+          }
 
-        .message-content {
-          padding: 12px 16px;
-          border-radius: 8px;
-          max-width: 70%;
-          word-wrap: break-word;
-          white-space: pre-wrap;
-        }
+          .message-assistant {
+            align-items: flex-start;
+          }
 
-        .message-user .message-content {
-          background: #007bff;
-          color: white;
-        }
+          .message-role {
+            font-size: 12px;
+            font-weight: 600;
+            color: #666;
+            text-transform: uppercase;
+          }
 
-        .message-assistant .message-content {
-          background: #f1f3f4;
-          color: #333;
-        }
+          .message-content {
+            padding: 12px 16px;
+            border-radius: 8px;
+            max-width: 70%;
+            word-wrap: break-word;
+            white-space: pre-wrap;
+          }
 
-        .message-assistant.streaming .message-content {
-          background: #e8f4f8;
-          border: 1px solid #b3e5fc;
-        }
+          .message-user .message-content {
+            background: #007bff;
+            color: white;
+          }
 
-        .cursor {
-          animation: blink 1s infinite;
-          margin-left: 2px;
-        }
+          .message-assistant .message-content {
+            background: #f1f3f4;
+            color: #333;
+          }
 
-        @keyframes blink {
-          0%, 50% {
-            opacity: 1;
+          .message-assistant.streaming .message-content {
+            background: #e8f4f8;
+            border: 1px solid #b3e5fc;
           }
-          51%, 100% {
-            opacity: 0;
+
+          .cursor {
+            animation: blink 1s infinite;
+            margin-left: 2px;
           }
-        }
 
-        .message-timestamp {
-          font-size: 11px;
-          color: #999;
-        }
+          @keyframes blink {
+            0%, 50% {
+              opacity: 1;
+            }
+            51%, 100% {
+              opacity: 0;
+            }
+          }
 
-        .error-message {
-          background: #f8d7da;
-          color: #721c24;
-          padding: 12px 16px;
-          margin: 0 16px;
-          border-radius: 4px;
-          display: flex;
-          justify-content: space-between;
-          align-items: center;
-        }
+          .message-timestamp {
+            font-size: 11px;
+            color: #999;
+          }
 
-        .error-close {
-          background: none;
-          border: none;
-          font-size: 20px;
-          cursor: pointer;
-          color: #721c24;
-        }
+          .error-message {
+            background: #f8d7da;
+            color: #721c24;
+            padding: 12px 16px;
+            margin: 0 16px;
+            border-radius: 4px;
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+          }
 
-        .input-container {
-          display: flex;
-          gap: 8px;
-          padding: 16px;
-          border-top: 1px solid #e0e0e0;
-          background: #f8f9fa;
-        }
+          .error-close {
+            background: none;
+            border: none;
+            font-size: 20px;
+            cursor: pointer;
+            color: #721c24;
+          }
 
-        .message-input {
-          flex: 1;
-          padding: 12px;
-          border: 1px solid #ddd;
-          border-radius: 4px;
-          font-size: 14px;
-        }
+          .input-container {
+            display: flex;
+            gap: 8px;
+            padding: 16px;
+            border-top: 1px solid #e0e0e0;
+            background: #f8f9fa;
+          }
 
-        .message-input:focus {
-          outline: none;
-          border-color: #007bff;
-        }
+          .message-input {
+            flex: 1;
+            padding: 12px;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            font-size: 14px;
+          }
 
-        .message-input:disabled {
-          background: #f5f5f5;
-          cursor: not-allowed;
-        }
+          .message-input:focus {
+            outline: none;
+            border-color: #007bff;
+          }
 
-        .send-button {
-          padding: 12px 24px;
-          background: #007bff;
-          color: white;
-          border: none;
-          border-radius: 4px;
-          cursor: pointer;
-          font-size: 14px;
-          font-weight: 600;
-        }
+          .message-input:disabled {
+            background: #f5f5f5;
+            cursor: not-allowed;
+          }
 
-        .send-button:hover:not(:disabled) {
-          background: #0056b3;
-        }
+          .send-button {
+            padding: 12px 24px;
+            background: #007bff;
+            color: white;
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            font-size: 14px;
+            font-weight: 600;
+          }
 
-        .send-button:disabled {
-          background: #6c757d;
-          cursor: not-allowed;
-        }
-      `}</style>
+          .send-button:hover:not(:disabled) {
+            background: #0056b3;
+          }
+
+          .send-button:disabled {
+            background: #6c757d;
+            cursor: not-allowed;
+          }
+        `}</style>
+      </div>
     </div>
   );
 }
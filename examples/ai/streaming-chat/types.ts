@@ -5,6 +5,12 @@
  * using Server-Sent Events (SSE) for real-time responses.
  */
 
+import type { ApiErrorResponse } from '../../../src/lib/api-error';
+import { v, type Infer } from '../../../worker/validation';
+import { claudeChatRequestFields } from '../shared/chat-schema';
+import type { StopReason } from '../llm-providers/llm-provider';
+import type { CostEstimate } from '../shared/pricing';
+
 /**
  * Represents a single message in the conversation
  */
@@ -22,25 +28,11 @@ export interface ChatMessage {
 }
 
 /**
- * Request body for the /api/chat-stream endpoint
- */
-export interface StreamingChatRequest {
-  /** The user's message to send to Claude */
-  message: string;
-  /** Optional conversation history for context */
-  conversationHistory?: Array<{
-    role: 'user' | 'assistant';
-    content: string;
-  }>;
-  /** Optional model to use (defaults to claude-3-5-sonnet) */
-  model?: string;
-  /** Optional maximum tokens for response */
-  maxTokens?: number;
-  /** Optional temperature (0-1) for response creativity */
-  temperature?: number;
-  /** Optional system prompt to guide Claude's behavior */
-  system?: string;
-}
+ * Request body for the /api/chat-stream endpoint (same fields as /api/chat)
+ */
+export const StreamingChatRequestSchema = v.object(claudeChatRequestFields);
+
+export type StreamingChatRequest = Infer<typeof StreamingChatRequestSchema>;
 
 /**
  * Server-Sent Event (SSE) data types
@@ -75,20 +67,19 @@ export interface DoneStreamEvent {
     input_tokens: number;
     output_tokens: number;
   };
-  /** Stop reason */
-  stop_reason?: 'end_turn' | 'max_tokens' | 'stop_sequence';
+  /** Stop reason, normalized across providers; omitted if not reported */
+  stop_reason?: StopReason;
+  /** Estimated cost of the whole response; omitted for models without pricing */
+  estimatedCost?: CostEstimate;
 }
 
 /**
  * Stream error event
+ * Carries the same fields as the shared error envelope
  */
-export interface ErrorStreamEvent {
+export interface ErrorStreamEvent extends Omit<ApiErrorResponse, 'success'> {
   /** Event type identifier */
   type: 'error';
-  /** Error message */
-  error: string;
-  /** Optional error details */
-  details?: string;
 }
 
 /**
@@ -2,245 +2,258 @@
  * Streaming Chat - Worker Endpoint
  *
  * This file contains the Worker endpoint implementation for handling
- * streaming chat requests with Claude API using Server-Sent Events (SSE).
+ * streaming chat requests using Server-Sent Events (SSE). The model is
+ * called through the LLM provider abstraction, Claude by default.
  *
  * INTEGRATION INSTRUCTIONS:
  * 1. Install dependencies: npm install @anthropic-ai/sdk
  * 2. Add this code to your worker/index.ts
  * 3. Set ANTHROPIC_API_KEY in .dev.vars (local) or Cloudflare secrets (production)
  * 4. Add the route handler to your fetch function
+ * 5. Set up the kv-sessions example and the usage-metering migration:
+ *    callers must be signed in, and every stream counts against their quota
+ * 6. Optional: set LLM_PROVIDER to use another provider (see ../llm-providers)
+ * 7. Optional: apply the conversations migration to keep chats in D1
+ *    (see ../conversations)
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import type { StreamingChatRequest } from './types';
+import {
+  StreamingChatRequestSchema,
+  type DoneStreamEvent,
+  type ErrorStreamEvent,
+} from './types';
+import {
+  loadChatHistory,
+  saveChatExchange,
+} from '../conversations/conversation-history';
+import {
+  conversationMessages,
+  type LLMUsage,
+} from '../llm-providers/llm-provider';
+import { getLLMProvider } from '../llm-providers/provider-config';
+import { RetryingProvider } from '../llm-providers/retry';
+import { estimateCost } from '../shared/pricing';
+import { getTokenBudget } from '../usage-metering/token-budget';
+import { requireAuthOrApiKey } from '../../database/kv-sessions/worker-middleware';
+import type { RouteContext, RouteGroup } from '../../../worker/router';
+import { toErrorBody } from '../../../worker/errors';
+import { parseJsonBody } from '../../../worker/validation';
+
+// Rough size of a token, for output the provider never reported
+const CHARS_PER_TOKEN = 4;
 
 /**
  * Handles POST requests to /api/chat-stream
- * Returns a Server-Sent Events (SSE) stream of Claude's response
+ * Returns a Server-Sent Events (SSE) stream of the model's response
+ *
+ * Errors before the stream starts are thrown as typed errors and returned
+ * as the shared JSON error envelope with a proper HTTP status. Errors after
+ * the stream has started are sent as an SSE `error` event carrying the
+ * same envelope fields.
+ *
+ * Users over their token quota get 429 QUOTA_EXCEEDED before the stream
+ * starts. Usage is added to the ledger when the stream ends, including
+ * streams cut short by an error or a disconnecting client. A client that
+ * disconnects doesn't stop the model: the reply is read to the end, so
+ * the provider's final usage is what gets recorded.
+ *
+ * A provider error before the first event is retried with backoff
+ * (../llm-providers/retry.ts); the client only sees the wait. Once the
+ * model has started answering, errors go to the client as they happen.
+ *
+ * With a conversationId, the history comes from that stored conversation.
+ * The message and the full reply are added to it before the `done` event,
+ * so a client that reloads the conversation then sees them; a stream that
+ * fails part way stores nothing.
  *
  * @param request - The incoming request
- * @param env - Environment bindings (contains ANTHROPIC_API_KEY)
+ * @param env - Environment bindings (provider credentials, LLM_PROVIDER)
+ * @param context - Route context (provides the request ID)
  * @returns SSE stream response
  */
 export async function handleStreamingChat(
   request: Request,
-  env: Env
+  env: Env,
+  context: RouteContext
 ): Promise<Response> {
-  // CORS headers for browser requests
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
-  };
-
-  // Handle preflight requests
-  if (request.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  // Only accept POST requests
-  if (request.method !== 'POST') {
-    return new Response('Method not allowed', {
-      status: 405,
-      headers: corsHeaders,
-    });
-  }
+  // Fails with CONFIGURATION_ERROR if the provider's credentials are missing
+  const provider = new RetryingProvider(getLLMProvider(env), {
+    requestId: context.requestId,
+  });
 
-  try {
-    // Validate API key exists
-    if (!env.ANTHROPIC_API_KEY) {
-      console.error('ANTHROPIC_API_KEY not found in environment');
-      return createErrorStream('API key not configured', corsHeaders);
-    }
+  const session = await requireAuthOrApiKey(request, env);
 
-    // Parse request body
-    const body = (await request.json()) as StreamingChatRequest;
+  // Parse and validate request body (400 with field details on failure)
+  const body = await parseJsonBody(request, StreamingChatRequestSchema);
 
-    // Validate required fields
-    if (!body.message || typeof body.message !== 'string') {
-      return createErrorStream(
-        'Message is required and must be a string',
-        corsHeaders
-      );
-    }
+  // Refuse before spending anything if a quota is used up
+  const budget = getTokenBudget(env);
+  await budget.assertWithinBudget(session.user.id);
 
-    // Validate message length
-    if (body.message.length > 10000) {
-      return createErrorStream(
-        'Message too long (max 10,000 characters)',
-        corsHeaders
-      );
-    }
+  const { conversationId, history } = await loadChatHistory(
+    env,
+    session.user.id,
+    body
+  );
 
-    // Initialize Anthropic client
-    const anthropic = new Anthropic({
-      apiKey: env.ANTHROPIC_API_KEY,
-    });
+  // Create a TransformStream for SSE
+  const { readable, writable } = new TransformStream();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
 
-    // Build messages array for Claude API
-    const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+  // Set once a write fails: the client has gone
+  let disconnected = false;
 
-    // Add conversation history if provided
-    if (body.conversationHistory && Array.isArray(body.conversationHistory)) {
-      for (const msg of body.conversationHistory) {
-        if (msg.role && msg.content) {
-          messages.push({
-            role: msg.role,
-            content: msg.content,
-          });
-        }
-      }
+  // Helper function to send SSE event. Never throws, so a disconnect
+  // doesn't end the loop before the provider reports its usage.
+  const sendEvent = async (data: object) => {
+    if (disconnected) {
+      return;
     }
 
-    // Add current user message
-    messages.push({
-      role: 'user',
-      content: body.message,
-    });
-
-    // Create a TransformStream for SSE
-    const { readable, writable } = new TransformStream();
-    const writer = writable.getWriter();
-    const encoder = new TextEncoder();
-
-    // Helper function to send SSE event
-    const sendEvent = async (data: object) => {
+    try {
       const message = `data: ${JSON.stringify(data)}\n\n`;
       await writer.write(encoder.encode(message));
-    };
-
-    // Start streaming in background
-    (async () => {
-      try {
-        // Call Claude API with streaming enabled
-        const stream = await anthropic.messages.create({
-          model: body.model || 'claude-3-5-sonnet-20241022',
-          max_tokens: body.maxTokens || 2048,
-          temperature: body.temperature ?? 0.7,
-          system: body.system,
-          messages,
-          stream: true, // Enable streaming
-        });
+    } catch {
+      disconnected = true;
+    }
+  };
 
-        // Process stream events
-        for await (const event of stream) {
-          // Handle different event types
-          if (event.type === 'content_block_start') {
-            // Content block started (we can ignore this)
-            continue;
-          }
+  // Filled in from the provider's start and done events
+  let model: string | null = null;
+  let usage: LLMUsage | null = null;
+  // The reply so far, for the conversation
+  let reply = '';
+  // Whether the provider's done event (with the final usage) arrived
+  let finished = false;
 
-          if (event.type === 'content_block_delta') {
-            // New content chunk
-            if (event.delta.type === 'text_delta') {
-              await sendEvent({
-                type: 'content',
-                text: event.delta.text,
-              });
-            }
-          }
+  // Start streaming in background; waitUntil keeps it running (and the
+  // usage recorded) if the client disconnects
+  context.ctx.waitUntil((async () => {
+    try {
+      const stream = provider.stream({
+        model: body.model,
+        system: body.system,
+        messages: conversationMessages(body.message, history),
+        maxTokens: body.maxTokens || 2048,
+        temperature: body.temperature ?? 0.7,
+      });
 
-          if (event.type === 'message_delta') {
-            // Message metadata update (usually stop reason)
-            // We can ignore this during streaming
-            continue;
-          }
+      for await (const event of stream) {
+        if (event.type === 'start') {
+          model = event.model;
+          usage = event.usage;
+        } else if (event.type === 'text') {
+          reply += event.text;
+          await sendEvent({
+            type: 'content',
+            text: event.text,
+          });
+        } else {
+          // Stream complete: send final message with metadata
+          model = event.model;
+          usage = event.usage;
+          finished = true;
 
-          if (event.type === 'message_stop') {
-            // Stream complete
-            // Send final message with metadata
-            const messageData = stream.currentMessage;
-            await sendEvent({
-              type: 'done',
-              model: messageData.model,
-              usage: {
-                input_tokens: messageData.usage.input_tokens,
-                output_tokens: messageData.usage.output_tokens,
-              },
-              stop_reason: messageData.stop_reason,
+          if (conversationId && reply) {
+            await saveChatExchange(env, conversationId, body.message, {
+              content: reply,
+              model: event.model,
             });
-            break;
           }
+
+          const doneEvent: DoneStreamEvent = {
+            type: 'done',
+            model: event.model,
+            usage: usage
+              ? {
+                  input_tokens: usage.inputTokens,
+                  output_tokens: usage.outputTokens,
+                }
+              : undefined,
+            stop_reason: event.stopReason ?? undefined,
+            estimatedCost: usage
+              ? estimateCost(event.model, usage) ?? undefined
+              : undefined,
+          };
+          await sendEvent(doneEvent);
         }
-      } catch (error) {
-        console.error('Streaming error:', error);
+      }
+    } catch (error) {
+      console.error(`[${context.requestId}] Streaming error:`, error);
 
-        // Send error event
-        await sendEvent({
-          type: 'error',
-          error:
-            error instanceof Anthropic.APIError
-              ? error.message
-              : 'An error occurred during streaming',
-          details: error instanceof Error ? error.message : 'Unknown error',
+      // Send error event with the shared error envelope fields
+      const body = toErrorBody(error, context.requestId);
+      const errorEvent: ErrorStreamEvent = {
+        type: 'error',
+        error: body.error,
+        message: body.message,
+        details: body.details,
+        requestId: body.requestId,
+      };
+      await sendEvent(errorEvent);
+    } finally {
+      // Record whatever was used, even if the stream failed part way.
+      // Before closing, so the usage is stored by the time the client's
+      // read ends.
+      if (model) {
+        const reported = usage?.outputTokens ?? 0;
+
+        await budget.record({
+          userId: session.user.id,
+          model,
+          route: context.url.pathname,
+          inputTokens: usage?.inputTokens ?? 0,
+          // A stream that failed part way may not have reported its output
+          outputTokens: finished
+            ? reported
+            : Math.max(reported, Math.ceil(reply.length / CHARS_PER_TOKEN)),
+          requestId: context.requestId,
         });
-      } finally {
-        // Close the writer
-        await writer.close();
       }
-    })();
-
-    // Return SSE response
-    return new Response(readable, {
-      headers: {
-        ...corsHeaders,
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-      },
-    });
-  } catch (error) {
-    console.error('Chat stream setup error:', error);
-    return createErrorStream(
-      'Failed to initialize stream',
-      corsHeaders
-    );
-  }
-}
 
-/**
- * Helper function to create an error stream response
- */
-function createErrorStream(
-  errorMessage: string,
-  corsHeaders: Record<string, string>
-): Response {
-  const encoder = new TextEncoder();
-  const errorEvent = `data: ${JSON.stringify({
-    type: 'error',
-    error: errorMessage,
-  })}\n\n`;
+      // Close the writer; this rejects if the client has gone
+      await writer.close().catch(() => {});
+    }
+  })());
 
-  return new Response(encoder.encode(errorEvent), {
-    status: 200, // SSE should return 200 even for errors
+  // Return SSE response
+  return new Response(readable, {
     headers: {
-      ...corsHeaders,
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
     },
   });
 }
 
+/**
+ * Registers POST /api/chat-stream on the given router group
+ */
+export function registerStreamingChatRoutes(api: RouteGroup): void {
+  api.post('/chat-stream', handleStreamingChat);
+}
+
 /**
  * INTEGRATION EXAMPLE:
  *
  * Add this to your worker/index.ts:
  *
  * ```typescript
- * import { handleStreamingChat } from './api/streaming-chat';
+ * import { Router } from './router';
+ * import { registerStreamingChatRoutes } from './api/streaming-chat';
  *
- * export default {
- *   async fetch(request: Request, env: Env): Promise<Response> {
- *     const url = new URL(request.url);
+ * const router = new Router({ base: '/api' });
  *
- *     // Streaming chat endpoint
- *     if (url.pathname === '/api/chat-stream') {
- *       return handleStreamingChat(request, env);
- *     }
+ * // Streaming chat endpoint
+ * registerStreamingChatRoutes(router);
  *
- *     // ... other routes ...
+ * // ... other routes ...
  *
- *     return new Response(null, { status: 404 });
+ * export default {
+ *   async fetch(request, env, ctx) {
+ *     const response = await router.handle(request, env, ctx);
+ *     return response ?? new Response(null, { status: 404 });
  *   },
  * } satisfies ExportedHandler<Env>;
  * ```
@@ -274,7 +287,7 @@ function createErrorStream(
  *       } else if (data.type === 'done') {
  *         console.log('Stream complete');
  *       } else if (data.type === 'error') {
- *         console.error('Error:', data.error);
+ *         console.error('Error:', data.message);
  *       }
  *     }
  *   }
@@ -291,8 +304,11 @@ function createErrorStream(
  * Done event:
  * data: {"type":"done","model":"claude-3-5-sonnet-20241022","usage":{...}}
  *
- * Error event:
- * data: {"type":"error","error":"Error message"}
+ * Error event (after the stream has started):
+ * data: {"type":"error","error":"UPSTREAM_AI_ERROR","message":"...","requestId":"..."}
+ *
+ * Errors before the stream starts (validation, configuration) are returned
+ * as the shared JSON error envelope with a non-200 status instead.
  *
  * Note: Each event ends with \n\n (double newline)
  */
@@ -300,26 +316,18 @@ function createErrorStream(
 /**
  * RATE LIMITING (Recommended for production):
  *
- * Streaming requests can be more resource-intensive. Implement rate limiting:
+ * Streaming requests hold a connection open, so cap how many each client
+ * can run at once as well as how often they start. withStreamLimit keeps
+ * the slot until the response body ends or the client disconnects:
  *
  * ```typescript
- * // Track concurrent streams per IP
- * const activeStreams = new Map<string, number>();
+ * import { withRateLimit, withStreamLimit } from '../rate-limiting/rate-limit';
  *
- * function checkStreamLimit(ip: string): boolean {
- *   const current = activeStreams.get(ip) || 0;
- *   if (current >= 2) { // Max 2 concurrent streams per IP
- *     return false;
- *   }
- *   activeStreams.set(ip, current + 1);
- *   return true;
- * }
- *
- * function releaseStreamSlot(ip: string) {
- *   const current = activeStreams.get(ip) || 0;
- *   if (current > 0) {
- *     activeStreams.set(ip, current - 1);
- *   }
- * }
+ * api.post('/chat-stream', withRateLimit(
+ *   { name: 'chat-stream', rule: { algorithm: 'token-bucket', capacity: 5, refillRate: 0.1 } },
+ *   withStreamLimit({ name: 'chat-stream', maxConcurrent: 2 }, handleStreamingChat)
+ * ));
  * ```
+ *
+ * See ../rate-limiting/README.md for the options.
  */
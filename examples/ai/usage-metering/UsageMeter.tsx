@@ -0,0 +1,116 @@
+/**
+ * Usage Meter Component
+ *
+ * Shows the signed-in user's AI token usage against their daily and
+ * monthly quotas, from GET /api/usage. The chat components render it in
+ * their header and bump `refreshKey` after each reply.
+ *
+ * Usage:
+ * <UsageMeter refreshKey={repliesReceived} />
+ */
+
+import { useEffect, useState } from 'react';
+import type { QuotaStatus, UsageResponse, UsageSummary } from './types';
+import { parseApiResponse } from '../../../src/lib/api-error';
+
+interface UsageMeterProps {
+  /** Usage is fetched again whenever this changes */
+  refreshKey?: unknown;
+}
+
+const numberFormat = new Intl.NumberFormat();
+
+function QuotaBar({ label, quota }: { label: string; quota: QuotaStatus }) {
+  const percent = Math.min(100, (quota.used / quota.limit) * 100);
+  const level = percent >= 100 ? 'full' : percent >= 80 ? 'high' : 'ok';
+
+  return (
+    <div
+      className="usage-quota"
+      title={`Resets ${new Date(quota.resetsAt).toLocaleString()}`}
+    >
+      <div className="usage-label">
+        {label}: {numberFormat.format(quota.used)} /{' '}
+        {numberFormat.format(quota.limit)} tokens
+      </div>
+      <div className="usage-track">
+        <div
+          className={`usage-fill usage-fill-${level}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function UsageMeter({ refreshKey }: UsageMeterProps) {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/usage')
+      .then((response) => parseApiResponse<UsageResponse>(response))
+      .then(({ data }) => {
+        if (!cancelled) setUsage(data);
+      })
+      .catch((error) => {
+        // The meter is informational; the chat still reports quota errors
+        console.error('Failed to load usage:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  if (!usage) return null;
+
+  return (
+    <div className="usage-meter">
+      <QuotaBar label="Today" quota={usage.daily} />
+      <QuotaBar label="This month" quota={usage.monthly} />
+
+      {/* Inline Styles (for demo - move to CSS file in production) */}
+      <style>{`
+        .usage-meter {
+          display: flex;
+          gap: 16px;
+          font-size: 12px;
+          color: #666;
+        }
+
+        .usage-quota {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          min-width: 140px;
+        }
+
+        .usage-track {
+          height: 4px;
+          background: #e0e0e0;
+          border-radius: 2px;
+          overflow: hidden;
+        }
+
+        .usage-fill {
+          height: 100%;
+          transition: width 0.3s ease;
+        }
+
+        .usage-fill-ok {
+          background: #28a745;
+        }
+
+        .usage-fill-high {
+          background: #ffc107;
+        }
+
+        .usage-fill-full {
+          background: #dc3545;
+        }
+      `}</style>
+    </div>
+  );
+}
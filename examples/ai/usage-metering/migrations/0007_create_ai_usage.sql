@@ -0,0 +1,23 @@
+-- Migration: Create ai_usage table
+-- Created: 2026-10-19
+-- Description: One row per AI call, for token quotas and /api/usage (see token-budget.ts)
+-- Numbered to follow the kv-sessions migrations, which create the users table
+
+-- Up Migration
+CREATE TABLE ai_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  model TEXT NOT NULL,                 -- Model that served the call, as reported by the provider
+  route TEXT NOT NULL,                 -- Request path, e.g. '/api/chat'
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  request_id TEXT,                     -- Matches X-Request-Id and the worker logs
+  created_at TEXT NOT NULL             -- ISO 8601 UTC, compared as text for the quota periods
+);
+
+-- Sum a user's usage since the start of a day or month
+CREATE INDEX idx_ai_usage_user_created ON ai_usage(user_id, created_at);
+
+-- Down Migration (commented out - uncomment to rollback)
+-- DROP INDEX IF EXISTS idx_ai_usage_user_created;
+-- DROP TABLE IF EXISTS ai_usage;
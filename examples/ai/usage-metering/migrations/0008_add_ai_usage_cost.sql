@@ -0,0 +1,15 @@
+-- Migration: Add estimated cost to ai_usage
+-- Created: 2026-10-19
+-- Description: USD estimate per call from shared/pricing.ts, stored at call time so
+-- the cost report keeps the prices that applied then. NULL for unpriced models and
+-- for rows recorded before this migration.
+
+-- Up Migration
+ALTER TABLE ai_usage ADD COLUMN estimated_cost_usd REAL;
+
+-- The cost report scans a date range across all users
+CREATE INDEX idx_ai_usage_created ON ai_usage(created_at);
+
+-- Down Migration (commented out - uncomment to rollback)
+-- DROP INDEX IF EXISTS idx_ai_usage_created;
+-- ALTER TABLE ai_usage DROP COLUMN estimated_cost_usd;
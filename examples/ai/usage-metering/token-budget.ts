@@ -0,0 +1,149 @@
+/**
+ * Token Budgets
+ *
+ * Enforces per-user daily and monthly token quotas on the AI endpoints and
+ * records what each call used. A chat handler calls:
+ *
+ * const budget = getTokenBudget(env);
+ * await budget.assertWithinBudget(userId);   // before the upstream call
+ * ...
+ * await budget.record({ userId, model, route, ... });  // after it
+ *
+ * The check runs before the call, when its cost isn't known yet, so a user
+ * can go over a quota by at most one response; the next call is refused.
+ *
+ * Prerequisites:
+ * 1. D1 database bound as "DB" with migrations/0007_create_ai_usage.sql
+ *    applied (see usage-store.ts)
+ */
+
+import { DEFAULT_USAGE_QUOTAS } from './types';
+import type {
+  QuotaPeriod,
+  QuotaStatus,
+  UsageEntry,
+  UsageQuotas,
+  UsageSummary,
+} from './types';
+import { UsageStore } from './usage-store';
+import { estimateCost } from '../shared/pricing';
+import { ApiError } from '../../../worker/errors';
+
+/**
+ * Start of the current UTC day and month, and of the next ones
+ */
+function quotaPeriods(now = new Date()) {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const date = now.getUTCDate();
+
+  return {
+    dayStart: new Date(Date.UTC(year, month, date)),
+    nextDay: new Date(Date.UTC(year, month, date + 1)),
+    monthStart: new Date(Date.UTC(year, month, 1)),
+    nextMonth: new Date(Date.UTC(year, month + 1, 1)),
+  };
+}
+
+function quotaStatus(used: number, limit: number, resetsAt: Date): QuotaStatus {
+  return {
+    used,
+    limit,
+    remaining: Math.max(0, limit - used),
+    resetsAt: resetsAt.toISOString(),
+  };
+}
+
+export class TokenBudget {
+  private store: UsageStore;
+  private quotas: UsageQuotas;
+
+  constructor(db: D1Database, quotas: Partial<UsageQuotas> = {}) {
+    this.store = new UsageStore(db);
+    this.quotas = { ...DEFAULT_USAGE_QUOTAS, ...quotas };
+  }
+
+  /**
+   * Current quota status and this month's breakdown for /api/usage
+   */
+  async getSummary(userId: string): Promise<UsageSummary> {
+    const periods = quotaPeriods();
+    const [totals, breakdown] = await Promise.all([
+      this.store.totals(userId, periods.dayStart, periods.monthStart),
+      this.store.breakdown(userId, periods.monthStart),
+    ]);
+
+    return {
+      daily: quotaStatus(totals.daily, this.quotas.dailyTokens, periods.nextDay),
+      monthly: quotaStatus(
+        totals.monthly,
+        this.quotas.monthlyTokens,
+        periods.nextMonth
+      ),
+      breakdown,
+    };
+  }
+
+  /**
+   * Throw 429 QUOTA_EXCEEDED if the user has used up a quota.
+   * The monthly quota is reported first, since it resets later.
+   */
+  async assertWithinBudget(userId: string): Promise<void> {
+    const periods = quotaPeriods();
+    const totals = await this.store.totals(
+      userId,
+      periods.dayStart,
+      periods.monthStart
+    );
+
+    const checks: Array<[QuotaPeriod, number, number, Date]> = [
+      ['monthly', totals.monthly, this.quotas.monthlyTokens, periods.nextMonth],
+      ['daily', totals.daily, this.quotas.dailyTokens, periods.nextDay],
+    ];
+
+    for (const [period, used, limit, resetsAt] of checks) {
+      if (used >= limit) {
+        throw new ApiError(
+          429,
+          'QUOTA_EXCEEDED',
+          `You've used your ${period} AI token quota. It resets at ${resetsAt.toISOString()}.`,
+          {
+            details: { period, ...quotaStatus(used, limit, resetsAt) },
+            headers: {
+              'Retry-After': String(
+                Math.ceil((resetsAt.getTime() - Date.now()) / 1000)
+              ),
+            },
+          }
+        );
+      }
+    }
+  }
+
+  /**
+   * Add a call to the ledger, priced from shared/pricing.ts. Never throws:
+   * the call has already been made, so a ledger failure is logged rather
+   * than failing the response.
+   */
+  async record(entry: UsageEntry): Promise<void> {
+    try {
+      await this.store.record(
+        entry,
+        estimateCost(entry.model, entry)?.usd ?? null
+      );
+    } catch (error) {
+      console.error(`[${entry.requestId}] Failed to record AI usage:`, error);
+    }
+  }
+}
+
+/**
+ * TokenBudget for the D1 database bound as DB
+ */
+export function getTokenBudget(env: Env): TokenBudget {
+  if (!env.DB) {
+    throw new ApiError(500, 'CONFIGURATION_ERROR', 'Usage database not configured');
+  }
+
+  return new TokenBudget(env.DB);
+}
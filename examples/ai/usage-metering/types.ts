@@ -0,0 +1,129 @@
+/**
+ * Type definitions for AI Usage Metering
+ *
+ * Shared by the Worker (ledger, quotas, /api/usage) and the React
+ * UsageMeter component.
+ */
+
+/**
+ * Token quotas per user. Input and output tokens both count.
+ * Days and months start at midnight UTC.
+ */
+export interface UsageQuotas {
+  dailyTokens: number;
+  monthlyTokens: number;
+}
+
+export const DEFAULT_USAGE_QUOTAS: UsageQuotas = {
+  dailyTokens: 200_000,
+  monthlyTokens: 2_000_000,
+};
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+/**
+ * One AI call, as written to the ledger
+ */
+export interface UsageEntry {
+  userId: string;
+  model: string;
+  route: string;
+  inputTokens: number;
+  outputTokens: number;
+  requestId: string;
+}
+
+/**
+ * Database row from the ai_usage table
+ */
+export interface UsageRow {
+  id: number;
+  user_id: string;
+  model: string;
+  route: string;
+  input_tokens: number;
+  output_tokens: number;
+  request_id: string | null;
+  /** From shared/pricing.ts at call time; null for unpriced models */
+  estimated_cost_usd: number | null;
+  created_at: string;
+}
+
+/**
+ * Usage against one quota
+ */
+export interface QuotaStatus {
+  /** Tokens used so far in the period */
+  used: number;
+  limit: number;
+  remaining: number;
+  /** ISO 8601 start of the next period */
+  resetsAt: string;
+}
+
+/**
+ * This month's usage for one model and route
+ */
+export interface UsageBreakdown {
+  model: string;
+  route: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageSummary {
+  daily: QuotaStatus;
+  monthly: QuotaStatus;
+  breakdown: UsageBreakdown[];
+}
+
+/**
+ * Response from GET /api/usage
+ */
+export interface UsageResponse {
+  success: true;
+  data: UsageSummary;
+}
+
+/**
+ * Usage and estimated cost over the report's date range
+ */
+export interface CostTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number;
+  /** Calls with no estimate (unpriced models, or recorded before costs were) */
+  unpricedRequests: number;
+}
+
+export interface ModelCost extends CostTotals {
+  model: string;
+}
+
+export interface UserCost extends CostTotals {
+  userId: string;
+  email: string;
+}
+
+export interface CostReport {
+  /** First day of the range, YYYY-MM-DD (UTC) */
+  from: string;
+  /** Last day of the range, inclusive */
+  to: string;
+  totals: CostTotals;
+  byModel: ModelCost[];
+  /** Highest-cost users first, at most COST_REPORT_TOP_USERS */
+  byUser: UserCost[];
+}
+
+export const COST_REPORT_TOP_USERS = 20;
+
+/**
+ * Response from GET /api/usage/report
+ */
+export interface CostReportResponse {
+  success: true;
+  data: CostReport;
+}
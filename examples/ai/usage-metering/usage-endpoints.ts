@@ -0,0 +1,129 @@
+/**
+ * Usage Endpoints
+ *
+ * GET /api/usage        - the signed-in user's token usage against their daily
+ *                         and monthly quotas, with this month's usage per
+ *                         model and route
+ * GET /api/usage/report - admin only: usage and estimated cost across all
+ *                         users for a date range
+ *
+ * /api/usage accepts a session (cookie or access token) or an API key, like
+ * the chat endpoints it reports on. The report requires the admin role.
+ *
+ * Prerequisites:
+ * 1. The kv-sessions example set up (users, sessions and roles)
+ * 2. migrations/0007_create_ai_usage.sql and 0008_add_ai_usage_cost.sql applied
+ */
+
+import { getTokenBudget } from './token-budget';
+import {
+  COST_REPORT_TOP_USERS,
+  type CostReportResponse,
+  type UsageResponse,
+} from './types';
+import { UsageStore } from './usage-store';
+import {
+  requireAuthOrApiKey,
+  requireRole,
+} from '../../database/kv-sessions/worker-middleware';
+import { ApiError, ValidationError } from '../../../worker/errors';
+import type { RouteGroup } from '../../../worker/router';
+import { parse, v } from '../../../worker/validation';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const CostReportQuerySchema = v.object({
+  from: v.optional(
+    v.string({ pattern: DATE_PATTERN, patternMessage: 'from must be YYYY-MM-DD' })
+  ),
+  to: v.optional(
+    v.string({ pattern: DATE_PATTERN, patternMessage: 'to must be YYYY-MM-DD' })
+  ),
+});
+
+// Midnight UTC at the start of a YYYY-MM-DD day, or null if there's no such day
+function startOfDay(date: string): Date | null {
+  const start = new Date(`${date}T00:00:00.000Z`);
+  return start.toISOString().startsWith(date) ? start : null;
+}
+
+/**
+ * GET /api/usage - Current usage and quotas
+ */
+export async function getUsage(request: Request, env: Env): Promise<Response> {
+  const session = await requireAuthOrApiKey(request, env);
+  const summary = await getTokenBudget(env).getSummary(session.user.id);
+
+  const response: UsageResponse = {
+    success: true,
+    data: summary,
+  };
+
+  return Response.json(response, {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
+
+/**
+ * GET /api/usage/report - Usage and estimated cost across all users
+ * Query parameters (UTC days, inclusive):
+ * - from: YYYY-MM-DD (default: the 1st of this month)
+ * - to: YYYY-MM-DD (default: today)
+ */
+export async function getCostReport(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  if (!env.DB) {
+    throw new ApiError(500, 'CONFIGURATION_ERROR', 'Usage database not configured');
+  }
+
+  const url = new URL(request.url);
+  const query = parse(
+    CostReportQuerySchema,
+    Object.fromEntries(url.searchParams)
+  );
+
+  const today = new Date().toISOString().slice(0, 10);
+  const from = query.from ?? `${today.slice(0, 8)}01`;
+  const to = query.to ?? today;
+
+  const since = startOfDay(from);
+  const lastDay = startOfDay(to);
+
+  if (!since || !lastDay) {
+    const field = since ? 'to' : 'from';
+    const message = `${field} is not a calendar date`;
+    throw new ValidationError(message, [{ field, message }]);
+  }
+
+  if (lastDay < since) {
+    throw new ValidationError('to must not be before from', [
+      { field: 'to', message: 'to must not be before from' },
+    ]);
+  }
+
+  const until = new Date(lastDay.getTime() + 24 * 60 * 60 * 1000);
+  const report = await new UsageStore(env.DB).costReport(
+    since,
+    until,
+    COST_REPORT_TOP_USERS
+  );
+
+  const response: CostReportResponse = {
+    success: true,
+    data: { from, to, ...report },
+  };
+
+  return Response.json(response, {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
+
+/**
+ * Registers GET /api/usage and GET /api/usage/report on the given router group
+ */
+export function registerUsageRoutes(api: RouteGroup): void {
+  api.get('/usage', getUsage);
+  api.get('/usage/report', requireRole('admin', getCostReport));
+}
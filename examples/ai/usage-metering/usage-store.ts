@@ -0,0 +1,160 @@
+/**
+ * D1 Usage Store
+ *
+ * Writes one row per AI call to the `ai_usage` ledger and sums it per user.
+ * Timestamps are stored as ISO 8601 strings so period boundaries can be
+ * compared as text, which the (user_id, created_at) index supports.
+ *
+ * Prerequisites:
+ * 1. D1 database bound as "DB" (the kv-sessions database)
+ * 2. migrations/0007_create_ai_usage.sql and 0008_add_ai_usage_cost.sql applied
+ */
+
+import type {
+  CostTotals,
+  ModelCost,
+  UsageBreakdown,
+  UsageEntry,
+  UserCost,
+} from './types';
+
+// Aggregate columns shared by the cost report queries
+const COST_COLUMNS = `
+  COUNT(*) AS requests,
+  COALESCE(SUM(input_tokens), 0) AS inputTokens,
+  COALESCE(SUM(output_tokens), 0) AS outputTokens,
+  ROUND(COALESCE(SUM(estimated_cost_usd), 0), 6) AS estimatedCostUsd,
+  COUNT(*) - COUNT(estimated_cost_usd) AS unpricedRequests`;
+
+export class UsageStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  /**
+   * Write one ledger row. `estimatedCostUsd` is null for unpriced models.
+   */
+  async record(entry: UsageEntry, estimatedCostUsd: number | null): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO ai_usage (user_id, model, route, input_tokens, output_tokens, estimated_cost_usd, request_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        entry.userId,
+        entry.model,
+        entry.route,
+        entry.inputTokens,
+        entry.outputTokens,
+        estimatedCostUsd,
+        entry.requestId,
+        new Date().toISOString()
+      )
+      .run();
+  }
+
+  /**
+   * Tokens a user has used since the start of the day and of the month,
+   * in one query. `dayStart` must not be before `monthStart`.
+   */
+  async totals(
+    userId: string,
+    dayStart: Date,
+    monthStart: Date
+  ): Promise<{ daily: number; monthly: number }> {
+    const row = await this.db
+      .prepare(
+        `SELECT
+           COALESCE(SUM(input_tokens + output_tokens), 0) AS monthly,
+           COALESCE(SUM(CASE WHEN created_at >= ? THEN input_tokens + output_tokens END), 0) AS daily
+         FROM ai_usage
+         WHERE user_id = ? AND created_at >= ?`
+      )
+      .bind(dayStart.toISOString(), userId, monthStart.toISOString())
+      .first<{ daily: number; monthly: number }>();
+
+    return row ?? { daily: 0, monthly: 0 };
+  }
+
+  /**
+   * Usage since `since` per model and route, heaviest first
+   */
+  async breakdown(userId: string, since: Date): Promise<UsageBreakdown[]> {
+    const { results } = await this.db
+      .prepare(
+        `SELECT
+           model,
+           route,
+           COUNT(*) AS requests,
+           SUM(input_tokens) AS inputTokens,
+           SUM(output_tokens) AS outputTokens
+         FROM ai_usage
+         WHERE user_id = ? AND created_at >= ?
+         GROUP BY model, route
+         ORDER BY SUM(input_tokens + output_tokens) DESC`
+      )
+      .bind(userId, since.toISOString())
+      .all<UsageBreakdown>();
+
+    return results;
+  }
+
+  /**
+   * Usage and cost across all users from `since` up to (not including)
+   * `until`: overall, per model and for the `topUsers` highest-cost users
+   */
+  async costReport(
+    since: Date,
+    until: Date,
+    topUsers: number
+  ): Promise<{ totals: CostTotals; byModel: ModelCost[]; byUser: UserCost[] }> {
+    const range = [since.toISOString(), until.toISOString()];
+
+    const [totals, byModel, byUser] = await Promise.all([
+      this.db
+        .prepare(
+          `SELECT ${COST_COLUMNS}
+           FROM ai_usage
+           WHERE created_at >= ? AND created_at < ?`
+        )
+        .bind(...range)
+        .first<CostTotals>(),
+      this.db
+        .prepare(
+          `SELECT model, ${COST_COLUMNS}
+           FROM ai_usage
+           WHERE created_at >= ? AND created_at < ?
+           GROUP BY model
+           ORDER BY estimatedCostUsd DESC, model`
+        )
+        .bind(...range)
+        .all<ModelCost>(),
+      this.db
+        .prepare(
+          `SELECT ai_usage.user_id AS userId, users.email AS email, ${COST_COLUMNS}
+           FROM ai_usage
+           JOIN users ON users.id = ai_usage.user_id
+           WHERE ai_usage.created_at >= ? AND ai_usage.created_at < ?
+           GROUP BY ai_usage.user_id
+           ORDER BY estimatedCostUsd DESC, inputTokens + outputTokens DESC
+           LIMIT ?`
+        )
+        .bind(...range, topUsers)
+        .all<UserCost>(),
+    ]);
+
+    return {
+      totals: totals ?? {
+        requests: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        estimatedCostUsd: 0,
+        unpricedRequests: 0,
+      },
+      byModel: byModel.results,
+      byUser: byUser.results,
+    };
+  }
+}
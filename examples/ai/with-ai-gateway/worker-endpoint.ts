@@ -9,9 +9,56 @@
  * 2. Add gateway URL to environment variables
  * 3. Update existing chat endpoint to use gateway baseURL
  * 4. No other code changes needed!
+ *
+ * Request bodies are validated before anything is sent upstream, so a bad
+ * body is a 400 VALIDATION_ERROR. Provider failures are thrown as
+ * UpstreamAIError (worker/errors.ts). Both are returned as the shared error
+ * envelope by the top-level catch in worker/index.ts.
  */
 
 import Anthropic from '@anthropic-ai/sdk';
+import { AnthropicProvider } from '../llm-providers/anthropic-provider';
+import {
+  completeWithFallback,
+  type FallbackPolicy,
+} from '../llm-providers/fallback-chain';
+import { OpenAIProvider } from '../llm-providers/openai-provider';
+import { chatRequestFields } from '../shared/chat-schema';
+import { UpstreamAIError } from '../../../worker/errors';
+import type { RouteContext } from '../../../worker/router';
+import { parseJsonBody, v } from '../../../worker/validation';
+
+/**
+ * Request body for Examples 1-3
+ */
+export const GatewayChatRequestSchema = v.object({
+  message: chatRequestFields.message,
+});
+
+/**
+ * Request body for Example 4: who is asking, for the gateway's analytics
+ */
+export const MetadataChatRequestSchema = v.object({
+  message: chatRequestFields.message,
+  userId: v.optional(v.string({ max: 100 })),
+  feature: v.optional(v.string({ max: 100 })),
+});
+
+/**
+ * Request body for Example 5
+ */
+export const CacheControlChatRequestSchema = v.object({
+  message: chatRequestFields.message,
+  /** Skip the gateway's cache for this request */
+  bypassCache: v.optional(v.boolean()),
+});
+
+/**
+ * Gateway base URL for a provider, e.g. .../my-gateway/anthropic
+ */
+function gatewayBaseURL(env: Env, provider: 'anthropic' | 'openai'): string {
+  return `https://gateway.ai.cloudflare.com/v1/${env.CLOUDFLARE_ACCOUNT_ID}/${env.GATEWAY_NAME}/${provider}`;
+}
 
 /**
  * Example 1: Simple Gateway Integration
@@ -22,20 +69,9 @@ export async function handleChatWithGateway(
   request: Request,
   env: Env
 ): Promise<Response> {
-  // CORS headers
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
-  };
-
-  if (request.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
+  const { message } = await parseJsonBody(request, GatewayChatRequestSchema);
 
   try {
-    const { message } = await request.json();
-
     // Initialize Anthropic with Gateway URL
     const anthropic = new Anthropic({
       apiKey: env.ANTHROPIC_API_KEY,
@@ -50,19 +86,13 @@ export async function handleChatWithGateway(
       messages: [{ role: 'user', content: message }],
     });
 
-    return Response.json(
-      {
-        message: response.content[0].text,
-        model: response.model,
-      },
-      { headers: corsHeaders }
-    );
+    return Response.json({
+      message: response.content[0].text,
+      model: response.model,
+    });
   } catch (error) {
     console.error('Gateway chat error:', error);
-    return Response.json(
-      { error: 'An error occurred' },
-      { status: 500, headers: corsHeaders }
-    );
+    throw new UpstreamAIError('AI Gateway request failed', { cause: error });
   }
 }
 
@@ -75,19 +105,9 @@ export async function handleStreamingWithGateway(
   request: Request,
   env: Env
 ): Promise<Response> {
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
-  };
-
-  if (request.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
+  const { message } = await parseJsonBody(request, GatewayChatRequestSchema);
 
   try {
-    const { message } = await request.json();
-
     const anthropic = new Anthropic({
       apiKey: env.ANTHROPIC_API_KEY,
       baseURL: `https://gateway.ai.cloudflare.com/v1/${env.CLOUDFLARE_ACCOUNT_ID}/${env.GATEWAY_NAME}/anthropic`,
@@ -132,7 +152,6 @@ export async function handleStreamingWithGateway(
 
     return new Response(readable, {
       headers: {
-        ...corsHeaders,
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive',
@@ -140,91 +159,65 @@ export async function handleStreamingWithGateway(
     });
   } catch (error) {
     console.error('Gateway streaming error:', error);
-    return new Response('Error', { status: 500, headers: corsHeaders });
+    throw new UpstreamAIError('AI Gateway streaming request failed', { cause: error });
   }
 }
 
 /**
  * Example 3: Multi-Provider with Fallback
  *
- * Try Claude first, fallback to OpenAI if it fails
+ * Claude first, then GPT-4, both through the gateway. The order, timeouts
+ * and which errors move on to the next provider are a FallbackPolicy
+ * (../llm-providers/fallback-chain.ts): a 400 from Claude is returned as
+ * is, since GPT-4 would reject the same request, while timeouts, rate
+ * limits and 5xx fail over. Providers failing for everyone are skipped
+ * by their circuit breaker until they recover.
+ *
+ * The response names the provider that answered and lists every attempt.
  */
 export async function handleChatWithFallback(
   request: Request,
-  env: Env
+  env: Env,
+  context: RouteContext
 ): Promise<Response> {
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
-  };
-
-  if (request.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
+  // A bad body is the client's error; don't spend the chain on it
+  const { message } = await parseJsonBody(request, GatewayChatRequestSchema);
 
-  try {
-    const { message } = await request.json();
-
-    // Try Claude first
-    try {
-      const anthropic = new Anthropic({
-        apiKey: env.ANTHROPIC_API_KEY,
-        baseURL: `https://gateway.ai.cloudflare.com/v1/${env.CLOUDFLARE_ACCOUNT_ID}/${env.GATEWAY_NAME}/anthropic`,
-      });
-
-      const response = await anthropic.messages.create({
+  const policy: FallbackPolicy = {
+    targets: [
+      {
+        provider: new AnthropicProvider({
+          apiKey: env.ANTHROPIC_API_KEY,
+          baseURL: gatewayBaseURL(env, 'anthropic'),
+        }),
         model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 1024,
-        messages: [{ role: 'user', content: message }],
-      });
-
-      return Response.json(
-        {
-          message: response.content[0].text,
-          model: response.model,
-          provider: 'anthropic',
-        },
-        { headers: corsHeaders }
-      );
-    } catch (claudeError) {
-      console.log('Claude failed, trying OpenAI...', claudeError);
-
-      // Fallback to OpenAI through gateway
-      const openaiResponse = await fetch(
-        `https://gateway.ai.cloudflare.com/v1/${env.CLOUDFLARE_ACCOUNT_ID}/${env.GATEWAY_NAME}/openai/v1/chat/completions`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${env.OPENAI_API_KEY}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'gpt-4',
-            messages: [{ role: 'user', content: message }],
-            max_tokens: 1024,
-          }),
-        }
-      );
-
-      const data = await openaiResponse.json();
-
-      return Response.json(
-        {
-          message: data.choices[0].message.content,
-          model: data.model,
-          provider: 'openai',
-        },
-        { headers: corsHeaders }
-      );
-    }
-  } catch (error) {
-    console.error('All providers failed:', error);
-    return Response.json(
-      { error: 'Service unavailable' },
-      { status: 503, headers: corsHeaders }
-    );
-  }
+        timeout: 20,
+      },
+      {
+        provider: new OpenAIProvider({
+          apiKey: env.OPENAI_API_KEY,
+          baseURL: `${gatewayBaseURL(env, 'openai')}/v1`,
+        }),
+        model: 'gpt-4',
+      },
+    ],
+    failoverOn: ['timeout', 'rate_limit', 'server'],
+    timeout: 30,
+  };
+
+  const completion = await completeWithFallback(
+    env,
+    policy,
+    { messages: [{ role: 'user', content: message }], maxTokens: 1024 },
+    context
+  );
+
+  return Response.json({
+    message: completion.text,
+    model: completion.model,
+    provider: completion.provider,
+    attempts: completion.attempts,
+  });
 }
 
 /**
@@ -236,19 +229,12 @@ export async function handleChatWithMetadata(
   request: Request,
   env: Env
 ): Promise<Response> {
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
-  };
-
-  if (request.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
+  const { message, userId, feature } = await parseJsonBody(
+    request,
+    MetadataChatRequestSchema
+  );
 
   try {
-    const { message, userId, feature } = await request.json();
-
     // Build gateway URL
     const gatewayURL = `https://gateway.ai.cloudflare.com/v1/${env.CLOUDFLARE_ACCOUNT_ID}/${env.GATEWAY_NAME}/anthropic/v1/messages`;
 
@@ -274,21 +260,18 @@ export async function handleChatWithMetadata(
       }),
     });
 
-    const data = await response.json();
+    const data = (await response.json()) as {
+      content: { text: string }[];
+      model: string;
+    };
 
-    return Response.json(
-      {
-        message: data.content[0].text,
-        model: data.model,
-      },
-      { headers: corsHeaders }
-    );
+    return Response.json({
+      message: data.content[0].text,
+      model: data.model,
+    });
   } catch (error) {
     console.error('Gateway metadata error:', error);
-    return Response.json(
-      { error: 'An error occurred' },
-      { status: 500, headers: corsHeaders }
-    );
+    throw new UpstreamAIError('AI Gateway request failed', { cause: error });
   }
 }
 
@@ -301,19 +284,12 @@ export async function handleChatWithCacheControl(
   request: Request,
   env: Env
 ): Promise<Response> {
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
-  };
-
-  if (request.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
+  const { message, bypassCache = false } = await parseJsonBody(
+    request,
+    CacheControlChatRequestSchema
+  );
 
   try {
-    const { message, bypassCache = false } = await request.json();
-
     const anthropic = new Anthropic({
       apiKey: env.ANTHROPIC_API_KEY,
       baseURL: `https://gateway.ai.cloudflare.com/v1/${env.CLOUDFLARE_ACCOUNT_ID}/${env.GATEWAY_NAME}/anthropic`,
@@ -329,20 +305,14 @@ export async function handleChatWithCacheControl(
       messages: [{ role: 'user', content: message }],
     });
 
-    return Response.json(
-      {
-        message: response.content[0].text,
-        model: response.model,
-        cached: !bypassCache,
-      },
-      { headers: corsHeaders }
-    );
+    return Response.json({
+      message: response.content[0].text,
+      model: response.model,
+      cached: !bypassCache,
+    });
   } catch (error) {
     console.error('Gateway cache control error:', error);
-    return Response.json(
-      { error: 'An error occurred' },
-      { status: 500, headers: corsHeaders }
-    );
+    throw new UpstreamAIError('AI Gateway request failed', { cause: error });
   }
 }
 
@@ -355,6 +325,11 @@ export async function handleChatWithCacheControl(
  *   "vars": {
  *     "CLOUDFLARE_ACCOUNT_ID": "your-account-id",
  *     "GATEWAY_NAME": "your-gateway-name"
+ *   },
+ *   // Example 3's circuit breakers
+ *   // (see ../llm-providers/circuit-breaker-durable-object.ts)
+ *   "durable_objects": {
+ *     "bindings": [{ "name": "CIRCUIT_BREAKER", "class_name": "CircuitBreakerDurableObject" }]
  *   }
  * }
  * ```
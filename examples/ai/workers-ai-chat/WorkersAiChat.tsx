@@ -10,6 +10,9 @@
  * 3. Import and use in your App.tsx or other component
  * 4. Ensure the worker endpoint is set up at /api/ai-chat
  * 5. Ensure AI binding is added to wrangler.jsonc
+ * 6. Optional: copy ../conversations (ConversationSidebar.tsx,
+ *    conversation-api.ts and types.ts) and set up /api/conversations.
+ *    Signed-in users' chats are then stored; everyone else's stay in the page.
  */
 
 import { useState, useRef, useEffect } from 'react';
@@ -17,12 +20,19 @@ import type {
   ChatMessage,
   WorkersAIChatRequest,
   WorkersAIChatResponse,
-  WorkersAIChatErrorResponse,
   WorkersAIChatUIState,
   WorkersAIModel,
   WORKERS_AI_MODELS,
   WORKERS_AI_MODEL_INFO,
 } from './types';
+import {
+  createConversation,
+  fetchConversationMessages,
+} from '../conversations/conversation-api';
+import ConversationSidebar from '../conversations/ConversationSidebar';
+import type { Conversation } from '../conversations/types';
+import { ApiRequestError, parseApiResponse } from '../../../src/lib/api-error';
+import { fetchWithCsrf } from '../../../src/lib/fetch-with-csrf';
 
 /**
  * Main Workers AI Chat Component
@@ -40,6 +50,16 @@ export default function WorkersAiChat() {
   // Model selector visibility
   const [showModelSelector, setShowModelSelector] = useState(false);
 
+  // Stored conversation the messages belong to; the first message creates it
+  const [conversationId, setConversationId] = useState<string | null>(null);
+
+  // Cleared when creating a conversation fails with 401: signed-out users
+  // send their history with each message instead
+  const [canStore, setCanStore] = useState(true);
+
+  // Bumped after every request so the conversation list refetches
+  const [conversationsRefresh, setConversationsRefresh] = useState(0);
+
   // Reference to messages container for auto-scrolling
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -75,18 +95,34 @@ export default function WorkersAiChat() {
     }));
 
     try {
-      // Build request payload
-      const requestBody: WorkersAIChatRequest = {
-        message: userMessage,
-        conversationHistory: state.messages.map((msg) => ({
-          role: msg.role as 'user' | 'assistant',
-          content: msg.content,
-        })),
-        model: state.selectedModel,
-      };
+      let id = conversationId;
+      if (!id && canStore) {
+        try {
+          id = (await createConversation()).id;
+          setConversationId(id);
+        } catch (error) {
+          if (!(error instanceof ApiRequestError && error.status === 401)) {
+            throw error;
+          }
+          setCanStore(false);
+        }
+      }
+
+      // Build request payload; a stored conversation's history is loaded
+      // by the Worker
+      const requestBody: WorkersAIChatRequest = id
+        ? { message: userMessage, conversationId: id, model: state.selectedModel }
+        : {
+            message: userMessage,
+            conversationHistory: state.messages.map((msg) => ({
+              role: msg.role as 'user' | 'assistant',
+              content: msg.content,
+            })),
+            model: state.selectedModel,
+          };
 
       // Call API
-      const response = await fetch('/api/ai-chat', {
+      const response = await fetchWithCsrf('/api/ai-chat', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -94,14 +130,8 @@ export default function WorkersAiChat() {
         body: JSON.stringify(requestBody),
       });
 
-      const data: WorkersAIChatResponse | WorkersAIChatErrorResponse =
-        await response.json();
-
-      // Handle error response
-      if (!response.ok || 'error' in data) {
-        const errorMessage = 'error' in data ? data.error : 'An error occurred';
-        throw new Error(errorMessage);
-      }
+      // Throws ApiRequestError for the shared error envelope
+      const data = await parseApiResponse<WorkersAIChatResponse>(response);
 
       // Add assistant response to chat
       const assistantMessage: ChatMessage = {
@@ -126,6 +156,8 @@ export default function WorkersAiChat() {
             ? error.message
             : 'Failed to send message. Please try again.',
       }));
+    } finally {
+      setConversationsRefresh((count) => count + 1);
     }
   };
 
@@ -140,9 +172,10 @@ export default function WorkersAiChat() {
   };
 
   /**
-   * Clears the conversation
+   * Starts a new conversation (stored once its first message is sent)
    */
-  const handleClearChat = () => {
+  const handleNewChat = () => {
+    setConversationId(null);
     setState({
       isLoading: false,
       error: null,
@@ -152,6 +185,36 @@ export default function WorkersAiChat() {
     });
   };
 
+  /**
+   * Shows a stored conversation picked in the sidebar
+   */
+  const handleSelectConversation = async (conversation: Conversation) => {
+    try {
+      const messages = await fetchConversationMessages(conversation.id);
+
+      setConversationId(conversation.id);
+      setState((prev) => ({
+        ...prev,
+        error: null,
+        messages: messages.map((message) => ({
+          role: message.role,
+          content: message.content,
+          timestamp: Date.parse(message.createdAt),
+          id: String(message.id),
+        })),
+      }));
+    } catch (error) {
+      console.error('Failed to load conversation:', error);
+      setState((prev) => ({
+        ...prev,
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to load the conversation. Please try again.',
+      }));
+    }
+  };
+
   /**
    * Changes the AI model
    */
@@ -168,440 +231,459 @@ export default function WorkersAiChat() {
     WORKERS_AI_MODEL_INFO[state.selectedModel as keyof typeof WORKERS_AI_MODEL_INFO];
 
   return (
-    <div className="workers-ai-chat-container">
-      {/* Chat Header */}
-      <div className="chat-header">
-        <div className="header-left">
-          <h2>Edge AI Chat</h2>
-          <span className="model-badge" title={currentModelInfo?.description}>
-            {currentModelInfo?.name || 'Workers AI'}
-          </span>
-        </div>
-        <div className="header-actions">
-          <button
-            onClick={() => setShowModelSelector(!showModelSelector)}
-            className="model-button"
-            disabled={state.isLoading}
-          >
-            Change Model
-          </button>
-          {state.messages.length > 0 && (
+    <div className="workers-ai-chat-layout">
+      <ConversationSidebar
+        activeId={conversationId}
+        onSelect={handleSelectConversation}
+        onNew={handleNewChat}
+        refreshKey={conversationsRefresh}
+        disabled={state.isLoading}
+      />
+
+      <div className="workers-ai-chat-container">
+        {/* Chat Header */}
+        <div className="chat-header">
+          <div className="header-left">
+            <h2>Edge AI Chat</h2>
+            <span className="model-badge" title={currentModelInfo?.description}>
+              {currentModelInfo?.name || 'Workers AI'}
+            </span>
+          </div>
+          <div className="header-actions">
             <button
-              onClick={handleClearChat}
-              className="clear-button"
+              onClick={() => setShowModelSelector(!showModelSelector)}
+              className="model-button"
               disabled={state.isLoading}
             >
-              Clear
+              Change Model
             </button>
-          )}
-        </div>
-      </div>
-
-      {/* Model Selector */}
-      {showModelSelector && (
-        <div className="model-selector">
-          <h3>Select AI Model</h3>
-          <div className="model-list">
-            {Object.values(WORKERS_AI_MODELS).map((modelId) => {
-              const info = WORKERS_AI_MODEL_INFO[modelId as keyof typeof WORKERS_AI_MODEL_INFO];
-              const isSelected = state.selectedModel === modelId;
-
-              return (
-                <button
-                  key={modelId}
-                  onClick={() => handleModelChange(modelId as WorkersAIModel)}
-                  className={`model-option ${isSelected ? 'selected' : ''}`}
-                >
-                  <div className="model-option-name">{info.name}</div>
-                  <div className="model-option-desc">{info.description}</div>
-                  <div className="model-option-meta">
-                    <span className="model-speed">Speed: {info.speed}</span>
-                    <span className="model-quality">Quality: {info.quality}</span>
-                  </div>
-                </button>
-              );
-            })}
+            {state.messages.length > 0 && (
+              <button
+                onClick={handleNewChat}
+                className="clear-button"
+                disabled={state.isLoading}
+              >
+                New Chat
+              </button>
+            )}
           </div>
         </div>
-      )}
-
-      {/* Messages Area */}
-      <div className="messages-container">
-        {state.messages.length === 0 && (
-          <div className="empty-state">
-            <p>Start a conversation with Workers AI!</p>
-            <p className="empty-state-hint">
-              Powered by {currentModelInfo?.name} - running at the edge
-            </p>
+
+        {/* Model Selector */}
+        {showModelSelector && (
+          <div className="model-selector">
+            <h3>Select AI Model</h3>
+            <div className="model-list">
+              {Object.values(WORKERS_AI_MODELS).map((modelId) => {
+                const info = WORKERS_AI_MODEL_INFO[modelId as keyof typeof WORKERS_AI_MODEL_INFO];
+                const isSelected = state.selectedModel === modelId;
+
+                return (
+                  <button
+                    key={modelId}
+                    onClick={() => handleModelChange(modelId as WorkersAIModel)}
+                    className={`model-option ${isSelected ? 'selected' : ''}`}
+                  >
+                    <div className="model-option-name">{info.name}</div>
+                    <div className="model-option-desc">{info.description}</div>
+                    <div className="model-option-meta">
+                      <span className="model-speed">Speed: {info.speed}</span>
+                      <span className="model-quality">Quality: {info.quality}</span>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
           </div>
         )}
 
-        {state.messages.map((message) => (
-          <div key={message.id} className={`message message-${message.role}`}>
-            <div className="message-role">
-              {message.role === 'user' ? 'You' : 'AI'}
+        {/* Messages Area */}
+        <div className="messages-container">
+          {state.messages.length === 0 && (
+            <div className="empty-state">
+              <p>Start a conversation with Workers AI!</p>
+              <p className="empty-state-hint">
+                Powered by {currentModelInfo?.name} - running at the edge
+              </p>
             </div>
-            <div className="message-content">{message.content}</div>
-            {message.timestamp && (
-              <div className="message-timestamp">
-                {new Date(message.timestamp).toLocaleTimeString()}
+          )}
+
+          {state.messages.map((message) => (
+            <div key={message.id} className={`message message-${message.role}`}>
+              <div className="message-role">
+                {message.role === 'user' ? 'You' : 'AI'}
               </div>
-            )}
-          </div>
-        ))}
-
-        {/* Loading indicator */}
-        {state.isLoading && (
-          <div className="message message-assistant">
-            <div className="message-role">AI</div>
-            <div className="message-content">
-              <div className="loading-dots">
-                <span>.</span>
-                <span>.</span>
-                <span>.</span>
+              <div className="message-content">{message.content}</div>
+              {message.timestamp && (
+                <div className="message-timestamp">
+                  {new Date(message.timestamp).toLocaleTimeString()}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {/* Loading indicator */}
+          {state.isLoading && (
+            <div className="message message-assistant">
+              <div className="message-role">AI</div>
+              <div className="message-content">
+                <div className="loading-dots">
+                  <span>.</span>
+                  <span>.</span>
+                  <span>.</span>
+                </div>
               </div>
             </div>
+          )}
+
+          {/* Auto-scroll anchor */}
+          <div ref={messagesEndRef} />
+        </div>
+
+        {/* Error Display */}
+        {state.error && (
+          <div className="error-message">
+            <strong>Error:</strong> {state.error}
+            <button
+              onClick={() => setState((prev) => ({ ...prev, error: null }))}
+              className="error-close"
+            >
+              &times;
+            </button>
           </div>
         )}
 
-        {/* Auto-scroll anchor */}
-        <div ref={messagesEndRef} />
-      </div>
-
-      {/* Error Display */}
-      {state.error && (
-        <div className="error-message">
-          <strong>Error:</strong> {state.error}
+        {/* Input Area */}
+        <div className="input-container">
+          <input
+            type="text"
+            value={state.input}
+            onChange={(e) =>
+              setState((prev) => ({ ...prev, input: e.target.value }))
+            }
+            onKeyPress={handleKeyPress}
+            placeholder="Type your message..."
+            disabled={state.isLoading}
+            className="message-input"
+          />
           <button
-            onClick={() => setState((prev) => ({ ...prev, error: null }))}
-            className="error-close"
+            onClick={handleSendMessage}
+            disabled={state.isLoading || !state.input.trim()}
+            className="send-button"
           >
-            &times;
+            {state.isLoading ? 'Thinking...' : 'Send'}
           </button>
         </div>
-      )}
-
-      {/* Input Area */}
-      <div className="input-container">
-        <input
-          type="text"
-          value={state.input}
-          onChange={(e) =>
-            setState((prev) => ({ ...prev, input: e.target.value }))
-          }
-          onKeyPress={handleKeyPress}
-          placeholder="Type your message..."
-          disabled={state.isLoading}
-          className="message-input"
-        />
-        <button
-          onClick={handleSendMessage}
-          disabled={state.isLoading || !state.input.trim()}
-          className="send-button"
-        >
-          {state.isLoading ? 'Thinking...' : 'Send'}
-        </button>
-      </div>
 
-      {/* Inline Styles (for demo - move to CSS file in production) */}
-      <style>{`
-        .workers-ai-chat-container {
-          display: flex;
-          flex-direction: column;
-          max-width: 800px;
-          margin: 0 auto;
-          height: 600px;
-          border: 1px solid #e0e0e0;
-          border-radius: 8px;
-          background: #fff;
-          overflow: hidden;
-        }
+        {/* Inline Styles (for demo - move to CSS file in production) */}
+        <style>{`
+          .workers-ai-chat-layout {
+            display: flex;
+            gap: 16px;
+            max-width: 1056px;
+            margin: 0 auto;
+          }
 
-        .chat-header {
-          display: flex;
-          justify-content: space-between;
-          align-items: center;
-          padding: 16px;
-          border-bottom: 1px solid #e0e0e0;
-          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-          color: white;
-        }
+          .workers-ai-chat-container {
+            display: flex;
+            flex-direction: column;
+            flex: 1;
+            min-width: 0;
+            max-width: 800px;
+            margin: 0 auto;
+            height: 600px;
+            border: 1px solid #e0e0e0;
+            border-radius: 8px;
+            background: #fff;
+            overflow: hidden;
+          }
 
-        .header-left {
-          display: flex;
-          align-items: center;
-          gap: 12px;
-        }
+          .chat-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            padding: 16px;
+            border-bottom: 1px solid #e0e0e0;
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+          }
 
-        .chat-header h2 {
-          margin: 0;
-          font-size: 20px;
-        }
+          .header-left {
+            display: flex;
+            align-items: center;
+            gap: 12px;
+          }
 
-        .model-badge {
-          background: rgba(255, 255, 255, 0.2);
-          padding: 4px 8px;
-          border-radius: 4px;
-          font-size: 12px;
-          font-weight: 500;
-        }
+          .chat-header h2 {
+            margin: 0;
+            font-size: 20px;
+          }
 
-        .header-actions {
-          display: flex;
-          gap: 8px;
-        }
+          .model-badge {
+            background: rgba(255, 255, 255, 0.2);
+            padding: 4px 8px;
+            border-radius: 4px;
+            font-size: 12px;
+            font-weight: 500;
+          }
 
-        .model-button {
-          padding: 6px 12px;
-          background: rgba(255, 255, 255, 0.2);
-          color: white;
-          border: 1px solid rgba(255, 255, 255, 0.3);
-          border-radius: 4px;
-          cursor: pointer;
-          font-size: 14px;
-        }
+          .header-actions {
+            display: flex;
+            gap: 8px;
+          }
 
-        .model-button:hover:not(:disabled) {
-          background: rgba(255, 255, 255, 0.3);
-        }
+          .model-button {
+            padding: 6px 12px;
+            background: rgba(255, 255, 255, 0.2);
+            color: white;
+            border: 1px solid rgba(255, 255, 255, 0.3);
+            border-radius: 4px;
+            cursor: pointer;
+            font-size: 14px;
+          }
 
-        .clear-button {
-          padding: 6px 12px;
-          background: rgba(220, 53, 69, 0.9);
-          color: white;
-          border: none;
-          border-radius: 4px;
-          cursor: pointer;
-          font-size: 14px;
-        }
+          .model-button:hover:not(:disabled) {
+            background: rgba(255, 255, 255, 0.3);
+          }
 
-        .clear-button:hover:not(:disabled) {
-          background: #dc3545;
-        }
+          .clear-button {
+            padding: 6px 12px;
+            background: rgba(220, 53, 69, 0.9);
+            color: white;
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            font-size: 14px;
+          }
 
-        .clear-button:disabled,
-        .model-button:disabled {
-          opacity: 0.5;
-          cursor: not-allowed;
-        }
+          .clear-button:hover:not(:disabled) {
+            background: #dc3545;
+          }
 
-        .model-selector {
-          padding: 16px;
-          background: #f8f9fa;
-          border-bottom: 1px solid #e0e0e0;
-        }
+          .clear-button:disabled,
+          .model-button:disabled {
+            opacity: 0.5;
+            cursor: not-allowed;
+          }
 
-        .model-selector h3 {
-          margin: 0 0 12px 0;
-          font-size: 14px;
-          color: #666;
-          text-transform: uppercase;
-        }
+          .model-selector {
+            padding: 16px;
+            background: #f8f9fa;
+            border-bottom: 1px solid #e0e0e0;
+          }
 
-        .model-list {
-          display: flex;
-          flex-direction: column;
-          gap: 8px;
-        }
+          .model-selector h3 {
+            margin: 0 0 12px 0;
+            font-size: 14px;
+            color: #666;
+            text-transform: uppercase;
+          }
 
-        .model-option {
-          padding: 12px;
-          background: white;
-          border: 2px solid #e0e0e0;
-          border-radius: 6px;
-          cursor: pointer;
-          text-align: left;
-          transition: all 0.2s;
-        }
+          .model-list {
+            display: flex;
+            flex-direction: column;
+            gap: 8px;
+          }
 
-        .model-option:hover {
-          border-color: #667eea;
-          background: #f8f9ff;
-        }
+          .model-option {
+            padding: 12px;
+            background: white;
+            border: 2px solid #e0e0e0;
+            border-radius: 6px;
+            cursor: pointer;
+            text-align: left;
+            transition: all 0.2s;
+          }
 
-        .model-option.selected {
-          border-color: #667eea;
-          background: #667eea;
-          color: white;
-        }
+          .model-option:hover {
+            border-color: #667eea;
+            background: #f8f9ff;
+          }
 
-        .model-option-name {
-          font-weight: 600;
-          margin-bottom: 4px;
-        }
+          .model-option.selected {
+            border-color: #667eea;
+            background: #667eea;
+            color: white;
+          }
 
-        .model-option-desc {
-          font-size: 13px;
-          opacity: 0.8;
-          margin-bottom: 6px;
-        }
+          .model-option-name {
+            font-weight: 600;
+            margin-bottom: 4px;
+          }
 
-        .model-option-meta {
-          display: flex;
-          gap: 12px;
-          font-size: 11px;
-          opacity: 0.7;
-        }
+          .model-option-desc {
+            font-size: 13px;
+            opacity: 0.8;
+            margin-bottom: 6px;
+          }
 
-        .messages-container {
-          flex: 1;
-          overflow-y: auto;
-          padding: 16px;
-          display: flex;
-          flex-direction: column;
-          gap: 16px;
-        }
+          .model-option-meta {
+            display: flex;
+            gap: 12px;
+            font-size: 11px;
+            opacity: 0.7;
+          }
 
-        .empty-state {
-          text-align: center;
-          color: #666;
-          padding: 40px 20px;
-        }
+          .messages-container {
+            flex: 1;
+            overflow-y: auto;
+            padding: 16px;
+            display: flex;
+            flex-direction: column;
+            gap: 16px;
+          }
 
-        .empty-state p {
-          margin: 8px 0;
-        }
+          .empty-state {
+            text-align: center;
+            color: #666;
+            padding: 40px 20px;
+          }
 
-        .empty-state-hint {
-          font-size: 14px;
-          color: #999;
-        }
+          .empty-state p {
+            margin: 8px 0;
+          }
 
-        .message {
-          display: flex;
-          flex-direction: column;
-          gap: 4px;
-        }
+          .empty-state-hint {
+            font-size: 14px;
+            color: #999;
+          }
 
-        .message-user {
-          align-items: flex-end;
-        }
+          .message {
+            display: flex;
+            flex-direction: column;
+            gap: 4px;
+          }
 
-        .message-assistant {
-          align-items: flex-start;
-        }
+          .message-user {
+            align-items: flex-end;
+          }
 
-        .message-role {
-          font-size: 12px;
-          font-weight: 600;
-          color: #666;
-          text-transform: uppercase;
-        }
+          .message-assistant {
+            align-items: flex-start;
+          }
 
-        .message-content {
-          padding: 12px 16px;
-          border-radius: 8px;
-          max-width: 70%;
-          word-wrap: break-word;
-          white-space: pre-wrap;
-        }
+          .message-role {
+            font-size: 12px;
+            font-weight: 600;
+            color: #666;
+            text-transform: uppercase;
+          }
 
-        .message-user .message-content {
-          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-          color: white;
-        }
+          .message-content {
+            padding: 12px 16px;
+            border-radius: 8px;
+            max-width: 70%;
+            word-wrap: break-word;
+            white-space: pre-wrap;
+          }
 
-        .message-assistant .message-content {
-          background: #f1f3f4;
-          color: #333;
-        }
+          .message-user .message-content {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+          }
 
-        .message-timestamp {
-          font-size: 11px;
-          color: #999;
-        }
+          .message-assistant .message-content {
+            background: #f1f3f4;
+            color: #333;
+          }
 
-        .loading-dots {
-          display: flex;
-          gap: 4px;
-        }
+          .message-timestamp {
+            font-size: 11px;
+            color: #999;
+          }
 
-        .loading-dots span {
-          animation: blink 1.4s infinite both;
-        }
+          .loading-dots {
+            display: flex;
+            gap: 4px;
+          }
 
-        .loading-dots span:nth-child(2) {
-          animation-delay: 0.2s;
-        }
+          .loading-dots span {
+            animation: blink 1.4s infinite both;
+          }
 
-        .loading-dots span:nth-child(3) {
-          animation-delay: 0.4s;
-        }
+          .loading-dots span:nth-child(2) {
+            animation-delay: 0.2s;
+          }
 
-        @keyframes blink {
-          0%, 80%, 100% {
-            opacity: 0;
+          .loading-dots span:nth-child(3) {
+            animation-delay: 0.4s;
           }
-          40% {
-            opacity: 1;
+
+          @keyframes blink {
+            0%, 80%, 100% {
+              opacity: 0;
+            }
+            40% {
+              opacity: 1;
+            }
           }
-        }
 
-        .error-message {
-          background: #f8d7da;
-          color: #721c24;
-          padding: 12px 16px;
-          margin: 0 16px;
-          border-radius: 4px;
-          display: flex;
-          justify-content: space-between;
-          align-items: center;
-        }
+          .error-message {
+            background: #f8d7da;
+            color: #721c24;
+            padding: 12px 16px;
+            margin: 0 16px;
+            border-radius: 4px;
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+          }
 
-        .error-close {
-          background: none;
-          border: none;
-          font-size: 20px;
-          cursor: pointer;
-          color: #721c24;
-        }
+          .error-close {
+            background: none;
+            border: none;
+            font-size: 20px;
+            cursor: pointer;
+            color: #721c24;
+          }
 
-        .input-container {
-          display: flex;
-          gap: 8px;
-          padding: 16px;
-          border-top: 1px solid #e0e0e0;
-          background: #f8f9fa;
-        }
+          .input-container {
+            display: flex;
+            gap: 8px;
+            padding: 16px;
+            border-top: 1px solid #e0e0e0;
+            background: #f8f9fa;
+          }
 
-        .message-input {
-          flex: 1;
-          padding: 12px;
-          border: 1px solid #ddd;
-          border-radius: 4px;
-          font-size: 14px;
-        }
+          .message-input {
+            flex: 1;
+            padding: 12px;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            font-size: 14px;
+          }
 
-        .message-input:focus {
-          outline: none;
-          border-color: #667eea;
-        }
+          .message-input:focus {
+            outline: none;
+            border-color: #667eea;
+          }
 
-        .message-input:disabled {
-          background: #f5f5f5;
-          cursor: not-allowed;
-        }
+          .message-input:disabled {
+            background: #f5f5f5;
+            cursor: not-allowed;
+          }
 
-        .send-button {
-          padding: 12px 24px;
-          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-          color: white;
-          border: none;
-          border-radius: 4px;
-          cursor: pointer;
-          font-size: 14px;
-          font-weight: 600;
-        }
+          .send-button {
+            padding: 12px 24px;
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            font-size: 14px;
+            font-weight: 600;
+          }
 
-        .send-button:hover:not(:disabled) {
-          opacity: 0.9;
-        }
+          .send-button:hover:not(:disabled) {
+            opacity: 0.9;
+          }
 
-        .send-button:disabled {
-          opacity: 0.5;
-          cursor: not-allowed;
-        }
-      `}</style>
+          .send-button:disabled {
+            opacity: 0.5;
+            cursor: not-allowed;
+          }
+        `}</style>
+      </div>
     </div>
   );
 }
@@ -4,6 +4,11 @@
  * These types ensure type safety for Cloudflare Workers AI integration.
  */
 
+import type { ApiErrorResponse } from '../../../src/lib/api-error';
+import { v, type Infer } from '../../../worker/validation';
+import { chatRequestFields } from '../shared/chat-schema';
+import type { CostEstimate } from '../shared/pricing';
+
 /**
  * Represents a single message in the conversation
  */
@@ -18,23 +23,6 @@ export interface ChatMessage {
   id?: string;
 }
 
-/**
- * Request body for the /api/ai-chat endpoint
- */
-export interface WorkersAIChatRequest {
-  /** The user's message to send to Workers AI */
-  message: string;
-  /** Optional conversation history for context */
-  conversationHistory?: Array<{
-    role: 'user' | 'assistant';
-    content: string;
-  }>;
-  /** Optional model to use (defaults to Llama 3.1 8B) */
-  model?: WorkersAIModel;
-  /** Optional system prompt to guide AI behavior */
-  system?: string;
-}
-
 /**
  * Successful response from the /api/ai-chat endpoint
  */
@@ -43,17 +31,17 @@ export interface WorkersAIChatResponse {
   message: string;
   /** Model used for the response */
   model: string;
+  /**
+   * Estimated cost, when the model reports token usage and has pricing
+   * (see shared/pricing.ts)
+   */
+  estimatedCost?: CostEstimate;
 }
 
 /**
- * Error response from the /api/ai-chat endpoint
+ * Error response from the /api/ai-chat endpoint (the shared error envelope)
  */
-export interface WorkersAIChatErrorResponse {
-  /** Error message */
-  error: string;
-  /** Optional error details */
-  details?: string;
-}
+export type WorkersAIChatErrorResponse = ApiErrorResponse;
 
 /**
  * Type guard to check if response is an error
@@ -83,6 +71,18 @@ export const WORKERS_AI_MODELS = {
 export type WorkersAIModel =
   typeof WORKERS_AI_MODELS[keyof typeof WORKERS_AI_MODELS];
 
+/**
+ * Request body for the /api/ai-chat endpoint
+ * Only models listed in WORKERS_AI_MODELS are accepted
+ */
+export const WorkersAIChatRequestSchema = v.object({
+  ...chatRequestFields,
+  /** Optional model to use (defaults to Llama 3.1 8B) */
+  model: v.optional(v.enum(Object.values(WORKERS_AI_MODELS))),
+});
+
+export type WorkersAIChatRequest = Infer<typeof WorkersAIChatRequestSchema>;
+
 /**
  * Model metadata for UI display and selection
  */
@@ -9,204 +9,114 @@
  * 2. Run npm run cf-typegen to generate types
  * 3. Add this code to your worker/index.ts
  * 4. No API keys needed - uses Cloudflare AI binding
+ * 5. Optional: to keep chats in D1, set up the kv-sessions example and the
+ *    conversations migration (see ../conversations)
  */
 
-import type {
-  WorkersAIChatRequest,
-  WorkersAIChatResponse,
-  WorkersAIChatErrorResponse,
-  WorkersAIMessage,
+import {
+  WorkersAIChatRequestSchema,
+  type WorkersAIChatResponse,
 } from './types';
+import {
+  loadChatHistory,
+  saveChatExchange,
+  type ChatHistory,
+} from '../conversations/conversation-history';
+import { conversationMessages } from '../llm-providers/llm-provider';
+import { getLLMProvider } from '../llm-providers/provider-config';
+import { RetryingProvider } from '../llm-providers/retry';
+import { estimateCost } from '../shared/pricing';
+import { requireAuthOrApiKey } from '../../database/kv-sessions/worker-middleware';
+import type { RouteContext, RouteGroup } from '../../../worker/router';
+import { UpstreamAIError } from '../../../worker/errors';
+import { parseJsonBody } from '../../../worker/validation';
 
 /**
  * Handles POST requests to /api/ai-chat
- * Uses Cloudflare Workers AI for inference
+ * Uses Cloudflare Workers AI for inference, through WorkersAIProvider
+ * (../llm-providers), which normalizes the models' response shapes and
+ * maps their errors to typed errors. Rate limit and capacity errors are
+ * retried with backoff (../llm-providers/retry.ts); a used-up daily
+ * allocation is not.
+ *
+ * The endpoint is open to anonymous callers, who send their history with
+ * each request. Only requests with a conversationId must be signed in:
+ * the history is then loaded from that conversation, and the message and
+ * reply are added to it.
  *
  * @param request - The incoming request
  * @param env - Environment bindings (contains AI binding)
- * @returns JSON response with AI's message or error
+ * @param context - Route context (request ID for retry logs)
+ * @returns JSON response with AI's message (errors are thrown as typed errors)
  */
 export async function handleWorkersAIChat(
   request: Request,
-  env: Env
+  env: Env,
+  context: RouteContext
 ): Promise<Response> {
-  // CORS headers for browser requests
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
+  // This endpoint is Workers AI by definition, whatever LLM_PROVIDER says
+  const provider = new RetryingProvider(getLLMProvider(env, 'workers-ai'), {
+    requestId: context.requestId,
+  });
+
+  // Parse and validate request body (400 with field details on failure)
+  const body = await parseJsonBody(request, WorkersAIChatRequestSchema);
+
+  // Stored conversations have an owner; anonymous callers send their history
+  let chat: ChatHistory = {
+    conversationId: null,
+    history: body.conversationHistory ?? [],
   };
 
-  // Handle preflight requests
-  if (request.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  // Only accept POST requests
-  if (request.method !== 'POST') {
-    return Response.json(
-      { error: 'Method not allowed' } as WorkersAIChatErrorResponse,
-      { status: 405, headers: corsHeaders }
-    );
+  if (body.conversationId) {
+    const session = await requireAuthOrApiKey(request, env);
+    chat = await loadChatHistory(env, session.user.id, body);
   }
 
-  try {
-    // Validate AI binding exists
-    if (!env.AI) {
-      console.error('AI binding not found in environment');
-      return Response.json(
-        {
-          error: 'Workers AI not configured',
-          details: 'Add AI binding to wrangler.jsonc',
-        } as WorkersAIChatErrorResponse,
-        { status: 500, headers: corsHeaders }
-      );
-    }
-
-    // Parse request body
-    const body = (await request.json()) as WorkersAIChatRequest;
-
-    // Validate required fields
-    if (!body.message || typeof body.message !== 'string') {
-      return Response.json(
-        {
-          error: 'Message is required and must be a string',
-        } as WorkersAIChatErrorResponse,
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
-    // Validate message length (prevent abuse)
-    if (body.message.length > 10000) {
-      return Response.json(
-        {
-          error: 'Message too long (max 10,000 characters)',
-        } as WorkersAIChatErrorResponse,
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
-    // Build messages array for Workers AI
-    const messages: WorkersAIMessage[] = [];
-
-    // Add system prompt if provided
-    if (body.system) {
-      messages.push({
-        role: 'system',
-        content: body.system,
-      });
-    }
-
-    // Add conversation history if provided
-    if (body.conversationHistory && Array.isArray(body.conversationHistory)) {
-      for (const msg of body.conversationHistory) {
-        if (msg.role && msg.content) {
-          messages.push({
-            role: msg.role as 'user' | 'assistant',
-            content: msg.content,
-          });
-        }
-      }
-    }
-
-    // Add current user message
-    messages.push({
-      role: 'user',
-      content: body.message,
-    });
-
+  const completion = await provider.complete({
     // Choose model (default to Llama 3.1 8B)
-    const model = body.model || '@cf/meta/llama-3.1-8b-instruct';
-
-    // Call Workers AI
-    const aiResponse = await env.AI.run(model, {
-      messages,
-    });
-
-    // Extract response text
-    // Workers AI response format varies by model
-    let responseText: string;
+    model: body.model,
+    system: body.system,
+    messages: conversationMessages(body.message, chat.history),
+  });
 
-    if (typeof aiResponse === 'object' && aiResponse !== null) {
-      // Handle different response formats
-      if ('response' in aiResponse && typeof aiResponse.response === 'string') {
-        responseText = aiResponse.response;
-      } else if (
-        'text' in aiResponse &&
-        typeof aiResponse.text === 'string'
-      ) {
-        responseText = aiResponse.text;
-      } else if (
-        'content' in aiResponse &&
-        typeof aiResponse.content === 'string'
-      ) {
-        responseText = aiResponse.content;
-      } else {
-        // Fallback: stringify the response
-        responseText = JSON.stringify(aiResponse);
-      }
-    } else if (typeof aiResponse === 'string') {
-      responseText = aiResponse;
-    } else {
-      throw new Error('Unexpected response format from Workers AI');
-    }
+  // Trim whitespace
+  const responseText = completion.text.trim();
 
-    // Trim whitespace
-    responseText = responseText.trim();
-
-    if (!responseText) {
-      throw new Error('Empty response from Workers AI');
-    }
-
-    // Build success response
-    const chatResponse: WorkersAIChatResponse = {
-      message: responseText,
-      model: model,
-    };
+  if (!responseText) {
+    throw new UpstreamAIError('Empty response from Workers AI');
+  }
 
-    return Response.json(chatResponse, {
-      status: 200,
-      headers: {
-        ...corsHeaders,
-        'Content-Type': 'application/json',
-      },
+  if (chat.conversationId) {
+    await saveChatExchange(env, chat.conversationId, body.message, {
+      content: responseText,
+      model: completion.model,
     });
-  } catch (error) {
-    // Log error for debugging
-    console.error('Workers AI chat error:', error);
-
-    // Handle different error types
-    let errorMessage = 'An error occurred processing your request';
-    let errorDetails: string | undefined;
+  }
 
-    if (error instanceof Error) {
-      errorMessage = 'Workers AI error';
-      errorDetails = error.message;
+  // Build success response
+  const chatResponse: WorkersAIChatResponse = {
+    message: responseText,
+    model: completion.model,
+    // Only models that report token usage can be priced
+    estimatedCost: completion.usage
+      ? estimateCost(completion.model, completion.usage) ?? undefined
+      : undefined,
+  };
 
-      // Check for specific error types
-      if (error.message.includes('model not found')) {
-        errorMessage = 'Model not available';
-        errorDetails = 'The requested model is not available in Workers AI';
-      } else if (error.message.includes('rate limit')) {
-        errorMessage = 'Rate limit exceeded';
-        errorDetails = 'Please try again in a moment';
-      } else if (error.message.includes('quota')) {
-        errorMessage = 'Usage quota exceeded';
-        errorDetails = 'Your Workers AI usage limit has been reached';
-      }
-    }
+  return Response.json(chatResponse, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
 
-    return Response.json(
-      {
-        error: errorMessage,
-        details: errorDetails,
-      } as WorkersAIChatErrorResponse,
-      {
-        status: 500,
-        headers: corsHeaders,
-      }
-    );
-  }
+/**
+ * Registers POST /api/ai-chat on the given router group
+ */
+export function registerWorkersAIChatRoutes(api: RouteGroup): void {
+  api.post('/ai-chat', handleWorkersAIChat);
 }
 
 /**
@@ -215,20 +125,20 @@ export async function handleWorkersAIChat(
  * Add this to your worker/index.ts:
  *
  * ```typescript
- * import { handleWorkersAIChat } from './api/workers-ai-chat';
+ * import { Router } from './router';
+ * import { registerWorkersAIChatRoutes } from './api/workers-ai-chat';
  *
- * export default {
- *   async fetch(request: Request, env: Env): Promise<Response> {
- *     const url = new URL(request.url);
+ * const router = new Router({ base: '/api' });
  *
- *     // Workers AI chat endpoint
- *     if (url.pathname === '/api/ai-chat') {
- *       return handleWorkersAIChat(request, env);
- *     }
+ * // Workers AI chat endpoint
+ * registerWorkersAIChatRoutes(router);
  *
- *     // ... other routes ...
+ * // ... other routes ...
  *
- *     return new Response(null, { status: 404 });
+ * export default {
+ *   async fetch(request, env, ctx) {
+ *     const response = await router.handle(request, env, ctx);
+ *     return response ?? new Response(null, { status: 404 });
  *   },
  * } satisfies ExportedHandler<Env>;
  * ```
@@ -271,52 +181,34 @@ export async function handleWorkersAIChat(
 /**
  * STREAMING (Optional):
  *
- * Workers AI also supports streaming responses:
+ * WorkersAIProvider streams too, with the same events as the other
+ * providers:
  *
  * ```typescript
- * const aiResponse = await env.AI.run(model, {
- *   messages,
- *   stream: true,
- * });
- *
- * // aiResponse is now a ReadableStream
- * return new Response(aiResponse, {
- *   headers: {
- *     'Content-Type': 'text/event-stream',
- *     'Cache-Control': 'no-cache',
- *   },
- * });
+ * for await (const event of provider.stream({ messages })) {
+ *   if (event.type === 'text') {
+ *     // send event.text to the client
+ *   }
+ * }
  * ```
  *
- * See streaming-chat example for SSE implementation.
+ * See the streaming-chat example for the SSE side; with
+ * LLM_PROVIDER=workers-ai it streams from Workers AI unchanged.
  */
 
 /**
  * RATE LIMITING (Recommended):
  *
- * Implement rate limiting to prevent abuse:
+ * Use withRateLimit from the rate-limiting example to prevent abuse. A
+ * token bucket suits chat: short bursts are fine, the average rate is capped.
  *
  * ```typescript
- * // Track requests per IP
- * const rateLimits = new Map<string, number>();
- *
- * function checkRateLimit(ip: string): boolean {
- *   const now = Date.now();
- *   const lastRequest = rateLimits.get(ip) || 0;
- *
- *   if (now - lastRequest < 2000) { // 2 seconds between requests
- *     return false;
- *   }
+ * import { withRateLimit } from '../rate-limiting/rate-limit';
  *
- *   rateLimits.set(ip, now);
- *   return true;
- * }
- *
- * // In handler:
- * const clientIP = request.headers.get('cf-connecting-ip') || 'unknown';
- * if (!checkRateLimit(clientIP)) {
- *   return Response.json({ error: 'Rate limit exceeded' }, { status: 429 });
- * }
+ * api.post('/ai-chat', withRateLimit(
+ *   { name: 'ai-chat', rule: { algorithm: 'token-bucket', capacity: 5, refillRate: 0.5 } },
+ *   handleWorkersAIChat
+ * ));
  * ```
  */
 
@@ -327,4 +219,7 @@ export async function handleWorkersAIChat(
  * https://dash.cloudflare.com/?to=/:account/ai/workers-ai
  *
  * Pricing: $5/month includes 10M neurons, then $0.011 per 1,000 neurons
+ *
+ * Responses carry an estimatedCost when the model reports token usage.
+ * Neuron rates per model are in ../shared/pricing.ts.
  */
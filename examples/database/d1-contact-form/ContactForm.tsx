@@ -3,6 +3,8 @@
  *
  * A complete React component for submitting and managing contacts.
  * Includes form validation, API integration, and contact list display.
+ * The list and delete buttons only work for admins (see worker-endpoint.ts);
+ * everyone else just sees the form.
  *
  * Usage:
  * import ContactForm from './examples/database/d1-contact-form/ContactForm';
@@ -13,7 +15,13 @@
  */
 
 import { useState, useEffect, FormEvent } from 'react';
-import type { Contact, ContactListResponse, ContactResponse, ErrorResponse } from './types';
+import type { Contact, ContactListResponse, ContactResponse } from './types';
+import {
+  ApiRequestError,
+  getFieldErrors,
+  parseApiResponse,
+} from '../../../src/lib/api-error';
+import { fetchWithCsrf } from '../../../src/lib/fetch-with-csrf';
 
 interface FormData {
   name: string;
@@ -42,6 +50,7 @@ export default function ContactForm() {
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [isLoadingContacts, setIsLoadingContacts] = useState(false);
   const [contactsError, setContactsError] = useState<string | null>(null);
+  const [canViewContacts, setCanViewContacts] = useState(true);
 
   // Load contacts on component mount
   useEffect(() => {
@@ -55,11 +64,7 @@ export default function ContactForm() {
 
     try {
       const response = await fetch('/api/contacts');
-      const data: ContactListResponse | ErrorResponse = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await parseApiResponse<ContactListResponse>(response);
 
       // Convert date strings to Date objects
       const contactsWithDates = data.data.map((contact) => ({
@@ -69,7 +74,17 @@ export default function ContactForm() {
       }));
 
       setContacts(contactsWithDates);
+      setCanViewContacts(true);
     } catch (error) {
+      // Not logged in or not an admin: hide the list instead of showing an error
+      if (
+        error instanceof ApiRequestError &&
+        (error.status === 401 || error.status === 403)
+      ) {
+        setCanViewContacts(false);
+        return;
+      }
+
       console.error('Error fetching contacts:', error);
       setContactsError(
         error instanceof Error ? error.message : 'Failed to load contacts'
@@ -120,7 +135,7 @@ export default function ContactForm() {
     setIsSubmitting(true);
 
     try {
-      const response = await fetch('/api/contacts', {
+      const response = await fetchWithCsrf('/api/contacts', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -128,11 +143,7 @@ export default function ContactForm() {
         body: JSON.stringify(formData),
       });
 
-      const data: ContactResponse | ErrorResponse = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      await parseApiResponse<ContactResponse>(response);
 
       setSubmitSuccess(true);
       setFormData({ name: '', email: '', message: '' });
@@ -144,6 +155,8 @@ export default function ContactForm() {
       setTimeout(() => setSubmitSuccess(false), 5000);
     } catch (error) {
       console.error('Error submitting form:', error);
+      // Show server-side validation messages next to their fields
+      setErrors(getFieldErrors(error));
       setSubmitError(
         error instanceof Error ? error.message : 'Failed to submit form'
       );
@@ -159,15 +172,11 @@ export default function ContactForm() {
     }
 
     try {
-      const response = await fetch(`/api/contacts/${id}`, {
+      const response = await fetchWithCsrf(`/api/contacts/${id}`, {
         method: 'DELETE',
       });
 
-      const data = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      await parseApiResponse<{ success: true }>(response);
 
       // Refresh contacts list
       await fetchContacts();
@@ -308,74 +317,80 @@ export default function ContactForm() {
         )}
       </form>
 
-      {/* Contacts List */}
-      <div>
-        <h2>Submitted Contacts</h2>
-
-        {isLoadingContacts && <p>Loading contacts...</p>}
-
-        {contactsError && (
-          <div
-            style={{
-              padding: '12px',
-              backgroundColor: '#f8d7da',
-              color: '#721c24',
-              border: '1px solid #f5c6cb',
-              borderRadius: '4px',
-              marginBottom: '20px',
-            }}
-          >
-            {contactsError}
-          </div>
-        )}
+      {/* Contacts List (admins only) */}
+      {!canViewContacts ? (
+        <p style={{ color: '#666' }}>
+          Log in as an admin to see submitted contacts.
+        </p>
+      ) : (
+        <div>
+          <h2>Submitted Contacts</h2>
+
+          {isLoadingContacts && <p>Loading contacts...</p>}
+
+          {contactsError && (
+            <div
+              style={{
+                padding: '12px',
+                backgroundColor: '#f8d7da',
+                color: '#721c24',
+                border: '1px solid #f5c6cb',
+                borderRadius: '4px',
+                marginBottom: '20px',
+              }}
+            >
+              {contactsError}
+            </div>
+          )}
 
-        {!isLoadingContacts && contacts.length === 0 && (
-          <p>No contacts submitted yet.</p>
-        )}
+          {!isLoadingContacts && contacts.length === 0 && (
+            <p>No contacts submitted yet.</p>
+          )}
 
-        {!isLoadingContacts && contacts.length > 0 && (
-          <div>
-            {contacts.map((contact) => (
-              <div
-                key={contact.id}
-                style={{
-                  border: '1px solid #ccc',
-                  borderRadius: '4px',
-                  padding: '16px',
-                  marginBottom: '16px',
-                }}
-              >
-                <div style={{ marginBottom: '8px' }}>
-                  <strong>Name:</strong> {contact.name}
-                </div>
-                <div style={{ marginBottom: '8px' }}>
-                  <strong>Email:</strong> {contact.email}
-                </div>
-                <div style={{ marginBottom: '8px' }}>
-                  <strong>Message:</strong> {contact.message}
-                </div>
-                <div style={{ marginBottom: '12px', fontSize: '14px', color: '#666' }}>
-                  <strong>Submitted:</strong> {contact.createdAt.toLocaleString()}
-                </div>
-                <button
-                  onClick={() => handleDelete(contact.id)}
+          {!isLoadingContacts && contacts.length > 0 && (
+            <div>
+              {contacts.map((contact) => (
+                <div
+                  key={contact.id}
                   style={{
-                    padding: '8px 16px',
-                    fontSize: '14px',
-                    backgroundColor: '#dc3545',
-                    color: 'white',
-                    border: 'none',
+                    border: '1px solid #ccc',
                     borderRadius: '4px',
-                    cursor: 'pointer',
+                    padding: '16px',
+                    marginBottom: '16px',
                   }}
                 >
-                  Delete
-                </button>
-              </div>
-            ))}
-          </div>
-        )}
-      </div>
+                  <div style={{ marginBottom: '8px' }}>
+                    <strong>Name:</strong> {contact.name}
+                  </div>
+                  <div style={{ marginBottom: '8px' }}>
+                    <strong>Email:</strong> {contact.email}
+                  </div>
+                  <div style={{ marginBottom: '8px' }}>
+                    <strong>Message:</strong> {contact.message}
+                  </div>
+                  <div style={{ marginBottom: '12px', fontSize: '14px', color: '#666' }}>
+                    <strong>Submitted:</strong> {contact.createdAt.toLocaleString()}
+                  </div>
+                  <button
+                    onClick={() => handleDelete(contact.id)}
+                    style={{
+                      padding: '8px 16px',
+                      fontSize: '14px',
+                      backgroundColor: '#dc3545',
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: '4px',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    Delete
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -2,6 +2,9 @@
  * Types for D1 Contact Form Example
  */
 
+import type { ApiErrorResponse } from '../../../src/lib/api-error';
+import { EMAIL_PATTERN, v, type Infer } from '../../../worker/validation';
+
 // Database row type (matches the schema exactly)
 export interface ContactRow {
   id: number;
@@ -22,12 +25,20 @@ export interface Contact {
   updatedAt: Date;
 }
 
-// Request body for creating a contact
-export interface CreateContactRequest {
-  name: string;
-  email: string;
-  message: string;
-}
+// Request body for creating a contact; strings are trimmed before checks
+export const CreateContactRequestSchema = v.object({
+  name: v.string({ trim: true, min: 1, max: 100 }),
+  email: v.string({
+    trim: true,
+    min: 1,
+    max: 255,
+    pattern: EMAIL_PATTERN,
+    patternMessage: 'Please enter a valid email address',
+  }),
+  message: v.string({ trim: true, min: 1, max: 5000 }),
+});
+
+export type CreateContactRequest = Infer<typeof CreateContactRequestSchema>;
 
 // API Response types
 export interface ContactResponse {
@@ -41,11 +52,8 @@ export interface ContactListResponse {
   count: number;
 }
 
-export interface ErrorResponse {
-  success: false;
-  error: string;
-  message: string;
-}
+// Shared error envelope returned by every endpoint
+export type ErrorResponse = ApiErrorResponse;
 
 export type ApiResponse = ContactResponse | ContactListResponse | ErrorResponse;
 
@@ -60,27 +68,3 @@ export function rowToContact(row: ContactRow): Contact {
     updatedAt: new Date(row.updated_at),
   };
 }
-
-// Validation helpers
-export function validateEmail(email: string): boolean {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email);
-}
-
-export function validateContactRequest(data: unknown): data is CreateContactRequest {
-  if (typeof data !== 'object' || data === null) return false;
-
-  const obj = data as Record<string, unknown>;
-
-  return (
-    typeof obj.name === 'string' &&
-    obj.name.trim().length > 0 &&
-    obj.name.length <= 100 &&
-    typeof obj.email === 'string' &&
-    validateEmail(obj.email) &&
-    obj.email.length <= 255 &&
-    typeof obj.message === 'string' &&
-    obj.message.trim().length > 0 &&
-    obj.message.length <= 5000
-  );
-}
@@ -0,0 +1,105 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { registerContactRoutes } from './worker-endpoint';
+import type { ContactListResponse, ContactResponse } from './types';
+import { createTestApp, createUser, json, signIn } from '../../../test/helpers';
+
+const app = createTestApp((api) => api.group('/contacts', registerContactRoutes));
+
+const submission = {
+  name: '  Ada Lovelace ',
+  email: 'ada@example.com',
+  message: 'Hello from the tests, long enough to pass validation.',
+};
+
+async function adminCookie(): Promise<string> {
+  return signIn(await createUser({ roles: ['user', 'admin'] }));
+}
+
+describe('contacts migration', () => {
+  it('creates the contacts table with timestamps', async () => {
+    await env.DB.prepare(
+      "INSERT INTO contacts (name, email, message) VALUES ('a', 'a@example.com', 'm')"
+    ).run();
+
+    const row = await env.DB.prepare('SELECT * FROM contacts').first<{
+      created_at: string;
+      updated_at: string;
+    }>();
+
+    expect(row?.created_at).toBeTruthy();
+    expect(row?.updated_at).toBeTruthy();
+  });
+});
+
+describe('POST /api/contacts', () => {
+  it('stores a trimmed submission', async () => {
+    const response = await app('/api/contacts', json('POST', submission));
+    const body = await response.json<ContactResponse>();
+
+    expect(response.status).toBe(201);
+    expect(body.data).toMatchObject({
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+    });
+
+    const count = await env.DB.prepare('SELECT COUNT(*) AS count FROM contacts').first<number>('count');
+    expect(count).toBe(1);
+  });
+
+  it('rejects an invalid body with field errors', async () => {
+    const response = await app(
+      '/api/contacts',
+      json('POST', { ...submission, email: 'not-an-email' })
+    );
+    const body = await response.json<{ error: string; details: { field: string }[] }>();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toBe('VALIDATION_ERROR');
+    expect(body.details.map((issue) => issue.field)).toContain('email');
+  });
+});
+
+describe('reading and deleting contacts', () => {
+  it('requires a signed-in admin', async () => {
+    expect((await app('/api/contacts')).status).toBe(401);
+
+    const cookie = await signIn(await createUser());
+    const response = await app('/api/contacts', { headers: { Cookie: cookie } });
+    expect(response.status).toBe(403);
+  });
+
+  it('lists, gets and deletes contacts for an admin', async () => {
+    const cookie = await adminCookie();
+    const created = await (
+      await app('/api/contacts', json('POST', submission))
+    ).json<ContactResponse>();
+    const id = created.data.id;
+
+    const list = await (
+      await app('/api/contacts', { headers: { Cookie: cookie } })
+    ).json<ContactListResponse>();
+    expect(list.count).toBe(1);
+    expect(list.data[0].id).toBe(id);
+
+    const single = await app(`/api/contacts/${id}`, { headers: { Cookie: cookie } });
+    expect(single.status).toBe(200);
+
+    const deleted = await app(`/api/contacts/${id}`, {
+      method: 'DELETE',
+      headers: { Cookie: cookie },
+    });
+    expect(deleted.status).toBe(200);
+
+    const missing = await app(`/api/contacts/${id}`, { headers: { Cookie: cookie } });
+    expect(missing.status).toBe(404);
+  });
+
+  it('rejects a non-numeric ID', async () => {
+    const response = await app('/api/contacts/abc', {
+      headers: { Cookie: await adminCookie() },
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -14,15 +14,25 @@
  * 2. Run migrations:
  *    npx wrangler d1 migrations apply your-database-name --local (for local dev)
  *    npx wrangler d1 migrations apply your-database-name (for production)
+ *
+ * 3. Reading and deleting submissions requires the admin role's
+ *    contacts:read / contacts:delete permissions, so the KV sessions example
+ *    (and its users migrations) must be set up too. Creating a contact is public.
+ *
+ * Handlers throw typed errors from worker/errors.ts; the top-level catch in
+ * worker/index.ts turns them into the shared error envelope.
  */
 
 import type {
   ContactRow,
   ContactResponse,
   ContactListResponse,
-  ErrorResponse
 } from './types';
-import { validateContactRequest, rowToContact } from './types';
+import { CreateContactRequestSchema, rowToContact } from './types';
+import { requirePermission } from '../kv-sessions/worker-middleware';
+import type { RouteGroup } from '../../../worker/router';
+import { NotFoundError, ValidationError } from '../../../worker/errors';
+import { parseJsonBody } from '../../../worker/validation';
 
 /**
  * POST /api/contacts - Create a new contact
@@ -31,65 +41,44 @@ export async function createContact(
   request: Request,
   env: Env
 ): Promise<Response> {
-  try {
-    // Parse request body
-    const body = await request.json();
-
-    // Validate request
-    if (!validateContactRequest(body)) {
-      const errorResponse: ErrorResponse = {
-        success: false,
-        error: 'VALIDATION_ERROR',
-        message: 'Invalid request data. Ensure name, email, and message are provided and valid.',
-      };
-      return Response.json(errorResponse, { status: 400 });
-    }
-
-    const { name, email, message } = body;
-
-    // Insert into database using parameterized query (prevents SQL injection)
-    const result = await env.DB.prepare(
-      'INSERT INTO contacts (name, email, message) VALUES (?, ?, ?)'
-    )
-      .bind(name.trim(), email.trim(), message.trim())
-      .run();
-
-    if (!result.success) {
-      throw new Error('Failed to insert contact into database');
-    }
-
-    // Fetch the created contact
-    const contact = await env.DB.prepare(
-      'SELECT * FROM contacts WHERE id = ?'
-    )
-      .bind(result.meta.last_row_id)
-      .first<ContactRow>();
-
-    if (!contact) {
-      throw new Error('Failed to retrieve created contact');
-    }
+  // Parse and validate request body (values come back trimmed)
+  const { name, email, message } = await parseJsonBody(
+    request,
+    CreateContactRequestSchema
+  );
+
+  // Insert into database using parameterized query (prevents SQL injection)
+  const result = await env.DB.prepare(
+    'INSERT INTO contacts (name, email, message) VALUES (?, ?, ?)'
+  )
+    .bind(name, email, message)
+    .run();
+
+  if (!result.success) {
+    throw new Error('Failed to insert contact into database');
+  }
 
-    const response: ContactResponse = {
-      success: true,
-      data: rowToContact(contact),
-    };
+  // Fetch the created contact
+  const contact = await env.DB.prepare(
+    'SELECT * FROM contacts WHERE id = ?'
+  )
+    .bind(result.meta.last_row_id)
+    .first<ContactRow>();
 
-    return Response.json(response, { status: 201 });
-  } catch (error) {
-    console.error('Error creating contact:', error);
+  if (!contact) {
+    throw new Error('Failed to retrieve created contact');
+  }
 
-    const errorResponse: ErrorResponse = {
-      success: false,
-      error: 'SERVER_ERROR',
-      message: 'An error occurred while creating the contact',
-    };
+  const response: ContactResponse = {
+    success: true,
+    data: rowToContact(contact),
+  };
 
-    return Response.json(errorResponse, { status: 500 });
-  }
+  return Response.json(response, { status: 201 });
 }
 
 /**
- * GET /api/contacts - List all contacts
+ * GET /api/contacts - List all contacts (requires contacts:read)
  * Query parameters:
  * - limit: Number of contacts to return (default: 50, max: 100)
  * - offset: Number of contacts to skip (default: 0)
@@ -98,222 +87,149 @@ export async function listContacts(
   request: Request,
   env: Env
 ): Promise<Response> {
-  try {
-    const url = new URL(request.url);
-    const limit = Math.min(
-      parseInt(url.searchParams.get('limit') || '50'),
-      100
-    );
-    const offset = Math.max(
-      parseInt(url.searchParams.get('offset') || '0'),
-      0
-    );
-
-    // Fetch contacts with pagination
-    const { results } = await env.DB.prepare(
-      'SELECT * FROM contacts ORDER BY created_at DESC LIMIT ? OFFSET ?'
-    )
-      .bind(limit, offset)
-      .all<ContactRow>();
-
-    // Get total count
-    const countResult = await env.DB.prepare(
-      'SELECT COUNT(*) as count FROM contacts'
-    ).first<{ count: number }>();
-
-    const response: ContactListResponse = {
-      success: true,
-      data: results.map(rowToContact),
-      count: countResult?.count || 0,
-    };
+  const url = new URL(request.url);
+  const limit = Math.min(
+    parseInt(url.searchParams.get('limit') || '50'),
+    100
+  );
+  const offset = Math.max(
+    parseInt(url.searchParams.get('offset') || '0'),
+    0
+  );
+
+  // Fetch contacts with pagination
+  const { results } = await env.DB.prepare(
+    'SELECT * FROM contacts ORDER BY created_at DESC LIMIT ? OFFSET ?'
+  )
+    .bind(limit, offset)
+    .all<ContactRow>();
+
+  // Get total count
+  const countResult = await env.DB.prepare(
+    'SELECT COUNT(*) as count FROM contacts'
+  ).first<{ count: number }>();
+
+  const response: ContactListResponse = {
+    success: true,
+    data: results.map(rowToContact),
+    count: countResult?.count || 0,
+  };
 
-    return Response.json(response);
-  } catch (error) {
-    console.error('Error listing contacts:', error);
+  return Response.json(response);
+}
 
-    const errorResponse: ErrorResponse = {
-      success: false,
-      error: 'SERVER_ERROR',
-      message: 'An error occurred while fetching contacts',
-    };
+// Parse a contact ID path parameter
+function parseContactId(id: string): number {
+  const contactId = parseInt(id);
 
-    return Response.json(errorResponse, { status: 500 });
+  if (isNaN(contactId)) {
+    throw new ValidationError('Invalid contact ID');
   }
+
+  return contactId;
 }
 
 /**
- * GET /api/contacts/:id - Get a single contact by ID
+ * GET /api/contacts/:id - Get a single contact by ID (requires contacts:read)
  */
 export async function getContact(
   request: Request,
   env: Env,
   id: string
 ): Promise<Response> {
-  try {
-    const contactId = parseInt(id);
-
-    if (isNaN(contactId)) {
-      const errorResponse: ErrorResponse = {
-        success: false,
-        error: 'VALIDATION_ERROR',
-        message: 'Invalid contact ID',
-      };
-      return Response.json(errorResponse, { status: 400 });
-    }
-
-    const contact = await env.DB.prepare(
-      'SELECT * FROM contacts WHERE id = ?'
-    )
-      .bind(contactId)
-      .first<ContactRow>();
+  const contactId = parseContactId(id);
 
-    if (!contact) {
-      const errorResponse: ErrorResponse = {
-        success: false,
-        error: 'NOT_FOUND',
-        message: 'Contact not found',
-      };
-      return Response.json(errorResponse, { status: 404 });
-    }
+  const contact = await env.DB.prepare(
+    'SELECT * FROM contacts WHERE id = ?'
+  )
+    .bind(contactId)
+    .first<ContactRow>();
 
-    const response: ContactResponse = {
-      success: true,
-      data: rowToContact(contact),
-    };
-
-    return Response.json(response);
-  } catch (error) {
-    console.error('Error fetching contact:', error);
+  if (!contact) {
+    throw new NotFoundError('Contact not found');
+  }
 
-    const errorResponse: ErrorResponse = {
-      success: false,
-      error: 'SERVER_ERROR',
-      message: 'An error occurred while fetching the contact',
-    };
+  const response: ContactResponse = {
+    success: true,
+    data: rowToContact(contact),
+  };
 
-    return Response.json(errorResponse, { status: 500 });
-  }
+  return Response.json(response);
 }
 
 /**
- * DELETE /api/contacts/:id - Delete a contact by ID
+ * DELETE /api/contacts/:id - Delete a contact by ID (requires contacts:delete)
  */
 export async function deleteContact(
   request: Request,
   env: Env,
   id: string
 ): Promise<Response> {
-  try {
-    const contactId = parseInt(id);
-
-    if (isNaN(contactId)) {
-      const errorResponse: ErrorResponse = {
-        success: false,
-        error: 'VALIDATION_ERROR',
-        message: 'Invalid contact ID',
-      };
-      return Response.json(errorResponse, { status: 400 });
-    }
-
-    // Check if contact exists
-    const existingContact = await env.DB.prepare(
-      'SELECT id FROM contacts WHERE id = ?'
-    )
-      .bind(contactId)
-      .first();
-
-    if (!existingContact) {
-      const errorResponse: ErrorResponse = {
-        success: false,
-        error: 'NOT_FOUND',
-        message: 'Contact not found',
-      };
-      return Response.json(errorResponse, { status: 404 });
-    }
-
-    // Delete the contact
-    const result = await env.DB.prepare(
-      'DELETE FROM contacts WHERE id = ?'
-    )
-      .bind(contactId)
-      .run();
+  const contactId = parseContactId(id);
 
-    if (!result.success) {
-      throw new Error('Failed to delete contact');
-    }
+  // Check if contact exists
+  const existingContact = await env.DB.prepare(
+    'SELECT id FROM contacts WHERE id = ?'
+  )
+    .bind(contactId)
+    .first();
 
-    return Response.json({ success: true }, { status: 200 });
-  } catch (error) {
-    console.error('Error deleting contact:', error);
+  if (!existingContact) {
+    throw new NotFoundError('Contact not found');
+  }
 
-    const errorResponse: ErrorResponse = {
-      success: false,
-      error: 'SERVER_ERROR',
-      message: 'An error occurred while deleting the contact',
-    };
+  // Delete the contact
+  const result = await env.DB.prepare(
+    'DELETE FROM contacts WHERE id = ?'
+  )
+    .bind(contactId)
+    .run();
 
-    return Response.json(errorResponse, { status: 500 });
+  if (!result.success) {
+    throw new Error('Failed to delete contact');
   }
+
+  return Response.json({ success: true }, { status: 200 });
 }
 
 /**
- * Router function to handle all contact-related requests
- * Add this to your worker/index.ts fetch handler:
+ * Register all contact-related routes into a router group
+ * Add this to your worker/index.ts:
  *
  * Example integration:
  *
- * import { handleContactRequest } from './examples/database/d1-contact-form/worker-endpoint';
- *
- * export default {
- *   async fetch(request, env) {
- *     const url = new URL(request.url);
+ * import { Router } from './router';
+ * import { registerContactRoutes } from '../examples/database/d1-contact-form/worker-endpoint';
  *
- *     // Handle contact API routes
- *     if (url.pathname.startsWith('/api/contacts')) {
- *       return handleContactRequest(request, env);
- *     }
+ * const router = new Router({ base: '/api' });
+ * router.group('/contacts', registerContactRoutes);
  *
- *     // ... other routes
+ * export default {
+ *   async fetch(request, env, ctx) {
+ *     return (await router.handle(request, env, ctx)) ?? new Response(null, { status: 404 });
  *   }
  * }
  */
-export async function handleContactRequest(
-  request: Request,
-  env: Env
-): Promise<Response> {
-  const url = new URL(request.url);
-  const path = url.pathname;
-  const method = request.method;
-
-  // Match routes
-  const contactIdMatch = path.match(/^\/api\/contacts\/(\d+)$/);
-
+export function registerContactRoutes(contacts: RouteGroup): void {
   // POST /api/contacts - Create contact
-  if (path === '/api/contacts' && method === 'POST') {
-    return createContact(request, env);
-  }
+  contacts.post('/', createContact);
 
-  // GET /api/contacts - List contacts
-  if (path === '/api/contacts' && method === 'GET') {
-    return listContacts(request, env);
-  }
+  // GET /api/contacts - List contacts (admin)
+  contacts.get('/', requirePermission('contacts:read', listContacts));
 
-  // GET /api/contacts/:id - Get single contact
-  if (contactIdMatch && method === 'GET') {
-    return getContact(request, env, contactIdMatch[1]);
-  }
-
-  // DELETE /api/contacts/:id - Delete contact
-  if (contactIdMatch && method === 'DELETE') {
-    return deleteContact(request, env, contactIdMatch[1]);
-  }
-
-  // Method not allowed
-  const errorResponse: ErrorResponse = {
-    success: false,
-    error: 'METHOD_NOT_ALLOWED',
-    message: 'Method not allowed for this endpoint',
-  };
+  // GET /api/contacts/:id - Get single contact (admin)
+  contacts.get(
+    '/:id',
+    requirePermission('contacts:read', (request, env, { params }) =>
+      getContact(request, env, params.id)
+    )
+  );
 
-  return Response.json(errorResponse, { status: 405 });
+  // DELETE /api/contacts/:id - Delete contact (admin)
+  contacts.delete(
+    '/:id',
+    requirePermission('contacts:delete', (request, env, { params }) =>
+      deleteContact(request, env, params.id)
+    )
+  );
 }
@@ -2,7 +2,20 @@
  * Session Provider Component
  *
  * Provides session context to the entire React application.
- * Manages authentication state and provides login/logout functions.
+ * Manages authentication state and provides signup/login/logout functions,
+ * plus loginWithProvider for OAuth (see oauth-endpoints.ts) and
+ * requestMagicLink for passwordless email login. When the app is opened
+ * from a magic link (?magic_token=...), the provider logs in with the
+ * token instead of fetching the current session.
+ *
+ * For users with TOTP enabled, a login stops at `mfaRequired` until
+ * verifyMfa(code) succeeds (see mfa.ts). setupTotp, confirmTotp and
+ * disableTotp manage enrollment for the logged-in user.
+ *
+ * loginWithPasskey and registerPasskey run the WebAuthn ceremonies with
+ * navigator.credentials (see passkey-endpoints.ts).
+ * Mutating requests go through fetchWithCsrf, which attaches the
+ * X-CSRF-Token header the worker's CSRF middleware requires.
  *
  * Usage:
  * import { SessionProvider } from './examples/database/kv-sessions/SessionProvider';
@@ -16,8 +29,24 @@
  * }
  */
 
-import { createContext, useState, useEffect, ReactNode } from 'react';
-import type { Session, User, SessionResponse, ErrorResponse } from './types';
+import { createContext, useState, useEffect, useRef, ReactNode } from 'react';
+import type {
+  Session,
+  User,
+  SessionResponse,
+  LoginResponse,
+  MagicLinkResponse,
+  TotpEnabledResponse,
+  TotpSetupResponse,
+  PasskeyInfo,
+  PasskeyLoginOptions,
+  PasskeyOptionsResponse,
+  PasskeyRegistrationOptions,
+  PasskeyResponse,
+} from './types';
+import { fromBase64Url, toBase64Url } from './base64url';
+import { ApiRequestError, parseApiResponse } from '../../../src/lib/api-error';
+import { fetchWithCsrf } from '../../../src/lib/fetch-with-csrf';
 
 interface SessionContextValue {
   session: Session | null;
@@ -25,6 +54,23 @@ interface SessionContextValue {
   isLoading: boolean;
   isAuthenticated: boolean;
   login: (email: string, password: string) => Promise<void>;
+  signup: (name: string, email: string, password: string) => Promise<void>;
+  // Full-page redirect to the provider; returns here after login
+  loginWithProvider: (provider: string) => void;
+  // Emails a login link; resolves with the message to show the user
+  requestMagicLink: (email: string) => Promise<string>;
+  // The first login step passed; waiting for a TOTP or recovery code
+  mfaRequired: boolean;
+  verifyMfa: (code: string) => Promise<void>;
+  cancelMfa: () => void;
+  setupTotp: () => Promise<TotpSetupResponse['data']>;
+  // Resolves with the recovery codes to show once
+  confirmTotp: (code: string) => Promise<string[]>;
+  disableTotp: (code: string) => Promise<void>;
+  // Shows the browser's passkey prompt; may also end at mfaRequired
+  loginWithPasskey: () => Promise<void>;
+  // Adds a passkey for the logged-in user
+  registerPasskey: (name?: string) => Promise<PasskeyInfo>;
   logout: () => Promise<void>;
   refreshSession: () => Promise<void>;
   error: string | null;
@@ -35,6 +81,48 @@ export const SessionContext = createContext<SessionContextValue | undefined>(
   undefined
 );
 
+// Convert the JSON date strings in a session response to Date objects
+function toSession(data: SessionResponse): Session {
+  return {
+    ...data.data,
+    user: {
+      ...data.data.user,
+      createdAt: new Date(data.data.user.createdAt),
+    },
+    issuedAt: new Date(data.data.issuedAt),
+    lastSeenAt: new Date(data.data.lastSeenAt),
+    expiresAt: new Date(data.data.expiresAt),
+    absoluteExpiresAt: new Date(data.data.absoluteExpiresAt),
+  };
+}
+
+// WebAuthn binary fields travel as base64url in JSON
+function toBuffer(value: string): ArrayBuffer {
+  return fromBase64Url(value).buffer;
+}
+
+function fromBuffer(buffer: ArrayBuffer): string {
+  return toBase64Url(new Uint8Array(buffer));
+}
+
+// Read a query parameter and remove it from the address bar and history
+function takeQueryParam(name: string): string | null {
+  const params = new URLSearchParams(window.location.search);
+  const value = params.get(name);
+
+  if (value !== null) {
+    params.delete(name);
+    const search = params.toString();
+    window.history.replaceState(
+      null,
+      '',
+      window.location.pathname + (search ? `?${search}` : '') + window.location.hash
+    );
+  }
+
+  return value;
+}
+
 interface SessionProviderProps {
   children: ReactNode;
 }
@@ -43,10 +131,27 @@ export function SessionProvider({ children }: SessionProviderProps) {
   const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [mfaRequired, setMfaRequired] = useState(false);
+  // The URL parameters below are read once, even when StrictMode re-runs effects
+  const started = useRef(false);
 
-  // Fetch current session on mount
+  // Fetch current session on mount, or finish a magic link login
   useEffect(() => {
-    fetchSession();
+    if (started.current) return;
+    started.current = true;
+
+    // An OAuth login for a TOTP user returns with ?mfa=required
+    if (takeQueryParam('mfa') === 'required') {
+      setMfaRequired(true);
+    }
+
+    const magicToken = takeQueryParam('magic_token');
+
+    if (magicToken) {
+      verifyMagicLink(magicToken);
+    } else {
+      fetchSession();
+    }
   }, []);
 
   const fetchSession = async () => {
@@ -64,23 +169,9 @@ export function SessionProvider({ children }: SessionProviderProps) {
         return;
       }
 
-      const data: SessionResponse | ErrorResponse = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.message);
-      }
-
-      // Convert date strings to Date objects
-      const sessionWithDates: Session = {
-        ...data.data,
-        user: {
-          ...data.data.user,
-          createdAt: new Date(data.data.user.createdAt),
-        },
-        expiresAt: new Date(data.data.expiresAt),
-      };
+      const data = await parseApiResponse<SessionResponse>(response);
 
-      setSession(sessionWithDates);
+      setSession(toSession(data));
     } catch (err) {
       console.error('Error fetching session:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch session');
@@ -95,7 +186,7 @@ export function SessionProvider({ children }: SessionProviderProps) {
     setError(null);
 
     try {
-      const response = await fetch('/api/auth/login', {
+      const response = await fetchWithCsrf('/api/auth/login', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -104,26 +195,81 @@ export function SessionProvider({ children }: SessionProviderProps) {
         body: JSON.stringify({ email, password }),
       });
 
-      const data: SessionResponse | ErrorResponse = await response.json();
+      const data = await parseApiResponse<LoginResponse>(response);
 
-      if (!data.success) {
-        throw new Error(data.message);
+      // TOTP users get a code prompt instead of a session
+      if ('mfaRequired' in data) {
+        setMfaRequired(true);
+      } else {
+        setSession(toSession(data));
       }
+    } catch (err) {
+      console.error('Login error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Login failed';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const signup = async (name: string, email: string, password: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetchWithCsrf('/api/auth/signup', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include', // Important: include cookies
+        body: JSON.stringify({ name, email, password }),
+      });
+
+      const data = await parseApiResponse<SessionResponse>(response);
 
-      // Convert date strings to Date objects
-      const sessionWithDates: Session = {
-        ...data.data,
-        user: {
-          ...data.data.user,
-          createdAt: new Date(data.data.user.createdAt),
+      setSession(toSession(data));
+    } catch (err) {
+      console.error('Signup error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Signup failed';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loginWithProvider = (provider: string) => {
+    const params = new URLSearchParams({
+      redirect: window.location.pathname + window.location.search,
+    });
+    window.location.assign(
+      `/api/auth/oauth/${encodeURIComponent(provider)}/start?${params}`
+    );
+  };
+
+  const requestMagicLink = async (email: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetchWithCsrf('/api/auth/magic-link', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
         },
-        expiresAt: new Date(data.data.expiresAt),
-      };
+        credentials: 'include',
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await parseApiResponse<MagicLinkResponse>(response);
 
-      setSession(sessionWithDates);
+      return data.message;
     } catch (err) {
-      console.error('Login error:', err);
-      const errorMessage = err instanceof Error ? err.message : 'Login failed';
+      console.error('Magic link error:', err);
+      const errorMessage =
+        err instanceof Error ? err.message : 'Could not send login link';
       setError(errorMessage);
       throw new Error(errorMessage);
     } finally {
@@ -131,12 +277,220 @@ export function SessionProvider({ children }: SessionProviderProps) {
     }
   };
 
+  const verifyMagicLink = async (token: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetchWithCsrf('/api/auth/magic-link/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include', // Important: include cookies
+        body: JSON.stringify({ token }),
+      });
+
+      const data = await parseApiResponse<LoginResponse>(response);
+
+      if ('mfaRequired' in data) {
+        setMfaRequired(true);
+      } else {
+        setSession(toSession(data));
+      }
+    } catch (err) {
+      // Shown by LoginForm, e.g. for an expired or already used link
+      console.error('Magic link login error:', err);
+      setError(err instanceof Error ? err.message : 'Login failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const verifyMfa = async (code: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetchWithCsrf('/api/auth/mfa/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include', // Sends the mfa_challenge cookie
+        body: JSON.stringify({ code }),
+      });
+
+      const data = await parseApiResponse<SessionResponse>(response);
+
+      setMfaRequired(false);
+      setSession(toSession(data));
+    } catch (err) {
+      console.error('MFA verification error:', err);
+      // Too many wrong codes or too slow: start again from the password
+      if (err instanceof ApiRequestError && err.code === 'MFA_CHALLENGE_EXPIRED') {
+        setMfaRequired(false);
+      }
+      const errorMessage = err instanceof Error ? err.message : 'Verification failed';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelMfa = () => {
+    setMfaRequired(false);
+    setError(null);
+  };
+
+  // Enrollment calls don't touch isLoading/error; the settings UI shows its own
+  const postTotp = async <T,>(path: string, body?: object): Promise<T> => {
+    const response = await fetchWithCsrf(`/api/auth/mfa/totp/${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify(body ?? {}),
+    });
+
+    return parseApiResponse<T>(response);
+  };
+
+  const setupTotp = async () => {
+    const data = await postTotp<TotpSetupResponse>('setup');
+    return data.data;
+  };
+
+  const confirmTotp = async (code: string) => {
+    const data = await postTotp<TotpEnabledResponse>('confirm', { code });
+    setSession(toSession(data));
+    return data.recoveryCodes;
+  };
+
+  const disableTotp = async (code: string) => {
+    const data = await postTotp<SessionResponse>('disable', { code });
+    setSession(toSession(data));
+  };
+
+  const loginWithPasskey = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const optionsResponse = await fetchWithCsrf('/api/auth/passkeys/login/options', {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const { data: options } =
+        await parseApiResponse<PasskeyOptionsResponse<PasskeyLoginOptions>>(
+          optionsResponse
+        );
+
+      const credential = (await navigator.credentials.get({
+        publicKey: { ...options, challenge: toBuffer(options.challenge) },
+      })) as PublicKeyCredential | null;
+
+      if (!credential) {
+        throw new Error('Passkey login was cancelled');
+      }
+
+      const assertion = credential.response as AuthenticatorAssertionResponse;
+      const response = await fetchWithCsrf('/api/auth/passkeys/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include', // Important: include cookies
+        body: JSON.stringify({
+          id: credential.id,
+          response: {
+            clientDataJSON: fromBuffer(assertion.clientDataJSON),
+            authenticatorData: fromBuffer(assertion.authenticatorData),
+            signature: fromBuffer(assertion.signature),
+            userHandle: assertion.userHandle && fromBuffer(assertion.userHandle),
+          },
+        }),
+      });
+
+      const data = await parseApiResponse<LoginResponse>(response);
+
+      if ('mfaRequired' in data) {
+        setMfaRequired(true);
+      } else {
+        setSession(toSession(data));
+      }
+    } catch (err) {
+      console.error('Passkey login error:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Passkey login failed';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const registerPasskey = async (name?: string) => {
+    const optionsResponse = await fetchWithCsrf('/api/auth/passkeys/register/options', {
+      method: 'POST',
+      credentials: 'include',
+    });
+    const { data: options } =
+      await parseApiResponse<PasskeyOptionsResponse<PasskeyRegistrationOptions>>(
+        optionsResponse
+      );
+
+    const credential = (await navigator.credentials.create({
+      publicKey: {
+        ...options,
+        challenge: toBuffer(options.challenge),
+        user: { ...options.user, id: toBuffer(options.user.id) },
+        excludeCredentials: options.excludeCredentials.map((excluded) => ({
+          ...excluded,
+          id: toBuffer(excluded.id),
+          transports: excluded.transports as AuthenticatorTransport[] | undefined,
+        })),
+      },
+    })) as PublicKeyCredential | null;
+
+    if (!credential) {
+      throw new Error('Passkey registration was cancelled');
+    }
+
+    const attestation = credential.response as AuthenticatorAttestationResponse;
+    const response = await fetchWithCsrf('/api/auth/passkeys/register', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({
+        id: credential.id,
+        name,
+        response: {
+          clientDataJSON: fromBuffer(attestation.clientDataJSON),
+          attestationObject: fromBuffer(attestation.attestationObject),
+          transports: attestation.getTransports?.(),
+        },
+      }),
+    });
+
+    const data = await parseApiResponse<PasskeyResponse>(response);
+
+    return {
+      ...data.data,
+      createdAt: new Date(data.data.createdAt),
+      lastUsedAt: data.data.lastUsedAt && new Date(data.data.lastUsedAt),
+    };
+  };
+
   const logout = async () => {
     setIsLoading(true);
     setError(null);
 
     try {
-      await fetch('/api/auth/logout', {
+      await fetchWithCsrf('/api/auth/logout', {
         method: 'POST',
         credentials: 'include', // Important: include cookies
       });
@@ -162,6 +516,17 @@ export function SessionProvider({ children }: SessionProviderProps) {
     isLoading,
     isAuthenticated: !!session,
     login,
+    signup,
+    loginWithProvider,
+    requestMagicLink,
+    mfaRequired,
+    verifyMfa,
+    cancelMfa,
+    setupTotp,
+    confirmTotp,
+    disableTotp,
+    loginWithPasskey,
+    registerPasskey,
     logout,
     refreshSession,
     error,
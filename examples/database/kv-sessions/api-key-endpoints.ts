@@ -0,0 +1,107 @@
+/**
+ * API Key Endpoints
+ *
+ * Lets a logged-in user create, list and revoke API keys for scripts and
+ * other services (see api-keys.ts for how keys authenticate requests).
+ *
+ * GET    /api/auth/keys      - list the user's keys (never the keys themselves)
+ * POST   /api/auth/keys      - create a key; the response is the only time it is shown
+ * DELETE /api/auth/keys/:id  - revoke a key
+ *
+ * These routes don't accept API keys, so a leaked key can't be used to
+ * mint more keys. A key can only be given scopes its owner currently has.
+ *
+ * Prerequisites:
+ * 1. migrations/0006_create_api_keys.sql applied
+ */
+
+import { DEFAULT_API_KEY_DAYS, generateApiKey } from './api-keys';
+import { CreateApiKeySchema, rowToApiKey } from './types';
+import type { ApiKeyCreatedResponse, ApiKeyListResponse } from './types';
+import { UserStore } from './user-store';
+import { getSessionManager, requireAuth } from './worker-middleware';
+import { ForbiddenError, NotFoundError } from '../../../worker/errors';
+import type { RouteContext } from '../../../worker/router';
+import { parseJsonBody } from '../../../worker/validation';
+
+/**
+ * GET /api/auth/keys - List the user's API keys
+ */
+export async function listApiKeys(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const session = await requireAuth(request, getSessionManager(env));
+  const keys = await new UserStore(env.DB).listApiKeys(session.user.id);
+
+  const response: ApiKeyListResponse = {
+    success: true,
+    data: keys.map(rowToApiKey),
+  };
+
+  return Response.json(response);
+}
+
+/**
+ * POST /api/auth/keys - Create an API key
+ */
+export async function createApiKey(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const session = await requireAuth(request, getSessionManager(env));
+  const body = await parseJsonBody(request, CreateApiKeySchema);
+
+  const scopes = [...new Set(body.scopes)];
+  const missing = scopes.filter(
+    (scope) => !session.user.permissions.includes(scope)
+  );
+
+  if (missing.length > 0) {
+    throw new ForbiddenError(
+      `You don't have these permissions: ${missing.join(', ')}`,
+      'INSUFFICIENT_PERMISSION'
+    );
+  }
+
+  const days = body.expiresInDays ?? DEFAULT_API_KEY_DAYS;
+  const { key, prefix, keyHash } = await generateApiKey();
+
+  const row = await new UserStore(env.DB).createApiKey(session.user.id, {
+    name: body.name,
+    prefix,
+    keyHash,
+    scopes,
+    expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+  });
+
+  const response: ApiKeyCreatedResponse = {
+    success: true,
+    data: rowToApiKey(row),
+    key,
+  };
+
+  return Response.json(response, { status: 201 });
+}
+
+/**
+ * DELETE /api/auth/keys/:id - Revoke an API key
+ * Requests using the key fail from then on.
+ */
+export async function revokeApiKey(
+  request: Request,
+  env: Env,
+  { params }: RouteContext
+): Promise<Response> {
+  const session = await requireAuth(request, getSessionManager(env));
+  const deleted = await new UserStore(env.DB).deleteApiKey(
+    session.user.id,
+    params.id
+  );
+
+  if (!deleted) {
+    throw new NotFoundError('API key not found');
+  }
+
+  return Response.json({ success: true });
+}
@@ -0,0 +1,125 @@
+/**
+ * API Keys
+ *
+ * Long-lived credentials for scripts and other services, sent as
+ * `Authorization: Bearer ak_...`. Keys are 32 random bytes, so like
+ * magic link tokens a plain SHA-256 hash is enough to store them; the
+ * key itself is shown once, when it is created.
+ *
+ * A key acts as its owner, limited to its scopes. Scopes are permissions
+ * (see roles.ts) and are checked against the owner's current roles on
+ * every request, so taking a role away also takes it from their keys.
+ * The result is the same Session object a cookie login produces, with
+ * `apiKeyId` set.
+ *
+ * Prerequisites:
+ * 1. migrations/0006_create_api_keys.sql applied
+ */
+
+import { toBase64Url } from './base64url';
+import { parsePermissions, rowToUser } from './types';
+import type { ApiKeyRow, Session, UserRow } from './types';
+import { UserStore } from './user-store';
+import { UnauthorizedError } from '../../../worker/errors';
+
+const KEY_PREFIX = 'ak_';
+
+// Characters of the key kept in plain text, e.g. "ak_3kPq9x"
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+export const DEFAULT_API_KEY_DAYS = 90;
+
+// last_used_at is updated at most this often per key (limits D1 writes)
+const TOUCH_INTERVAL = 60 * 5 * 1000; // 5 minutes
+
+/**
+ * New random key with its display prefix and the hash to store
+ */
+export async function generateApiKey(): Promise<{
+  key: string;
+  prefix: string;
+  keyHash: string;
+}> {
+  const key = KEY_PREFIX + toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: await hashApiKey(key),
+  };
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(key)
+  );
+  return toBase64Url(new Uint8Array(digest));
+}
+
+/**
+ * The API key from an `Authorization: Bearer ak_...` header, or null.
+ * Other bearer tokens are left to whoever handles them.
+ */
+export function getApiKeyFromRequest(request: Request): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get('Authorization') ?? '');
+
+  return match && match[1].startsWith(KEY_PREFIX) ? match[1] : null;
+}
+
+function invalidApiKey(): UnauthorizedError {
+  return new UnauthorizedError('Invalid or expired API key', 'INVALID_API_KEY');
+}
+
+// The key's owner as a session, with permissions narrowed to the key's scopes
+function toSession(key: ApiKeyRow, user: UserRow, now: Date): Session {
+  const owner = rowToUser(user);
+  const scopes = parsePermissions(key.scopes);
+  const expiresAt = new Date(key.expires_at);
+
+  return {
+    sessionId: `api_key:${key.id}`,
+    user: {
+      ...owner,
+      permissions: owner.permissions.filter((permission) =>
+        scopes.includes(permission)
+      ),
+    },
+    issuedAt: new Date(key.created_at),
+    lastSeenAt: now,
+    expiresAt,
+    absoluteExpiresAt: expiresAt,
+    apiKeyId: key.id,
+  };
+}
+
+/**
+ * Authenticate a request by its API key.
+ * Returns null when the request has no API key, and throws
+ * UnauthorizedError when it has one that is unknown or expired.
+ */
+export async function authenticateApiKey(
+  request: Request,
+  db: D1Database
+): Promise<Session | null> {
+  const apiKey = getApiKeyFromRequest(request);
+
+  if (!apiKey) {
+    return null;
+  }
+
+  const users = new UserStore(db);
+  const found = await users.findApiKeyByHash(await hashApiKey(apiKey));
+  const now = new Date();
+
+  if (!found || new Date(found.key.expires_at) <= now) {
+    throw invalidApiKey();
+  }
+
+  const lastUsed = found.key.last_used_at && new Date(found.key.last_used_at);
+  if (!lastUsed || now.getTime() - lastUsed.getTime() >= TOUCH_INTERVAL) {
+    await users.touchApiKey(found.key.id);
+  }
+
+  return toSession(found.key, found.user, now);
+}
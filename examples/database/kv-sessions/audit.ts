@@ -0,0 +1,39 @@
+/**
+ * Audit Events
+ *
+ * Security-relevant events (failed logins, lockouts, refresh token reuse)
+ * are written to the Worker's logs as one JSON object per line, so they
+ * can be filtered in Workers Logs or forwarded with a Logpush job. Every event carries the
+ * request ID, which also comes back to the client in X-Request-Id.
+ *
+ * To keep events somewhere else (a D1 table, a queue, a SIEM), change
+ * recordAuditEvent; callers don't need to know where events end up.
+ */
+
+export type AuditEventType =
+  | 'login.failed' // Wrong email or password
+  | 'login.locked' // A failure started a lockout
+  | 'login.throttled' // An attempt was rejected during a lockout
+  | 'token.reused'; // A used refresh token came back; its family was revoked
+
+export interface AuditEvent {
+  type: AuditEventType;
+  requestId: string;
+  ip?: string;
+  email?: string;
+  // Event-specific fields, e.g. the lockout length
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Record an audit event. Never throws, so auditing can't break a request.
+ */
+export function recordAuditEvent(event: AuditEvent): void {
+  try {
+    console.log(
+      JSON.stringify({ audit: true, timestamp: new Date().toISOString(), ...event })
+    );
+  } catch (error) {
+    console.error('Failed to record audit event:', error);
+  }
+}
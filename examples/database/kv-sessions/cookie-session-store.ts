@@ -0,0 +1,203 @@
+/**
+ * Stateless Cookie Session Store
+ *
+ * Keeps the whole SessionData payload in the session cookie, HMAC-SHA256
+ * signed and optionally AES-GCM encrypted, so authenticated requests need
+ * no KV read and a fresh login works immediately in every colo.
+ *
+ * Trade-offs compared with KvSessionStore:
+ * - Logout clears the cookie, but a copied cookie stays valid until it
+ *   expires. Keep sessionTTL short if that matters.
+ * - No device list or "sign out other devices" (there is no index).
+ * - Sliding expiry only takes effect when a response re-sends the cookie.
+ *
+ * Secrets (wrangler secret put SESSION_SECRETS), comma-separated, newest
+ * first. New cookies use the first secret; all of them are accepted, so a
+ * secret can be rotated by prepending the new one and removing the old one
+ * once sessionTTL has passed.
+ */
+
+import { fromBase64Url, toBase64Url } from './base64url';
+import type { SessionStore, StoredSession } from './session-store';
+import type { SessionData } from './types';
+import { ApiError } from '../../../worker/errors';
+
+export interface CookieSessionStoreOptions {
+  // Newest first; each at least MIN_SECRET_LENGTH characters
+  secrets: string[];
+  // Encrypt the payload so the cookie does not reveal the user's email/name
+  encrypt?: boolean;
+}
+
+const MIN_SECRET_LENGTH = 32;
+
+interface SessionKeys {
+  hmac: CryptoKey;
+  aes: CryptoKey;
+}
+
+interface CookiePayload {
+  sid: string;
+  data: SessionData;
+}
+
+// Separate HMAC and AES keys derived from one secret with HKDF
+async function deriveKeys(secret: string): Promise<SessionKeys> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    'HKDF',
+    false,
+    ['deriveKey']
+  );
+
+  const params = (info: string) => ({
+    name: 'HKDF',
+    hash: 'SHA-256',
+    salt: new Uint8Array(0),
+    info: new TextEncoder().encode(info),
+  });
+
+  const [hmac, aes] = await Promise.all([
+    crypto.subtle.deriveKey(
+      params('session-cookie-hmac'),
+      material,
+      { name: 'HMAC', hash: 'SHA-256', length: 256 },
+      false,
+      ['sign', 'verify']
+    ),
+    crypto.subtle.deriveKey(
+      params('session-cookie-aes-gcm'),
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    ),
+  ]);
+
+  return { hmac, aes };
+}
+
+/**
+ * Parse a comma-separated SESSION_SECRETS value
+ */
+export function parseSessionSecrets(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+}
+
+export class CookieSessionStore implements SessionStore {
+  private keys: Promise<SessionKeys[]>;
+  private encrypt: boolean;
+
+  constructor(options: CookieSessionStoreOptions) {
+    if (
+      options.secrets.length === 0 ||
+      options.secrets.some((secret) => secret.length < MIN_SECRET_LENGTH)
+    ) {
+      throw new ApiError(
+        500,
+        'CONFIGURATION_ERROR',
+        `Session secrets must be at least ${MIN_SECRET_LENGTH} characters`
+      );
+    }
+
+    this.keys = Promise.all(options.secrets.map(deriveKeys));
+    this.encrypt = options.encrypt ?? false;
+  }
+
+  async load(cookieValue: string): Promise<StoredSession | null> {
+    try {
+      const json = cookieValue.startsWith('e.')
+        ? await this.decryptPayload(cookieValue)
+        : await this.verifyPayload(cookieValue);
+
+      if (!json) {
+        return null;
+      }
+
+      const payload = JSON.parse(json) as CookiePayload;
+      return { sessionId: payload.sid, data: payload.data };
+    } catch {
+      // Malformed base64 or JSON: treat like any other bad cookie
+      return null;
+    }
+  }
+
+  // Nothing to persist: the cookie is the storage
+  async save(): Promise<void> {}
+
+  // Cannot revoke a cookie the client already holds
+  async delete(): Promise<void> {}
+
+  async toCookieValue(sessionId: string, data: SessionData): Promise<string> {
+    const payload: CookiePayload = { sid: sessionId, data };
+    const bytes = new TextEncoder().encode(JSON.stringify(payload));
+    const [current] = await this.keys;
+
+    if (this.encrypt) {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        current.aes,
+        bytes
+      );
+      // AES-GCM authenticates the ciphertext, so no separate HMAC is needed
+      return `e.${toBase64Url(iv)}.${toBase64Url(new Uint8Array(ciphertext))}`;
+    }
+
+    const body = `s.${toBase64Url(bytes)}`;
+    const signature = await crypto.subtle.sign(
+      'HMAC',
+      current.hmac,
+      new TextEncoder().encode(body)
+    );
+
+    return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+  }
+
+  // Returns the payload JSON if any secret's HMAC matches
+  private async verifyPayload(cookieValue: string): Promise<string | null> {
+    const [prefix, payload, signature] = cookieValue.split('.');
+    if (prefix !== 's' || !payload || !signature) {
+      return null;
+    }
+
+    const body = new TextEncoder().encode(`s.${payload}`);
+    const signatureBytes = fromBase64Url(signature);
+
+    for (const keys of await this.keys) {
+      // crypto.subtle.verify compares in constant time
+      if (await crypto.subtle.verify('HMAC', keys.hmac, signatureBytes, body)) {
+        return new TextDecoder().decode(fromBase64Url(payload));
+      }
+    }
+
+    return null;
+  }
+
+  // Returns the payload JSON if any secret decrypts it
+  private async decryptPayload(cookieValue: string): Promise<string | null> {
+    const [, iv, ciphertext] = cookieValue.split('.');
+    if (!iv || !ciphertext) {
+      return null;
+    }
+
+    for (const keys of await this.keys) {
+      try {
+        const plaintext = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: fromBase64Url(iv) },
+          keys.aes,
+          fromBase64Url(ciphertext)
+        );
+        return new TextDecoder().decode(plaintext);
+      } catch {
+        // Wrong key or tampered ciphertext; try the next secret
+      }
+    }
+
+    return null;
+  }
+}
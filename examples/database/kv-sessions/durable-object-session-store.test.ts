@@ -0,0 +1,164 @@
+import { env, runDurableObjectAlarm, runInDurableObject } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DurableObjectSessionStore } from './durable-object-session-store';
+import { rowToUser, type Session, type User } from './types';
+import { SessionManager } from './worker-middleware';
+import { createUser } from '../../../test/helpers';
+
+const HOUR = 60 * 60 * 1000;
+
+// Idle timeout of 1 hour, absolute lifetime of 1 day, touched after a minute
+function createManager(maxSessionsPerUser?: number): SessionManager {
+  return new SessionManager(
+    new DurableObjectSessionStore(env.SESSION_OBJECTS, { maxSessionsPerUser }),
+    { sessionTTL: 60 * 60, maxSessionAge: 24 * 60 * 60, touchInterval: 60 }
+  );
+}
+
+async function cookieValue(manager: SessionManager, session: Session): Promise<string> {
+  const cookie = await manager.createSessionCookie(session);
+  return decodeURIComponent(cookie.split(';')[0].split('=')[1]);
+}
+
+function userObject(userId: string) {
+  return env.SESSION_OBJECTS.get(env.SESSION_OBJECTS.idFromName(userId));
+}
+
+describe('DurableObjectSessionStore', () => {
+  let user: User;
+
+  beforeEach(async () => {
+    // Only Date: alarms still run on real time, so the clock starts at the
+    // real time to keep them from firing mid-test
+    vi.useFakeTimers({ toFake: ['Date'] });
+    user = rowToUser(await createUser());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('creates a session that loads from its cookie', async () => {
+    const manager = createManager();
+    const session = await manager.createSession(user, { userAgent: 'test' });
+    const token = await cookieValue(manager, session);
+
+    expect(token).toBe(`${user.id}.${session.sessionId}`);
+
+    const loaded = await manager.getSession(token);
+    expect(loaded?.user.id).toBe(user.id);
+    expect(loaded?.userAgent).toBe('test');
+  });
+
+  it('slides the idle expiry forward when the session is used', async () => {
+    const manager = createManager();
+    const session = await manager.createSession(user);
+    const token = await cookieValue(manager, session);
+
+    vi.setSystemTime(Date.now() + 45 * 60 * 1000);
+    const touched = await manager.getSession(token);
+    expect(touched?.expiresAt.getTime()).toBe(Date.now() + HOUR);
+
+    // Past the first idle expiry, but within the extended one
+    vi.setSystemTime(Date.now() + 45 * 60 * 1000);
+    expect(await manager.getSession(token)).not.toBeNull();
+  });
+
+  it('expires an idle session', async () => {
+    const manager = createManager();
+    const token = await cookieValue(manager, await manager.createSession(user));
+
+    vi.setSystemTime(Date.now() + HOUR + 1000);
+    expect(await manager.getSession(token)).toBeNull();
+  });
+
+  it('expires an active session at its absolute lifetime', async () => {
+    const manager = createManager();
+    const token = await cookieValue(manager, await manager.createSession(user));
+
+    // Used every 50 minutes, so never idle, until just short of a day
+    for (let uses = 0; uses < 28; uses += 1) {
+      vi.setSystemTime(Date.now() + 50 * 60 * 1000);
+      expect(await manager.getSession(token)).not.toBeNull();
+    }
+
+    vi.setSystemTime(Date.now() + 50 * 60 * 1000);
+    expect(await manager.getSession(token)).toBeNull();
+  });
+
+  it('deletes a session immediately', async () => {
+    const manager = createManager();
+    const session = await manager.createSession(user);
+    const token = await cookieValue(manager, session);
+
+    await manager.deleteSession(session.sessionId, user.id);
+
+    expect(await manager.getSession(token)).toBeNull();
+  });
+
+  it("ignores a cookie pointing at another user's object", async () => {
+    const manager = createManager();
+    const session = await manager.createSession(user);
+    const other = rowToUser(await createUser());
+
+    expect(await manager.getSession(`${other.id}.${session.sessionId}`)).toBeNull();
+    expect(await manager.getSession(session.sessionId)).toBeNull();
+  });
+
+  it("lists and deletes a user's sessions, keeping the caller's", async () => {
+    const manager = createManager();
+    const current = await manager.createSession(user);
+    vi.setSystemTime(Date.now() + 1000);
+    const other = await manager.createSession(user);
+
+    const listed = await manager.listUserSessions(user.id);
+    expect(listed.map((session) => session.sessionId)).toEqual([
+      other.sessionId,
+      current.sessionId,
+    ]);
+
+    expect(
+      await manager.deleteUserSessions(user.id, { except: current.sessionId })
+    ).toBe(1);
+    expect(await manager.getSession(await cookieValue(manager, other))).toBeNull();
+    expect(await manager.getSession(await cookieValue(manager, current))).not.toBeNull();
+  });
+
+  it('signs out the least recently used session beyond the cap', async () => {
+    const manager = createManager(2);
+    const first = await manager.createSession(user);
+    vi.setSystemTime(Date.now() + 1000);
+    const second = await manager.createSession(user);
+    vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+
+    // Using the first makes the second the least recently used
+    await manager.getSession(await cookieValue(manager, first));
+    const third = await manager.createSession(user);
+
+    const remaining = (await manager.listUserSessions(user.id)).map(
+      (session) => session.sessionId
+    );
+    expect(remaining).toHaveLength(2);
+    expect(remaining).toEqual(expect.arrayContaining([first.sessionId, third.sessionId]));
+    expect(remaining).not.toContain(second.sessionId);
+  });
+
+  it('deletes expired sessions when the alarm runs', async () => {
+    const manager = createManager();
+    await manager.createSession(user);
+    const stub = userObject(user.id);
+
+    vi.setSystemTime(Date.now() + HOUR + 1000);
+    const later = await manager.createSession(user);
+
+    expect(await runDurableObjectAlarm(stub)).toBe(true);
+
+    const keys = await runInDurableObject(stub, async (_instance, state) =>
+      Array.from((await state.storage.list()).keys())
+    );
+    expect(keys).toEqual([`session:${later.sessionId}`]);
+    expect(
+      await runInDurableObject(stub, (_instance, state) => state.storage.getAlarm())
+    ).not.toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Durable Object Session Store
+ *
+ * Keeps each user's sessions in their own SessionDurableObject
+ * (session-durable-object.ts). Compared with KvSessionStore:
+ * - Logout and "sign out other devices" take effect immediately everywhere.
+ * - Sessions per user can be capped; the least recently used are signed out.
+ * - Each authenticated request is a call to the user's object, which runs
+ *   in one location, so latency depends on distance from it.
+ *
+ * The cookie holds `<userId>.<sessionId>` so the store knows which object
+ * to ask. The user ID is not secret: pointing the cookie at another user
+ * only reaches an object that has no session with that ID.
+ */
+
+import type { SessionDurableObject } from './session-durable-object';
+import type { SessionIndex, SessionStore, StoredSession } from './session-store';
+import type { SessionData } from './types';
+
+export interface DurableObjectSessionStoreOptions {
+  // Maximum concurrent sessions per user; unlimited when omitted
+  maxSessionsPerUser?: number;
+}
+
+export class DurableObjectSessionStore implements SessionStore {
+  private namespace: DurableObjectNamespace<SessionDurableObject>;
+  private maxSessionsPerUser?: number;
+
+  readonly index: SessionIndex;
+
+  constructor(
+    namespace: DurableObjectNamespace<SessionDurableObject>,
+    options: DurableObjectSessionStoreOptions = {}
+  ) {
+    this.namespace = namespace;
+    this.maxSessionsPerUser = options.maxSessionsPerUser;
+
+    this.index = {
+      list: (userId) => this.getStub(userId).listSessions(),
+      // save() already records the session in the user's object
+      add: async () => {},
+      remove: (userId, sessionIds) =>
+        this.getStub(userId).deleteSessions(sessionIds),
+    };
+  }
+
+  async load(cookieValue: string): Promise<StoredSession | null> {
+    const separator = cookieValue.lastIndexOf('.');
+    if (separator <= 0) {
+      return null;
+    }
+
+    const userId = cookieValue.slice(0, separator);
+    const sessionId = cookieValue.slice(separator + 1);
+    const data = await this.getStub(userId).getSession(sessionId);
+
+    // Guard against a record filed under the wrong user
+    return data && data.userId === userId ? { sessionId, data } : null;
+  }
+
+  async save(sessionId: string, data: SessionData, ttl: number): Promise<void> {
+    await this.getStub(data.userId).putSession(sessionId, data, {
+      ttl,
+      maxSessions: this.maxSessionsPerUser,
+    });
+  }
+
+  async delete(sessionId: string, userId: string): Promise<void> {
+    await this.getStub(userId).deleteSessions([sessionId]);
+  }
+
+  async toCookieValue(sessionId: string, data: SessionData): Promise<string> {
+    return `${data.userId}.${sessionId}`;
+  }
+
+  private getStub(userId: string): DurableObjectStub<SessionDurableObject> {
+    return this.namespace.get(this.namespace.idFromName(userId));
+  }
+}
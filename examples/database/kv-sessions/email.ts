@@ -0,0 +1,82 @@
+/**
+ * Email Transport
+ *
+ * Outgoing email (magic links) goes through the EmailTransport interface,
+ * so the provider can be swapped without touching the endpoints.
+ *
+ * Built-in transports, chosen with the EMAIL_TRANSPORT variable:
+ * - `console`: logs each message; the link shows up in the `wrangler dev`
+ *   output. Set it in .dev.vars, not in wrangler.jsonc: it writes working
+ *   login links to your logs.
+ * - `memory`: keeps messages in memoryEmailTransport for tests
+ *
+ * There is no default: with EMAIL_TRANSPORT unset, sending fails with
+ * CONFIGURATION_ERROR rather than logging links in production. Neither
+ * transport delivers mail. Before deploying, add a transport for your
+ * provider (Cloudflare Email Routing's send_email binding, Resend,
+ * Postmark, SES, ...) and return it from getEmailTransport.
+ */
+
+import { ApiError } from '../../../worker/errors';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export class ConsoleEmailTransport implements EmailTransport {
+  async send(message: EmailMessage): Promise<void> {
+    console.log(
+      `[email] To: ${message.to}\n[email] Subject: ${message.subject}\n\n${message.text}`
+    );
+  }
+}
+
+export class MemoryEmailTransport implements EmailTransport {
+  readonly messages: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<void> {
+    this.messages.push(message);
+  }
+
+  /**
+   * Most recent message sent to an address
+   */
+  lastTo(to: string): EmailMessage | undefined {
+    return [...this.messages].reverse().find((message) => message.to === to);
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
+
+// Shared instance so tests can read what the handlers sent
+export const memoryEmailTransport = new MemoryEmailTransport();
+
+/**
+ * Transport for the current environment
+ */
+export function getEmailTransport(env: Env): EmailTransport {
+  switch (env.EMAIL_TRANSPORT) {
+    case 'console':
+      return new ConsoleEmailTransport();
+    case 'memory':
+      return memoryEmailTransport;
+    case undefined:
+    case '':
+      throw new ApiError(500, 'CONFIGURATION_ERROR', 'EMAIL_TRANSPORT is not set');
+    default:
+      throw new ApiError(
+        500,
+        'CONFIGURATION_ERROR',
+        `Unknown EMAIL_TRANSPORT: ${env.EMAIL_TRANSPORT}`
+      );
+  }
+}
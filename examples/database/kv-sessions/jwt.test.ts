@@ -0,0 +1,40 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { toBase64Url } from './base64url';
+import { JwtKeys } from './jwt';
+import { UnauthorizedError } from '../../../worker/errors';
+
+const keys = JwtKeys.fromEnv({ ...env, JWT_SECRETS: 'a'.repeat(32) })!;
+
+async function signedToken(): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  return keys.sign({ sub: 'user', iat: now, exp: now + 60 }, 'at+jwt');
+}
+
+function encode(value: unknown): string {
+  return toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+async function verifyError(token: string): Promise<unknown> {
+  return keys.verify(token, 'at+jwt').catch((error: unknown) => error);
+}
+
+describe('JwtKeys.verify', () => {
+  it('accepts a token it signed', async () => {
+    await expect(keys.verify(await signedToken(), 'at+jwt')).resolves.toMatchObject({
+      sub: 'user',
+    });
+  });
+
+  it.each([
+    ['a header of null', (parts: string[]) => [encode(null), parts[1], parts[2]]],
+    ['claims of null', (parts: string[]) => [parts[0], encode(null), parts[2]]],
+    ['a signature that is not base64', (parts: string[]) => [parts[0], parts[1], 'a']],
+  ])('rejects %s as an invalid token', async (_name, tamper) => {
+    const parts = (await signedToken()).split('.');
+    const error = await verifyError(tamper(parts).join('.'));
+
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    expect((error as UnauthorizedError).code).toBe('INVALID_TOKEN');
+  });
+});
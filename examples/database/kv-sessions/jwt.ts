@@ -0,0 +1,269 @@
+/**
+ * JWT Signing Keys
+ *
+ * Signs and verifies the access tokens issued in token mode (see
+ * tokens.ts). Two kinds of keys, set with secrets:
+ *
+ * - JWT_PRIVATE_KEYS: JSON array of EC P-256 private JWKs, each with a
+ *   `kid`, for ES256. Their public halves are published at
+ *   /.well-known/jwks.json so other services can verify tokens.
+ * - JWT_SECRETS: comma-separated secrets of at least 32 characters for
+ *   HS256. Only this Worker can verify those tokens; nothing is published.
+ *
+ * If both are set, ES256 is used. Either list is newest first: tokens are
+ * signed with the first key and every key is accepted, so a key can be
+ * rotated by prepending the new one and removing the old one once the
+ * last access token signed with it has expired.
+ *
+ * Generate an ES256 key, e.g. in the browser console:
+ *   const { privateKey } = await crypto.subtle.generateKey(
+ *     { name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign']);
+ *   JSON.stringify([{ ...(await crypto.subtle.exportKey('jwk', privateKey)), kid: '2026-01' }]);
+ */
+
+import { fromBase64Url, toBase64Url } from './base64url';
+import { ApiError, UnauthorizedError } from '../../../worker/errors';
+
+type JwtAlgorithm = 'ES256' | 'HS256';
+
+interface SigningKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  sign: CryptoKey;
+  verify: CryptoKey;
+  // Published in the JWKS; ES256 only
+  publicJwk?: JsonWebKey & { kid: string; alg: string; use: string };
+}
+
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+const MIN_SECRET_LENGTH = 32;
+
+// Tolerated clock difference when checking exp/iat, in seconds
+const CLOCK_SKEW = 60;
+
+const SIGN_PARAMS: Record<JwtAlgorithm, Parameters<SubtleCrypto['sign']>[0]> = {
+  ES256: { name: 'ECDSA', hash: 'SHA-256' },
+  HS256: 'HMAC',
+};
+
+function configurationError(message: string): ApiError {
+  return new ApiError(500, 'CONFIGURATION_ERROR', message);
+}
+
+async function importEs256(jwk: JsonWebKey & { kid?: string }): Promise<SigningKey> {
+  if (jwk.kty !== 'EC' || jwk.crv !== 'P-256' || !jwk.d || !jwk.kid) {
+    throw configurationError(
+      'JWT_PRIVATE_KEYS must hold EC P-256 private keys, each with a kid'
+    );
+  }
+
+  const { kid, kty, crv, x, y } = jwk;
+  const publicJwk = { kty, crv, x, y };
+  const params = { name: 'ECDSA', namedCurve: 'P-256' };
+
+  return {
+    kid,
+    alg: 'ES256',
+    sign: await crypto.subtle.importKey(
+      'jwk',
+      { kty, crv, x, y, d: jwk.d },
+      params,
+      false,
+      ['sign']
+    ),
+    verify: await crypto.subtle.importKey('jwk', publicJwk, params, false, ['verify']),
+    publicJwk: { ...publicJwk, kid, alg: 'ES256', use: 'sig' },
+  };
+}
+
+async function importHs256(secret: string): Promise<SigningKey> {
+  if (secret.length < MIN_SECRET_LENGTH) {
+    throw configurationError(
+      `JWT secrets must be at least ${MIN_SECRET_LENGTH} characters`
+    );
+  }
+
+  const bytes = new TextEncoder().encode(secret);
+  const key = await crypto.subtle.importKey(
+    'raw',
+    bytes,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+
+  // The kid identifies the secret without revealing it
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+
+  return { kid: toBase64Url(digest.slice(0, 8)), alg: 'HS256', sign: key, verify: key };
+}
+
+function parsePrivateKeys(value: string): JsonWebKey[] {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (Array.isArray(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // Reported below
+  }
+
+  throw configurationError('JWT_PRIVATE_KEYS must be a JSON array of JWKs');
+}
+
+// Per-isolate cache keyed by the secret's value, so rotation takes effect
+const keyCache = new Map<string, Promise<SigningKey[]>>();
+
+export class JwtKeys {
+  private keys: Promise<SigningKey[]>;
+
+  private constructor(keys: Promise<SigningKey[]>) {
+    this.keys = keys;
+  }
+
+  /**
+   * Keys from JWT_PRIVATE_KEYS or JWT_SECRETS, or null if neither is set
+   */
+  static fromEnv(env: Env): JwtKeys | null {
+    const privateKeys = env.JWT_PRIVATE_KEYS?.trim();
+    const secrets = (env.JWT_SECRETS ?? '')
+      .split(',')
+      .map((secret: string) => secret.trim())
+      .filter(Boolean);
+
+    if (!privateKeys && secrets.length === 0) {
+      return null;
+    }
+
+    const cacheKey = privateKeys ? `ES256:${privateKeys}` : `HS256:${secrets.join(',')}`;
+
+    let keys = keyCache.get(cacheKey);
+    if (!keys) {
+      keys = privateKeys
+        ? Promise.all(parsePrivateKeys(privateKeys).map(importEs256))
+        : Promise.all(secrets.map(importHs256));
+      // Don't cache a misconfiguration; report it on every request
+      keys.catch(() => keyCache.delete(cacheKey));
+      keyCache.set(cacheKey, keys);
+    }
+
+    return new JwtKeys(keys);
+  }
+
+  /**
+   * Sign claims with the newest key
+   */
+  async sign(claims: object, typ: string): Promise<string> {
+    const [key] = await this.keys;
+    if (!key) {
+      throw configurationError('No JWT signing keys configured');
+    }
+
+    const encoder = new TextEncoder();
+    const header: JwtHeader = { alg: key.alg, typ, kid: key.kid };
+    const signingInput = `${toBase64Url(encoder.encode(JSON.stringify(header)))}.${toBase64Url(
+      encoder.encode(JSON.stringify(claims))
+    )}`;
+
+    const signature = await crypto.subtle.sign(
+      SIGN_PARAMS[key.alg],
+      key.sign,
+      encoder.encode(signingInput)
+    );
+
+    return `${signingInput}.${toBase64Url(new Uint8Array(signature))}`;
+  }
+
+  /**
+   * Verify a token's signature, type and lifetime. Returns its claims.
+   * Throws UnauthorizedError: TOKEN_EXPIRED for expired tokens, so
+   * clients know to refresh, and INVALID_TOKEN for anything else.
+   */
+  async verify<T extends { exp: number; iat: number }>(
+    token: string,
+    typ: string
+  ): Promise<T> {
+    const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+    if (!encodedHeader || !encodedPayload || !encodedSignature) {
+      throw invalidToken();
+    }
+
+    let header: JwtHeader;
+    let claims: T;
+    let signature: Uint8Array<ArrayBuffer>;
+    try {
+      const decoder = new TextDecoder();
+      header = JSON.parse(decoder.decode(fromBase64Url(encodedHeader)));
+      claims = JSON.parse(decoder.decode(fromBase64Url(encodedPayload)));
+      signature = fromBase64Url(encodedSignature);
+    } catch {
+      throw invalidToken();
+    }
+    // Valid JSON, but not a header or claims: null, a number, an array
+    if (!isJsonObject(header) || !isJsonObject(claims)) {
+      throw invalidToken();
+    }
+
+    // The key decides the algorithm; a token can't pick a weaker one
+    const key = (await this.keys).find(
+      (candidate) => candidate.kid === header.kid && candidate.alg === header.alg
+    );
+    if (!key || header.typ !== typ) {
+      throw invalidToken();
+    }
+
+    const valid = await crypto.subtle.verify(
+      SIGN_PARAMS[key.alg],
+      key.verify,
+      signature,
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+    );
+    if (!valid) {
+      throw invalidToken();
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof claims.iat !== 'number' || claims.iat - CLOCK_SKEW > now) {
+      throw invalidToken();
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW < now) {
+      throw new UnauthorizedError('Access token expired', 'TOKEN_EXPIRED');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Public keys for /.well-known/jwks.json (empty with HS256)
+   */
+  async publicJwks(): Promise<{ keys: JsonWebKey[] }> {
+    return {
+      keys: (await this.keys).flatMap((key) => (key.publicJwk ? [key.publicJwk] : [])),
+    };
+  }
+}
+
+function invalidToken(): UnauthorizedError {
+  return new UnauthorizedError('Invalid access token', 'INVALID_TOKEN');
+}
+
+function isJsonObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The token from an `Authorization: Bearer <jwt>` header, or null.
+ * Only tokens shaped like a JWT count, so API keys pass through.
+ */
+export function getBearerJwt(request: Request): string | null {
+  const match = /^Bearer\s+([\w-]+\.[\w-]+\.[\w-]+)$/i.exec(
+    request.headers.get('Authorization') ?? ''
+  );
+
+  return match ? match[1] : null;
+}
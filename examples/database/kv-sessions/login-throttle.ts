@@ -0,0 +1,247 @@
+/**
+ * Login Throttling
+ *
+ * Counts failed password logins per account (email) and per client IP
+ * (CF-Connecting-IP) in KV. Once either passes its threshold it is locked
+ * out, first for `baseLockout` seconds and twice as long after each
+ * further failure, up to `maxLockout`. Locked attempts get 429 with a
+ * Retry-After header and are rejected before the password is checked.
+ *
+ * The per-account limit stops guessing one user's password; the per-IP
+ * limit, set higher, slows credential stuffing across many accounts.
+ * Unknown emails are counted like real ones, so lockouts don't reveal
+ * which addresses are registered.
+ *
+ * Counters are forgotten `failureWindow` seconds after the last failure
+ * (or the end of the lockout), and a successful login clears its
+ * account's counter. Thresholds live in SessionConfig.loginThrottle.
+ *
+ * KV is eventually consistent and has no atomic increment, so a burst of
+ * parallel attempts can slip a few failures past the count. For exact
+ * limits keep the counters in a Durable Object instead.
+ *
+ * Second-factor codes (TOTP and recovery codes) are counted per user in
+ * D1 instead (beginSecondFactor), because a 6-digit code needs an exact
+ * limit. Each attempt is counted before its code is checked, so parallel
+ * guesses can't share a count, and only a correct code clears it: a
+ * correct password leaves it alone, so logging in again doesn't earn
+ * more guesses. After `maxMfaFailures` the user's second factor is
+ * locked out like an account.
+ */
+
+import { recordAuditEvent } from './audit';
+import type { LoginThrottleConfig, MfaFailures, UserRow } from './types';
+import type { UserStore } from './user-store';
+import { RateLimitedError } from '../../../worker/errors';
+
+interface ThrottleRecord {
+  failures: number;
+  // Epoch milliseconds; 0 when not locked
+  lockedUntil: number;
+}
+
+export interface LoginAttempt {
+  email: string;
+  // Missing outside Cloudflare's network (e.g. some local setups)
+  ip: string | null;
+  requestId: string;
+}
+
+type ThrottleScope = 'account' | 'ip' | 'mfa';
+
+const KEY_PREFIX = 'login_throttle:';
+
+// KV rejects expirationTtl values below 60 seconds
+const MIN_KV_TTL = 60;
+
+/**
+ * Client IP as reported by Cloudflare
+ */
+export function getClientIp(request: Request): string | null {
+  return request.headers.get('CF-Connecting-IP');
+}
+
+export class LoginThrottle {
+  private kv: KVNamespace;
+  private config: LoginThrottleConfig;
+
+  constructor(kv: KVNamespace, config: LoginThrottleConfig) {
+    this.kv = kv;
+    this.config = config;
+  }
+
+  /**
+   * Throw RateLimitedError if the account or IP is locked out
+   */
+  async check(attempt: LoginAttempt): Promise<void> {
+    const now = Date.now();
+    let lockedUntil = 0;
+
+    for (const [, key] of this.keys(attempt)) {
+      const record = await this.kv.get<ThrottleRecord>(key, 'json');
+      lockedUntil = Math.max(lockedUntil, record?.lockedUntil ?? 0);
+    }
+
+    if (lockedUntil > now) {
+      const retryAfter = Math.ceil((lockedUntil - now) / 1000);
+
+      recordAuditEvent({
+        type: 'login.throttled',
+        requestId: attempt.requestId,
+        ip: attempt.ip ?? undefined,
+        email: attempt.email,
+        details: { retryAfter },
+      });
+
+      throw new RateLimitedError(
+        'Too many failed login attempts. Please try again later.',
+        retryAfter
+      );
+    }
+  }
+
+  /**
+   * Count a failed attempt against the account and the IP, locking either
+   * one out once it passes its threshold
+   */
+  async recordFailure(attempt: LoginAttempt): Promise<void> {
+    recordAuditEvent({
+      type: 'login.failed',
+      requestId: attempt.requestId,
+      ip: attempt.ip ?? undefined,
+      email: attempt.email,
+    });
+
+    for (const [scope, key] of this.keys(attempt)) {
+      const record = await this.kv.get<ThrottleRecord>(key, 'json');
+      const failures = (record?.failures ?? 0) + 1;
+      const lockout = this.lockoutFor(scope, failures);
+      const lockedUntil = lockout > 0 ? Date.now() + lockout * 1000 : 0;
+
+      await this.kv.put(key, JSON.stringify({ failures, lockedUntil }), {
+        expirationTtl: Math.max(lockout + this.config.failureWindow, MIN_KV_TTL),
+      });
+
+      if (lockout > 0) {
+        recordAuditEvent({
+          type: 'login.locked',
+          requestId: attempt.requestId,
+          ip: attempt.ip ?? undefined,
+          email: attempt.email,
+          details: { scope, failures, lockout },
+        });
+      }
+    }
+  }
+
+  /**
+   * Clear the account's failures after a correct password. The IP's
+   * failures stay, so one valid credential can't reset a stuffing run.
+   */
+  async recordSuccess(attempt: LoginAttempt): Promise<void> {
+    await this.kv.delete(this.accountKey(attempt.email));
+  }
+
+  /**
+   * Count a second-factor attempt for `user` before its code is checked.
+   * Throws RateLimitedError while the user's second factor is locked, or
+   * if another attempt for the user is being counted at the same moment.
+   * Call recordSecondFactorSuccess once the code is accepted.
+   */
+  async beginSecondFactor(
+    users: UserStore,
+    user: UserRow,
+    requestId: string
+  ): Promise<void> {
+    const now = Date.now();
+    const current: MfaFailures = {
+      failures: user.mfa_failures,
+      lockedUntil: user.mfa_locked_until,
+      expiresAt: user.mfa_failures_expire_at,
+    };
+
+    if (current.lockedUntil > now) {
+      const retryAfter = Math.ceil((current.lockedUntil - now) / 1000);
+
+      recordAuditEvent({
+        type: 'login.throttled',
+        requestId,
+        email: user.email,
+        details: { scope: 'mfa', retryAfter },
+      });
+
+      throw new RateLimitedError(
+        'Too many wrong authentication codes. Please try again later.',
+        retryAfter
+      );
+    }
+
+    const failures = current.expiresAt > now ? current.failures + 1 : 1;
+    const lockout = this.lockoutFor('mfa', failures);
+    const lockedUntil = lockout > 0 ? now + lockout * 1000 : 0;
+    const next: MfaFailures = {
+      failures,
+      lockedUntil,
+      expiresAt: Math.max(lockedUntil, now) + this.config.failureWindow * 1000,
+    };
+
+    // Compare-and-swap: of several parallel attempts, only one is counted
+    // from this state and the others are turned away unchecked
+    if (!(await users.updateMfaFailures(user.id, current, next))) {
+      throw new RateLimitedError(
+        'Another authentication attempt is in progress. Please try again.',
+        1
+      );
+    }
+
+    if (lockout > 0) {
+      recordAuditEvent({
+        type: 'login.locked',
+        requestId,
+        email: user.email,
+        details: { scope: 'mfa', failures, lockout },
+      });
+    }
+  }
+
+  /**
+   * Clear the user's second-factor attempts after a correct code
+   */
+  async recordSecondFactorSuccess(users: UserStore, userId: string): Promise<void> {
+    await users.resetMfaFailures(userId);
+  }
+
+  // Lockout in seconds after `failures` failures; 0 below the threshold
+  private lockoutFor(scope: ThrottleScope, failures: number): number {
+    const threshold = {
+      account: this.config.maxAccountFailures,
+      ip: this.config.maxIpFailures,
+      mfa: this.config.maxMfaFailures,
+    }[scope];
+
+    if (failures < threshold) {
+      return 0;
+    }
+
+    return Math.min(
+      this.config.baseLockout * 2 ** (failures - threshold),
+      this.config.maxLockout
+    );
+  }
+
+  private accountKey(email: string): string {
+    return `${KEY_PREFIX}account:${email.toLowerCase()}`;
+  }
+
+  private keys(attempt: LoginAttempt): Array<[ThrottleScope, string]> {
+    const keys: Array<[ThrottleScope, string]> = [
+      ['account', this.accountKey(attempt.email)],
+    ];
+
+    if (attempt.ip) {
+      keys.push(['ip', `${KEY_PREFIX}ip:${attempt.ip}`]);
+    }
+
+    return keys;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Magic Link Tokens
+ *
+ * Single-use login tokens for passwordless email login. Only a SHA-256
+ * hash of each token is stored in KV, so reading the namespace doesn't
+ * yield working links. Tokens expire after 15 minutes and are deleted
+ * when used.
+ *
+ * KV has no atomic get-and-delete: two clicks on the same link within a
+ * moment of each other can both succeed. Both sessions belong to the
+ * link's owner, so this only matters if you need strict single use; keep
+ * tokens in a Durable Object for that.
+ */
+
+import { toBase64Url } from './base64url';
+
+export interface MagicLinkRecord {
+  // Lowercased address the link was sent to
+  email: string;
+  createdAt: string;
+}
+
+const KEY_PREFIX = 'magic_link:';
+
+// 15 minutes; KV's minimum expirationTtl is 60 seconds
+export const MAGIC_LINK_TTL = 60 * 15;
+
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(token)
+  );
+  return toBase64Url(new Uint8Array(digest));
+}
+
+export class MagicLinkStore {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  /**
+   * Store a new token for `email` and return it (the only copy)
+   */
+  async create(email: string): Promise<string> {
+    const token = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+    const record: MagicLinkRecord = {
+      email: email.toLowerCase(),
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.kv.put(KEY_PREFIX + (await hashToken(token)), JSON.stringify(record), {
+      expirationTtl: MAGIC_LINK_TTL,
+    });
+
+    return token;
+  }
+
+  /**
+   * Look up and delete a token. Returns null if it is unknown, expired or
+   * already used.
+   */
+  async consume(token: string): Promise<MagicLinkRecord | null> {
+    const key = KEY_PREFIX + (await hashToken(token));
+    const record = await this.kv.get<MagicLinkRecord>(key, 'json');
+
+    if (record) {
+      await this.kv.delete(key);
+    }
+
+    return record;
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * TOTP Enrollment Endpoints
+ *
+ * Lets a logged-in user turn two-factor authentication on and off. The
+ * login side (POST /api/auth/mfa/verify) lives with the other login
+ * routes in worker-endpoints.ts.
+ *
+ * POST /api/auth/mfa/totp/setup    - new secret and otpauth:// URI
+ * POST /api/auth/mfa/totp/confirm  - first code; enables TOTP, returns recovery codes
+ * POST /api/auth/mfa/totp/disable  - TOTP or recovery code; disables TOTP
+ *
+ * The secret from /setup waits in KV for 10 minutes and is only saved to
+ * the user once a code from it checks out, so a mistyped QR scan can't
+ * lock anyone out. Enabling or disabling rotates the session.
+ *
+ * Prerequisites:
+ * 1. migrations/0004_add_totp.sql and 0011_add_mfa_failures.sql applied
+ */
+
+import { LoginThrottle } from './login-throttle';
+import { verifySecondFactor } from './mfa';
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from './totp';
+import { MfaCodeSchema } from './types';
+import type {
+  Session,
+  SessionResponse,
+  TotpEnabledResponse,
+  TotpSetupResponse,
+  UserRow,
+} from './types';
+import { UserStore } from './user-store';
+import { getSessionManager, requireAuth } from './worker-middleware';
+import type { SessionManager } from './worker-middleware';
+import { ApiError, ConflictError, NotFoundError } from '../../../worker/errors';
+import type { RouteContext } from '../../../worker/router';
+import { parseJsonBody } from '../../../worker/validation';
+
+const SETUP_PREFIX = 'totp_setup:';
+const SETUP_TTL = 60 * 10; // 10 minutes
+
+function invalidCode(): ApiError {
+  return new ApiError(400, 'INVALID_MFA_CODE', 'Invalid authentication code');
+}
+
+async function findUser(users: UserStore, userId: string): Promise<UserRow> {
+  const user = await users.findById(userId);
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  return user;
+}
+
+// New session ID with the updated flag, as for any change in privileges
+async function rotateWithMfa(
+  sessionManager: SessionManager,
+  session: Session,
+  mfaEnabled: boolean
+): Promise<{ session: Session; cookie: string }> {
+  const rotated = await sessionManager.rotateSession({
+    ...session,
+    user: { ...session.user, mfaEnabled },
+  });
+
+  return {
+    session: rotated,
+    cookie: await sessionManager.createSessionCookie(rotated),
+  };
+}
+
+/**
+ * POST /api/auth/mfa/totp/setup - Start enrollment
+ * Returns the secret for manual entry and an otpauth:// URI for a QR code.
+ */
+export async function setupTotp(
+  request: Request,
+  env: Env,
+  { url }: RouteContext
+): Promise<Response> {
+  const session = await requireAuth(request, getSessionManager(env));
+  const user = await findUser(new UserStore(env.DB), session.user.id);
+
+  if (user.totp_secret) {
+    throw new ConflictError(
+      'Two-factor authentication is already enabled',
+      'MFA_ALREADY_ENABLED'
+    );
+  }
+
+  const secret = generateTotpSecret();
+  await env.SESSIONS.put(SETUP_PREFIX + user.id, secret, {
+    expirationTtl: SETUP_TTL,
+  });
+
+  const response: TotpSetupResponse = {
+    success: true,
+    data: {
+      secret,
+      otpauthUri: buildOtpauthUri({
+        secret,
+        accountName: user.email,
+        issuer: url.hostname,
+      }),
+    },
+  };
+
+  return Response.json(response);
+}
+
+/**
+ * POST /api/auth/mfa/totp/confirm - Enable TOTP with the first code
+ * Returns the recovery codes; they are not shown again.
+ */
+export async function confirmTotp(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const sessionManager = getSessionManager(env);
+  const session = await requireAuth(request, sessionManager);
+  const { code } = await parseJsonBody(request, MfaCodeSchema);
+
+  const setupKey = SETUP_PREFIX + session.user.id;
+  const secret = await env.SESSIONS.get(setupKey);
+
+  if (!secret) {
+    throw new ApiError(
+      400,
+      'MFA_SETUP_EXPIRED',
+      'Two-factor setup expired. Please start again.'
+    );
+  }
+
+  const step = await verifyTotp(secret, code);
+  if (step === null) {
+    throw invalidCode();
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await new UserStore(env.DB).enableTotp(session.user.id, {
+    secret,
+    step,
+    recoveryCodeHashes: await Promise.all(recoveryCodes.map(hashRecoveryCode)),
+  });
+  await env.SESSIONS.delete(setupKey);
+
+  const rotated = await rotateWithMfa(sessionManager, session, true);
+
+  const response: TotpEnabledResponse = {
+    success: true,
+    data: rotated.session,
+    recoveryCodes,
+  };
+
+  return Response.json(response, {
+    headers: { 'Set-Cookie': rotated.cookie },
+  });
+}
+
+/**
+ * POST /api/auth/mfa/totp/disable - Turn TOTP off
+ * Requires a current TOTP code or a recovery code. Wrong codes count
+ * towards the same limit as at login.
+ */
+export async function disableTotp(
+  request: Request,
+  env: Env,
+  { requestId }: RouteContext
+): Promise<Response> {
+  const sessionManager = getSessionManager(env);
+  const session = await requireAuth(request, sessionManager);
+  const { code } = await parseJsonBody(request, MfaCodeSchema);
+
+  const users = new UserStore(env.DB);
+  const user = await findUser(users, session.user.id);
+
+  if (!user.totp_secret) {
+    throw new ConflictError(
+      'Two-factor authentication is not enabled',
+      'MFA_NOT_ENABLED'
+    );
+  }
+
+  const throttle = new LoginThrottle(
+    env.SESSIONS,
+    sessionManager.loginThrottleConfig
+  );
+
+  if (!(await verifySecondFactor(users, user, code, throttle, requestId))) {
+    throw invalidCode();
+  }
+
+  await users.disableTotp(user.id);
+
+  const rotated = await rotateWithMfa(sessionManager, session, false);
+
+  const response: SessionResponse = {
+    success: true,
+    data: rotated.session,
+  };
+
+  return Response.json(response, {
+    headers: { 'Set-Cookie': rotated.cookie },
+  });
+}
@@ -0,0 +1,159 @@
+/**
+ * Two-Step Login
+ *
+ * When a user with TOTP enabled passes the first step (password, magic
+ * link or OAuth), no session is created yet. Instead a short-lived MFA
+ * challenge is stored in KV and its ID set in an HttpOnly cookie scoped
+ * to /api/auth/mfa. POST /api/auth/mfa/verify then takes a TOTP or
+ * recovery code and, if it is valid, starts the session.
+ *
+ * A challenge allows 5 wrong codes and lasts 5 minutes, after which the
+ * user has to start again from the first step. Every code is also counted
+ * against the user across challenges, so starting again doesn't reset
+ * the limit (see LoginThrottle.beginSecondFactor).
+ */
+
+import type { LoginThrottle } from './login-throttle';
+import { generateOAuthToken } from './oidc';
+import { hashRecoveryCode, isTotpCode, verifyTotp } from './totp';
+import { parseCookies, serializeCookie } from './types';
+import type { UserRow } from './types';
+import type { UserStore } from './user-store';
+import { UnauthorizedError } from '../../../worker/errors';
+
+interface MfaChallenge {
+  userId: string;
+  failedAttempts: number;
+  // Epoch milliseconds, so failed attempts don't extend the challenge
+  expiresAt: number;
+}
+
+const CHALLENGE_COOKIE = 'mfa_challenge';
+const CHALLENGE_PREFIX = 'mfa_challenge:';
+const CHALLENGE_TTL = 60 * 5; // 5 minutes
+const MAX_FAILED_ATTEMPTS = 5;
+
+// Only the verify route needs the cookie
+const CHALLENGE_PATH = '/api/auth/mfa';
+
+function challengeCookie(value: string, maxAge: number): string {
+  return serializeCookie(CHALLENGE_COOKIE, value, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax', // Also set by the OAuth callback's redirect
+    path: CHALLENGE_PATH,
+    maxAge,
+  });
+}
+
+/**
+ * Start the second step for a user. Returns the challenge cookie.
+ */
+export async function createMfaChallenge(
+  kv: KVNamespace,
+  userId: string
+): Promise<string> {
+  const id = generateOAuthToken();
+  const challenge: MfaChallenge = {
+    userId,
+    failedAttempts: 0,
+    expiresAt: Date.now() + CHALLENGE_TTL * 1000,
+  };
+
+  await kv.put(CHALLENGE_PREFIX + id, JSON.stringify(challenge), {
+    expirationTtl: CHALLENGE_TTL,
+  });
+
+  return challengeCookie(id, CHALLENGE_TTL);
+}
+
+/**
+ * Cookie that removes the challenge from the browser
+ */
+export function clearMfaChallengeCookie(): string {
+  return challengeCookie('', 0);
+}
+
+function challengeExpired(): UnauthorizedError {
+  return new UnauthorizedError(
+    'Your login attempt expired. Please log in again.',
+    'MFA_CHALLENGE_EXPIRED'
+  );
+}
+
+/**
+ * Check a code against the request's challenge. Calls `verify` with the
+ * challenged user's ID and, if it returns false, counts a failed attempt.
+ * Returns the user ID once the code is accepted; the challenge is used up.
+ */
+export async function completeMfaChallenge(
+  kv: KVNamespace,
+  request: Request,
+  verify: (userId: string) => Promise<boolean>
+): Promise<string> {
+  const id = parseCookies(request.headers.get('Cookie'))[CHALLENGE_COOKIE];
+  const key = CHALLENGE_PREFIX + id;
+  const challenge = id ? await kv.get<MfaChallenge>(key, 'json') : null;
+
+  if (!challenge || challenge.expiresAt <= Date.now()) {
+    throw challengeExpired();
+  }
+
+  if (await verify(challenge.userId)) {
+    await kv.delete(key);
+    return challenge.userId;
+  }
+
+  const failedAttempts = challenge.failedAttempts + 1;
+  if (failedAttempts >= MAX_FAILED_ATTEMPTS) {
+    await kv.delete(key);
+    throw challengeExpired();
+  }
+
+  // KV's minimum TTL is 60 seconds; expiresAt is checked above anyway
+  const remaining = Math.ceil((challenge.expiresAt - Date.now()) / 1000);
+  await kv.put(key, JSON.stringify({ ...challenge, failedAttempts }), {
+    expirationTtl: Math.max(remaining, 60),
+  });
+
+  throw new UnauthorizedError('Invalid authentication code', 'INVALID_MFA_CODE');
+}
+
+/**
+ * Check a TOTP code or recovery code for a user with TOTP enabled.
+ * Either kind works only once. The attempt is counted by `throttle`,
+ * which throws RateLimitedError once the user has had too many.
+ */
+export async function verifySecondFactor(
+  users: UserStore,
+  user: UserRow,
+  code: string,
+  throttle: LoginThrottle,
+  requestId: string
+): Promise<boolean> {
+  if (!user.totp_secret) {
+    return false;
+  }
+
+  await throttle.beginSecondFactor(users, user, requestId);
+
+  const valid = isTotpCode(code)
+    ? await verifyTotpStep(users, user.id, user.totp_secret, code)
+    : await users.useRecoveryCode(user.id, await hashRecoveryCode(code));
+
+  if (valid) {
+    await throttle.recordSecondFactorSuccess(users, user.id);
+  }
+
+  return valid;
+}
+
+async function verifyTotpStep(
+  users: UserStore,
+  userId: string,
+  secret: string,
+  code: string
+): Promise<boolean> {
+  const step = await verifyTotp(secret, code);
+  return step !== null && (await users.useTotpStep(userId, step));
+}
@@ -0,0 +1,29 @@
+-- Migration: Create users table
+-- Created: 2025-11-09
+-- Description: User accounts for the KV sessions example (login and signup)
+
+-- Up Migration
+CREATE TABLE users (
+  id TEXT PRIMARY KEY,                 -- crypto.randomUUID()
+  email TEXT NOT NULL COLLATE NOCASE,  -- stored lowercased; NOCASE guards manual inserts
+  name TEXT NOT NULL,
+  password_hash TEXT NOT NULL,         -- pbkdf2-sha256$<iterations>$<salt>$<hash> (see password.ts)
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One account per email address (also serves login lookups)
+CREATE UNIQUE INDEX idx_users_email ON users(email);
+
+-- Trigger to automatically update updated_at timestamp
+CREATE TRIGGER update_users_timestamp
+AFTER UPDATE ON users
+FOR EACH ROW
+BEGIN
+  UPDATE users SET updated_at = CURRENT_TIMESTAMP WHERE id = OLD.id;
+END;
+
+-- Down Migration (commented out - uncomment to rollback)
+-- DROP TRIGGER IF EXISTS update_users_timestamp;
+-- DROP INDEX IF EXISTS idx_users_email;
+-- DROP TABLE IF EXISTS users;
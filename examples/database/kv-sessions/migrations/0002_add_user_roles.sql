@@ -0,0 +1,12 @@
+-- Migration: Add roles to users
+-- Created: 2026-10-19
+-- Description: JSON array of role names (see roles.ts); new accounts are plain users
+
+-- Up Migration
+ALTER TABLE users ADD COLUMN roles TEXT NOT NULL DEFAULT '["user"]';
+
+-- Grant admin to an existing account:
+-- UPDATE users SET roles = '["user","admin"]' WHERE email = 'you@example.com';
+
+-- Down Migration (commented out - uncomment to rollback)
+-- ALTER TABLE users DROP COLUMN roles;
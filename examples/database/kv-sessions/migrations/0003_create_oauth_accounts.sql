@@ -0,0 +1,20 @@
+-- Migration: Create oauth_accounts table
+-- Created: 2026-10-19
+-- Description: Links OpenID Connect identities to users (see oauth-endpoints.ts)
+
+-- Up Migration
+CREATE TABLE oauth_accounts (
+  provider TEXT NOT NULL,              -- Provider id, e.g. 'google'
+  subject TEXT NOT NULL,               -- ID token `sub`; stable per provider, unlike email
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  email TEXT,                          -- Email the provider reported when linked
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (provider, subject)
+);
+
+-- List a user's linked accounts
+CREATE INDEX idx_oauth_accounts_user_id ON oauth_accounts(user_id);
+
+-- Down Migration (commented out - uncomment to rollback)
+-- DROP INDEX IF EXISTS idx_oauth_accounts_user_id;
+-- DROP TABLE IF EXISTS oauth_accounts;
@@ -0,0 +1,20 @@
+-- Migration: Add TOTP two-factor authentication
+-- Created: 2026-10-19
+-- Description: Per-user TOTP secret and hashed single-use recovery codes (see totp.ts)
+
+-- Up Migration
+ALTER TABLE users ADD COLUMN totp_secret TEXT;         -- Base32; NULL until enrollment is confirmed
+ALTER TABLE users ADD COLUMN totp_last_step INTEGER;   -- Last accepted 30s time step; blocks code replay
+
+CREATE TABLE mfa_recovery_codes (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,             -- SHA-256 of the normalized code
+  used_at DATETIME,                    -- Set when used; a used code never works again
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, code_hash)
+);
+
+-- Down Migration (commented out - uncomment to rollback)
+-- DROP TABLE IF EXISTS mfa_recovery_codes;
+-- ALTER TABLE users DROP COLUMN totp_last_step;
+-- ALTER TABLE users DROP COLUMN totp_secret;
@@ -0,0 +1,23 @@
+-- Migration: Create passkeys table
+-- Created: 2026-10-19
+-- Description: WebAuthn credentials registered by users (see webauthn.ts)
+
+-- Up Migration
+CREATE TABLE passkeys (
+  id TEXT PRIMARY KEY,                 -- Credential ID, base64url
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,                  -- Label shown in the passkey list
+  public_key TEXT NOT NULL,            -- JWK (JSON) converted from the COSE key
+  algorithm INTEGER NOT NULL,          -- COSE algorithm: -7 (ES256) or -257 (RS256)
+  sign_count INTEGER NOT NULL DEFAULT 0,
+  transports TEXT,                     -- JSON array reported by the browser, e.g. '["internal","hybrid"]'
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_used_at DATETIME
+);
+
+-- List a user's passkeys
+CREATE INDEX idx_passkeys_user_id ON passkeys(user_id);
+
+-- Down Migration (commented out - uncomment to rollback)
+-- DROP INDEX IF EXISTS idx_passkeys_user_id;
+-- DROP TABLE IF EXISTS passkeys;
@@ -0,0 +1,23 @@
+-- Migration: Create api_keys table
+-- Created: 2026-10-19
+-- Description: API keys for machine clients (see api-keys.ts)
+
+-- Up Migration
+CREATE TABLE api_keys (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,                  -- Label shown in the key list
+  prefix TEXT NOT NULL,                -- First characters of the key, to recognise it
+  key_hash TEXT NOT NULL UNIQUE,       -- SHA-256 of the key, base64url; the key itself is never stored
+  scopes TEXT NOT NULL DEFAULT '[]',   -- JSON array of permissions, e.g. '["contacts:read"]'
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_used_at DATETIME,
+  expires_at DATETIME NOT NULL
+);
+
+-- List a user's keys
+CREATE INDEX idx_api_keys_user_id ON api_keys(user_id);
+
+-- Down Migration (commented out - uncomment to rollback)
+-- DROP INDEX IF EXISTS idx_api_keys_user_id;
+-- DROP TABLE IF EXISTS api_keys;
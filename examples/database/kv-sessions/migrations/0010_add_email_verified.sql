@@ -0,0 +1,14 @@
+-- Migration: Add email verification
+-- Created: 2026-10-19
+-- Description: When the owner of a user's email address proved it (magic link or a provider's verified email)
+-- Numbered after the usage-metering and conversations migrations, which share the database
+
+-- Up Migration
+ALTER TABLE users ADD COLUMN email_verified_at DATETIME;   -- NULL until proven; password signups start unverified
+
+-- Accounts without a password were created by a magic link or a provider's
+-- verified email, so their address was proven at signup
+UPDATE users SET email_verified_at = created_at WHERE password_hash = '';
+
+-- Down Migration (commented out - uncomment to rollback)
+-- ALTER TABLE users DROP COLUMN email_verified_at;
@@ -0,0 +1,13 @@
+-- Migration: Add second-factor failure counts
+-- Created: 2026-10-19
+-- Description: Wrong TOTP and recovery codes per user, across login attempts (see LoginThrottle.beginSecondFactor)
+
+-- Up Migration
+ALTER TABLE users ADD COLUMN mfa_failures INTEGER NOT NULL DEFAULT 0;             -- Codes tried since the last correct one
+ALTER TABLE users ADD COLUMN mfa_locked_until INTEGER NOT NULL DEFAULT 0;         -- Epoch ms; codes are refused until then
+ALTER TABLE users ADD COLUMN mfa_failures_expire_at INTEGER NOT NULL DEFAULT 0;   -- Epoch ms; the count starts over after this
+
+-- Down Migration (commented out - uncomment to rollback)
+-- ALTER TABLE users DROP COLUMN mfa_failures_expire_at;
+-- ALTER TABLE users DROP COLUMN mfa_locked_until;
+-- ALTER TABLE users DROP COLUMN mfa_failures;
@@ -0,0 +1,350 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { toBase64Url } from './base64url';
+import { getOidcProvider, verifyIdToken, type OidcMetadata } from './oidc';
+import { UserStore } from './user-store';
+import { getSessionManager } from './worker-middleware';
+import { registerAuthRoutes } from './worker-endpoints';
+import { createTestApp, createUser, signIn } from '../../../test/helpers';
+
+// A local OIDC provider: discovery, JWKS and a token endpoint that checks
+// the PKCE verifier against the challenge its code was issued for
+const ISSUER = 'https://issuer.test';
+const CLIENT_ID = 'test-client';
+
+const metadata: OidcMetadata = {
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/authorize`,
+  token_endpoint: `${ISSUER}/token`,
+  jwks_uri: `${ISSUER}/jwks`,
+};
+
+const app = createTestApp((api) => api.group('/auth', registerAuthRoutes));
+const provider = getOidcProvider(env, 'oidc');
+const users = new UserStore(env.DB);
+
+let signingKey: CryptoKey;
+// Authorization code -> the ID token and PKCE challenge it was issued with
+const codes = new Map<string, { idToken: string; challenge: string }>();
+
+beforeAll(async () => {
+  const pair = (await crypto.subtle.generateKey(
+    {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    true,
+    ['sign', 'verify']
+  )) as CryptoKeyPair;
+  signingKey = pair.privateKey;
+  const publicJwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+
+  const issuer = fetchMock.get(ISSUER);
+  issuer
+    .intercept({ path: '/.well-known/openid-configuration' })
+    .reply(200, metadata)
+    .persist();
+  issuer
+    .intercept({ path: '/jwks' })
+    .reply(200, { keys: [{ ...publicJwk, kid: 'test-key' }] })
+    .persist();
+  issuer
+    .intercept({ path: '/token', method: 'POST' })
+    .reply<{ id_token?: string; error?: string }>(({ body }) => {
+      const form = new URLSearchParams(String(body));
+      const issued = codes.get(form.get('code') ?? '');
+
+      if (!issued || s256(form.get('code_verifier') ?? '') !== issued.challenge) {
+        return { statusCode: 400, data: { error: 'invalid_grant' } };
+      }
+
+      return { statusCode: 200, data: { id_token: issued.idToken } };
+    })
+    .persist();
+});
+
+// Mock replies are synchronous and WebCrypto isn't, so start() hashes
+// each flow's verifier ahead of time
+const verifierChallenges = new Map<string, string>();
+function s256(verifier: string): string | undefined {
+  return verifierChallenges.get(verifier);
+}
+
+async function hashVerifier(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return toBase64Url(new Uint8Array(digest));
+}
+
+async function sign(
+  claims: Record<string, unknown>,
+  header: Record<string, unknown> = { alg: 'RS256', kid: 'test-key' }
+): Promise<string> {
+  const encode = (value: object) =>
+    toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+  const input = `${encode({ typ: 'JWT', ...header })}.${encode(claims)}`;
+  const signature = await crypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    signingKey,
+    new TextEncoder().encode(input)
+  );
+
+  return `${input}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+function idTokenClaims(overrides: Record<string, unknown> = {}) {
+  const now = Math.floor(Date.now() / 1000);
+
+  return {
+    iss: ISSUER,
+    sub: 'subject-1',
+    aud: CLIENT_ID,
+    iat: now,
+    exp: now + 300,
+    nonce: 'expected-nonce',
+    email: 'ada@example.com',
+    email_verified: true,
+    name: 'Ada',
+    ...overrides,
+  };
+}
+
+describe('verifyIdToken', () => {
+  const verify = (token: string) =>
+    verifyIdToken(token, provider, metadata, { nonce: 'expected-nonce' });
+
+  async function rejection(token: string): Promise<string> {
+    const error = await verify(token).then(
+      () => null,
+      (error: Error) => error
+    );
+    return error?.message ?? 'accepted';
+  }
+
+  it('accepts a valid token', async () => {
+    const claims = await verify(await sign(idTokenClaims()));
+    expect(claims.sub).toBe('subject-1');
+  });
+
+  it('rejects a wrong nonce, issuer or audience', async () => {
+    expect(await rejection(await sign(idTokenClaims({ nonce: 'other' })))).toMatch(
+      'nonce mismatch'
+    );
+    expect(
+      await rejection(await sign(idTokenClaims({ iss: 'https://evil.test' })))
+    ).toMatch('wrong issuer');
+    expect(await rejection(await sign(idTokenClaims({ aud: 'other-client' })))).toMatch(
+      'wrong audience'
+    );
+  });
+
+  it('requires azp to be us when there are several audiences', async () => {
+    const aud = [CLIENT_ID, 'other-client'];
+
+    expect(await rejection(await sign(idTokenClaims({ aud })))).toMatch(
+      'wrong authorized party'
+    );
+    expect(
+      await rejection(await sign(idTokenClaims({ aud, azp: 'other-client' })))
+    ).toMatch('wrong authorized party');
+    expect(await rejection(await sign(idTokenClaims({ aud, azp: CLIENT_ID })))).toBe(
+      'accepted'
+    );
+  });
+
+  it('rejects expired tokens', async () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    expect(
+      await rejection(await sign(idTokenClaims({ iat: now - 600, exp: now - 120 })))
+    ).toMatch('expired');
+  });
+
+  it('rejects alg none, HS256 and bad signatures', async () => {
+    const valid = await sign(idTokenClaims());
+    const [, payload, signature] = valid.split('.');
+    const header = (alg: string) =>
+      toBase64Url(new TextEncoder().encode(JSON.stringify({ alg, kid: 'test-key' })));
+
+    expect(await rejection(`${header('none')}.${payload}.${signature}`)).toMatch(
+      'unsupported algorithm none'
+    );
+    expect(await rejection(`${header('HS256')}.${payload}.${signature}`)).toMatch(
+      'unsupported algorithm HS256'
+    );
+
+    const tampered = await sign(idTokenClaims({ sub: 'someone-else' }));
+    expect(
+      await rejection(`${tampered.split('.').slice(0, 2).join('.')}.${signature}`)
+    ).toMatch('bad signature');
+  });
+});
+
+describe('OAuth login', () => {
+  // Follow /start and return what the provider received
+  async function start(cookie?: string) {
+    const response = await app('/api/auth/oauth/oidc/start', {
+      headers: cookie ? { Cookie: cookie } : {},
+    });
+    const location = new URL(response.headers.get('Location')!);
+    const state = location.searchParams.get('state')!;
+    const challenge = location.searchParams.get('code_challenge')!;
+
+    const stored = await env.SESSIONS.get<{ codeVerifier: string }>(
+      `oauth_state:${state}`,
+      'json'
+    );
+    verifierChallenges.set(stored!.codeVerifier, await hashVerifier(stored!.codeVerifier));
+
+    return {
+      state,
+      nonce: location.searchParams.get('nonce')!,
+      challenge,
+      cookie: `oauth_state=${state}`,
+    };
+  }
+
+  // The provider logs the user in and issues a code for this flow
+  async function authorize(
+    flow: Awaited<ReturnType<typeof start>>,
+    claims: Record<string, unknown> = {}
+  ): Promise<string> {
+    const code = crypto.randomUUID();
+    codes.set(code, {
+      idToken: await sign(idTokenClaims({ nonce: flow.nonce, ...claims })),
+      challenge: flow.challenge,
+    });
+    return code;
+  }
+
+  async function callback(
+    flow: Awaited<ReturnType<typeof start>>,
+    code: string,
+    cookie = flow.cookie
+  ) {
+    const response = await app(
+      `/api/auth/oauth/oidc/callback?code=${code}&state=${flow.state}`,
+      { headers: { Cookie: cookie } }
+    );
+    const location = new URL(response.headers.get('Location')!, 'https://example.com');
+
+    return {
+      response,
+      error: location.searchParams.get('oauth_error'),
+      sessionCookie: response.headers
+        .getSetCookie()
+        .find((value) => value.startsWith('session_id=') && !value.includes('Max-Age=0')),
+    };
+  }
+
+  it('creates a verified user on first login', async () => {
+    const flow = await start();
+    const result = await callback(flow, await authorize(flow));
+
+    expect(result.error).toBeNull();
+    expect(result.sessionCookie).toBeDefined();
+
+    const user = await users.findByEmail('ada@example.com');
+    expect(user?.email_verified_at).not.toBeNull();
+    expect((await users.findByOAuthAccount('oidc', 'subject-1'))?.id).toBe(user?.id);
+  });
+
+  it('sends the S256 challenge of the verifier it keeps', async () => {
+    const flow = await start();
+    const stored = await env.SESSIONS.get<{ codeVerifier: string }>(
+      `oauth_state:${flow.state}`,
+      'json'
+    );
+
+    expect(await hashVerifier(stored!.codeVerifier)).toBe(flow.challenge);
+  });
+
+  it("rejects a code redeemed with another flow's PKCE verifier", async () => {
+    const victim = await start();
+    const code = await authorize(victim);
+    const attacker = await start();
+
+    const result = await callback(attacker, code);
+
+    expect(result.error).toBe('OAUTH_TOKEN_EXCHANGE_FAILED');
+    expect(await users.findByEmail('ada@example.com')).toBeNull();
+  });
+
+  it('rejects a callback without the state cookie', async () => {
+    const flow = await start();
+    const result = await callback(flow, await authorize(flow), '');
+
+    expect(result.error).toBe('OAUTH_INVALID_STATE');
+  });
+
+  it('rejects an ID token with the wrong nonce', async () => {
+    const flow = await start();
+    const result = await callback(flow, await authorize(flow, { nonce: 'replayed' }));
+
+    expect(result.error).toBe('OAUTH_INVALID_ID_TOKEN');
+  });
+
+  it('refuses to create an account for an unverified email', async () => {
+    const flow = await start();
+    const result = await callback(
+      flow,
+      await authorize(flow, { email_verified: false })
+    );
+
+    expect(result.error).toBe('OAUTH_EMAIL_UNVERIFIED');
+  });
+
+  it('links to an existing verified account and keeps its password', async () => {
+    const existing = await users.create({
+      email: 'ada@example.com',
+      name: 'Ada',
+      passwordHash: 'pbkdf2-sha256$1$salt$hash',
+      emailVerified: true,
+    });
+
+    const flow = await start();
+    await callback(flow, await authorize(flow));
+
+    expect((await users.findByOAuthAccount('oidc', 'subject-1'))?.id).toBe(existing.id);
+    expect((await users.findById(existing.id))?.password_hash).toBe(
+      existing.password_hash
+    );
+  });
+
+  it('takes an unverified account back from whoever signed up with the email', async () => {
+    // Someone else signed up with the address and is signed in
+    const squatter = await createUser({ email: 'ada@example.com' });
+    const squatterCookie = await signIn(squatter);
+    await users.linkOAuthAccount(squatter.id, { provider: 'oidc', subject: 'squatter' });
+
+    const flow = await start();
+    const result = await callback(flow, await authorize(flow));
+    const claimed = await users.findById(squatter.id);
+
+    expect(result.sessionCookie).toBeDefined();
+    expect(claimed?.password_hash).toBe('');
+    expect(claimed?.email_verified_at).not.toBeNull();
+    expect(await users.findByOAuthAccount('oidc', 'squatter')).toBeNull();
+    expect((await users.findByOAuthAccount('oidc', 'subject-1'))?.id).toBe(squatter.id);
+    expect(
+      await getSessionManager(env).getSession(squatterCookie.split('=')[1])
+    ).toBeNull();
+  });
+
+  it('links the identity to the signed-in user', async () => {
+    const current = await createUser({ email: 'someone@example.com' });
+    const flow = await start();
+    const result = await callback(
+      flow,
+      await authorize(flow),
+      `${flow.cookie}; ${await signIn(current)}`
+    );
+
+    expect(result.error).toBeNull();
+    expect((await users.findByOAuthAccount('oidc', 'subject-1'))?.id).toBe(current.id);
+  });
+});
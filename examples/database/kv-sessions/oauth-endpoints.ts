@@ -0,0 +1,304 @@
+/**
+ * OAuth / OpenID Connect Login Endpoints
+ *
+ * Authorization Code flow with PKCE, as an alternative to email/password.
+ * A successful callback logs the user in with a normal SessionManager
+ * session, so everything downstream (requireAuth, roles, device list)
+ * works the same.
+ *
+ * GET /api/auth/oauth/:provider/start     - redirect to the provider
+ * GET /api/auth/oauth/:provider/callback  - provider redirects back here
+ *
+ * The state, nonce and PKCE verifier are kept in KV for 10 minutes and
+ * used once. The state is also set in a cookie and must match on the
+ * callback, so a callback URL started in another browser is rejected.
+ *
+ * Account linking, in order:
+ * 1. An identity linked before logs in to its user.
+ * 2. A logged-in user starting the flow links the identity to themselves.
+ * 3. A verified email matching an existing user links to that user. If
+ *    that user's email was never verified, their password, other sign-in
+ *    methods and sessions are removed first (see claimUserEmail): whoever
+ *    signed up with the address hadn't proved it was theirs.
+ * 4. Otherwise a new user is created (verified email required).
+ *
+ * Users with TOTP enabled land on the return path with ?mfa=required and
+ * a pending MFA challenge instead of a session (see mfa.ts).
+ *
+ * Prerequisites:
+ * 1. migrations/0003_create_oauth_accounts.sql applied
+ * 2. Provider secrets set (see oidc.ts) and the callback URL,
+ *    https://<your-domain>/api/auth/oauth/<provider>/callback, registered
+ *    with the provider
+ */
+
+import {
+  buildAuthorizationUrl,
+  createPkcePair,
+  discover,
+  exchangeCode,
+  generateOAuthToken,
+  getOidcProvider,
+  verifyIdToken,
+  type IdTokenClaims,
+} from './oidc';
+import { createMfaChallenge } from './mfa';
+import { parseCookies, rowToUser, serializeCookie } from './types';
+import type { UserRow } from './types';
+import { UserStore } from './user-store';
+import {
+  beginSession,
+  claimUserEmail,
+  getSessionManager,
+  type SessionManager,
+} from './worker-middleware';
+import {
+  ApiError,
+  ForbiddenError,
+  UnauthorizedError,
+  ValidationError,
+} from '../../../worker/errors';
+import type { RouteContext } from '../../../worker/router';
+
+interface OAuthState {
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+  // Same-origin path to return to after login
+  redirectTo: string;
+}
+
+const STATE_COOKIE = 'oauth_state';
+const STATE_TTL = 60 * 10; // 10 minutes
+
+// Where failed logins land, with ?oauth_error=<code>
+const ERROR_REDIRECT = '/';
+
+// Only same-origin paths; `//host` and `/\host` would leave the site
+function safeRedirectPath(value: string | null): string {
+  if (
+    !value ||
+    !value.startsWith('/') ||
+    value.startsWith('//') ||
+    value.startsWith('/\\')
+  ) {
+    return '/';
+  }
+  return value;
+}
+
+// Same URL for /start and /callback, so the token request matches
+function callbackUrl(url: URL): string {
+  const path = url.pathname.replace(/\/start$/, '/callback');
+  return new URL(path, url.origin).toString();
+}
+
+function stateCookie(value: string, path: string, maxAge: number): string {
+  return serializeCookie(STATE_COOKIE, value, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax', // Sent on the provider's top-level redirect back
+    path,
+    maxAge,
+  });
+}
+
+function redirect(location: string, cookies: string[]): Response {
+  const headers = new Headers({ Location: location });
+  for (const cookie of cookies) {
+    headers.append('Set-Cookie', cookie);
+  }
+  return new Response(null, { status: 302, headers });
+}
+
+/**
+ * GET /api/auth/oauth/:provider/start - Redirect to the provider's login
+ * Query parameters:
+ * - redirect: Path to return to after login (default: /)
+ */
+export async function startOAuth(
+  _request: Request,
+  env: Env,
+  { params, url }: RouteContext
+): Promise<Response> {
+  const provider = getOidcProvider(env, params.provider);
+  const metadata = await discover(provider);
+
+  const state = generateOAuthToken();
+  const nonce = generateOAuthToken();
+  const pkce = await createPkcePair();
+  const redirectUri = callbackUrl(url);
+
+  const stored: OAuthState = {
+    provider: provider.id,
+    codeVerifier: pkce.verifier,
+    nonce,
+    redirectTo: safeRedirectPath(url.searchParams.get('redirect')),
+  };
+
+  await env.SESSIONS.put(`oauth_state:${state}`, JSON.stringify(stored), {
+    expirationTtl: STATE_TTL,
+  });
+
+  const location = buildAuthorizationUrl(provider, metadata, {
+    redirectUri,
+    state,
+    nonce,
+    codeChallenge: pkce.challenge,
+  });
+
+  return redirect(location, [
+    stateCookie(state, new URL(redirectUri).pathname, STATE_TTL),
+  ]);
+}
+
+/**
+ * GET /api/auth/oauth/:provider/callback - Finish login and start a session
+ * Redirects to the path given to /start, or to /?oauth_error=<code> on failure.
+ */
+export async function oauthCallback(
+  request: Request,
+  env: Env,
+  { params, url }: RouteContext
+): Promise<Response> {
+  const clearState = stateCookie('', url.pathname, 0);
+
+  try {
+    const providerError = url.searchParams.get('error');
+    if (providerError) {
+      // e.g. access_denied when the user cancels at the provider
+      throw new UnauthorizedError(
+        `Provider returned ${providerError}`,
+        'OAUTH_DENIED'
+      );
+    }
+
+    const state = url.searchParams.get('state');
+    const cookieState = parseCookies(request.headers.get('Cookie'))[STATE_COOKIE];
+
+    if (!state || state !== cookieState) {
+      throw new UnauthorizedError(
+        'Login request expired or was started in another browser',
+        'OAUTH_INVALID_STATE'
+      );
+    }
+
+    // Single use: delete before anything else can fail
+    const key = `oauth_state:${state}`;
+    const stored = await env.SESSIONS.get<OAuthState>(key, 'json');
+    await env.SESSIONS.delete(key);
+
+    if (!stored || stored.provider !== params.provider) {
+      throw new UnauthorizedError(
+        'Login request expired or was started in another browser',
+        'OAUTH_INVALID_STATE'
+      );
+    }
+
+    const code = url.searchParams.get('code');
+    if (!code) {
+      throw new ValidationError('Missing authorization code');
+    }
+
+    const provider = getOidcProvider(env, stored.provider);
+    const metadata = await discover(provider);
+    const idToken = await exchangeCode(provider, metadata, {
+      code,
+      redirectUri: callbackUrl(url),
+      codeVerifier: stored.codeVerifier,
+    });
+    const claims = await verifyIdToken(idToken, provider, metadata, {
+      nonce: stored.nonce,
+    });
+
+    const sessionManager = getSessionManager(env);
+    const current = await sessionManager.getSessionFromRequest(request);
+    const user = await resolveUser(
+      new UserStore(env.DB),
+      sessionManager,
+      provider.id,
+      claims,
+      current?.user.id
+    );
+
+    // The provider stands in for the password only; TOTP is still required
+    if (user.totp_secret) {
+      const next = new URL(stored.redirectTo, url.origin);
+      next.searchParams.set('mfa', 'required');
+
+      return redirect(next.pathname + next.search + next.hash, [
+        await createMfaChallenge(env.SESSIONS, user.id),
+        clearState,
+      ]);
+    }
+
+    const { cookies } = await beginSession(
+      request,
+      sessionManager,
+      rowToUser(user)
+    );
+
+    return redirect(stored.redirectTo, [...cookies, clearState]);
+  } catch (error) {
+    // Expected failures go back to the app; anything else is a 500
+    if (error instanceof ApiError) {
+      console.warn('OAuth login failed:', error.code, error.message);
+      return redirect(
+        `${ERROR_REDIRECT}?oauth_error=${encodeURIComponent(error.code)}`,
+        [clearState]
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Find or create the user for a verified ID token (see the linking
+ * order in the header comment)
+ */
+async function resolveUser(
+  users: UserStore,
+  sessionManager: SessionManager,
+  provider: string,
+  claims: IdTokenClaims,
+  currentUserId?: string
+): Promise<UserRow> {
+  const account = { provider, subject: claims.sub, email: claims.email };
+  const linked = await users.findByOAuthAccount(provider, claims.sub);
+
+  if (linked) {
+    return linked;
+  }
+
+  if (currentUserId) {
+    await users.linkOAuthAccount(currentUserId, account);
+    const current = await users.findById(currentUserId);
+    if (current) {
+      return current;
+    }
+  }
+
+  // Linking or creating by email is only safe if the provider vouches for it
+  if (!claims.email || claims.email_verified !== true) {
+    throw new ForbiddenError(
+      'Your provider did not confirm an email address for this account',
+      'OAUTH_EMAIL_UNVERIFIED'
+    );
+  }
+
+  const existing = await users.findByEmail(claims.email);
+  if (existing) {
+    const claimed = await claimUserEmail(users, sessionManager, existing);
+    await users.linkOAuthAccount(claimed.id, account);
+    return claimed;
+  }
+
+  const created = await users.create({
+    email: claims.email,
+    name: claims.name || claims.email.split('@')[0],
+    emailVerified: true,
+  });
+  await users.linkOAuthAccount(created.id, account);
+
+  return created;
+}
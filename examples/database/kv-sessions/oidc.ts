@@ -0,0 +1,355 @@
+/**
+ * OpenID Connect Client
+ *
+ * Provider configuration, discovery, PKCE and ID token verification for
+ * the OAuth login flow in oauth-endpoints.ts. A provider only needs an
+ * issuer URL and client credentials; its endpoints and signing keys come
+ * from the issuer's discovery document.
+ *
+ * Configure providers with secrets:
+ * - GOOGLE_CLIENT_ID / GOOGLE_CLIENT_SECRET enable `google`
+ * - OIDC_ISSUER / OIDC_CLIENT_ID / OIDC_CLIENT_SECRET enable `oidc`, any
+ *   standards-compliant provider (Auth0, Okta, Keycloak, a local mock, ...)
+ */
+
+import { fromBase64Url, toBase64Url } from './base64url';
+import { NotFoundError, UnauthorizedError } from '../../../worker/errors';
+
+export interface OidcProvider {
+  id: string;
+  issuer: string;
+  clientId: string;
+  // Optional for public clients; PKCE protects the code either way
+  clientSecret?: string;
+  scopes: string[];
+}
+
+// Fields used from /.well-known/openid-configuration
+export interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  azp?: string;
+  exp: number;
+  iat: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+}
+
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+
+// Discovery documents and JWKS change rarely; refetch hourly
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Tolerated clock difference when checking exp/iat, in seconds
+const CLOCK_SKEW = 60;
+
+interface SigningAlgorithm {
+  import: Parameters<SubtleCrypto['importKey']>[2];
+  verify: Parameters<SubtleCrypto['verify']>[0];
+}
+
+// JWS algorithms accepted for ID tokens, as WebCrypto parameters
+const SIGNING_ALGORITHMS: Record<string, SigningAlgorithm> = {
+  RS256: {
+    import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    verify: 'RSASSA-PKCS1-v1_5',
+  },
+  ES256: {
+    import: { name: 'ECDSA', namedCurve: 'P-256' },
+    verify: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+};
+
+// Per-isolate caches keyed by URL
+const metadataCache = new Map<string, { value: OidcMetadata; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: Jwk[]; fetchedAt: number }>();
+
+/**
+ * Providers enabled by the current environment
+ */
+export function getOidcProviders(env: Env): Map<string, OidcProvider> {
+  const providers = new Map<string, OidcProvider>();
+
+  if (env.GOOGLE_CLIENT_ID) {
+    providers.set('google', {
+      id: 'google',
+      issuer: 'https://accounts.google.com',
+      clientId: env.GOOGLE_CLIENT_ID,
+      clientSecret: env.GOOGLE_CLIENT_SECRET,
+      scopes: DEFAULT_SCOPES,
+    });
+  }
+
+  if (env.OIDC_ISSUER && env.OIDC_CLIENT_ID) {
+    providers.set('oidc', {
+      id: 'oidc',
+      issuer: env.OIDC_ISSUER,
+      clientId: env.OIDC_CLIENT_ID,
+      clientSecret: env.OIDC_CLIENT_SECRET,
+      scopes: DEFAULT_SCOPES,
+    });
+  }
+
+  return providers;
+}
+
+/**
+ * Look up an enabled provider. Throws NotFoundError for unknown ids.
+ */
+export function getOidcProvider(env: Env, id: string): OidcProvider {
+  const provider = getOidcProviders(env).get(id);
+
+  if (!provider) {
+    throw new NotFoundError('Unknown login provider');
+  }
+
+  return provider;
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`OIDC request to ${url} failed with ${response.status}`);
+  }
+
+  return response.json<T>();
+}
+
+/**
+ * Fetch (or reuse) the provider's discovery document
+ */
+export async function discover(provider: OidcProvider): Promise<OidcMetadata> {
+  const url = `${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`;
+  const cached = metadataCache.get(url);
+
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.value;
+  }
+
+  const metadata = await fetchJson<OidcMetadata>(url);
+
+  // Tokens are checked against metadata.issuer, so it must be the one we asked
+  if (metadata.issuer !== provider.issuer) {
+    throw new Error(
+      `OIDC issuer mismatch: expected ${provider.issuer}, got ${metadata.issuer}`
+    );
+  }
+
+  metadataCache.set(url, { value: metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+/**
+ * Random URL-safe token for `state` and `nonce`
+ */
+export function generateOAuthToken(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * PKCE verifier and its S256 challenge (RFC 7636)
+ */
+export async function createPkcePair(): Promise<{
+  verifier: string;
+  challenge: string;
+}> {
+  const verifier = generateOAuthToken();
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(verifier)
+  );
+
+  return { verifier, challenge: toBase64Url(new Uint8Array(digest)) };
+}
+
+export function buildAuthorizationUrl(
+  provider: OidcProvider,
+  metadata: OidcMetadata,
+  params: {
+    redirectUri: string;
+    state: string;
+    nonce: string;
+    codeChallenge: string;
+  }
+): string {
+  const url = new URL(metadata.authorization_endpoint);
+
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: params.redirectUri,
+    scope: provider.scopes.join(' '),
+    state: params.state,
+    nonce: params.nonce,
+    code_challenge: params.codeChallenge,
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return url.toString();
+}
+
+/**
+ * Exchange an authorization code for the provider's ID token
+ */
+export async function exchangeCode(
+  provider: OidcProvider,
+  metadata: OidcMetadata,
+  params: { code: string; redirectUri: string; codeVerifier: string }
+): Promise<string> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    client_id: provider.clientId,
+    code_verifier: params.codeVerifier,
+  });
+
+  if (provider.clientSecret) {
+    body.set('client_secret', provider.clientSecret);
+  }
+
+  const response = await fetch(metadata.token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body,
+  });
+
+  const tokens = await response
+    .json<{ id_token?: string; error?: string }>()
+    .catch(() => ({ id_token: undefined, error: undefined }));
+
+  if (!response.ok || !tokens.id_token) {
+    console.error('OIDC token exchange failed:', response.status, tokens.error);
+    throw new UnauthorizedError(
+      'Could not complete login with the provider',
+      'OAUTH_TOKEN_EXCHANGE_FAILED'
+    );
+  }
+
+  return tokens.id_token;
+}
+
+async function getSigningKey(
+  jwksUri: string,
+  kid: string | undefined
+): Promise<Jwk | undefined> {
+  const find = (keys: Jwk[]) =>
+    keys.find((key) => (kid ? key.kid === kid : keys.length === 1));
+
+  const cached = jwksCache.get(jwksUri);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    const key = find(cached.keys);
+    if (key) {
+      return key;
+    }
+  }
+
+  // Unknown kid usually means the provider rotated its keys: refetch
+  const { keys } = await fetchJson<{ keys: Jwk[] }>(jwksUri);
+  jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+
+  return find(keys);
+}
+
+function invalidIdToken(reason: string): UnauthorizedError {
+  return new UnauthorizedError(`Invalid ID token: ${reason}`, 'OAUTH_INVALID_ID_TOKEN');
+}
+
+/**
+ * Verify an ID token's signature against the provider's JWKS and check
+ * its issuer, audience, lifetime and nonce. Returns the claims.
+ */
+export async function verifyIdToken(
+  idToken: string,
+  provider: OidcProvider,
+  metadata: OidcMetadata,
+  expected: { nonce: string }
+): Promise<IdTokenClaims> {
+  const [encodedHeader, encodedPayload, encodedSignature] = idToken.split('.');
+  if (!encodedHeader || !encodedPayload || !encodedSignature) {
+    throw invalidIdToken('malformed');
+  }
+
+  let header: { alg?: string; kid?: string };
+  let claims: IdTokenClaims;
+  try {
+    const decoder = new TextDecoder();
+    header = JSON.parse(decoder.decode(fromBase64Url(encodedHeader)));
+    claims = JSON.parse(decoder.decode(fromBase64Url(encodedPayload)));
+  } catch {
+    throw invalidIdToken('malformed');
+  }
+
+  // Only asymmetric algorithms from the allow-list; never `none` or HS256
+  const algorithm =
+    header.alg && Object.hasOwn(SIGNING_ALGORITHMS, header.alg)
+      ? SIGNING_ALGORITHMS[header.alg]
+      : undefined;
+  if (!algorithm) {
+    throw invalidIdToken(`unsupported algorithm ${header.alg}`);
+  }
+
+  const jwk = await getSigningKey(metadata.jwks_uri, header.kid);
+  if (!jwk) {
+    throw invalidIdToken('unknown signing key');
+  }
+
+  const key = await crypto.subtle.importKey('jwk', jwk, algorithm.import, false, [
+    'verify',
+  ]);
+  const valid = await crypto.subtle.verify(
+    algorithm.verify,
+    key,
+    fromBase64Url(encodedSignature),
+    new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+  );
+  if (!valid) {
+    throw invalidIdToken('bad signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== metadata.issuer) {
+    throw invalidIdToken('wrong issuer');
+  }
+  if (!audiences.includes(provider.clientId)) {
+    throw invalidIdToken('wrong audience');
+  }
+  // With several audiences, the token must have been issued to us
+  if (audiences.length > 1 && claims.azp !== provider.clientId) {
+    throw invalidIdToken('wrong authorized party');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW < now) {
+    throw invalidIdToken('expired');
+  }
+  if (typeof claims.iat !== 'number' || claims.iat - CLOCK_SKEW > now) {
+    throw invalidIdToken('issued in the future');
+  }
+  if (claims.nonce !== expected.nonce) {
+    throw invalidIdToken('nonce mismatch');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw invalidIdToken('missing subject');
+  }
+
+  return claims;
+}
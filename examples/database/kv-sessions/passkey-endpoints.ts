@@ -0,0 +1,200 @@
+/**
+ * Passkey (WebAuthn) Endpoints
+ *
+ * Registration and management of passkeys for logged-in users, plus the
+ * options for passkey login. Logging in itself (POST /api/auth/passkeys/login)
+ * lives with the other login routes in worker-endpoints.ts.
+ *
+ * POST   /api/auth/passkeys/register/options  - creation options for navigator.credentials.create()
+ * POST   /api/auth/passkeys/register          - verify and store the new passkey
+ * POST   /api/auth/passkeys/login/options     - request options for navigator.credentials.get()
+ * GET    /api/auth/passkeys                   - list the user's passkeys
+ * DELETE /api/auth/passkeys/:id               - remove a passkey
+ *
+ * Passkeys are discoverable credentials, so login needs no email: the
+ * browser offers the passkeys it has for this site.
+ *
+ * Prerequisites:
+ * 1. migrations/0005_create_passkeys.sql applied
+ * 2. Served over HTTPS (or http://localhost); the relying party ID is the
+ *    request's hostname (see getRelyingParty in webauthn.ts)
+ */
+
+import { toBase64Url } from './base64url';
+import { PasskeyRegistrationSchema, rowToPasskey } from './types';
+import type {
+  PasskeyListResponse,
+  PasskeyLoginOptions,
+  PasskeyOptionsResponse,
+  PasskeyRegistrationOptions,
+  PasskeyResponse,
+} from './types';
+import { UserStore } from './user-store';
+import {
+  CEREMONY_TIMEOUT,
+  SUPPORTED_ALGORITHMS,
+  consumeChallenge,
+  createChallenge,
+  getRelyingParty,
+  verifyRegistration,
+} from './webauthn';
+import { getSessionManager, requireAuth } from './worker-middleware';
+import { NotFoundError } from '../../../worker/errors';
+import type { RouteContext } from '../../../worker/router';
+import { parseJsonBody } from '../../../worker/validation';
+
+/**
+ * WebAuthn user handle for a user: opaque bytes, here the UTF-8 user ID.
+ * Returned by the authenticator at login as `userHandle`.
+ */
+export function toUserHandle(userId: string): string {
+  return toBase64Url(new TextEncoder().encode(userId));
+}
+
+/**
+ * POST /api/auth/passkeys/register/options - Start adding a passkey
+ */
+export async function passkeyRegistrationOptions(
+  request: Request,
+  env: Env,
+  { url }: RouteContext
+): Promise<Response> {
+  const session = await requireAuth(request, getSessionManager(env));
+  const existing = await new UserStore(env.DB).listPasskeys(session.user.id);
+  const rp = getRelyingParty(url);
+
+  const options: PasskeyRegistrationOptions = {
+    challenge: await createChallenge(env.SESSIONS, {
+      ceremony: 'registration',
+      userId: session.user.id,
+    }),
+    rp: { id: rp.id, name: rp.name },
+    user: {
+      id: toUserHandle(session.user.id),
+      name: session.user.email,
+      displayName: session.user.name,
+    },
+    pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({
+      type: 'public-key',
+      alg,
+    })),
+    timeout: CEREMONY_TIMEOUT,
+    attestation: 'none',
+    authenticatorSelection: {
+      residentKey: 'required',
+      userVerification: 'preferred',
+    },
+    excludeCredentials: existing.map((passkey) => ({
+      type: 'public-key',
+      id: passkey.id,
+      ...(passkey.transports && { transports: JSON.parse(passkey.transports) }),
+    })),
+  };
+
+  const response: PasskeyOptionsResponse<PasskeyRegistrationOptions> = {
+    success: true,
+    data: options,
+  };
+
+  return Response.json(response);
+}
+
+/**
+ * POST /api/auth/passkeys/register - Verify and store a new passkey
+ */
+export async function registerPasskey(
+  request: Request,
+  env: Env,
+  { url }: RouteContext
+): Promise<Response> {
+  const session = await requireAuth(request, getSessionManager(env));
+  const body = await parseJsonBody(request, PasskeyRegistrationSchema);
+
+  const clientData = await consumeChallenge(
+    env.SESSIONS,
+    body.response.clientDataJSON,
+    'registration',
+    session.user.id
+  );
+  const credential = await verifyRegistration(
+    clientData,
+    { id: body.id, attestationObject: body.response.attestationObject },
+    getRelyingParty(url)
+  );
+
+  const passkey = await new UserStore(env.DB).addPasskey(session.user.id, {
+    ...credential,
+    name: body.name ?? 'Passkey',
+    transports: body.response.transports,
+  });
+
+  const response: PasskeyResponse = {
+    success: true,
+    data: rowToPasskey(passkey),
+  };
+
+  return Response.json(response, { status: 201 });
+}
+
+/**
+ * POST /api/auth/passkeys/login/options - Start a passkey login
+ */
+export async function passkeyLoginOptions(
+  _request: Request,
+  env: Env,
+  { url }: RouteContext
+): Promise<Response> {
+  const response: PasskeyOptionsResponse<PasskeyLoginOptions> = {
+    success: true,
+    data: {
+      challenge: await createChallenge(env.SESSIONS, {
+        ceremony: 'authentication',
+      }),
+      rpId: getRelyingParty(url).id,
+      timeout: CEREMONY_TIMEOUT,
+      userVerification: 'preferred',
+    },
+  };
+
+  return Response.json(response);
+}
+
+/**
+ * GET /api/auth/passkeys - List the user's passkeys
+ */
+export async function listPasskeys(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const session = await requireAuth(request, getSessionManager(env));
+  const passkeys = await new UserStore(env.DB).listPasskeys(session.user.id);
+
+  const response: PasskeyListResponse = {
+    success: true,
+    data: passkeys.map(rowToPasskey),
+  };
+
+  return Response.json(response);
+}
+
+/**
+ * DELETE /api/auth/passkeys/:id - Remove a passkey
+ * Only removes it here; the user can delete it from their device separately.
+ */
+export async function deletePasskey(
+  request: Request,
+  env: Env,
+  { params }: RouteContext
+): Promise<Response> {
+  const session = await requireAuth(request, getSessionManager(env));
+  const deleted = await new UserStore(env.DB).deletePasskey(
+    session.user.id,
+    params.id
+  );
+
+  if (!deleted) {
+    throw new NotFoundError('Passkey not found');
+  }
+
+  return Response.json({ success: true });
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { PBKDF2_ITERATIONS, hashPassword, verifyPassword } from './password';
+
+describe('password hashing', () => {
+  it('stores the algorithm and iteration count with the hash', async () => {
+    const stored = await hashPassword('correct horse');
+
+    expect(stored.split('$').slice(0, 2)).toEqual([
+      'pbkdf2-sha256',
+      String(PBKDF2_ITERATIONS),
+    ]);
+  });
+
+  it('verifies the right password only', async () => {
+    const stored = await hashPassword('correct horse');
+
+    expect(await verifyPassword('correct horse', stored)).toBe(true);
+    expect(await verifyPassword('battery staple', stored)).toBe(false);
+  });
+
+  it('salts every hash', async () => {
+    expect(await hashPassword('same')).not.toBe(await hashPassword('same'));
+  });
+
+  it('rejects empty and malformed stored values', async () => {
+    expect(await verifyPassword('', '')).toBe(false);
+    expect(await verifyPassword('x', 'pbkdf2-sha256$nope$$')).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Password Hashing
+ *
+ * PBKDF2-SHA256 via WebCrypto with a random per-user salt. No dependencies,
+ * so it runs in Workers without bcrypt/scrypt WASM builds.
+ *
+ * Stored format: pbkdf2-sha256$<iterations>$<salt base64>$<hash base64>
+ * The iteration count is stored with the hash so it can be raised later
+ * without invalidating existing passwords.
+ */
+
+const ALGORITHM = 'pbkdf2-sha256';
+
+// Workers caps PBKDF2 at 100,000 iterations
+export const PBKDF2_ITERATIONS = 100_000;
+
+const SALT_BYTES = 16;
+const HASH_BYTES = 32;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+async function deriveHash(
+  password: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    HASH_BYTES * 8
+  );
+
+  return new Uint8Array(bits);
+}
+
+// Constant-time comparison so response timing does not leak matching bytes
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.byteLength !== b.byteLength) {
+    return false;
+  }
+
+  return crypto.subtle.timingSafeEqual(a, b);
+}
+
+/**
+ * Hash a password for storage
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveHash(password, salt, PBKDF2_ITERATIONS);
+
+  return [ALGORITHM, PBKDF2_ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+}
+
+/**
+ * Check a password against a stored hash.
+ * Returns false (never throws) for malformed stored values.
+ */
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<boolean> {
+  const [algorithm, iterations, salt, hash] = stored.split('$');
+  const iterationCount = Number(iterations);
+
+  if (
+    algorithm !== ALGORITHM ||
+    !Number.isInteger(iterationCount) ||
+    iterationCount < 1 ||
+    !salt ||
+    !hash
+  ) {
+    return false;
+  }
+
+  let saltBytes: Uint8Array;
+  let expected: Uint8Array;
+
+  try {
+    saltBytes = fromBase64(salt);
+    expected = fromBase64(hash);
+  } catch {
+    return false;
+  }
+
+  const actual = await deriveHash(password, saltBytes, iterationCount);
+
+  return timingSafeEqual(actual, expected);
+}
+
+// Valid hash of a random password, used when the email is unknown so the
+// login response takes as long as a real password check
+let dummyHash: Promise<string> | undefined;
+
+export function getDummyHash(): Promise<string> {
+  dummyHash ??= hashPassword(crypto.randomUUID());
+  return dummyHash;
+}
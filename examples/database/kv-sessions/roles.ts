@@ -0,0 +1,56 @@
+/**
+ * Roles and Permissions
+ *
+ * Shared by the Worker guards (requireRole / requirePermission in
+ * worker-middleware.ts) and the React <RequireRole> component. Users hold
+ * roles; permissions are derived from them and never stored, so changing
+ * ROLE_PERMISSIONS applies to existing sessions immediately.
+ *
+ * Roles are stored in the `users.roles` column (migrations/0002_add_user_roles.sql)
+ * and copied into the session at login.
+ */
+
+export const ROLES = ['user', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = ['contacts:read', 'contacts:delete'] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  user: [],
+  admin: ['contacts:read', 'contacts:delete'],
+};
+
+// Assigned to new accounts and to sessions stored before roles existed
+export const DEFAULT_ROLES: Role[] = ['user'];
+
+/**
+ * Parse the JSON `roles` column, dropping roles this code doesn't know
+ */
+export function parseRoles(value: string | null | undefined): Role[] {
+  try {
+    const parsed: unknown = JSON.parse(value ?? '[]');
+    if (Array.isArray(parsed)) {
+      return ROLES.filter((role) => parsed.includes(role));
+    }
+  } catch {
+    // Fall through to the default for malformed values
+  }
+
+  return [...DEFAULT_ROLES];
+}
+
+export function permissionsForRoles(roles: readonly Role[]): Permission[] {
+  return [...new Set(roles.flatMap((role) => ROLE_PERMISSIONS[role]))];
+}
+
+export function hasRole(user: { roles: readonly Role[] }, role: Role): boolean {
+  return user.roles.includes(role);
+}
+
+export function hasPermission(
+  user: { permissions: readonly Permission[] },
+  permission: Permission
+): boolean {
+  return user.permissions.includes(permission);
+}
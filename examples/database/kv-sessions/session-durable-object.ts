@@ -0,0 +1,129 @@
+/**
+ * Session Durable Object
+ *
+ * Holds every session for one user; DurableObjectSessionStore addresses it
+ * with idFromName(userId). Reads and writes go through a single instance,
+ * so a deleted session is gone for the next request everywhere, unlike KV
+ * which can keep serving it from cache for up to 60 seconds.
+ *
+ * Expired sessions are removed by an alarm set for the earliest expiry.
+ *
+ * Prerequisites:
+ * 1. Binding and migration in wrangler.jsonc:
+ *    "durable_objects": {
+ *      "bindings": [{ "name": "USER_SESSIONS", "class_name": "SessionDurableObject" }]
+ *    },
+ *    "migrations": [{ "tag": "v1", "new_sqlite_classes": ["SessionDurableObject"] }]
+ *
+ * 2. Export the class from worker/index.ts:
+ *    export { SessionDurableObject } from '../examples/database/kv-sessions/session-durable-object';
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import type { StoredSession } from './session-store';
+import type { SessionData } from './types';
+
+interface SessionRecord {
+  data: SessionData;
+  // Epoch milliseconds; the record is ignored (and later deleted) after this
+  expiresAt: number;
+}
+
+const SESSION_PREFIX = 'session:';
+
+export class SessionDurableObject extends DurableObject {
+  async getSession(sessionId: string): Promise<SessionData | null> {
+    const record = await this.ctx.storage.get<SessionRecord>(
+      SESSION_PREFIX + sessionId
+    );
+
+    return record && record.expiresAt > Date.now() ? record.data : null;
+  }
+
+  /**
+   * Store a session for `ttl` seconds.
+   * With `maxSessions`, adding a new session beyond the cap deletes the
+   * least recently used ones first.
+   */
+  async putSession(
+    sessionId: string,
+    data: SessionData,
+    options: { ttl: number; maxSessions?: number }
+  ): Promise<void> {
+    const key = SESSION_PREFIX + sessionId;
+
+    // Storage calls don't interleave with other requests to this object
+    // (input gates), so the count can't change between here and the put
+    if (options.maxSessions && !(await this.ctx.storage.get(key))) {
+      const sessions = await this.listSessions();
+      const excess = sessions.length - options.maxSessions + 1;
+
+      if (excess > 0) {
+        const leastRecent = sessions
+          .sort((a, b) => a.data.lastSeenAt.localeCompare(b.data.lastSeenAt))
+          .slice(0, excess)
+          .map((session) => session.sessionId);
+
+        await this.deleteSessions(leastRecent);
+      }
+    }
+
+    const expiresAt = Date.now() + options.ttl * 1000;
+    await this.ctx.storage.put<SessionRecord>(key, { data, expiresAt });
+    await this.scheduleCleanup(expiresAt);
+  }
+
+  async deleteSessions(sessionIds: string[]): Promise<void> {
+    if (sessionIds.length > 0) {
+      await this.ctx.storage.delete(sessionIds.map((id) => SESSION_PREFIX + id));
+    }
+  }
+
+  async listSessions(): Promise<StoredSession[]> {
+    const records = await this.ctx.storage.list<SessionRecord>({
+      prefix: SESSION_PREFIX,
+    });
+    const now = Date.now();
+
+    return Array.from(records)
+      .filter(([, record]) => record.expiresAt > now)
+      .map(([key, record]) => ({
+        sessionId: key.slice(SESSION_PREFIX.length),
+        data: record.data,
+      }));
+  }
+
+  // Delete expired sessions and wake up again for the next one
+  async alarm(): Promise<void> {
+    const records = await this.ctx.storage.list<SessionRecord>({
+      prefix: SESSION_PREFIX,
+    });
+    const now = Date.now();
+    const expired: string[] = [];
+    let nextExpiry: number | null = null;
+
+    for (const [key, record] of records) {
+      if (record.expiresAt <= now) {
+        expired.push(key);
+      } else if (nextExpiry === null || record.expiresAt < nextExpiry) {
+        nextExpiry = record.expiresAt;
+      }
+    }
+
+    if (expired.length > 0) {
+      await this.ctx.storage.delete(expired);
+    }
+
+    if (nextExpiry !== null) {
+      await this.ctx.storage.setAlarm(nextExpiry);
+    }
+  }
+
+  private async scheduleCleanup(expiresAt: number): Promise<void> {
+    const current = await this.ctx.storage.getAlarm();
+
+    if (current === null || expiresAt < current) {
+      await this.ctx.storage.setAlarm(expiresAt);
+    }
+  }
+}
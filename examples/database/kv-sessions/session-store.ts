@@ -0,0 +1,157 @@
+/**
+ * Session Stores
+ *
+ * SessionManager handles expiry, rotation and cookies; a SessionStore only
+ * decides where SessionData lives and what goes in the cookie.
+ *
+ * - KvSessionStore: the cookie holds a random session ID and the data lives
+ *   in KV. Supports revocation and the per-user device list.
+ * - DurableObjectSessionStore (durable-object-session-store.ts): one Durable
+ *   Object per user holds that user's sessions. Strongly consistent, so
+ *   revocation is immediate, and it can cap sessions per user.
+ * - CookieSessionStore (cookie-session-store.ts): the cookie holds the signed
+ *   (optionally encrypted) data itself. No KV reads, but issued cookies
+ *   cannot be revoked before they expire.
+ */
+
+import type { SessionData } from './types';
+
+export interface StoredSession {
+  sessionId: string;
+  data: SessionData;
+}
+
+/**
+ * Per-user view of sessions, for device lists and "sign out everywhere".
+ * Only stateful stores can provide one.
+ */
+export interface SessionIndex {
+  // Sessions that still exist; may include ones past their idle expiry
+  list(userId: string): Promise<StoredSession[]>;
+  add(userId: string, sessionId: string): Promise<void>;
+  remove(userId: string, sessionIds: string[]): Promise<void>;
+}
+
+export interface SessionStore {
+  /**
+   * Resolve a cookie value to its session.
+   * Returns null for unknown, tampered or undecryptable values.
+   */
+  load(cookieValue: string): Promise<StoredSession | null>;
+
+  /**
+   * Persist session data. `ttl` is in seconds.
+   * Stateless stores have nothing to persist.
+   */
+  save(sessionId: string, data: SessionData, ttl: number): Promise<void>;
+
+  /**
+   * Forget a session. Stateless stores cannot revoke issued cookies.
+   */
+  delete(sessionId: string, userId: string): Promise<void>;
+
+  /**
+   * Value to put in the session cookie
+   */
+  toCookieValue(sessionId: string, data: SessionData): Promise<string>;
+
+  /**
+   * Present on stateful stores
+   */
+  readonly index?: SessionIndex;
+}
+
+/**
+ * KV-backed store: `session:<id>` holds the data, `user_sessions:<userId>`
+ * holds the per-user index.
+ *
+ * KV has no transactions, so two logins racing on the same user can drop
+ * an index entry. The session still works and expires on its own TTL; it
+ * just won't appear in the device list.
+ */
+export class KvSessionStore implements SessionStore {
+  private kv: KVNamespace;
+  // How long index entries are kept; should cover the longest session
+  private indexTTL: number;
+
+  readonly index: SessionIndex;
+
+  constructor(kv: KVNamespace, options: { indexTTL?: number } = {}) {
+    this.kv = kv;
+    this.indexTTL = options.indexTTL ?? 60 * 60 * 24 * 30; // 30 days
+
+    this.index = {
+      list: (userId) => this.listSessions(userId),
+      add: (userId, sessionId) => this.addToIndex(userId, sessionId),
+      remove: (userId, sessionIds) => this.removeFromIndex(userId, sessionIds),
+    };
+  }
+
+  async load(sessionId: string): Promise<StoredSession | null> {
+    const data = await this.kv.get<SessionData>(`session:${sessionId}`, 'json');
+    return data ? { sessionId, data } : null;
+  }
+
+  async save(sessionId: string, data: SessionData, ttl: number): Promise<void> {
+    await this.kv.put(`session:${sessionId}`, JSON.stringify(data), {
+      expirationTtl: ttl,
+    });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.kv.delete(`session:${sessionId}`);
+  }
+
+  async toCookieValue(sessionId: string): Promise<string> {
+    return sessionId;
+  }
+
+  // Loads each indexed session and drops IDs whose KV entry has expired
+  private async listSessions(userId: string): Promise<StoredSession[]> {
+    const sessionIds = await this.getIndex(userId);
+    const loaded = await Promise.all(sessionIds.map((id) => this.load(id)));
+    const missing = sessionIds.filter((_, i) => !loaded[i]);
+
+    if (missing.length > 0) {
+      await this.removeFromIndex(userId, missing);
+    }
+
+    return loaded.filter((session) => session !== null);
+  }
+
+  private async getIndex(userId: string): Promise<string[]> {
+    return (
+      (await this.kv.get<string[]>(`user_sessions:${userId}`, 'json')) ?? []
+    );
+  }
+
+  private async addToIndex(userId: string, sessionId: string): Promise<void> {
+    const sessionIds = await this.getIndex(userId);
+
+    await this.kv.put(
+      `user_sessions:${userId}`,
+      JSON.stringify([...sessionIds.filter((id) => id !== sessionId), sessionId]),
+      { expirationTtl: this.indexTTL }
+    );
+  }
+
+  private async removeFromIndex(
+    userId: string,
+    sessionIds: string[]
+  ): Promise<void> {
+    const current = await this.getIndex(userId);
+    const remaining = current.filter((id) => !sessionIds.includes(id));
+
+    if (remaining.length === current.length) {
+      return;
+    }
+
+    if (remaining.length === 0) {
+      await this.kv.delete(`user_sessions:${userId}`);
+    } else {
+      await this.kv.put(`user_sessions:${userId}`, JSON.stringify(remaining), {
+        expirationTtl: this.indexTTL,
+      });
+    }
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Token Mode Endpoints
+ *
+ * For clients that can't or shouldn't rely on cookies, such as mobile
+ * apps. Add `?mode=token` to any login route (/signup, /login,
+ * /mfa/verify, /magic-link/verify, /passkeys/login) and it returns an
+ * access token and a refresh token instead of setting a session cookie:
+ *
+ * POST /api/auth/token/refresh   - exchange a refresh token for a new pair
+ * POST /api/auth/token/revoke    - log out: revoke the refresh token's family
+ * GET  /.well-known/jwks.json    - public keys for verifying access tokens
+ *
+ * Send the access token as `Authorization: Bearer <token>`; requireAuth
+ * accepts it wherever it accepts a session cookie. Requests without
+ * cookies need no CSRF token.
+ *
+ * Prerequisites:
+ * 1. JWT_PRIVATE_KEYS (ES256) or JWT_SECRETS (HS256) set (see jwt.ts);
+ *    without them these routes return 501
+ */
+
+import { JwtKeys } from './jwt';
+import type { RefreshTokenStore } from './tokens';
+import { RefreshTokenSchema, rowToUser } from './types';
+import type { TokenResponse, User } from './types';
+import { UserStore } from './user-store';
+import { getSessionManager } from './worker-middleware';
+import type { SessionManager } from './worker-middleware';
+import { ApiError, UnauthorizedError } from '../../../worker/errors';
+import type { RouteContext, RouteGroup } from '../../../worker/router';
+import { parseJsonBody } from '../../../worker/validation';
+
+/**
+ * Whether a login request asked for tokens instead of a cookie
+ */
+export function isTokenMode(request: Request): boolean {
+  return new URL(request.url).searchParams.get('mode') === 'token';
+}
+
+function notConfigured(): ApiError {
+  return new ApiError(501, 'NOT_SUPPORTED', 'Token mode is not configured');
+}
+
+function getRefreshTokens(sessionManager: SessionManager): RefreshTokenStore {
+  const store = sessionManager.refreshTokens;
+  if (!store) {
+    throw notConfigured();
+  }
+
+  return store;
+}
+
+async function tokenResponse(
+  sessionManager: SessionManager,
+  user: User,
+  refresh: { refreshToken: string; familyId: string },
+  issuer: string,
+  status = 200
+): Promise<Response> {
+  const { accessToken, expiresIn, session } = await sessionManager.createAccessToken(
+    user,
+    refresh.familyId,
+    issuer
+  );
+
+  const response: TokenResponse = {
+    success: true,
+    data: session,
+    tokens: {
+      accessToken,
+      refreshToken: refresh.refreshToken,
+      tokenType: 'Bearer',
+      expiresIn,
+    },
+  };
+
+  // Tokens must not end up in shared caches
+  return Response.json(response, {
+    status,
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
+
+/**
+ * Log the user in with tokens: the token-mode counterpart of beginSession.
+ * Used by the login routes when isTokenMode(request) is true.
+ */
+export async function issueTokens(
+  request: Request,
+  env: Env,
+  user: User,
+  status = 200
+): Promise<Response> {
+  const sessionManager = getSessionManager(env);
+  const refresh = await getRefreshTokens(sessionManager).create(user.id);
+
+  return tokenResponse(
+    sessionManager,
+    user,
+    refresh,
+    new URL(request.url).origin,
+    status
+  );
+}
+
+/**
+ * POST /api/auth/token/refresh - Exchange a refresh token
+ * The user is reloaded, so role changes apply from the next access token.
+ */
+export async function refreshTokens(
+  request: Request,
+  env: Env,
+  { url, requestId }: RouteContext
+): Promise<Response> {
+  const sessionManager = getSessionManager(env);
+  const store = getRefreshTokens(sessionManager);
+  const { refreshToken } = await parseJsonBody(request, RefreshTokenSchema);
+
+  const refresh = await store.rotate(refreshToken, requestId);
+  const user = await new UserStore(env.DB).findById(refresh.userId);
+
+  if (!user) {
+    await store.revoke(refresh.refreshToken);
+    throw new UnauthorizedError('Account no longer exists', 'INVALID_REFRESH_TOKEN');
+  }
+
+  return tokenResponse(sessionManager, rowToUser(user), refresh, url.origin);
+}
+
+/**
+ * POST /api/auth/token/revoke - Log out in token mode
+ * Always succeeds, so it can't be used to probe for valid tokens.
+ */
+export async function revokeTokens(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const store = getRefreshTokens(getSessionManager(env));
+  const { refreshToken } = await parseJsonBody(request, RefreshTokenSchema);
+
+  await store.revoke(refreshToken);
+
+  return Response.json({ success: true, message: 'Logged out successfully' });
+}
+
+/**
+ * GET /.well-known/jwks.json - Public keys for ES256 access tokens
+ * Empty with HS256 or when token mode is off.
+ */
+export async function getJwks(_request: Request, env: Env): Promise<Response> {
+  const keys = JwtKeys.fromEnv(env);
+
+  return Response.json(keys ? await keys.publicJwks() : { keys: [] }, {
+    headers: { 'Cache-Control': 'public, max-age=300' },
+  });
+}
+
+/**
+ * Registers GET /.well-known/jwks.json. Needs its own router, since the
+ * API router only handles /api:
+ *
+ * const wellKnown = new Router({ base: '/.well-known' });
+ * registerWellKnownRoutes(wellKnown);
+ */
+export function registerWellKnownRoutes(wellKnown: RouteGroup): void {
+  wellKnown.get('/jwks.json', getJwks);
+}
@@ -0,0 +1,224 @@
+/**
+ * Refresh Tokens
+ *
+ * Token mode (see token-endpoints.ts) gives clients a short-lived JWT
+ * access token and an opaque refresh token instead of a session cookie.
+ * Refresh tokens are stored in KV by SHA-256 hash and rotate: each one
+ * works once and is exchanged for a new pair.
+ *
+ * Every login starts a token family. A used refresh token is kept (as
+ * used) until its family ends, so presenting it again means it was copied:
+ * the whole family is revoked and the reuse is audited. Whoever holds the
+ * latest token has to log in again, but so does the thief.
+ *
+ * Families follow the session lifetimes in SessionConfig: a refresh token
+ * expires after `sessionTTL` unused, and a family after `maxSessionAge`.
+ * Access tokens are not checked against KV, so revoking a family takes
+ * effect when its current access token expires (`accessTokenTTL`).
+ *
+ * Each family is also listed under its user (`refresh_user:<userId>:`),
+ * so signing out other devices or claiming an account can end all of a
+ * user's token logins. One key per family means concurrent logins can't
+ * drop each other from the list.
+ *
+ * KV is eventually consistent, so a token used in one location may still
+ * look unused elsewhere for up to a minute; a reuse in that window goes
+ * unnoticed.
+ */
+
+import { recordAuditEvent } from './audit';
+import { toBase64Url } from './base64url';
+import { UnauthorizedError } from '../../../worker/errors';
+
+interface RefreshTokenRecord {
+  familyId: string;
+  userId: string;
+  // Epoch milliseconds; set once the token has been exchanged
+  usedAt: number | null;
+}
+
+interface TokenFamily {
+  userId: string;
+  // Epoch milliseconds
+  absoluteExpiresAt: number;
+}
+
+export interface IssuedRefreshToken {
+  refreshToken: string;
+  familyId: string;
+  userId: string;
+}
+
+const TOKEN_PREFIX = 'refresh_token:';
+const FAMILY_PREFIX = 'refresh_family:';
+const USER_FAMILY_PREFIX = 'refresh_user:';
+
+// Marks refresh tokens so they're never mistaken for API keys or JWTs
+const REFRESH_TOKEN_PREFIX = 'rt_';
+
+// KV rejects expirationTtl values below 60 seconds
+const MIN_KV_TTL = 60;
+
+function ttlUntil(epochMs: number): number {
+  return Math.max(MIN_KV_TTL, Math.ceil((epochMs - Date.now()) / 1000));
+}
+
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(token)
+  );
+  return toBase64Url(new Uint8Array(digest));
+}
+
+function userFamilyKey(userId: string, familyId: string): string {
+  return `${USER_FAMILY_PREFIX}${userId}:${familyId}`;
+}
+
+function invalidRefreshToken(): UnauthorizedError {
+  return new UnauthorizedError(
+    'Invalid or expired refresh token',
+    'INVALID_REFRESH_TOKEN'
+  );
+}
+
+export class RefreshTokenStore {
+  private kv: KVNamespace;
+  private idleTTL: number;
+  private maxAge: number;
+
+  /**
+   * `idleTTL` and `maxAge` are in seconds (sessionTTL and maxSessionAge)
+   */
+  constructor(kv: KVNamespace, options: { idleTTL: number; maxAge: number }) {
+    this.kv = kv;
+    this.idleTTL = options.idleTTL;
+    this.maxAge = options.maxAge;
+  }
+
+  /**
+   * Start a new family for a login and return its first refresh token
+   */
+  async create(userId: string): Promise<IssuedRefreshToken> {
+    const familyId = crypto.randomUUID();
+    const family: TokenFamily = {
+      userId,
+      absoluteExpiresAt: Date.now() + this.maxAge * 1000,
+    };
+
+    await Promise.all([
+      this.kv.put(FAMILY_PREFIX + familyId, JSON.stringify(family), {
+        expirationTtl: this.maxAge,
+      }),
+      this.kv.put(userFamilyKey(userId, familyId), '', {
+        expirationTtl: this.maxAge,
+      }),
+    ]);
+
+    return this.issue(familyId, family);
+  }
+
+  /**
+   * Exchange a refresh token for the next one in its family.
+   * A token that was already exchanged revokes the family.
+   */
+  async rotate(refreshToken: string, requestId: string): Promise<IssuedRefreshToken> {
+    const key = TOKEN_PREFIX + (await hashToken(refreshToken));
+    const record = await this.kv.get<RefreshTokenRecord>(key, 'json');
+
+    if (!record) {
+      throw invalidRefreshToken();
+    }
+
+    const familyKey = FAMILY_PREFIX + record.familyId;
+
+    if (record.usedAt !== null) {
+      await this.deleteFamily(record.userId, record.familyId);
+
+      recordAuditEvent({
+        type: 'token.reused',
+        requestId,
+        details: { userId: record.userId, familyId: record.familyId },
+      });
+
+      throw new UnauthorizedError(
+        'This refresh token was already used. Please log in again.',
+        'REFRESH_TOKEN_REUSED'
+      );
+    }
+
+    const family = await this.kv.get<TokenFamily>(familyKey, 'json');
+    if (!family || family.absoluteExpiresAt <= Date.now()) {
+      throw invalidRefreshToken();
+    }
+
+    // Keep the used token until the family ends, to catch replays
+    await this.kv.put(key, JSON.stringify({ ...record, usedAt: Date.now() }), {
+      expirationTtl: ttlUntil(family.absoluteExpiresAt),
+    });
+
+    return this.issue(record.familyId, family);
+  }
+
+  /**
+   * Revoke the family a refresh token belongs to (logout).
+   * Unknown tokens are ignored.
+   */
+  async revoke(refreshToken: string): Promise<void> {
+    const record = await this.kv.get<RefreshTokenRecord>(
+      TOKEN_PREFIX + (await hashToken(refreshToken)),
+      'json'
+    );
+
+    if (record) {
+      await this.deleteFamily(record.userId, record.familyId);
+    }
+  }
+
+  /**
+   * Revoke every family of a user's, optionally keeping one (the caller's).
+   * Returns the number of families revoked.
+   */
+  async revokeUser(userId: string, options: { except?: string } = {}): Promise<number> {
+    const prefix = `${USER_FAMILY_PREFIX}${userId}:`;
+    const familyIds: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.kv.list({ prefix, cursor });
+      familyIds.push(...page.keys.map((key) => key.name.slice(prefix.length)));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    const revoked = familyIds.filter((familyId) => familyId !== options.except);
+    await Promise.all(revoked.map((familyId) => this.deleteFamily(userId, familyId)));
+
+    return revoked.length;
+  }
+
+  private async deleteFamily(userId: string, familyId: string): Promise<void> {
+    await Promise.all([
+      this.kv.delete(FAMILY_PREFIX + familyId),
+      this.kv.delete(userFamilyKey(userId, familyId)),
+    ]);
+  }
+
+  private async issue(
+    familyId: string,
+    family: TokenFamily
+  ): Promise<IssuedRefreshToken> {
+    const refreshToken =
+      REFRESH_TOKEN_PREFIX + toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+    const record: RefreshTokenRecord = {
+      familyId,
+      userId: family.userId,
+      usedAt: null,
+    };
+
+    await this.kv.put(TOKEN_PREFIX + (await hashToken(refreshToken)), JSON.stringify(record), {
+      expirationTtl: Math.min(this.idleTTL, ttlUntil(family.absoluteExpiresAt)),
+    });
+
+    return { refreshToken, familyId, userId: family.userId };
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * TOTP (RFC 6238) and Recovery Codes
+ *
+ * Time-based one-time passwords as used by Google Authenticator, 1Password,
+ * Authy and friends: HMAC-SHA1, 6 digits, 30 second steps. Secrets are
+ * 20 random bytes, shared with the app as Base32 in an otpauth:// URI
+ * (usually shown as a QR code).
+ *
+ * Recovery codes are random and high-entropy, so a plain SHA-256 hash is
+ * enough to store them; unlike passwords they can't be guessed offline.
+ */
+
+import { toBase64Url } from './base64url';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const DIGITS = 6;
+const PERIOD = 30; // seconds
+
+// Steps either side of now that are accepted, for clock drift and slow typing
+const WINDOW = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+
+function toBase32(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function fromBase32(value: string): Uint8Array<ArrayBuffer> {
+  const clean = value.toUpperCase().replace(/=+$/, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 5) / 8));
+  let bits = 0;
+  let buffer = 0;
+  let index = 0;
+
+  for (const char of clean) {
+    const digit = BASE32_ALPHABET.indexOf(char);
+    if (digit === -1) {
+      throw new Error('Invalid Base32 character');
+    }
+
+    buffer = (buffer << 5) | digit;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes[index++] = (buffer >>> (bits - 8)) & 255;
+      bits -= 8;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * New random secret, Base32 encoded
+ */
+export function generateTotpSecret(): string {
+  return toBase32(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/**
+ * otpauth:// URI for authenticator apps; render it as a QR code
+ */
+export function buildOtpauthUri(params: {
+  secret: string;
+  accountName: string;
+  issuer: string;
+}): string {
+  const label = `${encodeURIComponent(params.issuer)}:${encodeURIComponent(params.accountName)}`;
+  const query = new URLSearchParams({
+    secret: params.secret,
+    issuer: params.issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(PERIOD),
+  });
+
+  return `otpauth://totp/${label}?${query}`;
+}
+
+/**
+ * Time step (30 second counter) for a timestamp in milliseconds
+ */
+export function totpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / PERIOD);
+}
+
+/**
+ * The code for one time step (RFC 4226 dynamic truncation)
+ */
+export async function generateTotp(secret: string, step: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    fromBase32(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+
+  // 8-byte big-endian counter
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(0, Math.floor(step / 2 ** 32));
+  counter.setUint32(4, step >>> 0);
+
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Check a code against the steps around `now`.
+ * Returns the matching step, which the caller must record so the same
+ * code can't be used twice, or null if no step matches.
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  now = Date.now()
+): Promise<number | null> {
+  if (!isTotpCode(code)) {
+    return null;
+  }
+
+  const normalized = code.replace(/\s/g, '');
+  const current = totpStep(now);
+  for (let step = current - WINDOW; step <= current + WINDOW; step++) {
+    if (constantTimeEqual(await generateTotp(secret, step), normalized)) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether input looks like a TOTP code rather than a recovery code
+ */
+export function isTotpCode(code: string): boolean {
+  return /^\d{6}$/.test(code.replace(/\s/g, ''));
+}
+
+/**
+ * New recovery codes formatted as XXXXX-XXXXX (50 random bits each)
+ */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = toBase32(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10);
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * Hash of a recovery code as stored in mfa_recovery_codes.
+ * Case, spaces and dashes are ignored so codes survive retyping.
+ */
+export async function hashRecoveryCode(code: string): Promise<string> {
+  const normalized = code.toUpperCase().replace(/[^A-Z2-7]/g, '');
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(normalized)
+  );
+
+  return toBase64Url(new Uint8Array(digest));
+}
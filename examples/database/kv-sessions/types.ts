@@ -2,36 +2,280 @@
  * Types for KV Session Management Example
  */
 
+import type { ApiErrorResponse } from '../../../src/lib/api-error';
+import { EMAIL_PATTERN, v, type Infer } from '../../../worker/validation';
+import {
+  DEFAULT_ROLES,
+  PERMISSIONS,
+  parseRoles,
+  permissionsForRoles,
+  type Permission,
+  type Role,
+} from './roles';
+
 // User data stored in session
 export interface User {
   id: string;
   email: string;
   name: string;
   createdAt: Date;
+  roles: Role[];
+  // Derived from roles (see roles.ts)
+  permissions: Permission[];
+  // TOTP two-factor authentication is enrolled (see totp.ts)
+  mfaEnabled: boolean;
+}
+
+// Database row type (matches migrations/0001, 0002, 0004, 0010 and 0011)
+export interface UserRow {
+  id: string;
+  email: string;
+  name: string;
+  password_hash: string;
+  roles: string; // JSON array, e.g. '["user","admin"]'
+  totp_secret: string | null; // Base32; NULL when TOTP is not enrolled
+  totp_last_step: number | null;
+  email_verified_at: string | null; // NULL until the owner of the address proves it
+  // Second-factor attempts (see LoginThrottle.beginSecondFactor); epoch ms
+  mfa_failures: number;
+  mfa_locked_until: number;
+  mfa_failures_expire_at: number;
+  created_at: string; // SQLite returns datetime as string
+  updated_at: string;
+}
+
+// Database row type (matches migrations/0005)
+export interface PasskeyRow {
+  id: string; // Credential ID, base64url
+  user_id: string;
+  name: string;
+  public_key: string; // JWK as JSON
+  algorithm: number; // COSE algorithm identifier
+  sign_count: number;
+  transports: string | null; // JSON array
+  created_at: string;
+  last_used_at: string | null;
 }
 
-// Session data stored in KV
+// One of the user's passkeys, as listed by GET /api/auth/passkeys
+export interface PasskeyInfo {
+  id: string;
+  name: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+}
+
+// Database row type (matches migrations/0006)
+export interface ApiKeyRow {
+  id: string;
+  user_id: string;
+  name: string;
+  prefix: string;
+  key_hash: string; // SHA-256 of the key, base64url
+  scopes: string; // JSON array of permissions
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string; // ISO timestamp
+}
+
+// One of the user's API keys, as listed by GET /api/auth/keys
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  // Start of the key, e.g. "ak_3kPq9x", so users can tell keys apart
+  prefix: string;
+  scopes: Permission[];
+  createdAt: Date;
+  lastUsedAt?: Date;
+  expiresAt: Date;
+}
+
+// Session data stored in KV (dates are ISO strings for JSON serialization)
 export interface SessionData {
   userId: string;
   email: string;
   name: string;
-  createdAt: string; // ISO string for JSON serialization
-  expiresAt: string;
+  createdAt: string; // User creation time
+  roles: Role[];
+  mfaEnabled?: boolean;
+  issuedAt: string;
+  lastSeenAt: string;
+  expiresAt: string; // Sliding (idle) expiry, extended on activity
+  absoluteExpiresAt: string; // Hard limit, never extended
+  userAgent?: string;
+}
+
+// Claims of a token-mode access token (see tokens.ts)
+export interface AccessTokenClaims {
+  iss: string; // Origin of the Worker that issued it
+  sub: string; // User ID
+  sid: string; // Refresh token family, i.e. the login it belongs to
+  jti: string;
+  iat: number;
+  exp: number;
+  email: string;
+  name: string;
+  roles: Role[];
+  mfa_enabled: boolean;
+  created_at: string; // User creation time
 }
 
 // Session object returned to client
 export interface Session {
   sessionId: string;
   user: User;
+  issuedAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  absoluteExpiresAt: Date;
+  userAgent?: string;
+  // Set when the request authenticated with an API key instead of a
+  // session cookie; user.permissions are then limited to the key's scopes
+  apiKeyId?: string;
+}
+
+// One of the user's signed-in devices, as listed by GET /api/auth/sessions
+export interface SessionInfo {
+  // Public handle derived from the session ID; the ID itself is never listed
+  id: string;
+  userAgent?: string;
+  issuedAt: Date;
+  lastSeenAt: Date;
   expiresAt: Date;
+  // True for the session making the request
+  current: boolean;
 }
 
 // Request body for login
-export interface LoginRequest {
-  email: string;
-  password: string;
+export const LoginRequestSchema = v.object({
+  email: v.string({
+    trim: true,
+    min: 1,
+    max: 255,
+    pattern: EMAIL_PATTERN,
+    patternMessage: 'Please enter a valid email address',
+  }),
+  password: v.string({ min: 1, max: 100 }),
+});
+
+export type LoginRequest = Infer<typeof LoginRequestSchema>;
+
+// Request body for signup; the password rules only apply to new passwords
+export const SignupRequestSchema = v.object({
+  name: v.string({ trim: true, min: 1, max: 100 }),
+  email: v.string({
+    trim: true,
+    min: 1,
+    max: 255,
+    pattern: EMAIL_PATTERN,
+    patternMessage: 'Please enter a valid email address',
+  }),
+  password: v.string({ min: 8, max: 100 }),
+});
+
+export type SignupRequest = Infer<typeof SignupRequestSchema>;
+
+// Request body for emailing a magic link
+export const MagicLinkRequestSchema = v.object({
+  email: v.string({
+    trim: true,
+    min: 1,
+    max: 255,
+    pattern: EMAIL_PATTERN,
+    patternMessage: 'Please enter a valid email address',
+  }),
+});
+
+export type MagicLinkRequest = Infer<typeof MagicLinkRequestSchema>;
+
+// Request body for logging in with the token from a magic link
+export const MagicLinkVerifySchema = v.object({
+  token: v.string({ trim: true, min: 1, max: 100 }),
+});
+
+export type MagicLinkVerify = Infer<typeof MagicLinkVerifySchema>;
+
+// WebAuthn ceremony options in their JSON form: binary fields are
+// base64url strings, converted to ArrayBuffers by SessionProvider
+export interface PasskeyRegistrationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number;
+  attestation: 'none';
+  authenticatorSelection: {
+    residentKey: 'required';
+    userVerification: 'preferred';
+  };
+  // Passkeys the user already has, so the same authenticator isn't added twice
+  excludeCredentials: { type: 'public-key'; id: string; transports?: string[] }[];
+}
+
+export interface PasskeyLoginOptions {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: 'preferred';
 }
 
+const base64Url = (max: number) =>
+  v.string({
+    min: 1,
+    max,
+    pattern: /^[A-Za-z0-9_-]+$/,
+    patternMessage: 'Must be base64url encoded',
+  });
+
+// Request body for registering a passkey (the browser's attestation response)
+export const PasskeyRegistrationSchema = v.object({
+  id: base64Url(1024),
+  name: v.optional(v.string({ trim: true, min: 1, max: 100 })),
+  response: v.object({
+    clientDataJSON: base64Url(4096),
+    attestationObject: base64Url(16384),
+    transports: v.optional(v.array(v.string({ max: 32 }), { max: 10 })),
+  }),
+});
+
+export type PasskeyRegistration = Infer<typeof PasskeyRegistrationSchema>;
+
+// Request body for logging in with a passkey (the browser's assertion response)
+export const PasskeyLoginSchema = v.object({
+  id: base64Url(1024),
+  response: v.object({
+    clientDataJSON: base64Url(4096),
+    authenticatorData: base64Url(4096),
+    signature: base64Url(1024),
+    userHandle: v.optional(base64Url(256)),
+  }),
+});
+
+export type PasskeyLogin = Infer<typeof PasskeyLoginSchema>;
+
+// Request body for creating an API key
+export const CreateApiKeySchema = v.object({
+  name: v.string({ trim: true, min: 1, max: 100 }),
+  scopes: v.array(v.enum(PERMISSIONS), { max: PERMISSIONS.length }),
+  expiresInDays: v.optional(v.number({ integer: true, min: 1, max: 365 })),
+});
+
+export type CreateApiKeyRequest = Infer<typeof CreateApiKeySchema>;
+
+// Request body for refreshing or revoking token-mode tokens
+export const RefreshTokenSchema = v.object({
+  refreshToken: v.string({ min: 1, max: 256 }),
+});
+
+export type RefreshTokenRequest = Infer<typeof RefreshTokenSchema>;
+
+// Request body carrying a TOTP code or a recovery code
+export const MfaCodeSchema = v.object({
+  code: v.string({ trim: true, min: 1, max: 32 }),
+});
+
+export type MfaCode = Infer<typeof MfaCodeSchema>;
+
 // API Response types
 export interface SessionResponse {
   success: true;
@@ -43,46 +287,227 @@ export interface LogoutResponse {
   message: string;
 }
 
-export interface ErrorResponse {
-  success: false;
-  error: string;
+// Token mode: the session plus the tokens that replace its cookie
+export interface TokenResponse {
+  success: true;
+  data: Session;
+  tokens: {
+    accessToken: string;
+    refreshToken: string;
+    tokenType: 'Bearer';
+    expiresIn: number; // Seconds until accessToken expires
+  };
+}
+
+// Password (or magic link) accepted; POST the code to /api/auth/mfa/verify
+export interface MfaRequiredResponse {
+  success: true;
+  mfaRequired: true;
+}
+
+// Responses of the login routes, which may stop before the second factor
+export type LoginResponse = SessionResponse | TokenResponse | MfaRequiredResponse;
+
+export interface TotpSetupResponse {
+  success: true;
+  data: {
+    secret: string;
+    otpauthUri: string;
+  };
+}
+
+// Shown once; only their hashes are stored
+export interface TotpEnabledResponse {
+  success: true;
+  data: Session;
+  recoveryCodes: string[];
+}
+
+export interface PasskeyOptionsResponse<T> {
+  success: true;
+  data: T;
+}
+
+export interface PasskeyResponse {
+  success: true;
+  data: PasskeyInfo;
+}
+
+export interface ApiKeyListResponse {
+  success: true;
+  data: ApiKeyInfo[];
+}
+
+// The key itself is only returned here, when it is created
+export interface ApiKeyCreatedResponse {
+  success: true;
+  data: ApiKeyInfo;
+  key: string;
+}
+
+export interface PasskeyListResponse {
+  success: true;
+  data: PasskeyInfo[];
+}
+
+export interface MagicLinkResponse {
+  success: true;
   message: string;
 }
 
-export type ApiResponse = SessionResponse | LogoutResponse | ErrorResponse;
+export interface SessionListResponse {
+  success: true;
+  data: SessionInfo[];
+}
+
+export interface RevokeSessionsResponse {
+  success: true;
+  revoked: number;
+}
+
+// Shared error envelope returned by every endpoint
+export type ErrorResponse = ApiErrorResponse;
+
+export type ApiResponse =
+  | SessionResponse
+  | LogoutResponse
+  | TokenResponse
+  | MfaRequiredResponse
+  | TotpSetupResponse
+  | TotpEnabledResponse
+  | PasskeyOptionsResponse<PasskeyRegistrationOptions | PasskeyLoginOptions>
+  | PasskeyResponse
+  | PasskeyListResponse
+  | ApiKeyListResponse
+  | ApiKeyCreatedResponse
+  | MagicLinkResponse
+  | SessionListResponse
+  | RevokeSessionsResponse
+  | ErrorResponse;
+
+// Login throttling (see login-throttle.ts). Durations are in seconds.
+export interface LoginThrottleConfig {
+  maxAccountFailures: number; // Failures per email before it is locked
+  maxIpFailures: number; // Failures per client IP before it is locked
+  maxMfaFailures: number; // Wrong second-factor codes per user before it is locked
+  failureWindow: number; // How long failures are remembered after the last one
+  baseLockout: number; // First lockout; doubles with each further failure
+  maxLockout: number; // Upper bound for a single lockout
+}
+
+// A user's second-factor attempts, as stored in users.mfa_* (epoch ms)
+export interface MfaFailures {
+  failures: number;
+  lockedUntil: number; // 0 when not locked
+  expiresAt: number; // When the count starts over
+}
 
 // Session configuration
 export interface SessionConfig {
   cookieName: string;
-  sessionTTL: number; // Time to live in seconds
+  sessionTTL: number; // Idle timeout in seconds; extended on activity
+  maxSessionAge: number; // Absolute lifetime in seconds; never extended
+  touchInterval: number; // Minimum seconds between expiry extensions (limits KV writes)
+  accessTokenTTL: number; // Lifetime of token-mode access tokens in seconds (see tokens.ts)
   cookieOptions: {
     httpOnly: boolean;
     secure: boolean;
     sameSite: 'strict' | 'lax' | 'none';
     path: string;
   };
+  loginThrottle: LoginThrottleConfig;
 }
 
 // Default session configuration
 export const DEFAULT_SESSION_CONFIG: SessionConfig = {
   cookieName: 'session_id',
   sessionTTL: 60 * 60 * 24 * 7, // 7 days
+  maxSessionAge: 60 * 60 * 24 * 30, // 30 days
+  touchInterval: 60 * 60, // 1 hour
+  accessTokenTTL: 60 * 15, // 15 minutes
   cookieOptions: {
     httpOnly: true,
     secure: true,
     sameSite: 'lax',
     path: '/',
   },
+  loginThrottle: {
+    maxAccountFailures: 5,
+    maxIpFailures: 20, // Higher, since offices and mobile carriers share IPs
+    maxMfaFailures: 5,
+    failureWindow: 60 * 15, // 15 minutes
+    baseLockout: 60, // 1 minute
+    maxLockout: 60 * 60, // 1 hour
+  },
 };
 
 // Helper functions
+// Convert a database row to the client-facing User (drops the password hash)
+export function rowToUser(row: UserRow): User {
+  return {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    createdAt: new Date(row.created_at),
+    ...withPermissions(parseRoles(row.roles)),
+    mfaEnabled: Boolean(row.totp_secret),
+  };
+}
+
+function withPermissions(roles: Role[]): Pick<User, 'roles' | 'permissions'> {
+  return { roles, permissions: permissionsForRoles(roles) };
+}
+
+// Convert a database row to the client-facing PasskeyInfo
+export function rowToPasskey(row: PasskeyRow): PasskeyInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: new Date(row.created_at),
+    ...(row.last_used_at && { lastUsedAt: new Date(row.last_used_at) }),
+  };
+}
+
+// Convert a database row to the client-facing ApiKeyInfo
+export function rowToApiKey(row: ApiKeyRow): ApiKeyInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: parsePermissions(row.scopes),
+    createdAt: new Date(row.created_at),
+    ...(row.last_used_at && { lastUsedAt: new Date(row.last_used_at) }),
+    expiresAt: new Date(row.expires_at),
+  };
+}
+
+// Parse a JSON permissions column, dropping permissions this code doesn't know
+export function parsePermissions(value: string): Permission[] {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (Array.isArray(parsed)) {
+      return PERMISSIONS.filter((permission) => parsed.includes(permission));
+    }
+  } catch {
+    // Malformed values grant nothing
+  }
+
+  return [];
+}
+
 export function serializeSessionData(session: Session): SessionData {
   return {
     userId: session.user.id,
     email: session.user.email,
     name: session.user.name,
     createdAt: session.user.createdAt.toISOString(),
+    roles: session.user.roles,
+    mfaEnabled: session.user.mfaEnabled,
+    issuedAt: session.issuedAt.toISOString(),
+    lastSeenAt: session.lastSeenAt.toISOString(),
     expiresAt: session.expiresAt.toISOString(),
+    absoluteExpiresAt: session.absoluteExpiresAt.toISOString(),
+    ...(session.userAgent && { userAgent: session.userAgent }),
   };
 }
 
@@ -97,8 +522,36 @@ export function deserializeSessionData(
       email: data.email,
       name: data.name,
       createdAt: new Date(data.createdAt),
+      // Sessions stored before roles existed get the defaults
+      ...withPermissions(data.roles ?? DEFAULT_ROLES),
+      mfaEnabled: data.mfaEnabled ?? false,
     },
+    // Sessions stored before sliding expiry lack the newer fields
+    issuedAt: new Date(data.issuedAt ?? data.createdAt),
+    lastSeenAt: new Date(data.lastSeenAt ?? data.createdAt),
     expiresAt: new Date(data.expiresAt),
+    absoluteExpiresAt: new Date(data.absoluteExpiresAt ?? data.expiresAt),
+    userAgent: data.userAgent,
+  };
+}
+
+// Session for a verified access token. Roles are as of when the token
+// was issued; permissions are derived from them again.
+export function sessionFromAccessToken(claims: AccessTokenClaims): Session {
+  return {
+    sessionId: `token:${claims.sid}`,
+    user: {
+      id: claims.sub,
+      email: claims.email,
+      name: claims.name,
+      createdAt: new Date(claims.created_at),
+      ...withPermissions(parseRoles(JSON.stringify(claims.roles))),
+      mfaEnabled: claims.mfa_enabled,
+    },
+    issuedAt: new Date(claims.iat * 1000),
+    lastSeenAt: new Date(),
+    expiresAt: new Date(claims.exp * 1000),
+    absoluteExpiresAt: new Date(claims.exp * 1000),
   };
 }
 
@@ -122,7 +575,8 @@ export function serializeCookie(
 ): string {
   let cookie = `${name}=${encodeURIComponent(value)}`;
 
-  if (options.maxAge) {
+  // Max-Age=0 deletes the cookie, so 0 must be written too
+  if (options.maxAge !== undefined) {
     cookie += `; Max-Age=${options.maxAge}`;
   }
 
@@ -153,19 +607,3 @@ export function generateSessionId(): string {
   crypto.getRandomValues(array);
   return Array.from(array, (byte) => byte.toString(16).padStart(2, '0')).join('');
 }
-
-// Validation
-export function validateLoginRequest(data: unknown): data is LoginRequest {
-  if (typeof data !== 'object' || data === null) return false;
-
-  const obj = data as Record<string, unknown>;
-
-  return (
-    typeof obj.email === 'string' &&
-    obj.email.includes('@') &&
-    obj.email.length <= 255 &&
-    typeof obj.password === 'string' &&
-    obj.password.length >= 6 &&
-    obj.password.length <= 100
-  );
-}
@@ -16,11 +16,14 @@
  *
  *   return <div>Hello, {user.name}!</div>;
  * }
+ *
+ * Wrap admin-only UI in <RequireRole role="admin">.
  */
 
 /* eslint-disable react-refresh/only-export-components */
-import { useContext } from 'react';
+import { useContext, type ReactNode } from 'react';
 import { SessionContext } from './SessionProvider';
+import { hasRole, type Role } from './roles';
 
 export function useSession() {
   const context = useContext(SessionContext);
@@ -34,32 +37,92 @@ export function useSession() {
 
 /**
  * Example: Login Form Component
- * Demonstrates how to use the useSession hook
+ * Demonstrates how to use the useSession hook.
+ * Toggles to a signup form for creating an account, or to an "email me
+ * a link" form for passwordless login. Users with two-factor
+ * authentication get a code form after the first step.
  */
 import { useState, FormEvent } from 'react';
 
 export function LoginForm() {
-  const { login, isLoading, error } = useSession();
+  const {
+    login,
+    signup,
+    loginWithProvider,
+    requestMagicLink,
+    loginWithPasskey,
+    mfaRequired,
+    isLoading,
+    error,
+  } = useSession();
+  const [mode, setMode] = useState<'login' | 'signup' | 'magic-link'>('login');
+  const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [localError, setLocalError] = useState<string | null>(null);
+  // A failed OAuth login redirects back with ?oauth_error=<code>
+  const [localError, setLocalError] = useState<string | null>(() => {
+    const code = new URLSearchParams(window.location.search).get('oauth_error');
+    return code ? `Sign-in with your provider failed (${code})` : null;
+  });
+  // Confirmation after a magic link was sent
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const switchMode = (next: typeof mode) => {
+    setMode(next);
+    setLocalError(null);
+    setNotice(null);
+  };
 
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setLocalError(null);
+    setNotice(null);
 
     try {
-      await login(email, password);
-      // Login successful - SessionProvider will update state
+      if (mode === 'signup') {
+        await signup(name, email, password);
+      } else if (mode === 'magic-link') {
+        setNotice(await requestMagicLink(email));
+      } else {
+        await login(email, password);
+      }
+      // Success - SessionProvider will update state
     } catch (err) {
       setLocalError(err instanceof Error ? err.message : 'Login failed');
     }
   };
 
+  if (mfaRequired) {
+    return <MfaCodeForm />;
+  }
+
   return (
     <div style={{ maxWidth: '400px', margin: '0 auto', padding: '20px' }}>
-      <h2>Login</h2>
+      <h2>{mode === 'signup' ? 'Create Account' : 'Login'}</h2>
       <form onSubmit={handleSubmit}>
+        {mode === 'signup' && (
+          <div style={{ marginBottom: '15px' }}>
+            <label htmlFor="name" style={{ display: 'block', marginBottom: '5px' }}>
+              Name
+            </label>
+            <input
+              type="text"
+              id="name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              style={{
+                width: '100%',
+                padding: '8px',
+                fontSize: '16px',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+              }}
+              disabled={isLoading}
+            />
+          </div>
+        )}
+
         <div style={{ marginBottom: '15px' }}>
           <label htmlFor="email" style={{ display: 'block', marginBottom: '5px' }}>
             Email
@@ -81,16 +144,200 @@ export function LoginForm() {
           />
         </div>
 
+        {mode !== 'magic-link' && (
+          <div style={{ marginBottom: '15px' }}>
+            <label htmlFor="password" style={{ display: 'block', marginBottom: '5px' }}>
+              Password
+            </label>
+            <input
+              type="password"
+              id="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              minLength={mode === 'signup' ? 8 : undefined}
+              style={{
+                width: '100%',
+                padding: '8px',
+                fontSize: '16px',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+              }}
+              disabled={isLoading}
+            />
+          </div>
+        )}
+
+        {notice && (
+          <div
+            style={{
+              marginBottom: '15px',
+              padding: '10px',
+              backgroundColor: '#d4edda',
+              color: '#155724',
+              border: '1px solid #c3e6cb',
+              borderRadius: '4px',
+            }}
+          >
+            {notice}
+          </div>
+        )}
+
+        {(error || localError) && (
+          <div
+            style={{
+              marginBottom: '15px',
+              padding: '10px',
+              backgroundColor: '#f8d7da',
+              color: '#721c24',
+              border: '1px solid #f5c6cb',
+              borderRadius: '4px',
+            }}
+          >
+            {error || localError}
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={isLoading}
+          style={{
+            width: '100%',
+            padding: '10px',
+            fontSize: '16px',
+            backgroundColor: isLoading ? '#ccc' : '#007bff',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: isLoading ? 'not-allowed' : 'pointer',
+          }}
+        >
+          {isLoading
+            ? 'Please wait...'
+            : mode === 'signup'
+              ? 'Create Account'
+              : mode === 'magic-link'
+                ? 'Email me a link'
+                : 'Login'}
+        </button>
+      </form>
+
+      {mode !== 'signup' && (
+        <button
+          type="button"
+          onClick={() => switchMode(mode === 'magic-link' ? 'login' : 'magic-link')}
+          disabled={isLoading}
+          style={{
+            width: '100%',
+            marginTop: '10px',
+            padding: '10px',
+            fontSize: '16px',
+            backgroundColor: 'white',
+            color: '#333',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+            cursor: isLoading ? 'not-allowed' : 'pointer',
+          }}
+        >
+          {mode === 'magic-link' ? 'Use a password instead' : 'Email me a login link'}
+        </button>
+      )}
+
+      <button
+        type="button"
+        onClick={() => loginWithProvider('google')}
+        disabled={isLoading}
+        style={{
+          width: '100%',
+          marginTop: '10px',
+          padding: '10px',
+          fontSize: '16px',
+          backgroundColor: 'white',
+          color: '#333',
+          border: '1px solid #ccc',
+          borderRadius: '4px',
+          cursor: isLoading ? 'not-allowed' : 'pointer',
+        }}
+      >
+        Continue with Google
+      </button>
+
+      {mode !== 'signup' && (
+        <button
+          type="button"
+          onClick={() => loginWithPasskey().catch(() => {})}
+          disabled={isLoading}
+          style={{
+            width: '100%',
+            marginTop: '10px',
+            padding: '10px',
+            fontSize: '16px',
+            backgroundColor: 'white',
+            color: '#333',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+            cursor: isLoading ? 'not-allowed' : 'pointer',
+          }}
+        >
+          Sign in with a passkey
+        </button>
+      )}
+
+      <p style={{ marginTop: '20px', textAlign: 'center' }}>
+        {mode === 'signup' ? 'Already have an account?' : 'No account yet?'}{' '}
+        <button
+          type="button"
+          onClick={() => switchMode(mode === 'signup' ? 'login' : 'signup')}
+          style={{
+            background: 'none',
+            border: 'none',
+            color: '#007bff',
+            cursor: 'pointer',
+            padding: 0,
+            fontSize: 'inherit',
+          }}
+        >
+          {mode === 'signup' ? 'Log in' : 'Create one'}
+        </button>
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Second login step: TOTP code or recovery code
+ */
+function MfaCodeForm() {
+  const { verifyMfa, cancelMfa, isLoading, error } = useSession();
+  const [code, setCode] = useState('');
+
+  const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    try {
+      await verifyMfa(code);
+    } catch {
+      // Shown through `error`
+      setCode('');
+    }
+  };
+
+  return (
+    <div style={{ maxWidth: '400px', margin: '0 auto', padding: '20px' }}>
+      <h2>Two-Factor Authentication</h2>
+      <form onSubmit={handleSubmit}>
         <div style={{ marginBottom: '15px' }}>
-          <label htmlFor="password" style={{ display: 'block', marginBottom: '5px' }}>
-            Password
+          <label htmlFor="mfa-code" style={{ display: 'block', marginBottom: '5px' }}>
+            Code from your authenticator app, or a recovery code
           </label>
           <input
-            type="password"
-            id="password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
+            type="text"
+            id="mfa-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
             required
+            autoComplete="one-time-code"
+            autoFocus
             style={{
               width: '100%',
               padding: '8px',
@@ -102,7 +349,7 @@ export function LoginForm() {
           />
         </div>
 
-        {(error || localError) && (
+        {error && (
           <div
             style={{
               marginBottom: '15px',
@@ -113,7 +360,7 @@ export function LoginForm() {
               borderRadius: '4px',
             }}
           >
-            {error || localError}
+            {error}
           </div>
         )}
 
@@ -131,17 +378,184 @@ export function LoginForm() {
             cursor: isLoading ? 'not-allowed' : 'pointer',
           }}
         >
-          {isLoading ? 'Logging in...' : 'Login'}
+          {isLoading ? 'Please wait...' : 'Verify'}
         </button>
       </form>
 
-      <div style={{ marginTop: '20px', padding: '10px', backgroundColor: '#f8f9fa', borderRadius: '4px' }}>
-        <strong>Demo Credentials:</strong>
-        <br />
-        Email: demo@example.com
-        <br />
-        Password: password123
-      </div>
+      <p style={{ marginTop: '20px', textAlign: 'center' }}>
+        <button
+          type="button"
+          onClick={cancelMfa}
+          style={{
+            background: 'none',
+            border: 'none',
+            color: '#007bff',
+            cursor: 'pointer',
+            padding: 0,
+            fontSize: 'inherit',
+          }}
+        >
+          Back to login
+        </button>
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Example: Two-Factor Settings
+ * Enroll in TOTP (secret + otpauth URI, first code, recovery codes) or
+ * turn it off. Render the URI as a QR code with a library such as
+ * `qrcode` for easier scanning.
+ */
+export function TwoFactorSettings() {
+  const { user, setupTotp, confirmTotp, disableTotp } = useSession();
+  const [setup, setSetup] = useState<{ secret: string; otpauthUri: string } | null>(
+    null
+  );
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [localError, setLocalError] = useState<string | null>(null);
+
+  if (!user) {
+    return null;
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setLocalError(null);
+
+    try {
+      await action();
+      setCode('');
+    } catch (err) {
+      setLocalError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const codeInput = (
+    <input
+      type="text"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      placeholder="123456"
+      autoComplete="one-time-code"
+      style={{
+        padding: '8px',
+        fontSize: '16px',
+        border: '1px solid #ccc',
+        borderRadius: '4px',
+        marginRight: '10px',
+      }}
+      disabled={busy}
+    />
+  );
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <h3>Two-Factor Authentication</h3>
+
+      {recoveryCodes ? (
+        <div>
+          <p>
+            Two-factor authentication is on. Save these recovery codes somewhere
+            safe; each works once if you lose your authenticator. They won't be
+            shown again.
+          </p>
+          <pre>{recoveryCodes.join('\n')}</pre>
+          <button type="button" onClick={() => setRecoveryCodes(null)}>
+            I've saved them
+          </button>
+        </div>
+      ) : user.mfaEnabled ? (
+        <div>
+          <p>On. Enter a code to turn it off.</p>
+          {codeInput}
+          <button
+            type="button"
+            disabled={busy || !code}
+            onClick={() => run(() => disableTotp(code))}
+          >
+            Turn off
+          </button>
+        </div>
+      ) : setup ? (
+        <div>
+          <p>
+            Add this account to your authenticator app, then enter the code it
+            shows.
+          </p>
+          <p>
+            <a href={setup.otpauthUri}>Open in authenticator app</a> or enter the
+            key manually: <code>{setup.secret}</code>
+          </p>
+          {codeInput}
+          <button
+            type="button"
+            disabled={busy || !code}
+            onClick={() =>
+              run(async () => {
+                setRecoveryCodes(await confirmTotp(code));
+                setSetup(null);
+              })
+            }
+          >
+            Confirm
+          </button>
+        </div>
+      ) : (
+        <div>
+          <p>Off. Protect your account with a code from an authenticator app.</p>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => run(async () => setSetup(await setupTotp()))}
+          >
+            Set up
+          </button>
+        </div>
+      )}
+
+      {localError && <p style={{ color: '#721c24' }}>{localError}</p>}
+    </div>
+  );
+}
+
+/**
+ * Example: Passkey Settings
+ * Adds a passkey for the logged-in user, who can then sign in with it
+ * instead of a password.
+ */
+export function PasskeySettings() {
+  const { registerPasskey } = useSession();
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleAdd = async () => {
+    setBusy(true);
+    setMessage(null);
+
+    try {
+      const passkey = await registerPasskey();
+      setMessage(`Added "${passkey.name}". You can now sign in with it.`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Could not add passkey');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <h3>Passkeys</h3>
+      <p>Sign in with your fingerprint, face or device PIN instead of a password.</p>
+      <button type="button" onClick={handleAdd} disabled={busy}>
+        {busy ? 'Waiting for your device...' : 'Add a passkey'}
+      </button>
+      {message && <p>{message}</p>}
     </div>
   );
 }
@@ -173,8 +587,15 @@ export function ProtectedComponent() {
         <p>
           <strong>Member Since:</strong> {user.createdAt.toLocaleDateString()}
         </p>
+        <p>
+          <strong>Roles:</strong> {user.roles.join(', ')}
+        </p>
       </div>
 
+      <TwoFactorSettings />
+
+      <PasskeySettings />
+
       <button
         onClick={logout}
         disabled={isLoading}
@@ -194,6 +615,55 @@ export function ProtectedComponent() {
   );
 }
 
+interface RequireRoleProps {
+  role: Role;
+  children: ReactNode;
+  // Shown to logged-in users without the role
+  fallback?: ReactNode;
+}
+
+/**
+ * Example: Role-Gated Component
+ * Renders children only for users with the given role. This only hides UI;
+ * the matching API routes must still be guarded with requireRole or
+ * requirePermission in the Worker.
+ *
+ * <RequireRole role="admin">
+ *   <ContactList />
+ * </RequireRole>
+ */
+export function RequireRole({ role, children, fallback }: RequireRoleProps) {
+  const { user, isLoading } = useSession();
+
+  if (isLoading) {
+    return <div style={{ textAlign: 'center', padding: '40px' }}>Loading...</div>;
+  }
+
+  if (!user) {
+    return <LoginForm />;
+  }
+
+  if (!hasRole(user, role)) {
+    return (
+      fallback ?? (
+        <div
+          style={{
+            maxWidth: '400px',
+            margin: '0 auto',
+            padding: '20px',
+            textAlign: 'center',
+            color: '#721c24',
+          }}
+        >
+          You need the {role} role to view this page.
+        </div>
+      )
+    );
+  }
+
+  return <>{children}</>;
+}
+
 /**
  * Example: Conditional Rendering Based on Auth
  */
@@ -0,0 +1,69 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { UserStore } from './user-store';
+import { rowToUser } from './types';
+import { ConflictError } from '../../../worker/errors';
+
+const users = new UserStore(env.DB);
+
+describe('UserStore', () => {
+  it('creates users with the default role', async () => {
+    const row = await users.create({ email: 'ada@example.com', name: 'Ada' });
+    const user = rowToUser(row);
+
+    expect(user.roles).toEqual(['user']);
+    expect(user.permissions).not.toContain('contacts:read');
+    expect(row.password_hash).toBe('');
+  });
+
+  it('stores emails lowercased and finds them case-insensitively', async () => {
+    const row = await users.create({ email: 'Grace@Example.COM', name: 'Grace' });
+
+    expect(row.email).toBe('grace@example.com');
+    expect((await users.findByEmail('GRACE@example.com'))?.id).toBe(row.id);
+  });
+
+  it('rejects a second account with the same email', async () => {
+    await users.create({ email: 'taken@example.com', name: 'First' });
+
+    const error = await users
+      .create({ email: 'TAKEN@example.com', name: 'Second' })
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect((error as ConflictError).code).toBe('EMAIL_TAKEN');
+  });
+
+  it('links an OAuth identity to one user only', async () => {
+    const first = await users.create({ email: 'first@example.com', name: 'First' });
+    const second = await users.create({ email: 'second@example.com', name: 'Second' });
+    const account = { provider: 'google', subject: 'sub-1' };
+
+    await users.linkOAuthAccount(first.id, account);
+    expect((await users.findByOAuthAccount('google', 'sub-1'))?.id).toBe(first.id);
+
+    const error = await users
+      .linkOAuthAccount(second.id, account)
+      .catch((error: unknown) => error);
+
+    expect((error as ConflictError).code).toBe('OAUTH_ACCOUNT_LINKED');
+  });
+
+  it('accepts each TOTP time step once, and no earlier one', async () => {
+    const row = await users.create({ email: 'totp@example.com', name: 'TOTP' });
+    await users.enableTotp(row.id, { secret: 'secret', step: 100, recoveryCodeHashes: [] });
+
+    expect(await users.useTotpStep(row.id, 100)).toBe(false);
+    expect(await users.useTotpStep(row.id, 101)).toBe(true);
+    expect(await users.useTotpStep(row.id, 101)).toBe(false);
+  });
+
+  it('uses each recovery code once', async () => {
+    const row = await users.create({ email: 'codes@example.com', name: 'Codes' });
+    await users.enableTotp(row.id, { secret: 'secret', step: 1, recoveryCodeHashes: ['hash'] });
+
+    expect(await users.useRecoveryCode(row.id, 'hash')).toBe(true);
+    expect(await users.useRecoveryCode(row.id, 'hash')).toBe(false);
+    expect(await users.useRecoveryCode(row.id, 'other')).toBe(false);
+  });
+});
@@ -0,0 +1,477 @@
+/**
+ * D1 User Store
+ *
+ * Reads and writes user accounts in the `users` table, their linked
+ * OAuth identities in `oauth_accounts`, their TOTP recovery codes in
+ * `mfa_recovery_codes`, their WebAuthn credentials in `passkeys` and
+ * their hashed API keys in `api_keys`.
+ * Emails are lowercased here so signup and login always agree.
+ *
+ * Prerequisites:
+ * 1. D1 database configured in wrangler.jsonc as:
+ *    [[d1_databases]]
+ *    binding = "DB"
+ *    database_name = "your-database-name"
+ *    database_id = "your-database-id"
+ *
+ * 2. Run migrations:
+ *    npx wrangler d1 migrations apply your-database-name --local (for local dev)
+ *    npx wrangler d1 migrations apply your-database-name (for production)
+ */
+
+import type { Permission } from './roles';
+import type { ApiKeyRow, MfaFailures, PasskeyRow, UserRow } from './types';
+import { ConflictError } from '../../../worker/errors';
+
+export class UserStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  /**
+   * Find a user by email (case-insensitive)
+   */
+  async findByEmail(email: string): Promise<UserRow | null> {
+    return this.db
+      .prepare('SELECT * FROM users WHERE email = ?')
+      .bind(email.toLowerCase())
+      .first<UserRow>();
+  }
+
+  /**
+   * Find a user by ID
+   */
+  async findById(id: string): Promise<UserRow | null> {
+    return this.db
+      .prepare('SELECT * FROM users WHERE id = ?')
+      .bind(id)
+      .first<UserRow>();
+  }
+
+  /**
+   * Find the user linked to an OAuth identity
+   */
+  async findByOAuthAccount(
+    provider: string,
+    subject: string
+  ): Promise<UserRow | null> {
+    return this.db
+      .prepare(
+        `SELECT users.* FROM users
+         JOIN oauth_accounts ON oauth_accounts.user_id = users.id
+         WHERE oauth_accounts.provider = ? AND oauth_accounts.subject = ?`
+      )
+      .bind(provider, subject)
+      .first<UserRow>();
+  }
+
+  /**
+   * Create a user. Throws ConflictError if the email is already registered.
+   * Users created through OAuth have no password; their empty hash never
+   * verifies, so password login stays closed until they set one.
+   * Pass `emailVerified` when the caller has proved the address.
+   */
+  async create(user: {
+    email: string;
+    name: string;
+    passwordHash?: string;
+    emailVerified?: boolean;
+  }): Promise<UserRow> {
+    const id = crypto.randomUUID();
+
+    try {
+      await this.db
+        .prepare(
+          `INSERT INTO users (id, email, name, password_hash, email_verified_at)
+           VALUES (?, ?, ?, ?, CASE WHEN ? THEN CURRENT_TIMESTAMP END)`
+        )
+        .bind(
+          id,
+          user.email.toLowerCase(),
+          user.name,
+          user.passwordHash ?? '',
+          user.emailVerified ? 1 : 0
+        )
+        .run();
+    } catch (error) {
+      // The unique index on email is the source of truth for duplicates
+      if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+        throw new ConflictError(
+          'An account with this email already exists',
+          'EMAIL_TAKEN'
+        );
+      }
+      throw error;
+    }
+
+    const row = await this.findById(id);
+
+    if (!row) {
+      throw new Error('Failed to retrieve created user');
+    }
+
+    return row;
+  }
+
+  /**
+   * Mark the user's email as verified. If it wasn't, whoever signed up
+   * with the address never proved they own it, so every way in they may
+   * have set up (password, TOTP, passkeys, API keys, linked identities)
+   * is removed in the same transaction. Returns true in that case; the
+   * caller should also end the user's sessions.
+   */
+  async claimEmail(userId: string): Promise<boolean> {
+    const unverified =
+      'user_id = ?1 AND (SELECT email_verified_at FROM users WHERE id = ?1) IS NULL';
+
+    const results = await this.db.batch([
+      ...['oauth_accounts', 'mfa_recovery_codes', 'passkeys', 'api_keys'].map(
+        (table) =>
+          this.db.prepare(`DELETE FROM ${table} WHERE ${unverified}`).bind(userId)
+      ),
+      this.db
+        .prepare(
+          `UPDATE users SET email_verified_at = CURRENT_TIMESTAMP, password_hash = '',
+             totp_secret = NULL, totp_last_step = NULL
+           WHERE id = ? AND email_verified_at IS NULL`
+        )
+        .bind(userId),
+    ]);
+
+    // Not === 1: D1 also counts the updated_at trigger's write
+    return results[results.length - 1].meta.changes > 0;
+  }
+
+  /**
+   * Link an OAuth identity to a user.
+   * Throws ConflictError if the identity already belongs to someone.
+   */
+  async linkOAuthAccount(
+    userId: string,
+    account: { provider: string; subject: string; email?: string }
+  ): Promise<void> {
+    try {
+      await this.db
+        .prepare(
+          'INSERT INTO oauth_accounts (provider, subject, user_id, email) VALUES (?, ?, ?, ?)'
+        )
+        .bind(account.provider, account.subject, userId, account.email ?? null)
+        .run();
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+        throw new ConflictError(
+          'This sign-in is already linked to another account',
+          'OAUTH_ACCOUNT_LINKED'
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Turn on TOTP with a confirmed secret, replacing any recovery codes.
+   * `step` is the time step of the code that confirmed enrollment.
+   */
+  async enableTotp(
+    userId: string,
+    totp: { secret: string; step: number; recoveryCodeHashes: string[] }
+  ): Promise<void> {
+    await this.db.batch([
+      this.db
+        .prepare('UPDATE users SET totp_secret = ?, totp_last_step = ? WHERE id = ?')
+        .bind(totp.secret, totp.step, userId),
+      this.db
+        .prepare('DELETE FROM mfa_recovery_codes WHERE user_id = ?')
+        .bind(userId),
+      ...totp.recoveryCodeHashes.map((hash) =>
+        this.db
+          .prepare('INSERT INTO mfa_recovery_codes (user_id, code_hash) VALUES (?, ?)')
+          .bind(userId, hash)
+      ),
+    ]);
+  }
+
+  /**
+   * Turn off TOTP and delete the recovery codes
+   */
+  async disableTotp(userId: string): Promise<void> {
+    await this.db.batch([
+      this.db
+        .prepare(
+          'UPDATE users SET totp_secret = NULL, totp_last_step = NULL WHERE id = ?'
+        )
+        .bind(userId),
+      this.db
+        .prepare('DELETE FROM mfa_recovery_codes WHERE user_id = ?')
+        .bind(userId),
+    ]);
+  }
+
+  /**
+   * Record a used TOTP time step. Returns false if this or a later step
+   * was already used, so each code works once even under concurrent requests.
+   */
+  async useTotpStep(userId: string, step: number): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        `UPDATE users SET totp_last_step = ?
+         WHERE id = ? AND (totp_last_step IS NULL OR totp_last_step < ?)`
+      )
+      .bind(step, userId, step)
+      .run();
+
+    // Not === 1: D1 also counts the updated_at trigger's write
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Replace the user's second-factor attempt count, but only if it still
+   * holds `current`. Returns false if another request changed it first.
+   */
+  async updateMfaFailures(
+    userId: string,
+    current: MfaFailures,
+    next: MfaFailures
+  ): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        `UPDATE users SET mfa_failures = ?, mfa_locked_until = ?, mfa_failures_expire_at = ?
+         WHERE id = ? AND mfa_failures = ? AND mfa_locked_until = ? AND mfa_failures_expire_at = ?`
+      )
+      .bind(
+        next.failures,
+        next.lockedUntil,
+        next.expiresAt,
+        userId,
+        current.failures,
+        current.lockedUntil,
+        current.expiresAt
+      )
+      .run();
+
+    // Not === 1: D1 also counts the updated_at trigger's write
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Forget the user's second-factor attempts after a correct code
+   */
+  async resetMfaFailures(userId: string): Promise<void> {
+    await this.db
+      .prepare(
+        `UPDATE users SET mfa_failures = 0, mfa_locked_until = 0, mfa_failures_expire_at = 0
+         WHERE id = ?`
+      )
+      .bind(userId)
+      .run();
+  }
+
+  /**
+   * Mark a recovery code used. Returns false if it doesn't exist or was
+   * already used.
+   */
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        `UPDATE mfa_recovery_codes SET used_at = CURRENT_TIMESTAMP
+         WHERE user_id = ? AND code_hash = ? AND used_at IS NULL`
+      )
+      .bind(userId, codeHash)
+      .run();
+
+    return result.meta.changes === 1;
+  }
+
+  /**
+   * List a user's passkeys, newest first
+   */
+  async listPasskeys(userId: string): Promise<PasskeyRow[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM passkeys WHERE user_id = ? ORDER BY created_at DESC')
+      .bind(userId)
+      .all<PasskeyRow>();
+
+    return results;
+  }
+
+  /**
+   * Find a passkey by credential ID
+   */
+  async findPasskey(id: string): Promise<PasskeyRow | null> {
+    return this.db
+      .prepare('SELECT * FROM passkeys WHERE id = ?')
+      .bind(id)
+      .first<PasskeyRow>();
+  }
+
+  /**
+   * Store a newly registered passkey.
+   * Throws ConflictError if the credential is already registered.
+   */
+  async addPasskey(
+    userId: string,
+    passkey: {
+      id: string;
+      name: string;
+      publicKey: JsonWebKey;
+      algorithm: number;
+      signCount: number;
+      transports?: string[];
+    }
+  ): Promise<PasskeyRow> {
+    try {
+      await this.db
+        .prepare(
+          `INSERT INTO passkeys (id, user_id, name, public_key, algorithm, sign_count, transports)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          passkey.id,
+          userId,
+          passkey.name,
+          JSON.stringify(passkey.publicKey),
+          passkey.algorithm,
+          passkey.signCount,
+          passkey.transports ? JSON.stringify(passkey.transports) : null
+        )
+        .run();
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+        throw new ConflictError(
+          'This passkey is already registered',
+          'PASSKEY_EXISTS'
+        );
+      }
+      throw error;
+    }
+
+    const row = await this.findPasskey(passkey.id);
+
+    if (!row) {
+      throw new Error('Failed to retrieve created passkey');
+    }
+
+    return row;
+  }
+
+  /**
+   * Record a successful login with a passkey
+   */
+  async updatePasskeyUsage(id: string, signCount: number): Promise<void> {
+    await this.db
+      .prepare(
+        'UPDATE passkeys SET sign_count = ?, last_used_at = CURRENT_TIMESTAMP WHERE id = ?'
+      )
+      .bind(signCount, id)
+      .run();
+  }
+
+  /**
+   * Delete one of a user's passkeys. Returns false if the user has no
+   * passkey with this ID.
+   */
+  async deletePasskey(userId: string, id: string): Promise<boolean> {
+    const result = await this.db
+      .prepare('DELETE FROM passkeys WHERE id = ? AND user_id = ?')
+      .bind(id, userId)
+      .run();
+
+    return result.meta.changes === 1;
+  }
+
+  /**
+   * List a user's API keys, newest first
+   */
+  async listApiKeys(userId: string): Promise<ApiKeyRow[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM api_keys WHERE user_id = ? ORDER BY created_at DESC')
+      .bind(userId)
+      .all<ApiKeyRow>();
+
+    return results;
+  }
+
+  /**
+   * Find an API key and its owner by the key's hash
+   */
+  async findApiKeyByHash(
+    keyHash: string
+  ): Promise<{ key: ApiKeyRow; user: UserRow } | null> {
+    const key = await this.db
+      .prepare('SELECT * FROM api_keys WHERE key_hash = ?')
+      .bind(keyHash)
+      .first<ApiKeyRow>();
+
+    const user = key && (await this.findById(key.user_id));
+
+    return key && user ? { key, user } : null;
+  }
+
+  /**
+   * Store a new API key for a user
+   */
+  async createApiKey(
+    userId: string,
+    apiKey: {
+      name: string;
+      prefix: string;
+      keyHash: string;
+      scopes: Permission[];
+      expiresAt: Date;
+    }
+  ): Promise<ApiKeyRow> {
+    const id = crypto.randomUUID();
+
+    await this.db
+      .prepare(
+        `INSERT INTO api_keys (id, user_id, name, prefix, key_hash, scopes, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        id,
+        userId,
+        apiKey.name,
+        apiKey.prefix,
+        apiKey.keyHash,
+        JSON.stringify(apiKey.scopes),
+        apiKey.expiresAt.toISOString()
+      )
+      .run();
+
+    const row = await this.db
+      .prepare('SELECT * FROM api_keys WHERE id = ?')
+      .bind(id)
+      .first<ApiKeyRow>();
+
+    if (!row) {
+      throw new Error('Failed to retrieve created API key');
+    }
+
+    return row;
+  }
+
+  /**
+   * Record that an API key was used
+   */
+  async touchApiKey(id: string): Promise<void> {
+    await this.db
+      .prepare('UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?')
+      .bind(id)
+      .run();
+  }
+
+  /**
+   * Delete (revoke) one of a user's API keys. Returns false if the user
+   * has no key with this ID.
+   */
+  async deleteApiKey(userId: string, id: string): Promise<boolean> {
+    const result = await this.db
+      .prepare('DELETE FROM api_keys WHERE id = ? AND user_id = ?')
+      .bind(id, userId)
+      .run();
+
+    return result.meta.changes === 1;
+  }
+}
@@ -0,0 +1,70 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { toBase64Url } from './base64url';
+import { consumeChallenge, getRelyingParty, verifyAuthentication } from './webauthn';
+import { UnauthorizedError } from '../../../worker/errors';
+
+const rp = getRelyingParty(new URL('https://example.com/'));
+
+const clientData = {
+  type: 'webauthn.get',
+  challenge: 'challenge',
+  origin: rp.origin,
+};
+
+const credential = {
+  publicKey: { kty: 'EC', crv: 'P-256' } satisfies JsonWebKey,
+  algorithm: -7, // ES256
+  signCount: 0,
+};
+
+// Authenticator data for the relying party with the user-present flag set
+async function authenticatorData(): Promise<string> {
+  const rpIdHash = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(rp.id))
+  );
+  const bytes = new Uint8Array(37);
+  bytes.set(rpIdHash);
+  bytes[32] = 0x01;
+
+  return toBase64Url(bytes);
+}
+
+describe('verifyAuthentication', () => {
+  it.each(['authenticatorData', 'clientDataJSON', 'signature'] as const)(
+    'rejects a malformed %s as a failed login',
+    async (field) => {
+      const response = {
+        clientDataJSON: toBase64Url(new TextEncoder().encode(JSON.stringify(clientData))),
+        authenticatorData: await authenticatorData(),
+        signature: 'AAAA',
+        [field]: 'not base64!',
+      };
+
+      const error = await verifyAuthentication(clientData, response, credential, rp).catch(
+        (error: unknown) => error
+      );
+
+      expect(error).toBeInstanceOf(UnauthorizedError);
+      expect((error as UnauthorizedError).code).toBe('PASSKEY_LOGIN_FAILED');
+      expect((error as UnauthorizedError).message).toMatch('malformed assertion');
+    }
+  );
+});
+
+describe('consumeChallenge', () => {
+  it.each(['null', '42', '"text"', '{}', '{"challenge":1}'])(
+    'rejects client data of %s as a failed login',
+    async (json) => {
+      const error = await consumeChallenge(
+        env.SESSIONS,
+        toBase64Url(new TextEncoder().encode(json)),
+        'authentication'
+      ).catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(UnauthorizedError);
+      expect((error as UnauthorizedError).code).toBe('PASSKEY_LOGIN_FAILED');
+      expect((error as UnauthorizedError).message).toMatch('malformed client data');
+    }
+  );
+});
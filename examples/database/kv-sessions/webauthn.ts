@@ -0,0 +1,485 @@
+/**
+ * WebAuthn (Passkeys)
+ *
+ * Server side of the registration and authentication ceremonies for
+ * passkey-endpoints.ts, using only WebCrypto. Covers what a relying party
+ * needs for passkeys:
+ * - Challenges: random, single-use, kept in KV for 5 minutes
+ * - Registration: checks the client data and authenticator data, then
+ *   extracts the credential's public key from the attestation object
+ * - Authentication: checks the assertion signature with the stored key
+ *   and the signature counter
+ *
+ * Registration requests `attestation: 'none'`, so attestation statements
+ * are not verified: any authenticator is accepted, and the public key is
+ * trusted because it was registered by a logged-in user.
+ *
+ * Supported algorithms: ES256 (-7) and RS256 (-257), which between them
+ * cover platform authenticators and security keys.
+ */
+
+import { fromBase64Url, toBase64Url } from './base64url';
+import { ApiError, UnauthorizedError } from '../../../worker/errors';
+
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_RS256 = -257;
+
+// Offered in registration options, most preferred first
+export const SUPPORTED_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_RS256];
+
+export interface RelyingParty {
+  // Domain the passkeys are bound to
+  id: string;
+  name: string;
+  // Expected origin of the page running the ceremony
+  origin: string;
+}
+
+export type Ceremony = 'registration' | 'authentication';
+
+interface ChallengeRecord {
+  ceremony: Ceremony;
+  // Set for registration: the logged-in user adding a passkey
+  userId?: string;
+}
+
+interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+}
+
+interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  userPresent: boolean;
+  userVerified: boolean;
+  signCount: number;
+  // Only present during registration
+  credential?: {
+    id: Uint8Array;
+    publicKey: Map<number, unknown>;
+  };
+}
+
+export interface RegisteredCredential {
+  id: string;
+  publicKey: JsonWebKey;
+  algorithm: number;
+  signCount: number;
+}
+
+const CHALLENGE_PREFIX = 'webauthn_challenge:';
+const CHALLENGE_TTL = 60 * 5; // 5 minutes
+
+// Browser timeout for the ceremony, in milliseconds
+export const CEREMONY_TIMEOUT = CHALLENGE_TTL * 1000;
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+/**
+ * Relying party for a request. Passkeys are bound to the hostname, so
+ * they keep working across ports and paths but not across domains.
+ */
+export function getRelyingParty(url: URL): RelyingParty {
+  return { id: url.hostname, name: url.hostname, origin: url.origin };
+}
+
+function verificationError(ceremony: Ceremony, reason: string): ApiError {
+  return ceremony === 'registration'
+    ? new ApiError(
+        400,
+        'PASSKEY_REGISTRATION_FAILED',
+        `Passkey registration failed: ${reason}`
+      )
+    : new UnauthorizedError(`Passkey login failed: ${reason}`, 'PASSKEY_LOGIN_FAILED');
+}
+
+/**
+ * Create and store a challenge for one ceremony
+ */
+export async function createChallenge(
+  kv: KVNamespace,
+  record: ChallengeRecord
+): Promise<string> {
+  const challenge = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+  await kv.put(CHALLENGE_PREFIX + challenge, JSON.stringify(record), {
+    expirationTtl: CHALLENGE_TTL,
+  });
+
+  return challenge;
+}
+
+/**
+ * Parse the client data and use up the challenge it answers.
+ * Fails unless the challenge was issued for this ceremony (and user).
+ */
+export async function consumeChallenge(
+  kv: KVNamespace,
+  clientDataJSON: string,
+  ceremony: Ceremony,
+  userId?: string
+): Promise<ClientData> {
+  let clientData: ClientData | null;
+  try {
+    clientData = JSON.parse(new TextDecoder().decode(fromBase64Url(clientDataJSON)));
+  } catch {
+    clientData = null;
+  }
+
+  // Valid JSON isn't necessarily an object: `null`, a number
+  if (typeof clientData?.challenge !== 'string') {
+    throw verificationError(ceremony, 'malformed client data');
+  }
+
+  const key = CHALLENGE_PREFIX + clientData.challenge;
+  const record = await kv.get<ChallengeRecord>(key, 'json');
+
+  if (!record || record.ceremony !== ceremony || record.userId !== userId) {
+    throw verificationError(ceremony, 'unknown or expired challenge');
+  }
+
+  await kv.delete(key);
+  return clientData;
+}
+
+function checkClientData(
+  clientData: ClientData,
+  ceremony: Ceremony,
+  rp: RelyingParty
+): void {
+  const expectedType = ceremony === 'registration' ? 'webauthn.create' : 'webauthn.get';
+
+  if (clientData.type !== expectedType) {
+    throw verificationError(ceremony, 'wrong client data type');
+  }
+  if (clientData.origin !== rp.origin || clientData.crossOrigin) {
+    throw verificationError(ceremony, 'wrong origin');
+  }
+}
+
+async function checkAuthenticatorData(
+  authData: AuthenticatorData,
+  ceremony: Ceremony,
+  rp: RelyingParty
+): Promise<void> {
+  const expected = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(rp.id))
+  );
+
+  if (!bytesEqual(authData.rpIdHash, expected)) {
+    throw verificationError(ceremony, 'wrong relying party');
+  }
+  if (!authData.userPresent) {
+    throw verificationError(ceremony, 'user not present');
+  }
+}
+
+/**
+ * Verify a registration response and return the new credential
+ */
+export async function verifyRegistration(
+  clientData: ClientData,
+  response: { id: string; attestationObject: string },
+  rp: RelyingParty
+): Promise<RegisteredCredential> {
+  checkClientData(clientData, 'registration', rp);
+
+  let authData: AuthenticatorData;
+  try {
+    const attestation = decodeCbor(fromBase64Url(response.attestationObject));
+    if (!(attestation instanceof Map) || !(attestation.get('authData') instanceof Uint8Array)) {
+      throw new Error('missing authData');
+    }
+    authData = parseAuthenticatorData(attestation.get('authData') as Uint8Array);
+  } catch {
+    throw verificationError('registration', 'malformed attestation object');
+  }
+
+  await checkAuthenticatorData(authData, 'registration', rp);
+
+  if (!authData.credential) {
+    throw verificationError('registration', 'no credential in authenticator data');
+  }
+
+  const id = toBase64Url(authData.credential.id);
+  if (id !== response.id) {
+    throw verificationError('registration', 'credential ID mismatch');
+  }
+
+  const { jwk, algorithm } = coseToJwk(authData.credential.publicKey);
+
+  return { id, publicKey: jwk, algorithm, signCount: authData.signCount };
+}
+
+/**
+ * Verify an authentication assertion against a stored credential.
+ * Returns the new signature counter and whether the user was verified
+ * (PIN or biometric) rather than just present.
+ */
+export async function verifyAuthentication(
+  clientData: ClientData,
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+  },
+  credential: { publicKey: JsonWebKey; algorithm: number; signCount: number },
+  rp: RelyingParty
+): Promise<{ signCount: number; userVerified: boolean }> {
+  checkClientData(clientData, 'authentication', rp);
+
+  // Decode everything up front, so a malformed field is a failed
+  // verification rather than an unexpected error
+  let authDataBytes: Uint8Array<ArrayBuffer>;
+  let clientDataBytes: Uint8Array<ArrayBuffer>;
+  let signature: Uint8Array<ArrayBuffer>;
+  let authData: AuthenticatorData;
+  try {
+    authDataBytes = fromBase64Url(response.authenticatorData);
+    clientDataBytes = fromBase64Url(response.clientDataJSON);
+    signature = fromBase64Url(response.signature);
+    authData = parseAuthenticatorData(authDataBytes);
+  } catch {
+    throw verificationError('authentication', 'malformed assertion');
+  }
+
+  await checkAuthenticatorData(authData, 'authentication', rp);
+
+  // Signed data: authenticatorData || SHA-256(clientDataJSON)
+  const clientDataHash = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', clientDataBytes)
+  );
+  const signed = new Uint8Array(authDataBytes.length + clientDataHash.length);
+  signed.set(authDataBytes);
+  signed.set(clientDataHash, authDataBytes.length);
+
+  const valid = await verifySignature(credential, signature, signed);
+  if (!valid) {
+    throw verificationError('authentication', 'bad signature');
+  }
+
+  // Counters only ever increase; going backwards suggests a cloned
+  // authenticator. Many passkeys always report 0, which is allowed.
+  if (
+    (authData.signCount > 0 || credential.signCount > 0) &&
+    authData.signCount <= credential.signCount
+  ) {
+    throw verificationError('authentication', 'signature counter did not increase');
+  }
+
+  return { signCount: authData.signCount, userVerified: authData.userVerified };
+}
+
+async function verifySignature(
+  credential: { publicKey: JsonWebKey; algorithm: number },
+  signature: Uint8Array<ArrayBuffer>,
+  data: Uint8Array<ArrayBuffer>
+): Promise<boolean> {
+  try {
+    if (credential.algorithm === COSE_ALG_ES256) {
+      const key = await crypto.subtle.importKey(
+        'jwk',
+        credential.publicKey,
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false,
+        ['verify']
+      );
+      // WebAuthn ECDSA signatures are DER; WebCrypto wants raw r || s
+      return await crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        key,
+        derToRawSignature(signature),
+        data
+      );
+    }
+
+    if (credential.algorithm === COSE_ALG_RS256) {
+      const key = await crypto.subtle.importKey(
+        'jwk',
+        credential.publicKey,
+        { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        false,
+        ['verify']
+      );
+      return await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, data);
+    }
+  } catch {
+    // Malformed key or signature
+  }
+
+  return false;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
+
+function parseAuthenticatorData(bytes: Uint8Array): AuthenticatorData {
+  if (bytes.length < 37) {
+    throw new Error('authenticator data too short');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const flags = bytes[32];
+  const authData: AuthenticatorData = {
+    rpIdHash: bytes.slice(0, 32),
+    userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+    userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+    signCount: view.getUint32(33),
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    // 16-byte AAGUID, 2-byte length, credential ID, COSE public key
+    const idLength = view.getUint16(53);
+    const idEnd = 55 + idLength;
+    const publicKey = decodeCbor(bytes.subarray(idEnd));
+
+    if (!(publicKey instanceof Map)) {
+      throw new Error('credential public key is not a COSE key');
+    }
+
+    authData.credential = {
+      id: bytes.slice(55, idEnd),
+      publicKey: publicKey as Map<number, unknown>,
+    };
+  }
+
+  return authData;
+}
+
+/**
+ * COSE_Key (RFC 9053) to JWK for WebCrypto
+ */
+function coseToJwk(cose: Map<number, unknown>): {
+  jwk: JsonWebKey;
+  algorithm: number;
+} {
+  const kty = cose.get(1);
+  const algorithm = cose.get(3);
+  const bytes = (label: number) => {
+    const value = cose.get(label);
+    if (!(value instanceof Uint8Array)) {
+      throw verificationError('registration', 'malformed public key');
+    }
+    return toBase64Url(value);
+  };
+
+  // EC2 key on P-256 (crv 1)
+  if (kty === 2 && algorithm === COSE_ALG_ES256 && cose.get(-1) === 1) {
+    return {
+      jwk: { kty: 'EC', crv: 'P-256', x: bytes(-2), y: bytes(-3) },
+      algorithm,
+    };
+  }
+
+  if (kty === 3 && algorithm === COSE_ALG_RS256) {
+    return { jwk: { kty: 'RSA', n: bytes(-1), e: bytes(-2) }, algorithm };
+  }
+
+  throw verificationError('registration', `unsupported key algorithm ${algorithm}`);
+}
+
+/**
+ * ASN.1 DER ECDSA signature (SEQUENCE of two INTEGERs) to 64-byte r || s
+ */
+function derToRawSignature(der: Uint8Array): Uint8Array<ArrayBuffer> {
+  const raw = new Uint8Array(64);
+  let offset = 2; // SEQUENCE tag and length
+
+  for (let part = 0; part < 2; part++) {
+    if (der[offset] !== 0x02) {
+      throw new Error('malformed DER signature');
+    }
+
+    let length = der[offset + 1];
+    let start = offset + 2;
+    offset = start + length;
+
+    // Drop the sign padding byte
+    while (length > 32 && der[start] === 0) {
+      start++;
+      length--;
+    }
+
+    raw.set(der.subarray(start, start + length), part * 32 + (32 - length));
+  }
+
+  return raw;
+}
+
+/**
+ * Minimal CBOR (RFC 8949) decoder for attestation objects and COSE keys:
+ * integers, byte and text strings, arrays, maps and simple values.
+ */
+function decodeCbor(bytes: Uint8Array): unknown {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const readLength = (info: number): number => {
+    if (info < 24) return info;
+    if (info === 24) return view.getUint8(offset++);
+    if (info === 25) {
+      offset += 2;
+      return view.getUint16(offset - 2);
+    }
+    if (info === 26) {
+      offset += 4;
+      return view.getUint32(offset - 4);
+    }
+    if (info === 27) {
+      offset += 8;
+      return Number(view.getBigUint64(offset - 8));
+    }
+    throw new Error('Unsupported CBOR length');
+  };
+
+  const read = (): unknown => {
+    const initial = view.getUint8(offset++);
+    const major = initial >> 5;
+    const info = initial & 31;
+
+    switch (major) {
+      case 0:
+        return readLength(info);
+      case 1:
+        return -1 - readLength(info);
+      case 2: {
+        const length = readLength(info);
+        offset += length;
+        return bytes.slice(offset - length, offset);
+      }
+      case 3: {
+        const length = readLength(info);
+        offset += length;
+        return new TextDecoder().decode(bytes.subarray(offset - length, offset));
+      }
+      case 4: {
+        const length = readLength(info);
+        return Array.from({ length }, () => read());
+      }
+      case 5: {
+        const length = readLength(info);
+        const map = new Map<unknown, unknown>();
+        for (let i = 0; i < length; i++) {
+          const key = read();
+          map.set(key, read());
+        }
+        return map;
+      }
+      case 7:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        if (info === 23) return undefined;
+        throw new Error('Unsupported CBOR simple value');
+      default:
+        throw new Error('Unsupported CBOR type');
+    }
+  };
+
+  return read();
+}
@@ -0,0 +1,255 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { CookieSessionStore } from './cookie-session-store';
+import { JwtKeys } from './jwt';
+import { MagicLinkStore } from './magic-link';
+import { hashPassword } from './password';
+import type { TokenResponse } from './types';
+import { generateTotp, generateTotpSecret, totpStep } from './totp';
+import { UserStore } from './user-store';
+import {
+  claimUserEmail,
+  getAuthHeaders,
+  getSessionManager,
+  requireAuthOrApiKey,
+  SessionManager,
+} from './worker-middleware';
+import { registerAuthRoutes } from './worker-endpoints';
+import { createTestApp, createUser, json, signIn } from '../../../test/helpers';
+
+const app = createTestApp((api) => api.group('/auth', registerAuthRoutes));
+const users = new UserStore(env.DB);
+
+async function verifyMagicLink(email: string): Promise<Response> {
+  const token = await new MagicLinkStore(env.SESSIONS).create(email);
+  return app('/api/auth/magic-link/verify', json('POST', { token }));
+}
+
+// Log in with ?mode=token; returns the tokens
+async function tokenLogin(
+  email: string
+): Promise<{ accessToken: string; refreshToken: string }> {
+  const response = await app(
+    '/api/auth/login?mode=token',
+    json('POST', { email, password: 'correct horse' })
+  );
+  expect(response.status).toBe(200);
+
+  return ((await response.json()) as TokenResponse).tokens;
+}
+
+function refresh(refreshToken: string): Promise<Response> {
+  return app('/api/auth/token/refresh', json('POST', { refreshToken }));
+}
+
+describe('POST /api/auth/magic-link', () => {
+  it('refuses to send without a configured email transport', async () => {
+    const response = await app(
+      '/api/auth/magic-link',
+      json('POST', { email: 'someone@example.com' })
+    );
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ error: 'CONFIGURATION_ERROR' });
+  });
+});
+
+describe('POST /api/auth/magic-link/verify', () => {
+  it('creates a verified, passwordless user for a new address', async () => {
+    const response = await verifyMagicLink('new@example.com');
+    const user = await users.findByEmail('new@example.com');
+
+    expect(response.status).toBe(201);
+    expect(user?.password_hash).toBe('');
+    expect(user?.email_verified_at).not.toBeNull();
+  });
+
+  it('rejects a token that was already used', async () => {
+    const token = await new MagicLinkStore(env.SESSIONS).create('once@example.com');
+    await app('/api/auth/magic-link/verify', json('POST', { token }));
+
+    const response = await app('/api/auth/magic-link/verify', json('POST', { token }));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('claims an account whose email was never verified', async () => {
+    // Someone else signed up with the address and is signed in
+    const squatter = await createUser({ email: 'victim@example.com' });
+    const squatterCookie = await signIn(squatter);
+    const squatterTokens = await tokenLogin('victim@example.com');
+
+    const response = await verifyMagicLink('victim@example.com');
+    const claimed = await users.findById(squatter.id);
+
+    expect(response.status).toBe(200);
+    expect(claimed?.password_hash).toBe('');
+    expect(claimed?.email_verified_at).not.toBeNull();
+    expect(
+      await getSessionManager(env).getSession(squatterCookie.split('=')[1])
+    ).toBeNull();
+    expect((await refresh(squatterTokens.refreshToken)).status).toBe(401);
+
+    const login = await app(
+      '/api/auth/login',
+      json('POST', { email: 'victim@example.com', password: 'correct horse' })
+    );
+    expect(login.status).toBe(401);
+  });
+
+  it('ends token-mode logins with signed-cookie sessions too', async () => {
+    const squatter = await createUser({ email: 'cookie-victim@example.com' });
+    const squatterTokens = await tokenLogin('cookie-victim@example.com');
+    const sessionManager = new SessionManager(
+      new CookieSessionStore({ secrets: ['s'.repeat(32)] }),
+      {},
+      JwtKeys.fromEnv(env),
+      env.SESSIONS
+    );
+
+    await claimUserEmail(users, sessionManager, squatter);
+
+    expect((await refresh(squatterTokens.refreshToken)).status).toBe(401);
+  });
+
+  it('leaves a verified account and its other sessions alone', async () => {
+    const owner = await users.create({
+      email: 'owner@example.com',
+      name: 'Owner',
+      passwordHash: await hashPassword('correct horse'),
+      emailVerified: true,
+    });
+    const ownerCookie = await signIn(owner);
+
+    await verifyMagicLink('owner@example.com');
+
+    expect((await users.findById(owner.id))?.password_hash).toBe(owner.password_hash);
+    expect(
+      await getSessionManager(env).getSession(ownerCookie.split('=')[1])
+    ).not.toBeNull();
+  });
+});
+
+describe('POST /api/auth/mfa/verify', () => {
+  const secret = generateTotpSecret();
+
+  async function createTotpUser() {
+    const user = await createUser();
+    await users.enableTotp(user.id, { secret, step: 0, recoveryCodeHashes: [] });
+    return user;
+  }
+
+  // Pass the password step and return the challenge cookie
+  async function passwordStep(email: string): Promise<string> {
+    const response = await app(
+      '/api/auth/login',
+      json('POST', { email, password: 'correct horse' })
+    );
+    expect(await response.json()).toMatchObject({ mfaRequired: true });
+
+    return response.headers.getSetCookie()[0].split(';')[0];
+  }
+
+  function submitCode(challenge: string, code: string) {
+    return app('/api/auth/mfa/verify', json('POST', { code }, { Cookie: challenge }));
+  }
+
+  // A valid code, but for a time step far from now
+  const wrongCode = () => generateTotp(secret, totpStep() + 100);
+
+  it('keeps counting wrong codes across login attempts', async () => {
+    const user = await createTotpUser();
+
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      // A new challenge each time, after a correct password
+      const challenge = await passwordStep(user.email);
+      expect((await submitCode(challenge, await wrongCode())).status).toBe(401);
+    }
+
+    const challenge = await passwordStep(user.email);
+    const response = await submitCode(challenge, await generateTotp(secret, totpStep()));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('60');
+  });
+
+  it('counts parallel guesses one at a time', async () => {
+    const user = await createTotpUser();
+    const challenge = await passwordStep(user.email);
+    const code = await wrongCode();
+
+    const responses = await Promise.all(
+      Array.from({ length: 10 }, () => submitCode(challenge, code))
+    );
+    const checked = responses.filter((response) => response.status === 401).length;
+
+    expect((await users.findById(user.id))?.mfa_failures).toBe(checked);
+    expect(checked).toBeLessThanOrEqual(5);
+  });
+
+  it('clears the count with a correct code', async () => {
+    const user = await createTotpUser();
+
+    for (let attempt = 0; attempt < 4; attempt += 1) {
+      await submitCode(await passwordStep(user.email), await wrongCode());
+    }
+
+    const challenge = await passwordStep(user.email);
+    const response = await submitCode(challenge, await generateTotp(secret, totpStep()));
+
+    expect(response.status).toBe(200);
+    expect((await users.findById(user.id))?.mfa_failures).toBe(0);
+  });
+});
+
+describe('DELETE /api/auth/sessions', () => {
+  it('ends the token-mode logins of other devices too', async () => {
+    const user = await createUser();
+    const cookie = await signIn(user);
+    const other = await tokenLogin(user.email);
+
+    const response = await app('/api/auth/sessions', {
+      method: 'DELETE',
+      headers: { Cookie: cookie },
+    });
+
+    expect(response.status).toBe(200);
+    expect((await refresh(other.refreshToken)).status).toBe(401);
+  });
+
+  it("keeps the caller's own token-mode login", async () => {
+    const user = await createUser();
+    const own = await tokenLogin(user.email);
+    const other = await tokenLogin(user.email);
+
+    await app('/api/auth/sessions', {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${own.accessToken}` },
+    });
+
+    expect((await refresh(own.refreshToken)).status).toBe(200);
+    expect((await refresh(other.refreshToken)).status).toBe(401);
+  });
+});
+
+describe('getAuthHeaders', () => {
+  it('keeps only the credentials, which stop working once revoked', async () => {
+    const user = await createUser();
+    const cookie = await signIn(user);
+    const headers = getAuthHeaders(
+      new Request('https://example.com/', {
+        headers: { Cookie: `theme=dark; ${cookie}; csrf_token=abc` },
+      }),
+      env
+    );
+    const later = () =>
+      requireAuthOrApiKey(new Request('https://example.com/', { headers }), env);
+
+    expect(headers).toEqual({ Cookie: cookie });
+    expect((await later()).user.id).toBe(user.id);
+
+    await getSessionManager(env).deleteUserSessions(user.id);
+
+    await expect(later()).rejects.toMatchObject({ status: 401 });
+  });
+});
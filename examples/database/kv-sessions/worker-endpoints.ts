@@ -10,109 +10,395 @@
  *    binding = "SESSIONS"
  *    id = "your-namespace-id"
  *
- * NOTE: This is a simplified example. In production:
- * - Use proper password hashing (bcrypt, scrypt)
- * - Store users in a database (D1)
- * - Implement proper authentication logic
- * - Add rate limiting
- * - Add CSRF protection
+ * 2. D1 database bound as "DB" with the migrations in migrations/ applied
+ *    (see user-store.ts)
+ *
+ * 3. Optional: bind SessionDurableObject as "USER_SESSIONS" for strongly
+ *    consistent sessions (see session-durable-object.ts), or set the
+ *    SESSION_SECRETS secret to keep sessions in signed, encrypted cookies
+ *    (see cookie-session-store.ts; the device list and revoke routes then
+ *    return 501).
+ *
+ * 4. Optional: OAuth provider secrets for the /oauth routes (see oidc.ts)
+ *
+ * 5. An email transport for magic links, chosen with EMAIL_TRANSPORT (see
+ *    email.ts); without one, requesting a link fails with CONFIGURATION_ERROR
+ *
+ * 6. HTTPS (or http://localhost) for passkeys (see passkey-endpoints.ts)
+ *
+ * 7. migrations/0006_create_api_keys.sql for API keys (see api-keys.ts)
+ *
+ * 8. Optional: JWT_PRIVATE_KEYS or JWT_SECRETS for token mode, where login
+ *    routes called with ?mode=token return access and refresh tokens
+ *    instead of a cookie (see token-endpoints.ts)
+ *
+ * Password logins are throttled per account and per client IP (see
+ * login-throttle.ts); tune the limits in SessionConfig.loginThrottle.
+ *
+ * Mutating routes rely on the CSRF middleware in worker/index.ts; the
+ * client sends the token via fetchWithCsrf.
+ *
+ * NOTE: This is a simplified example. In production also rate limit the
+ * other public routes (signup, magic links).
  */
 
 import type {
   SessionResponse,
   LogoutResponse,
-  ErrorResponse,
-  Session,
+  MagicLinkResponse,
+  MfaRequiredResponse,
+  SessionListResponse,
+  RevokeSessionsResponse,
+  User,
+  UserRow,
 } from './types';
-import { validateLoginRequest } from './types';
-import { SessionManager } from './worker-middleware';
-
-// Mock user database (replace with D1 in production)
-const MOCK_USERS = [
-  {
-    id: '1',
-    email: 'demo@example.com',
-    password: 'password123', // In production: use hashed passwords!
-    name: 'Demo User',
-  },
-];
+import {
+  LoginRequestSchema,
+  MagicLinkRequestSchema,
+  MagicLinkVerifySchema,
+  MfaCodeSchema,
+  PasskeyLoginSchema,
+  SignupRequestSchema,
+  rowToUser,
+} from './types';
+import {
+  beginSession,
+  claimUserEmail,
+  getSessionHandle,
+  getSessionManager,
+  requireAuth,
+} from './worker-middleware';
+import { oauthCallback, startOAuth } from './oauth-endpoints';
+import { confirmTotp, disableTotp, setupTotp } from './mfa-endpoints';
+import {
+  deletePasskey,
+  listPasskeys,
+  passkeyLoginOptions,
+  passkeyRegistrationOptions,
+  registerPasskey,
+  toUserHandle,
+} from './passkey-endpoints';
+import { createApiKey, listApiKeys, revokeApiKey } from './api-key-endpoints';
+import {
+  isTokenMode,
+  issueTokens,
+  refreshTokens,
+  revokeTokens,
+} from './token-endpoints';
+import { consumeChallenge, getRelyingParty, verifyAuthentication } from './webauthn';
+import {
+  clearMfaChallengeCookie,
+  completeMfaChallenge,
+  createMfaChallenge,
+  verifySecondFactor,
+} from './mfa';
+import { UserStore } from './user-store';
+import { MagicLinkStore, MAGIC_LINK_TTL } from './magic-link';
+import { getEmailTransport } from './email';
+import { getDummyHash, hashPassword, verifyPassword } from './password';
+import { getClientIp, LoginThrottle } from './login-throttle';
+import type { RouteContext, RouteGroup } from '../../../worker/router';
+import { NotFoundError, UnauthorizedError } from '../../../worker/errors';
+import { parseJsonBody } from '../../../worker/validation';
+
+/**
+ * Log the user in and return the session as JSON with its cookies
+ */
+async function startSession(
+  request: Request,
+  env: Env,
+  user: User,
+  status = 200
+): Promise<Response> {
+  if (isTokenMode(request)) {
+    return issueTokens(request, env, user, status);
+  }
+
+  const { session, cookies } = await beginSession(
+    request,
+    getSessionManager(env),
+    user
+  );
+
+  // Create response with session cookie
+  const response: SessionResponse = {
+    success: true,
+    data: session,
+  };
+
+  const headers = new Headers({ 'Content-Type': 'application/json' });
+  for (const cookie of cookies) {
+    headers.append('Set-Cookie', cookie);
+  }
+
+  return new Response(JSON.stringify(response), { status, headers });
+}
+
+/**
+ * Finish the first login step: start the session, or ask for a TOTP code
+ * if the user has two-factor authentication enabled (see mfa.ts)
+ */
+async function completeLogin(
+  request: Request,
+  env: Env,
+  user: UserRow
+): Promise<Response> {
+  if (!user.totp_secret) {
+    return startSession(request, env, rowToUser(user));
+  }
+
+  const response: MfaRequiredResponse = {
+    success: true,
+    mfaRequired: true,
+  };
+
+  return Response.json(response, {
+    headers: {
+      'Set-Cookie': await createMfaChallenge(env.SESSIONS, user.id),
+    },
+  });
+}
+
+/**
+ * POST /api/auth/signup - Create an account and a session
+ */
+export async function signup(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const { name, email, password } = await parseJsonBody(
+    request,
+    SignupRequestSchema
+  );
+
+  // Throws ConflictError (409) if the email is already registered
+  const users = new UserStore(env.DB);
+  const user = await users.create({
+    email,
+    name,
+    passwordHash: await hashPassword(password),
+  });
+
+  return startSession(request, env, rowToUser(user), 201);
+}
 
 /**
  * POST /api/auth/login - Create a session
+ * Users with TOTP enabled get { mfaRequired: true } instead and finish
+ * at POST /api/auth/mfa/verify. Repeated failures for an email or IP
+ * return 429 with Retry-After (see login-throttle.ts).
  */
 export async function login(
+  request: Request,
+  env: Env,
+  { requestId }: RouteContext
+): Promise<Response> {
+  // Parse and validate request body
+  const { email, password } = await parseJsonBody(request, LoginRequestSchema);
+
+  // Locked out accounts and IPs get 429 before any password work
+  const throttle = new LoginThrottle(
+    env.SESSIONS,
+    getSessionManager(env).loginThrottleConfig
+  );
+  const attempt = { email, ip: getClientIp(request), requestId };
+  await throttle.check(attempt);
+
+  const users = new UserStore(env.DB);
+  const user = await users.findByEmail(email);
+
+  // Always run a hash comparison so unknown emails take as long as wrong
+  // passwords and cannot be discovered by timing
+  const passwordValid = await verifyPassword(
+    password,
+    user?.password_hash ?? (await getDummyHash())
+  );
+
+  if (!user || !passwordValid) {
+    await throttle.recordFailure(attempt);
+    throw new UnauthorizedError('Invalid email or password', 'INVALID_CREDENTIALS');
+  }
+
+  await throttle.recordSuccess(attempt);
+  return completeLogin(request, env, user);
+}
+
+/**
+ * POST /api/auth/passkeys/login - Log in with a passkey
+ * Takes the assertion from navigator.credentials.get() for options from
+ * /passkeys/login/options. A passkey unlocked with a PIN or biometric
+ * counts as two factors; otherwise TOTP users still get { mfaRequired: true }.
+ */
+export async function loginWithPasskey(
+  request: Request,
+  env: Env,
+  { url }: RouteContext
+): Promise<Response> {
+  const { id, response } = await parseJsonBody(request, PasskeyLoginSchema);
+
+  // Use up the challenge first so a failed attempt can't be retried
+  const clientData = await consumeChallenge(
+    env.SESSIONS,
+    response.clientDataJSON,
+    'authentication'
+  );
+
+  const users = new UserStore(env.DB);
+  const passkey = await users.findPasskey(id);
+
+  if (
+    !passkey ||
+    (response.userHandle && response.userHandle !== toUserHandle(passkey.user_id))
+  ) {
+    throw new UnauthorizedError(
+      'Passkey login failed: unknown passkey',
+      'PASSKEY_LOGIN_FAILED'
+    );
+  }
+
+  const { signCount, userVerified } = await verifyAuthentication(
+    clientData,
+    response,
+    {
+      publicKey: JSON.parse(passkey.public_key),
+      algorithm: passkey.algorithm,
+      signCount: passkey.sign_count,
+    },
+    getRelyingParty(url)
+  );
+  await users.updatePasskeyUsage(passkey.id, signCount);
+
+  const user = await users.findById(passkey.user_id);
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  return userVerified
+    ? startSession(request, env, rowToUser(user))
+    : completeLogin(request, env, user);
+}
+
+/**
+ * POST /api/auth/mfa/verify - Second login step
+ * Takes a TOTP code or an unused recovery code for the user who passed
+ * the first step in this browser. Too many wrong codes for the user,
+ * across login attempts, return 429 with Retry-After.
+ */
+export async function verifyMfa(
+  request: Request,
+  env: Env,
+  { requestId }: RouteContext
+): Promise<Response> {
+  const { code } = await parseJsonBody(request, MfaCodeSchema);
+  const users = new UserStore(env.DB);
+  const throttle = new LoginThrottle(
+    env.SESSIONS,
+    getSessionManager(env).loginThrottleConfig
+  );
+
+  const userId = await completeMfaChallenge(env.SESSIONS, request, async (id) => {
+    const user = await users.findById(id);
+    return (
+      user !== null &&
+      verifySecondFactor(users, user, code, throttle, requestId)
+    );
+  });
+
+  // Only missing if the account was deleted in the meantime
+  const user = await users.findById(userId);
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  const response = await startSession(request, env, rowToUser(user));
+  response.headers.append('Set-Cookie', clearMfaChallengeCookie());
+
+  return response;
+}
+
+/**
+ * POST /api/auth/magic-link - Email a single-use login link
+ * Responds the same whether or not the address has an account, so it
+ * can't be used to find out who is registered.
+ */
+export async function requestMagicLink(
+  request: Request,
+  env: Env,
+  { url }: RouteContext
+): Promise<Response> {
+  const { email } = await parseJsonBody(request, MagicLinkRequestSchema);
+  // Before the token is stored, so a misconfiguration leaves nothing behind
+  const transport = getEmailTransport(env);
+
+  const token = await new MagicLinkStore(env.SESSIONS).create(email);
+
+  // The app finishes login by POSTing the token to /magic-link/verify.
+  // Verifying on a plain GET would let mail scanners that prefetch links
+  // use the token up before the user clicks.
+  const link = new URL('/', url.origin);
+  link.searchParams.set('magic_token', token);
+
+  const minutes = MAGIC_LINK_TTL / 60;
+  await transport.send({
+    to: email,
+    subject: 'Your login link',
+    text:
+      `Use this link to log in. It expires in ${minutes} minutes and works once.\n\n` +
+      `${link}\n\n` +
+      "If you didn't ask for this, you can ignore this email.",
+    html:
+      `<p>Use this link to log in. It expires in ${minutes} minutes and works once.</p>` +
+      `<p><a href="${link}">Log in</a></p>` +
+      "<p>If you didn't ask for this, you can ignore this email.</p>",
+  });
+
+  const response: MagicLinkResponse = {
+    success: true,
+    message: 'Check your email for a login link',
+  };
+
+  return Response.json(response);
+}
+
+/**
+ * POST /api/auth/magic-link/verify - Log in with a magic link token
+ * Creates an account (without a password) the first time an address is
+ * used; opening the link proves the user owns it. An existing account
+ * whose email was never verified is claimed first (see claimUserEmail).
+ */
+export async function verifyMagicLink(
   request: Request,
   env: Env
 ): Promise<Response> {
-  try {
-    // Parse request body
-    const body = await request.json();
-
-    // Validate request
-    if (!validateLoginRequest(body)) {
-      const errorResponse: ErrorResponse = {
-        success: false,
-        error: 'VALIDATION_ERROR',
-        message: 'Invalid email or password format',
-      };
-      return Response.json(errorResponse, { status: 400 });
-    }
-
-    const { email, password } = body;
-
-    // Find user (in production: query D1 database)
-    const user = MOCK_USERS.find(
-      (u) => u.email === email && u.password === password
+  const { token } = await parseJsonBody(request, MagicLinkVerifySchema);
+
+  const link = await new MagicLinkStore(env.SESSIONS).consume(token);
+  if (!link) {
+    throw new UnauthorizedError(
+      'This login link is invalid or has expired',
+      'INVALID_MAGIC_LINK'
     );
+  }
+
+  const users = new UserStore(env.DB);
+  const existing = await users.findByEmail(link.email);
 
-    if (!user) {
-      const errorResponse: ErrorResponse = {
-        success: false,
-        error: 'INVALID_CREDENTIALS',
-        message: 'Invalid email or password',
-      };
-      return Response.json(errorResponse, { status: 401 });
-    }
-
-    // Create session
-    const sessionManager = new SessionManager(env.SESSIONS);
-    const expiresAt = new Date();
-    expiresAt.setSeconds(expiresAt.getSeconds() + 60 * 60 * 24 * 7); // 7 days
-
-    const session: Session = await sessionManager.createSession({
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        createdAt: new Date(),
-      },
-      expiresAt,
-    });
-
-    // Create response with session cookie
-    const response: SessionResponse = {
-      success: true,
-      data: session,
-    };
-
-    return new Response(JSON.stringify(response), {
-      status: 200,
-      headers: {
-        'Content-Type': 'application/json',
-        'Set-Cookie': sessionManager.createSessionCookie(session.sessionId),
-      },
-    });
-  } catch (error) {
-    console.error('Error during login:', error);
-
-    const errorResponse: ErrorResponse = {
-      success: false,
-      error: 'SERVER_ERROR',
-      message: 'An error occurred during login',
-    };
-
-    return Response.json(errorResponse, { status: 500 });
+  // The link only replaces the password; TOTP is still required
+  if (existing) {
+    return completeLogin(
+      request,
+      env,
+      await claimUserEmail(users, getSessionManager(env), existing)
+    );
   }
+
+  const user = await users.create({
+    email: link.email,
+    name: link.email.split('@')[0],
+    emailVerified: true,
+  });
+
+  return startSession(request, env, rowToUser(user), 201);
 }
 
 /**
@@ -122,37 +408,25 @@ export async function logout(
   request: Request,
   env: Env
 ): Promise<Response> {
-  try {
-    const sessionManager = new SessionManager(env.SESSIONS);
-    const sessionId = sessionManager.getSessionIdFromRequest(request);
-
-    if (sessionId) {
-      await sessionManager.deleteSession(sessionId);
-    }
-
-    const response: LogoutResponse = {
-      success: true,
-      message: 'Logged out successfully',
-    };
-
-    return new Response(JSON.stringify(response), {
-      status: 200,
-      headers: {
-        'Content-Type': 'application/json',
-        'Set-Cookie': sessionManager.createDeleteCookie(),
-      },
-    });
-  } catch (error) {
-    console.error('Error during logout:', error);
-
-    const errorResponse: ErrorResponse = {
-      success: false,
-      error: 'SERVER_ERROR',
-      message: 'An error occurred during logout',
-    };
-
-    return Response.json(errorResponse, { status: 500 });
+  const sessionManager = getSessionManager(env);
+  const session = await sessionManager.getSessionFromRequest(request);
+
+  if (session) {
+    await sessionManager.deleteSession(session.sessionId, session.user.id);
   }
+
+  const response: LogoutResponse = {
+    success: true,
+    message: 'Logged out successfully',
+  };
+
+  return new Response(JSON.stringify(response), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Set-Cookie': sessionManager.createDeleteCookie(),
+    },
+  });
 }
 
 /**
@@ -162,90 +436,211 @@ export async function getSession(
   request: Request,
   env: Env
 ): Promise<Response> {
-  try {
-    const sessionManager = new SessionManager(env.SESSIONS);
-    const session = await sessionManager.getSessionFromRequest(request);
-
-    if (!session) {
-      const errorResponse: ErrorResponse = {
-        success: false,
-        error: 'NO_SESSION',
-        message: 'No active session',
-      };
-      return Response.json(errorResponse, { status: 401 });
-    }
-
-    const response: SessionResponse = {
-      success: true,
-      data: session,
-    };
+  const sessionManager = getSessionManager(env);
 
+  // Token mode: there is no cookie to re-send
+  const tokenSession = await sessionManager.getSessionFromAccessToken(request);
+  if (tokenSession) {
+    const response: SessionResponse = { success: true, data: tokenSession };
     return Response.json(response);
-  } catch (error) {
-    console.error('Error getting session:', error);
+  }
 
-    const errorResponse: ErrorResponse = {
-      success: false,
-      error: 'SERVER_ERROR',
-      message: 'An error occurred while fetching session',
-    };
+  const session = await sessionManager.getSessionFromRequest(request);
 
-    return Response.json(errorResponse, { status: 500 });
+  if (!session) {
+    throw new UnauthorizedError('No active session', 'NO_SESSION');
   }
+
+  const response: SessionResponse = {
+    success: true,
+    data: session,
+  };
+
+  // Re-send the cookie so a cookie-stored session picks up its new expiry
+  return Response.json(response, {
+    headers: { 'Set-Cookie': await sessionManager.createSessionCookie(session) },
+  });
 }
 
 /**
- * Router function to handle all auth-related requests
- * Add this to your worker/index.ts fetch handler:
+ * GET /api/auth/sessions - List the user's signed-in devices
+ */
+export async function listSessions(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const sessionManager = getSessionManager(env);
+  const current = await requireAuth(request, sessionManager);
+  const sessions = await sessionManager.listUserSessions(current.user.id);
+
+  const response: SessionListResponse = {
+    success: true,
+    data: await Promise.all(
+      sessions.map(async (session) => ({
+        id: await getSessionHandle(session.sessionId),
+        userAgent: session.userAgent,
+        issuedAt: session.issuedAt,
+        lastSeenAt: session.lastSeenAt,
+        expiresAt: session.expiresAt,
+        current: session.sessionId === current.sessionId,
+      }))
+    ),
+  };
+
+  return Response.json(response);
+}
+
+/**
+ * DELETE /api/auth/sessions/:id - Sign out one device
+ * `id` is the handle from GET /api/auth/sessions. Revoking the current
+ * session also clears its cookie.
+ */
+export async function revokeSession(
+  request: Request,
+  env: Env,
+  { params }: RouteContext
+): Promise<Response> {
+  const sessionManager = getSessionManager(env);
+  const current = await requireAuth(request, sessionManager);
+  const sessions = await sessionManager.listUserSessions(current.user.id);
+
+  const handles = await Promise.all(
+    sessions.map((session) => getSessionHandle(session.sessionId))
+  );
+  const target = sessions.find((_, index) => handles[index] === params.id);
+
+  // Only the user's own sessions can be found, so other users' handles 404
+  if (!target) {
+    throw new NotFoundError('Session not found');
+  }
+
+  await sessionManager.deleteSession(target.sessionId, current.user.id);
+
+  const response: RevokeSessionsResponse = {
+    success: true,
+    revoked: 1,
+  };
+
+  return Response.json(response, {
+    headers:
+      target.sessionId === current.sessionId
+        ? { 'Set-Cookie': sessionManager.createDeleteCookie() }
+        : {},
+  });
+}
+
+/**
+ * DELETE /api/auth/sessions - Sign out all other devices
+ */
+export async function revokeOtherSessions(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const sessionManager = getSessionManager(env);
+  const current = await requireAuth(request, sessionManager);
+
+  const revoked = await sessionManager.deleteUserSessions(current.user.id, {
+    except: current.sessionId,
+  });
+
+  const response: RevokeSessionsResponse = {
+    success: true,
+    revoked,
+  };
+
+  return Response.json(response);
+}
+
+/**
+ * Register all auth-related routes into a router group
+ * Add this to your worker/index.ts:
  *
  * Example integration:
  *
- * import { handleAuthRequest } from './examples/database/kv-sessions/worker-endpoints';
+ * import { Router } from './router';
+ * import { registerAuthRoutes } from '../examples/database/kv-sessions/worker-endpoints';
  *
- * export default {
- *   async fetch(request, env) {
- *     const url = new URL(request.url);
- *
- *     // Handle auth API routes
- *     if (url.pathname.startsWith('/api/auth')) {
- *       return handleAuthRequest(request, env);
- *     }
- *
- *     // ... other routes
- *   }
- * }
+ * const router = new Router({ base: '/api' });
+ * router.group('/auth', registerAuthRoutes);
  */
-export async function handleAuthRequest(
-  request: Request,
-  env: Env
-): Promise<Response> {
-  const url = new URL(request.url);
-  const path = url.pathname;
-  const method = request.method;
+export function registerAuthRoutes(auth: RouteGroup): void {
+  // POST /api/auth/signup - Create account
+  auth.post('/signup', signup);
 
   // POST /api/auth/login - Login
-  if (path === '/api/auth/login' && method === 'POST') {
-    return login(request, env);
-  }
+  auth.post('/login', login);
+
+  // POST /api/auth/mfa/verify - Second login step (TOTP or recovery code)
+  auth.post('/mfa/verify', verifyMfa);
+
+  // POST /api/auth/mfa/totp/setup - Start TOTP enrollment
+  auth.post('/mfa/totp/setup', setupTotp);
+
+  // POST /api/auth/mfa/totp/confirm - Finish enrollment with the first code
+  auth.post('/mfa/totp/confirm', confirmTotp);
+
+  // POST /api/auth/mfa/totp/disable - Turn TOTP off
+  auth.post('/mfa/totp/disable', disableTotp);
+
+  // POST /api/auth/passkeys/login/options - Start a passkey login
+  auth.post('/passkeys/login/options', passkeyLoginOptions);
+
+  // POST /api/auth/passkeys/login - Log in with a passkey
+  auth.post('/passkeys/login', loginWithPasskey);
+
+  // POST /api/auth/passkeys/register/options - Start adding a passkey
+  auth.post('/passkeys/register/options', passkeyRegistrationOptions);
+
+  // POST /api/auth/passkeys/register - Store a new passkey
+  auth.post('/passkeys/register', registerPasskey);
+
+  // GET /api/auth/passkeys - List passkeys
+  auth.get('/passkeys', listPasskeys);
+
+  // DELETE /api/auth/passkeys/:id - Remove a passkey
+  auth.delete('/passkeys/:id', deletePasskey);
+
+  // GET /api/auth/keys - List API keys
+  auth.get('/keys', listApiKeys);
+
+  // POST /api/auth/keys - Create an API key
+  auth.post('/keys', createApiKey);
+
+  // DELETE /api/auth/keys/:id - Revoke an API key
+  auth.delete('/keys/:id', revokeApiKey);
+
+  // POST /api/auth/magic-link - Email a login link
+  auth.post('/magic-link', requestMagicLink);
+
+  // POST /api/auth/magic-link/verify - Log in with a magic link token
+  auth.post('/magic-link/verify', verifyMagicLink);
 
   // POST /api/auth/logout - Logout
-  if (path === '/api/auth/logout' && method === 'POST') {
-    return logout(request, env);
-  }
+  auth.post('/logout', logout);
+
+  // POST /api/auth/token/refresh - Exchange a refresh token (token mode)
+  auth.post('/token/refresh', refreshTokens);
+
+  // POST /api/auth/token/revoke - Log out (token mode)
+  auth.post('/token/revoke', revokeTokens);
 
   // GET /api/auth/session - Get session
-  if (path === '/api/auth/session' && method === 'GET') {
-    return getSession(request, env);
-  }
+  auth.get('/session', getSession);
 
-  // Method not allowed
-  const errorResponse: ErrorResponse = {
-    success: false,
-    error: 'METHOD_NOT_ALLOWED',
-    message: 'Method not allowed for this endpoint',
-  };
+  // GET /api/auth/sessions - List signed-in devices
+  auth.get('/sessions', listSessions);
+
+  // DELETE /api/auth/sessions - Sign out all other devices
+  auth.delete('/sessions', revokeOtherSessions);
+
+  // DELETE /api/auth/sessions/:id - Sign out one device
+  auth.delete('/sessions/:id', revokeSession);
 
-  return Response.json(errorResponse, { status: 405 });
+  // GET /api/auth/oauth/:provider/start - Login with an OIDC provider
+  auth.get('/oauth/:provider/start', startOAuth);
+
+  // GET /api/auth/oauth/:provider/callback - Provider redirects back here
+  auth.get('/oauth/:provider/callback', oauthCallback);
 }
 
 /**
@@ -256,17 +651,8 @@ export async function protectedEndpoint(
   request: Request,
   env: Env
 ): Promise<Response> {
-  const sessionManager = new SessionManager(env.SESSIONS);
-  const session = await sessionManager.getSessionFromRequest(request);
-
-  if (!session) {
-    const errorResponse: ErrorResponse = {
-      success: false,
-      error: 'UNAUTHORIZED',
-      message: 'Authentication required',
-    };
-    return Response.json(errorResponse, { status: 401 });
-  }
+  const sessionManager = getSessionManager(env);
+  const session = await requireAuth(request, sessionManager);
 
   // User is authenticated, return protected data
   return Response.json({
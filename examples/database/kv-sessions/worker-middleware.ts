@@ -1,9 +1,22 @@
 /**
  * KV Session Middleware
  *
- * Provides session management functionality using Cloudflare KV.
+ * Provides session management functionality on top of a SessionStore
+ * (KV by default, a per-user Durable Object, or signed cookies).
  * Handles session creation, validation, retrieval, and destruction.
  *
+ * Sessions use sliding expiration: each request pushes `expiresAt` forward
+ * (at most once per `touchInterval`), up to a hard `absoluteExpiresAt`.
+ * Stateful stores also keep an index of each user's session IDs, which
+ * backs the device list and "sign out other devices".
+ *
+ * With JWT keys configured, requireAuth also accepts bearer access tokens
+ * from token mode (see tokens.ts and token-endpoints.ts).
+ *
+ * requireRole / requirePermission wrap route handlers for role-based access
+ * (roles and permissions are defined in roles.ts). requirePermission and
+ * requireAuthOrApiKey also accept API keys (see api-keys.ts).
+ *
  * Prerequisites:
  * 1. KV namespace configured in wrangler.jsonc as:
  *    [[kv_namespaces]]
@@ -12,60 +25,158 @@
  */
 
 import type {
+  AccessTokenClaims,
+  LoginThrottleConfig,
   Session,
-  SessionData,
   SessionConfig,
+  User,
+  UserRow,
 } from './types';
 import {
   DEFAULT_SESSION_CONFIG,
+  sessionFromAccessToken,
   parseCookies,
   serializeCookie,
   generateSessionId,
   serializeSessionData,
   deserializeSessionData,
 } from './types';
+import {
+  KvSessionStore,
+  type SessionIndex,
+  type SessionStore,
+} from './session-store';
+import {
+  CookieSessionStore,
+  parseSessionSecrets,
+} from './cookie-session-store';
+import { DurableObjectSessionStore } from './durable-object-session-store';
+import { authenticateApiKey } from './api-keys';
+import type { UserStore } from './user-store';
+import { getBearerJwt, JwtKeys } from './jwt';
+import { RefreshTokenStore } from './tokens';
+import { hasPermission, hasRole, type Permission, type Role } from './roles';
+import {
+  ApiError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+} from '../../../worker/errors';
+import type { RouteHandler } from '../../../worker/router';
+import { createCsrfCookie, generateCsrfToken } from '../../../worker/csrf';
+
+// KV rejects expirationTtl values below 60 seconds
+const MIN_KV_TTL = 60;
+
+// Seconds from now until `date`, clamped to what KV accepts
+function ttlUntil(date: Date): number {
+  return Math.max(MIN_KV_TTL, Math.ceil((date.getTime() - Date.now()) / 1000));
+}
+
+function addSeconds(date: Date, seconds: number): Date {
+  return new Date(date.getTime() + seconds * 1000);
+}
+
+/**
+ * Public identifier for a session, safe to show to the client.
+ * The session ID is a bearer token, so device lists use its SHA-256 instead.
+ */
+export async function getSessionHandle(sessionId: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(sessionId)
+  );
+
+  return Array.from(new Uint8Array(digest).slice(0, 16), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+}
+
+// JWT `typ` of access tokens (RFC 9068), so no other JWT passes as one
+const ACCESS_TOKEN_TYPE = 'at+jwt';
+
+function invalidAccessToken(): UnauthorizedError {
+  return new UnauthorizedError('Invalid access token', 'INVALID_TOKEN');
+}
 
 export class SessionManager {
-  private kv: KVNamespace;
+  private store: SessionStore;
   private config: SessionConfig;
+  private jwtKeys: JwtKeys | null;
+  private refreshTokenKv: KVNamespace | null;
 
-  constructor(kv: KVNamespace, config: Partial<SessionConfig> = {}) {
-    this.kv = kv;
+  /**
+   * Pass a KV namespace for the default KvSessionStore, or any SessionStore
+   * (e.g. CookieSessionStore) to keep sessions elsewhere. `jwtKeys` enables
+   * bearer access tokens (token mode, see tokens.ts), whose refresh tokens
+   * are kept in `refreshTokenKv` (by default the KV namespace passed as
+   * `store`).
+   */
+  constructor(
+    store: SessionStore | KVNamespace,
+    config: Partial<SessionConfig> = {},
+    jwtKeys: JwtKeys | null = null,
+    refreshTokenKv: KVNamespace | null = null
+  ) {
     this.config = { ...DEFAULT_SESSION_CONFIG, ...config };
+    this.jwtKeys = jwtKeys;
+    this.refreshTokenKv = refreshTokenKv;
+
+    if ('toCookieValue' in store) {
+      this.store = store;
+    } else {
+      this.store = new KvSessionStore(store, { indexTTL: this.config.maxSessionAge });
+      this.refreshTokenKv ??= store;
+    }
   }
 
   /**
-   * Get session ID from request cookies
+   * Get the raw session cookie value from the request.
+   * With KvSessionStore this is the session ID; with CookieSessionStore it
+   * is the sealed payload.
    */
-  getSessionIdFromRequest(request: Request): string | null {
+  getSessionTokenFromRequest(request: Request): string | null {
     const cookieHeader = request.headers.get('Cookie');
     const cookies = parseCookies(cookieHeader);
     return cookies[this.config.cookieName] || null;
   }
 
   /**
-   * Get session from KV by session ID
+   * The session cookie alone (`name=value`), without the request's other
+   * cookies, or null
    */
-  async getSession(sessionId: string): Promise<Session | null> {
+  getSessionCookie(request: Request): string | null {
+    const token = this.getSessionTokenFromRequest(request);
+    return token ? `${this.config.cookieName}=${token}` : null;
+  }
+
+  /**
+   * Get session from the store by cookie value.
+   * Extends the sliding expiry when the session is used.
+   */
+  async getSession(token: string): Promise<Session | null> {
     try {
-      const data = await this.kv.get<SessionData>(
-        `session:${sessionId}`,
-        'json'
-      );
+      const stored = await this.store.load(token);
 
-      if (!data) {
+      if (!stored) {
         return null;
       }
 
-      // Check if session is expired
-      const expiresAt = new Date(data.expiresAt);
-      if (expiresAt < new Date()) {
-        // Session expired, delete it
-        await this.deleteSession(sessionId);
+      const session = deserializeSessionData(stored.sessionId, stored.data);
+      const now = new Date();
+
+      // Check if session is expired (idle timeout or absolute lifetime)
+      if (session.expiresAt <= now || session.absoluteExpiresAt <= now) {
+        await this.deleteSession(session.sessionId, session.user.id);
         return null;
       }
 
-      return deserializeSessionData(sessionId, data);
+      const sinceLastSeen = (now.getTime() - session.lastSeenAt.getTime()) / 1000;
+      if (sinceLastSeen >= this.config.touchInterval) {
+        return this.touchSession(session, now);
+      }
+
+      return session;
     } catch (error) {
       console.error('Error getting session:', error);
       return null;
@@ -76,67 +187,269 @@ export class SessionManager {
    * Get session from request
    */
   async getSessionFromRequest(request: Request): Promise<Session | null> {
-    const sessionId = this.getSessionIdFromRequest(request);
-    if (!sessionId) {
+    const token = this.getSessionTokenFromRequest(request);
+    if (!token) {
       return null;
     }
 
-    return this.getSession(sessionId);
+    return this.getSession(token);
+  }
+
+  /**
+   * Create a new session for a user
+   */
+  async createSession(
+    user: User,
+    options: { userAgent?: string } = {}
+  ): Promise<Session> {
+    const now = new Date();
+    const absoluteExpiresAt = addSeconds(now, this.config.maxSessionAge);
+
+    const session: Session = {
+      sessionId: generateSessionId(),
+      user,
+      issuedAt: now,
+      lastSeenAt: now,
+      expiresAt: this.slidingExpiry(now, absoluteExpiresAt),
+      absoluteExpiresAt,
+      userAgent: options.userAgent,
+    };
+
+    await this.updateSession(session.sessionId, session);
+    await this.store.index?.add(user.id, session.sessionId);
+
+    return session;
   }
 
   /**
-   * Create a new session
+   * Update an existing session
    */
-  async createSession(session: Omit<Session, 'sessionId'>): Promise<Session> {
-    const sessionId = generateSessionId();
-    const newSession: Session = {
+  async updateSession(sessionId: string, session: Session): Promise<void> {
+    // Stored TTL matches the idle expiry
+    await this.store.save(
       sessionId,
+      serializeSessionData(session),
+      ttlUntil(session.expiresAt)
+    );
+  }
+
+  /**
+   * Issue a new ID for an existing session and delete the old one.
+   * Call after privilege changes (login, password change, role change)
+   * so a previously leaked ID stops working. Send the new cookie
+   * (createSessionCookie) on the response.
+   */
+  async rotateSession(session: Session): Promise<Session> {
+    const rotated: Session = {
       ...session,
+      sessionId: generateSessionId(),
+      lastSeenAt: new Date(),
     };
 
-    const sessionData = serializeSessionData(newSession);
+    // Delete first so a per-user session cap doesn't count the old ID
+    await this.deleteSession(session.sessionId, session.user.id);
+    await this.updateSession(rotated.sessionId, rotated);
+    await this.store.index?.add(session.user.id, rotated.sessionId);
 
-    // Store in KV with TTL
-    await this.kv.put(
-      `session:${sessionId}`,
-      JSON.stringify(sessionData),
-      {
-        expirationTtl: this.config.sessionTTL,
-      }
+    return rotated;
+  }
+
+  /**
+   * Delete a session
+   */
+  async deleteSession(sessionId: string, userId: string): Promise<void> {
+    await this.store.delete(sessionId, userId);
+    await this.store.index?.remove(userId, [sessionId]);
+  }
+
+  /**
+   * Whether JWT keys are configured, i.e. token mode is available
+   */
+  get supportsAccessTokens(): boolean {
+    return this.jwtKeys !== null;
+  }
+
+  /**
+   * Sign an access token for `user`. `sid` is the refresh token family
+   * and `issuer` the Worker's origin. Returns the token with the session
+   * it stands for.
+   */
+  async createAccessToken(
+    user: User,
+    sid: string,
+    issuer: string
+  ): Promise<{ accessToken: string; expiresIn: number; session: Session }> {
+    if (!this.jwtKeys) {
+      throw new ApiError(501, 'NOT_SUPPORTED', 'Token mode is not configured');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const claims: AccessTokenClaims = {
+      iss: issuer,
+      sub: user.id,
+      sid,
+      jti: crypto.randomUUID(),
+      iat: now,
+      exp: now + this.config.accessTokenTTL,
+      email: user.email,
+      name: user.name,
+      roles: user.roles,
+      mfa_enabled: user.mfaEnabled,
+      created_at: new Date(user.createdAt).toISOString(),
+    };
+
+    return {
+      accessToken: await this.jwtKeys.sign(claims, ACCESS_TOKEN_TYPE),
+      expiresIn: this.config.accessTokenTTL,
+      session: sessionFromAccessToken(claims),
+    };
+  }
+
+  /**
+   * Session for an `Authorization: Bearer <access token>` header.
+   * Returns null when the request has no bearer JWT, and throws
+   * UnauthorizedError when it has one that doesn't verify or has expired.
+   */
+  async getSessionFromAccessToken(request: Request): Promise<Session | null> {
+    const token = getBearerJwt(request);
+
+    if (!token) {
+      return null;
+    }
+
+    if (!this.jwtKeys) {
+      throw invalidAccessToken();
+    }
+
+    const claims = await this.jwtKeys.verify<AccessTokenClaims>(
+      token,
+      ACCESS_TOKEN_TYPE
     );
 
-    return newSession;
+    // Tokens are only good at the origin that issued them
+    if (claims.iss !== new URL(request.url).origin) {
+      throw invalidAccessToken();
+    }
+
+    return sessionFromAccessToken(claims);
   }
 
   /**
-   * Update an existing session
+   * Refresh token lifetimes for RefreshTokenStore (tokens.ts), matching
+   * the idle timeout and absolute lifetime of cookie sessions
    */
-  async updateSession(sessionId: string, session: Session): Promise<void> {
-    const sessionData = serializeSessionData(session);
+  get refreshTokenLifetimes(): { idleTTL: number; maxAge: number } {
+    return { idleTTL: this.config.sessionTTL, maxAge: this.config.maxSessionAge };
+  }
+
+  /**
+   * Refresh tokens for token mode, or null when it isn't configured
+   */
+  get refreshTokens(): RefreshTokenStore | null {
+    if (!this.jwtKeys || !this.refreshTokenKv) {
+      return null;
+    }
+
+    return new RefreshTokenStore(this.refreshTokenKv, this.refreshTokenLifetimes);
+  }
+
+  /**
+   * Thresholds for LoginThrottle (login-throttle.ts)
+   */
+  get loginThrottleConfig(): LoginThrottleConfig {
+    return this.config.loginThrottle;
+  }
+
+  /**
+   * Whether this store can list and revoke a user's sessions
+   */
+  get supportsSessionIndex(): boolean {
+    return this.store.index !== undefined;
+  }
 
-    await this.kv.put(
-      `session:${sessionId}`,
-      JSON.stringify(sessionData),
-      {
-        expirationTtl: this.config.sessionTTL,
+  /**
+   * List a user's active sessions, newest activity first.
+   * Expired entries are pruned from the index.
+   */
+  async listUserSessions(userId: string): Promise<Session[]> {
+    const index = this.requireIndex();
+    const stored = await index.list(userId);
+    const now = new Date();
+    const active: Session[] = [];
+    const stale: string[] = [];
+
+    for (const { sessionId, data } of stored) {
+      const session = deserializeSessionData(sessionId, data);
+
+      if (session.expiresAt <= now || session.absoluteExpiresAt <= now) {
+        stale.push(sessionId);
+      } else {
+        active.push(session);
       }
+    }
+
+    if (stale.length > 0) {
+      await index.remove(userId, stale);
+    }
+
+    return active.sort(
+      (a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime()
     );
   }
 
   /**
-   * Delete a session
+   * Delete all of a user's sessions and token-mode logins, optionally
+   * keeping one (the caller's). Returns the number deleted.
+   */
+  async deleteUserSessions(
+    userId: string,
+    options: { except?: string } = {}
+  ): Promise<number> {
+    const index = this.requireIndex();
+    const stored = await index.list(userId);
+    const revoked = stored
+      .map(({ sessionId }) => sessionId)
+      .filter((id) => id !== options.except);
+
+    await Promise.all(
+      revoked.map((sessionId) => this.store.delete(sessionId, userId))
+    );
+    await index.remove(userId, revoked);
+
+    return revoked.length + (await this.revokeRefreshTokens(userId, options));
+  }
+
+  /**
+   * Revoke a user's refresh token families, optionally keeping one. A
+   * token-mode session's ID is `token:<family ID>`. Returns the number
+   * revoked; 0 when token mode isn't configured.
    */
-  async deleteSession(sessionId: string): Promise<void> {
-    await this.kv.delete(`session:${sessionId}`);
+  async revokeRefreshTokens(
+    userId: string,
+    options: { except?: string } = {}
+  ): Promise<number> {
+    const store = this.refreshTokens;
+    if (!store) {
+      return 0;
+    }
+
+    return store.revokeUser(userId, { except: options.except?.replace(/^token:/, '') });
   }
 
   /**
-   * Create session cookie header
+   * Create session cookie header.
+   * The cookie lives until the absolute expiry; the stored data enforces
+   * the idle timeout.
    */
-  createSessionCookie(sessionId: string): string {
-    return serializeCookie(this.config.cookieName, sessionId, {
+  async createSessionCookie(session: Session): Promise<string> {
+    const value = await this.store.toCookieValue(
+      session.sessionId,
+      serializeSessionData(session)
+    );
+
+    return serializeCookie(this.config.cookieName, value, {
       ...this.config.cookieOptions,
-      maxAge: this.config.sessionTTL,
+      maxAge: ttlUntil(session.absoluteExpiresAt),
     });
   }
 
@@ -157,35 +470,191 @@ export class SessionManager {
    * const sessionManager = new SessionManager(env.SESSIONS);
    * const session = await sessionManager.getSessionFromRequest(request);
    * if (!session) {
-   *   return Response.json({ error: 'Unauthorized' }, { status: 401 });
+   *   throw new UnauthorizedError();
    * }
    */
+
+  // Idle expiry from `from`, never past the absolute expiry
+  private slidingExpiry(from: Date, absoluteExpiresAt: Date): Date {
+    const idleExpiry = addSeconds(from, this.config.sessionTTL);
+    return idleExpiry < absoluteExpiresAt ? idleExpiry : absoluteExpiresAt;
+  }
+
+  // Record activity and push the idle expiry forward
+  private async touchSession(session: Session, now: Date): Promise<Session> {
+    const touched: Session = {
+      ...session,
+      lastSeenAt: now,
+      expiresAt: this.slidingExpiry(now, session.absoluteExpiresAt),
+    };
+
+    await this.updateSession(session.sessionId, touched);
+
+    return touched;
+  }
+
+  private requireIndex(): SessionIndex {
+    if (!this.store.index) {
+      throw new ApiError(
+        501,
+        'NOT_SUPPORTED',
+        'This session store cannot list or revoke sessions'
+      );
+    }
+
+    return this.store.index;
+  }
+}
+
+// Signed-in devices per user with the Durable Object store
+const MAX_SESSIONS_PER_USER = 10;
+
+/**
+ * SessionManager for the configured store: stateless signed cookies when
+ * the SESSION_SECRETS secret is set, the per-user Durable Object when
+ * USER_SESSIONS is bound, otherwise KV.
+ */
+export function getSessionManager(env: Env): SessionManager {
+  const secrets = parseSessionSecrets(env.SESSION_SECRETS);
+  const jwtKeys = JwtKeys.fromEnv(env);
+
+  if (secrets.length > 0) {
+    return new SessionManager(
+      new CookieSessionStore({ secrets, encrypt: true }),
+      {},
+      jwtKeys,
+      env.SESSIONS
+    );
+  }
+
+  if (env.USER_SESSIONS) {
+    return new SessionManager(
+      new DurableObjectSessionStore(env.USER_SESSIONS, {
+        maxSessionsPerUser: MAX_SESSIONS_PER_USER,
+      }),
+      {},
+      jwtKeys,
+      env.SESSIONS
+    );
+  }
+
+  return new SessionManager(env.SESSIONS, {}, jwtKeys);
+}
+
+/**
+ * Log the user in: create a session and return it with the Set-Cookie
+ * values for the session and a fresh CSRF token. Any session the request
+ * already carries is deleted, so every login gets a new ID (prevents
+ * session fixation). Shared by every login method.
+ */
+export async function beginSession(
+  request: Request,
+  sessionManager: SessionManager,
+  user: User
+): Promise<{ session: Session; cookies: string[] }> {
+  const previous = await sessionManager.getSessionFromRequest(request);
+  if (previous) {
+    await sessionManager.deleteSession(previous.sessionId, previous.user.id);
+  }
+
+  const session = await sessionManager.createSession(user, {
+    userAgent: request.headers.get('User-Agent') ?? undefined,
+  });
+
+  return {
+    session,
+    cookies: [
+      await sessionManager.createSessionCookie(session),
+      // New CSRF token for the new session
+      createCsrfCookie(generateCsrfToken()),
+    ],
+  };
+}
+
+/**
+ * Record that `user` has proved they own their email address (a magic
+ * link, or a provider's verified email). The first time, whatever was set
+ * up on the account before is removed (see UserStore.claimEmail) and its
+ * sessions and token-mode logins are ended, so someone who signed up with the address without
+ * owning it loses access. Returns the updated row.
+ */
+export async function claimUserEmail(
+  users: UserStore,
+  sessionManager: SessionManager,
+  user: UserRow
+): Promise<UserRow> {
+  if (user.email_verified_at) {
+    return user;
+  }
+
+  if (await users.claimEmail(user.id)) {
+    if (sessionManager.supportsSessionIndex) {
+      await sessionManager.deleteUserSessions(user.id);
+    } else {
+      // Signed-cookie sessions can't be revoked; they run until they expire
+      await sessionManager.revokeRefreshTokens(user.id);
+    }
+  }
+
+  const claimed = await users.findById(user.id);
+  if (!claimed) {
+    throw new NotFoundError('User not found');
+  }
+
+  return claimed;
 }
 
 /**
  * Helper function to require authentication
- * Returns session if valid, otherwise returns an error response
+ * Accepts a bearer access token (token mode) or a session cookie.
+ * Returns the session if valid, otherwise throws UnauthorizedError
+ * (converted to a 401 error envelope by the top-level catch)
  */
 export async function requireAuth(
   request: Request,
   sessionManager: SessionManager
-): Promise<{ session: Session } | { error: Response }> {
-  const session = await sessionManager.getSessionFromRequest(request);
+): Promise<Session> {
+  const session =
+    (await sessionManager.getSessionFromAccessToken(request)) ??
+    (await sessionManager.getSessionFromRequest(request));
 
   if (!session) {
-    return {
-      error: Response.json(
-        {
-          success: false,
-          error: 'UNAUTHORIZED',
-          message: 'Authentication required',
-        },
-        { status: 401 }
-      ),
-    };
+    throw new UnauthorizedError();
   }
 
-  return { session };
+  return session;
+}
+
+/**
+ * Like requireAuth, but also accepts an API key sent as
+ * `Authorization: Bearer ak_...` (see api-keys.ts). Use it for routes that
+ * scripts and services may call; the session's permissions are then
+ * limited to the key's scopes and `apiKeyId` is set.
+ */
+export async function requireAuthOrApiKey(
+  request: Request,
+  env: Env
+): Promise<Session> {
+  const keySession = await authenticateApiKey(request, env.DB);
+
+  return keySession ?? requireAuth(request, getSessionManager(env));
+}
+
+/**
+ * Just the headers requireAuthOrApiKey reads: Authorization and the
+ * session cookie. Kept by long-lived connections (a WebSocket's
+ * attachment is limited to 2 KB) to check the same credentials again
+ * later, once they may have been revoked.
+ */
+export function getAuthHeaders(request: Request, env: Env): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const authorization = request.headers.get('Authorization');
+  const cookie = getSessionManager(env).getSessionCookie(request);
+
+  if (authorization) headers.Authorization = authorization;
+  if (cookie) headers.Cookie = cookie;
+
+  return headers;
 }
 
 /**
@@ -196,5 +665,55 @@ export async function getOptionalSession(
   request: Request,
   sessionManager: SessionManager
 ): Promise<Session | null> {
-  return sessionManager.getSessionFromRequest(request);
+  const tokenSession = await sessionManager
+    .getSessionFromAccessToken(request)
+    .catch(() => null);
+
+  return tokenSession ?? sessionManager.getSessionFromRequest(request);
+}
+
+/**
+ * Route guard: only users with `role` reach the handler.
+ * Responds 401 without a session and 403 without the role.
+ * API keys aren't accepted: they are scoped by permission, not role.
+ *
+ * contacts.get('/', requireRole('admin', listContacts));
+ */
+export function requireRole(role: Role, handler: RouteHandler): RouteHandler {
+  return async (request, env, context) => {
+    const session = await requireAuth(request, getSessionManager(env));
+
+    if (!hasRole(session.user, role)) {
+      throw new ForbiddenError(`Requires the ${role} role`, 'INSUFFICIENT_ROLE');
+    }
+
+    return handler(request, env, context);
+  };
+}
+
+/**
+ * Route guard: only users whose roles grant `permission` reach the handler.
+ * Prefer this over requireRole so roles can be reshaped in roles.ts
+ * without touching routes.
+ *
+ * contacts.delete('/:id', requirePermission('contacts:delete', handler));
+ *
+ * Also accepts API keys whose scopes include `permission`.
+ */
+export function requirePermission(
+  permission: Permission,
+  handler: RouteHandler
+): RouteHandler {
+  return async (request, env, context) => {
+    const session = await requireAuthOrApiKey(request, env);
+
+    if (!hasPermission(session.user, permission)) {
+      throw new ForbiddenError(
+        `Missing permission: ${permission}`,
+        'INSUFFICIENT_PERMISSION'
+      );
+    }
+
+    return handler(request, env, context);
+  };
 }
@@ -0,0 +1,120 @@
+/**
+ * API error envelope shared by the Worker and the React components.
+ *
+ * Every failed /api/* request returns this JSON body, whatever endpoint
+ * produced it. Components call `parseApiResponse` instead of inspecting
+ * each endpoint's error shape by hand.
+ */
+
+export interface ApiErrorResponse {
+  success: false;
+  /** Machine-readable error code, e.g. VALIDATION_ERROR */
+  error: string;
+  /** Human-readable message, safe to show to users */
+  message: string;
+  /** Optional structured details (e.g. field-level validation errors) */
+  details?: unknown;
+  /** ID to quote when reporting the error; matches the worker logs */
+  requestId: string;
+}
+
+/**
+ * Error thrown on the client when the API returns an error envelope
+ */
+export class ApiRequestError extends Error {
+  readonly code: string;
+  readonly status: number;
+  readonly requestId?: string;
+  readonly details?: unknown;
+
+  constructor(
+    body: Omit<ApiErrorResponse, 'success' | 'requestId'> & { requestId?: string },
+    status = 0
+  ) {
+    super(body.message);
+    this.name = 'ApiRequestError';
+    this.code = body.error;
+    this.status = status;
+    this.requestId = body.requestId;
+    this.details = body.details;
+  }
+}
+
+/**
+ * Type guard for the error envelope
+ */
+export function isApiErrorResponse(data: unknown): data is ApiErrorResponse {
+  if (typeof data !== 'object' || data === null) return false;
+
+  const obj = data as Record<string, unknown>;
+
+  return (
+    obj.success === false &&
+    typeof obj.error === 'string' &&
+    typeof obj.message === 'string'
+  );
+}
+
+/**
+ * Build an ApiRequestError from a failed response.
+ * Falls back to a generic error when the body is not an envelope
+ * (e.g. a proxy error page).
+ */
+export async function parseApiError(
+  response: Response
+): Promise<ApiRequestError> {
+  const data: unknown = await response.json().catch(() => null);
+
+  if (isApiErrorResponse(data)) {
+    return new ApiRequestError(data, response.status);
+  }
+
+  return new ApiRequestError(
+    {
+      error: 'HTTP_ERROR',
+      message: `Request failed with status ${response.status}`,
+    },
+    response.status
+  );
+}
+
+/**
+ * Read a JSON response body, throwing ApiRequestError on failure
+ */
+export async function parseApiResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    throw await parseApiError(response);
+  }
+
+  const data: unknown = await response.json();
+
+  if (isApiErrorResponse(data)) {
+    throw new ApiRequestError(data, response.status);
+  }
+
+  return data as T;
+}
+
+/**
+ * Field-level messages from a VALIDATION_ERROR, keyed by field path.
+ * Returns an empty object for any other error.
+ */
+export function getFieldErrors(error: unknown): Record<string, string> {
+  if (!(error instanceof ApiRequestError) || !Array.isArray(error.details)) {
+    return {};
+  }
+
+  const fieldErrors: Record<string, string> = {};
+
+  for (const issue of error.details as unknown[]) {
+    if (typeof issue !== 'object' || issue === null) continue;
+
+    const { field, message } = issue as Record<string, unknown>;
+    // Keep the first message per field
+    if (typeof field === 'string' && field && typeof message === 'string') {
+      fieldErrors[field] ??= message;
+    }
+  }
+
+  return fieldErrors;
+}
@@ -0,0 +1,49 @@
+/**
+ * CSRF token names shared by the Worker and the React components.
+ *
+ * The Worker issues a random token in a readable `csrf_token` cookie
+ * (see worker/csrf.ts). Mutating requests must echo it in the
+ * X-CSRF-Token header; a cross-site form post cannot read the cookie,
+ * so it cannot send a matching header. Components use fetchWithCsrf
+ * (src/lib/fetch-with-csrf.ts) to attach it.
+ */
+
+export const CSRF_COOKIE_NAME = 'csrf_token';
+export const CSRF_HEADER_NAME = 'X-CSRF-Token';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Whether a request with this method must carry a CSRF token
+ */
+export function requiresCsrfToken(method: string): boolean {
+  return !SAFE_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Read one cookie from a Cookie header or document.cookie string.
+ * A value that isn't valid percent-encoding reads as missing.
+ */
+export function readCookie(
+  cookieString: string | null,
+  name: string
+): string | null {
+  if (!cookieString) return null;
+
+  for (const cookie of cookieString.split(';')) {
+    const trimmed = cookie.trim();
+    const separator = trimmed.indexOf('=');
+    if (separator === -1 || trimmed.slice(0, separator) !== name) continue;
+
+    const value = trimmed.slice(separator + 1);
+    if (!value) continue;
+
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      continue;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,61 @@
+/**
+ * fetch() wrapper that sends the CSRF token on mutating requests.
+ *
+ * Usage:
+ * const response = await fetchWithCsrf('/api/contacts', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify(formData),
+ * });
+ */
+
+import {
+  CSRF_COOKIE_NAME,
+  CSRF_HEADER_NAME,
+  readCookie,
+  requiresCsrfToken,
+} from './csrf';
+
+/**
+ * Current CSRF token from the cookie the Worker issued, if any
+ */
+export function getCsrfToken(): string | null {
+  return readCookie(document.cookie, CSRF_COOKIE_NAME);
+}
+
+function withCsrfHeader(init: RequestInit): RequestInit {
+  const token = getCsrfToken();
+  if (!token || !requiresCsrfToken(init.method ?? 'GET')) {
+    return init;
+  }
+
+  const headers = new Headers(init.headers);
+  headers.set(CSRF_HEADER_NAME, token);
+
+  return { ...init, headers };
+}
+
+/**
+ * Like fetch(), with the X-CSRF-Token header attached when needed.
+ *
+ * If the Worker rejects the request (403) and issues a new token cookie in
+ * the same response, the request is retried once with the new token. Only
+ * use string or FormData bodies, since streams cannot be re-sent.
+ */
+export async function fetchWithCsrf(
+  input: RequestInfo | URL,
+  init: RequestInit = {}
+): Promise<Response> {
+  const tokenBefore = getCsrfToken();
+  const response = await fetch(input, withCsrfHeader(init));
+
+  if (
+    response.status === 403 &&
+    requiresCsrfToken(init.method ?? 'GET') &&
+    getCsrfToken() !== tokenBefore
+  ) {
+    return fetch(input, withCsrfHeader(init));
+  }
+
+  return response;
+}
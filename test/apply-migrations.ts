@@ -0,0 +1,5 @@
+import { applyD1Migrations, env } from 'cloudflare:test';
+
+// Setup files run outside isolated storage, so this is applied once per
+// test file and every test sees the migrated schema
+await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
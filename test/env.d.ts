@@ -0,0 +1,35 @@
+/**
+ * Bindings configured for tests in vitest.config.ts. The examples expect
+ * these on Env once they're added to wrangler.jsonc and `wrangler types`
+ * is run, so they're declared the same way here. Optional ones aren't
+ * bound in tests, so the examples take their fallback paths.
+ */
+
+declare namespace Cloudflare {
+  interface Env {
+    DB: D1Database;
+    SESSIONS: KVNamespace;
+    USER_SESSIONS?: DurableObjectNamespace<
+      import('../examples/database/kv-sessions/session-durable-object').SessionDurableObject
+    >;
+    SESSION_SECRETS?: string;
+    JWT_PRIVATE_KEYS?: string;
+    JWT_SECRETS?: string;
+    GOOGLE_CLIENT_ID?: string;
+    GOOGLE_CLIENT_SECRET?: string;
+    OIDC_ISSUER?: string;
+    OIDC_CLIENT_ID?: string;
+    OIDC_CLIENT_SECRET?: string;
+    EMAIL_TRANSPORT?: string;
+  }
+}
+
+declare module 'cloudflare:test' {
+  interface ProvidedEnv extends Env {
+    TEST_MIGRATIONS: D1Migration[];
+    // The session Durable Object, for tests that use it directly
+    SESSION_OBJECTS: DurableObjectNamespace<
+      import('../examples/database/kv-sessions/session-durable-object').SessionDurableObject
+    >;
+  }
+}
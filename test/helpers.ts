@@ -0,0 +1,98 @@
+/**
+ * Test helpers
+ *
+ * A Router with the same top-level catch as worker/index.ts, so handlers'
+ * typed errors come back as the shared error envelope, and shortcuts for
+ * creating users and signing them in.
+ */
+
+import {
+  createExecutionContext,
+  env,
+  waitOnExecutionContext,
+} from 'cloudflare:test';
+import { hashPassword } from '../examples/database/kv-sessions/password';
+import { UserStore } from '../examples/database/kv-sessions/user-store';
+import { getSessionManager } from '../examples/database/kv-sessions/worker-middleware';
+import { rowToUser, type UserRow } from '../examples/database/kv-sessions/types';
+import { toErrorResponse } from '../worker/errors';
+import { Router, type RouteGroup } from '../worker/router';
+
+/**
+ * A `fetch` for routes registered by `register`, mounted under /api
+ */
+export function createTestApp(register: (api: RouteGroup) => void) {
+  const router = new Router({ base: '/api' });
+
+  router.use(async (_request, _env, { requestId }, next) => {
+    try {
+      return await next();
+    } catch (error) {
+      return toErrorResponse(error, requestId);
+    }
+  });
+
+  register(router);
+
+  return async (path: string, init?: RequestInit): Promise<Response> => {
+    const ctx = createExecutionContext();
+    const response = await router.handle(
+      new Request(`https://example.com${path}`, init),
+      env,
+      ctx
+    );
+    await waitOnExecutionContext(ctx);
+
+    return response ?? new Response(null, { status: 404 });
+  };
+}
+
+/**
+ * Init for a JSON request
+ */
+export function json(
+  method: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): RequestInit {
+  return {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  };
+}
+
+/**
+ * Insert a user, by default a plain user with password "correct horse"
+ */
+export async function createUser(
+  overrides: { email?: string; name?: string; password?: string; roles?: string[] } = {}
+): Promise<UserRow> {
+  const users = new UserStore(env.DB);
+  const user = await users.create({
+    email: overrides.email ?? `${crypto.randomUUID()}@example.com`,
+    name: overrides.name ?? 'Test User',
+    passwordHash:
+      overrides.password === '' ? '' : await hashPassword(overrides.password ?? 'correct horse'),
+  });
+
+  if (overrides.roles) {
+    await env.DB.prepare('UPDATE users SET roles = ? WHERE id = ?')
+      .bind(JSON.stringify(overrides.roles), user.id)
+      .run();
+    return (await users.findById(user.id))!;
+  }
+
+  return user;
+}
+
+/**
+ * Sign `user` in and return the Cookie header value for the session
+ */
+export async function signIn(user: UserRow): Promise<string> {
+  const sessionManager = getSessionManager(env);
+  const session = await sessionManager.createSession(rowToUser(user));
+  const cookie = await sessionManager.createSessionCookie(session);
+
+  return cookie.split(';')[0];
+}
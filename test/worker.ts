@@ -0,0 +1,15 @@
+/**
+ * Test Worker
+ *
+ * Entry point for the vitest Workers pool (vitest.config.ts). Durable
+ * Objects must be exported from the main module to be bound, so the
+ * classes under test are re-exported here.
+ */
+
+export { SessionDurableObject } from '../examples/database/kv-sessions/session-durable-object';
+
+export default {
+  async fetch() {
+    return new Response(null, { status: 404 });
+  },
+} satisfies ExportedHandler<Env>;
@@ -0,0 +1,43 @@
+import {
+  defineWorkersConfig,
+  readD1Migrations,
+} from '@cloudflare/vitest-pool-workers/config';
+
+// Tests run inside workerd (via Miniflare) against local D1, KV and
+// Durable Objects. Each test file starts from freshly migrated storage.
+export default defineWorkersConfig(async () => {
+  // Applied in this order by test/apply-migrations.ts
+  const migrations = [
+    ...(await readD1Migrations('examples/database/d1-contact-form/migrations')),
+    ...(await readD1Migrations('examples/database/kv-sessions/migrations')),
+  ];
+
+  return {
+    test: {
+      include: ['examples/**/*.test.ts', 'worker/**/*.test.ts'],
+      setupFiles: ['./test/apply-migrations.ts'],
+      poolOptions: {
+        workers: {
+          main: './test/worker.ts',
+          miniflare: {
+            compatibilityDate: '2025-11-09',
+            d1Databases: ['DB'],
+            kvNamespaces: ['SESSIONS'],
+            // Not USER_SESSIONS, so getSessionManager() keeps to KV
+            durableObjects: {
+              SESSION_OBJECTS: 'SessionDurableObject',
+            },
+            bindings: {
+              TEST_MIGRATIONS: migrations,
+              // The mock provider in oauth-endpoints.test.ts
+              OIDC_ISSUER: 'https://issuer.test',
+              OIDC_CLIENT_ID: 'test-client',
+              // Turns on token mode (?mode=token)
+              JWT_SECRETS: 'test-secret-at-least-32-characters',
+            },
+          },
+        },
+      },
+    },
+  };
+});
@@ -1,11 +1,12 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: cde5d6bbbb8f5d59a6f6313ce6d7b38b)
+// Generated by Wrangler by running `wrangler types` (hash: 2560fe6b9e8e959108ceec2618d4ee30)
 // Runtime types generated with workerd@1.20251105.0 2025-11-09 
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./worker/index");
 	}
 	interface Env {
+		CORS_ALLOWED_ORIGINS: "";
 	}
 }
 interface Env extends Cloudflare.Env {}
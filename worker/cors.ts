@@ -0,0 +1,149 @@
+/**
+ * CORS Middleware
+ *
+ * One CORS layer for every route on the router, replacing the per-handler
+ * `corsHeaders` objects. Allowed origins come from the CORS_ALLOWED_ORIGINS
+ * env var (comma-separated), so each environment can configure its own list.
+ *
+ * Usage:
+ * router.use(cors());
+ *
+ * Configuration (wrangler.jsonc or .dev.vars):
+ * CORS_ALLOWED_ORIGINS = "https://app.example.com,http://localhost:5173"
+ *
+ * Same-origin requests from the bundled React app need no configuration.
+ * Use "*" to allow any origin; credentials are never allowed for "*".
+ */
+
+import { CSRF_HEADER_NAME } from '../src/lib/csrf';
+import type { Middleware } from './router';
+
+export interface CorsOptions {
+  // Overrides CORS_ALLOWED_ORIGINS when set
+  allowedOrigins?: string[];
+  allowMethods: string[];
+  allowHeaders: string[];
+  exposeHeaders: string[];
+  // Send Access-Control-Allow-Credentials so cookies are included
+  credentials: boolean;
+  // Seconds the browser may cache a preflight response
+  maxAge: number;
+}
+
+export const DEFAULT_CORS_OPTIONS: CorsOptions = {
+  allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', CSRF_HEADER_NAME],
+  exposeHeaders: [],
+  credentials: true,
+  maxAge: 60 * 60 * 24, // 1 day
+};
+
+// Parse a comma-separated origin list, ignoring blanks and trailing slashes
+export function parseAllowedOrigins(value: string | undefined): string[] {
+  if (!value) return [];
+
+  return value
+    .split(',')
+    .map((origin) => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+}
+
+// Append a token to the Vary header without duplicating it
+function appendVary(headers: Headers, value: string): void {
+  const current = headers.get('Vary');
+  if (!current) {
+    headers.set('Vary', value);
+    return;
+  }
+
+  const values = current.split(',').map((v) => v.trim().toLowerCase());
+  if (!values.includes('*') && !values.includes(value.toLowerCase())) {
+    headers.set('Vary', `${current}, ${value}`);
+  }
+}
+
+/**
+ * Build the Access-Control-* headers for an allowed origin
+ */
+function buildCorsHeaders(
+  origin: string,
+  allowAny: boolean,
+  options: CorsOptions
+): Headers {
+  const headers = new Headers();
+
+  if (allowAny) {
+    headers.set('Access-Control-Allow-Origin', '*');
+  } else {
+    headers.set('Access-Control-Allow-Origin', origin);
+    if (options.credentials) {
+      headers.set('Access-Control-Allow-Credentials', 'true');
+    }
+  }
+
+  if (options.exposeHeaders.length > 0) {
+    headers.set(
+      'Access-Control-Expose-Headers',
+      options.exposeHeaders.join(', ')
+    );
+  }
+
+  return headers;
+}
+
+/**
+ * Create the CORS middleware
+ */
+export function cors(options: Partial<CorsOptions> = {}): Middleware {
+  const config: CorsOptions = { ...DEFAULT_CORS_OPTIONS, ...options };
+
+  return async (request, env, _context, next) => {
+    const origin = request.headers.get('Origin');
+    const allowedOrigins =
+      config.allowedOrigins ?? parseAllowedOrigins(env.CORS_ALLOWED_ORIGINS);
+    const allowAny = allowedOrigins.includes('*');
+    const isAllowed =
+      origin !== null && (allowAny || allowedOrigins.includes(origin));
+
+    const isPreflight =
+      request.method === 'OPTIONS' &&
+      request.headers.has('Access-Control-Request-Method');
+
+    if (isPreflight) {
+      const headers = isAllowed
+        ? buildCorsHeaders(origin, allowAny, config)
+        : new Headers();
+
+      if (isAllowed) {
+        headers.set('Access-Control-Allow-Methods', config.allowMethods.join(', '));
+        headers.set('Access-Control-Allow-Headers', config.allowHeaders.join(', '));
+        headers.set('Access-Control-Max-Age', String(config.maxAge));
+      }
+
+      if (!allowAny) {
+        appendVary(headers, 'Origin');
+      }
+      appendVary(headers, 'Access-Control-Request-Headers');
+
+      // Disallowed origins get no CORS headers, so the browser blocks them
+      return new Response(null, { status: 204, headers });
+    }
+
+    const response = await next();
+
+    // Copy so headers are mutable even for fetched or streamed responses
+    const corsResponse = new Response(response.body, response);
+
+    if (isAllowed) {
+      buildCorsHeaders(origin, allowAny, config).forEach((value, name) => {
+        corsResponse.headers.set(name, value);
+      });
+    }
+
+    if (!allowAny) {
+      appendVary(corsResponse.headers, 'Origin');
+    }
+
+    return corsResponse;
+  };
+}
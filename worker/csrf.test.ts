@@ -0,0 +1,45 @@
+import { createExecutionContext, env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { csrf } from './csrf';
+import { Router } from './router';
+import { readCookie } from '../src/lib/csrf';
+
+const router = new Router({ base: '/api' });
+router.use(csrf());
+router.post('/items', () => Response.json({ success: true }));
+
+async function post(headers: Record<string, string>): Promise<Response> {
+  const response = await router.handle(
+    new Request('https://example.com/api/items', { method: 'POST', headers }),
+    env,
+    createExecutionContext()
+  );
+
+  return response ?? new Response(null, { status: 404 });
+}
+
+describe('readCookie', () => {
+  it('keeps an "=" in the value', () => {
+    expect(readCookie('a=1; csrf_token=abc==', 'csrf_token')).toBe('abc==');
+  });
+
+  it('reads a malformed value as missing', () => {
+    expect(readCookie('csrf_token=%E0', 'csrf_token')).toBeNull();
+  });
+});
+
+describe('csrf', () => {
+  it('accepts a matching header', async () => {
+    const response = await post({ Cookie: 'csrf_token=abc', 'X-CSRF-Token': 'abc' });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('rejects a malformed cookie with the error envelope and a new token', async () => {
+    const response = await post({ Cookie: 'csrf_token=%E0', 'X-CSRF-Token': '%E0' });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ error: 'CSRF_TOKEN_INVALID' });
+    expect(response.headers.get('Set-Cookie')).toMatch(/^csrf_token=/);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * CSRF Middleware
+ *
+ * Double-submit token protection for cookie-authenticated routes. Every
+ * response that lacks one sets a random token in a readable cookie, and
+ * POST/PUT/PATCH/DELETE requests must echo that token in the X-CSRF-Token
+ * header. A cross-site page can make the browser send the cookie but cannot
+ * read it, so it cannot produce the header.
+ *
+ * Requests that carry no cookies at all are exempt: with no ambient
+ * credentials there is nothing to forge (e.g. curl or server-to-server calls).
+ *
+ * Usage:
+ * router.use(cors());
+ * router.use(csrf());
+ *
+ * The React side attaches the header via fetchWithCsrf
+ * (src/lib/fetch-with-csrf.ts).
+ * Rotate the token at login by setting createCsrfCookie(generateCsrfToken())
+ * on the login response.
+ */
+
+import {
+  CSRF_COOKIE_NAME,
+  CSRF_HEADER_NAME,
+  readCookie,
+  requiresCsrfToken,
+} from '../src/lib/csrf';
+import { ForbiddenError, toErrorResponse } from './errors';
+import type { Middleware } from './router';
+
+export interface CsrfOptions {
+  cookieName: string;
+  headerName: string;
+  // Cookie lifetime in seconds
+  maxAge: number;
+  // Send the cookie over HTTPS only (browsers also accept it on http://localhost)
+  secure: boolean;
+}
+
+export const DEFAULT_CSRF_OPTIONS: CsrfOptions = {
+  cookieName: CSRF_COOKIE_NAME,
+  headerName: CSRF_HEADER_NAME,
+  maxAge: 60 * 60 * 24 * 30, // 30 days
+  secure: true,
+};
+
+// Constant-time string comparison so timing does not reveal the token
+function tokensMatch(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+
+  if (aBytes.byteLength !== bBytes.byteLength) {
+    return false;
+  }
+
+  return crypto.subtle.timingSafeEqual(aBytes, bBytes);
+}
+
+/**
+ * Generate a new random CSRF token
+ */
+export function generateCsrfToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Set-Cookie value for a CSRF token.
+ * Not HttpOnly: the client must read it to send the header.
+ */
+export function createCsrfCookie(
+  token: string,
+  options: Partial<CsrfOptions> = {}
+): string {
+  const config: CsrfOptions = { ...DEFAULT_CSRF_OPTIONS, ...options };
+
+  let cookie = `${config.cookieName}=${encodeURIComponent(token)}; Max-Age=${config.maxAge}; Path=/; SameSite=Lax`;
+  if (config.secure) {
+    cookie += '; Secure';
+  }
+
+  return cookie;
+}
+
+/**
+ * Create the CSRF middleware
+ */
+export function csrf(options: Partial<CsrfOptions> = {}): Middleware {
+  const config: CsrfOptions = { ...DEFAULT_CSRF_OPTIONS, ...options };
+
+  // Attach a fresh token cookie unless the handler already set one
+  const withTokenCookie = (response: Response): Response => {
+    const alreadySet = response.headers
+      .getSetCookie()
+      .some((cookie) => cookie.startsWith(`${config.cookieName}=`));
+
+    if (alreadySet) {
+      return response;
+    }
+
+    const issued = new Response(response.body, response);
+    issued.headers.append('Set-Cookie', createCsrfCookie(generateCsrfToken(), config));
+    return issued;
+  };
+
+  return async (request, _env, { requestId }, next) => {
+    const cookieToken = readCookie(
+      request.headers.get('Cookie'),
+      config.cookieName
+    );
+
+    if (requiresCsrfToken(request.method) && request.headers.has('Cookie')) {
+      const headerToken = request.headers.get(config.headerName);
+
+      if (!cookieToken || !headerToken || !tokensMatch(cookieToken, headerToken)) {
+        const error = new ForbiddenError(
+          'Missing or invalid CSRF token',
+          'CSRF_TOKEN_INVALID'
+        );
+        const response = toErrorResponse(error, requestId);
+
+        // A missing cookie gets a new token so the client can retry
+        return cookieToken ? response : withTokenCookie(response);
+      }
+    }
+
+    const response = await next();
+
+    return cookieToken ? response : withTokenCookie(response);
+  };
+}
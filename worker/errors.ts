@@ -0,0 +1,179 @@
+/**
+ * Worker Errors
+ *
+ * Typed error classes for API handlers. Handlers throw these instead of
+ * building error responses by hand; the top-level catch in worker/index.ts
+ * turns them into the shared error envelope (see src/lib/api-error.ts).
+ *
+ * Usage:
+ * if (!contact) {
+ *   throw new NotFoundError('Contact not found');
+ * }
+ */
+
+import type { ApiErrorResponse } from '../src/lib/api-error';
+
+export type { ApiErrorResponse };
+
+interface ApiErrorOptions {
+  details?: unknown;
+  headers?: Record<string, string>;
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors that map to an HTTP status and error code
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details?: unknown;
+  readonly headers: Record<string, string>;
+
+  constructor(
+    status: number,
+    code: string,
+    message: string,
+    options: ApiErrorOptions = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = options.details;
+    this.headers = options.headers ?? {};
+  }
+}
+
+// 400 - request body or parameters failed validation
+export class ValidationError extends ApiError {
+  constructor(message = 'Invalid request data', details?: unknown) {
+    super(400, 'VALIDATION_ERROR', message, { details });
+    this.name = 'ValidationError';
+  }
+}
+
+// 401 - missing or invalid credentials
+export class UnauthorizedError extends ApiError {
+  constructor(message = 'Authentication required', code = 'UNAUTHORIZED') {
+    super(401, code, message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+// 403 - authenticated (or anonymous) but not allowed to do this
+export class ForbiddenError extends ApiError {
+  constructor(message = 'Forbidden', code = 'FORBIDDEN') {
+    super(403, code, message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+// 404 - resource or route does not exist
+export class NotFoundError extends ApiError {
+  constructor(message = 'Resource not found') {
+    super(404, 'NOT_FOUND', message);
+    this.name = 'NotFoundError';
+  }
+}
+
+// 405 - route exists but not for this method
+export class MethodNotAllowedError extends ApiError {
+  constructor(method: string, allowed: string[]) {
+    super(405, 'METHOD_NOT_ALLOWED', `Method ${method} not allowed for this endpoint`, {
+      headers: { Allow: allowed.join(', ') },
+    });
+    this.name = 'MethodNotAllowedError';
+  }
+}
+
+// 409 - request conflicts with existing state (e.g. duplicate email)
+export class ConflictError extends ApiError {
+  constructor(message = 'Resource already exists', code = 'CONFLICT') {
+    super(409, code, message);
+    this.name = 'ConflictError';
+  }
+}
+
+// 429 - caller exceeded a limit; retryAfter is in seconds
+export class RateLimitedError extends ApiError {
+  readonly retryAfter?: number;
+
+  constructor(message = 'Too many requests', retryAfter?: number) {
+    super(429, 'RATE_LIMITED', message, {
+      headers:
+        retryAfter !== undefined
+          ? { 'Retry-After': String(Math.ceil(retryAfter)) }
+          : {},
+    });
+    this.name = 'RateLimitedError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+// 502 by default - the AI provider failed or returned something unusable.
+// The provider's own status is kept in upstreamStatus rather than sent to
+// the client: a 401 from the provider means the Worker's key is bad, not
+// that the user is signed out.
+export class UpstreamAIError extends ApiError {
+  readonly upstreamStatus?: number;
+
+  constructor(
+    message = 'AI provider error',
+    options: ApiErrorOptions & { status?: number; upstreamStatus?: number } = {}
+  ) {
+    super(options.status ?? 502, 'UPSTREAM_AI_ERROR', message, options);
+    this.name = 'UpstreamAIError';
+    this.upstreamStatus = options.upstreamStatus;
+  }
+}
+
+/**
+ * Request ID for correlating client errors with worker logs.
+ * Uses the Cloudflare Ray ID when present.
+ */
+export function getRequestId(request: Request): string {
+  return request.headers.get('cf-ray') ?? crypto.randomUUID();
+}
+
+/**
+ * Serialize any thrown value to the error envelope.
+ * Unknown errors become a generic 500 so internals never leak to clients.
+ */
+export function toErrorBody(error: unknown, requestId: string): ApiErrorResponse {
+  if (error instanceof ApiError) {
+    return {
+      success: false,
+      error: error.code,
+      message: error.message,
+      ...(error.details !== undefined && { details: error.details }),
+      requestId,
+    };
+  }
+
+  return {
+    success: false,
+    error: 'INTERNAL_ERROR',
+    message: 'An unexpected error occurred',
+    requestId,
+  };
+}
+
+/**
+ * Convert any thrown value into an error envelope response
+ */
+export function toErrorResponse(error: unknown, requestId: string): Response {
+  const status = error instanceof ApiError ? error.status : 500;
+
+  if (status >= 500) {
+    console.error(`[${requestId}] Unhandled error:`, error);
+  }
+
+  return Response.json(toErrorBody(error, requestId), {
+    status,
+    headers: {
+      ...(error instanceof ApiError ? error.headers : {}),
+      'X-Request-Id': requestId,
+    },
+  });
+}
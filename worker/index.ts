@@ -1,12 +1,34 @@
+import { cors } from "./cors";
+import { csrf } from "./csrf";
+import { toErrorResponse } from "./errors";
+import { Router } from "./router";
+
+const router = new Router({ base: "/api" });
+
+router.use(cors());
+
+// Before the catch: CSRF rejections are built as error responses directly
+router.use(csrf());
+
+// Top-level catch: anything a handler throws becomes the error envelope
+router.use(async (_request, _env, { requestId }, next) => {
+  try {
+    return await next();
+  } catch (error) {
+    return toErrorResponse(error, requestId);
+  }
+});
+
+router.get("/", () =>
+  Response.json({
+    name: "Cloudflare",
+  })
+);
+
 export default {
-  fetch(request) {
-    const url = new URL(request.url);
-
-    if (url.pathname.startsWith("/api/")) {
-      return Response.json({
-        name: "Cloudflare",
-      });
-    }
-		return new Response(null, { status: 404 });
+  async fetch(request, env, ctx) {
+    const response = await router.handle(request, env, ctx);
+
+    return response ?? new Response(null, { status: 404 });
   },
 } satisfies ExportedHandler<Env>;
@@ -0,0 +1,255 @@
+/**
+ * Worker Router
+ *
+ * A small typed router for the Worker entry point. Routes are declared per
+ * HTTP method with `:param` placeholders, and feature modules (contacts,
+ * auth, chat) register their handlers into route groups.
+ *
+ * Usage:
+ * const router = new Router({ base: '/api' });
+ *
+ * router.group('/contacts', (contacts) => {
+ *   contacts.get('/:id', (request, env, { params }) => getContact(request, env, params.id));
+ * });
+ *
+ * const response = await router.handle(request, env, ctx);
+ */
+
+import {
+  MethodNotAllowedError,
+  NotFoundError,
+  ValidationError,
+  getRequestId,
+  toErrorResponse,
+} from './errors';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// Path parameters extracted from `:name` segments
+export type RouteParams = Record<string, string>;
+
+// Per-request context passed to every handler
+export interface RouteContext {
+  params: RouteParams;
+  url: URL;
+  ctx: ExecutionContext;
+  // Correlates error envelopes with worker logs
+  requestId: string;
+}
+
+export type RouteHandler = (
+  request: Request,
+  env: Env,
+  context: RouteContext
+) => Response | Promise<Response>;
+
+// Wraps dispatch for every request under the router's base, matched or not
+export type Middleware = (
+  request: Request,
+  env: Env,
+  context: RouteContext,
+  next: () => Promise<Response>
+) => Response | Promise<Response>;
+
+interface Route {
+  method: HttpMethod;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: RouteHandler;
+}
+
+export interface RouterOptions {
+  // Path prefix owned by the router; unmatched paths under it get a 404 JSON
+  base?: string;
+}
+
+// Joins path fragments and strips duplicate or trailing slashes
+function joinPaths(...parts: string[]): string {
+  const joined = parts.join('/').replace(/\/{2,}/g, '/');
+  return joined.length > 1 ? joined.replace(/\/$/, '') : joined;
+}
+
+// Compiles `/contacts/:id` into a matcher and the list of param names
+function compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+  const paramNames: string[] = [];
+  const source = path
+    .split('/')
+    .map((segment) => {
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+
+  return { pattern: new RegExp(`^${source}/?$`), paramNames };
+}
+
+/**
+ * A set of routes sharing a path prefix.
+ * Feature modules receive one of these and register their handlers into it.
+ */
+export class RouteGroup {
+  protected routes: Route[];
+  private prefix: string;
+
+  constructor(routes: Route[], prefix: string) {
+    this.routes = routes;
+    this.prefix = prefix;
+  }
+
+  on(method: HttpMethod, path: string, handler: RouteHandler): this {
+    const { pattern, paramNames } = compilePath(joinPaths(this.prefix, path));
+    this.routes.push({ method, pattern, paramNames, handler });
+    return this;
+  }
+
+  get(path: string, handler: RouteHandler): this {
+    return this.on('GET', path, handler);
+  }
+
+  post(path: string, handler: RouteHandler): this {
+    return this.on('POST', path, handler);
+  }
+
+  put(path: string, handler: RouteHandler): this {
+    return this.on('PUT', path, handler);
+  }
+
+  patch(path: string, handler: RouteHandler): this {
+    return this.on('PATCH', path, handler);
+  }
+
+  delete(path: string, handler: RouteHandler): this {
+    return this.on('DELETE', path, handler);
+  }
+
+  /**
+   * Create a nested group under this group's prefix
+   */
+  group(prefix: string, register: (group: RouteGroup) => void): this {
+    register(new RouteGroup(this.routes, joinPaths(this.prefix, prefix)));
+    return this;
+  }
+}
+
+export class Router extends RouteGroup {
+  private base: string;
+  private middlewares: Middleware[] = [];
+
+  constructor(options: RouterOptions = {}) {
+    const base = joinPaths('/', options.base ?? '/');
+    super([], base);
+    this.base = base;
+  }
+
+  /**
+   * Add middleware; runs in registration order around route dispatch
+   */
+  use(middleware: Middleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  /**
+   * Check whether a path falls under the router's base prefix
+   */
+  owns(pathname: string): boolean {
+    return (
+      this.base === '/' ||
+      pathname === this.base ||
+      pathname.startsWith(`${this.base}/`)
+    );
+  }
+
+  /**
+   * Dispatch a request to the matching route.
+   * Returns null for paths outside the base prefix so the caller can fall
+   * through to static assets or other handlers.
+   */
+  async handle(
+    request: Request,
+    env: Env,
+    ctx: ExecutionContext
+  ): Promise<Response | null> {
+    const url = new URL(request.url);
+
+    if (!this.owns(url.pathname)) {
+      return null;
+    }
+
+    const context: RouteContext = {
+      params: {},
+      url,
+      ctx,
+      requestId: getRequestId(request),
+    };
+
+    const run = (index: number): Promise<Response> => {
+      const middleware = this.middlewares[index];
+      if (!middleware) {
+        return this.dispatch(request, env, context);
+      }
+      return Promise.resolve(
+        middleware(request, env, context, () => run(index + 1))
+      );
+    };
+
+    return run(0);
+  }
+
+  private async dispatch(
+    request: Request,
+    env: Env,
+    context: RouteContext
+  ): Promise<Response> {
+    const { url } = context;
+    const allowed = new Set<HttpMethod>();
+
+    for (const route of this.routes) {
+      const match = url.pathname.match(route.pattern);
+      if (!match) continue;
+
+      if (route.method !== request.method) {
+        allowed.add(route.method);
+        continue;
+      }
+
+      for (const [index, name] of route.paramNames.entries()) {
+        try {
+          context.params[name] = decodeURIComponent(match[index + 1]);
+        } catch {
+          // e.g. a truncated escape like %E0%A4%A
+          return toErrorResponse(
+            new ValidationError('Malformed URL parameter', [
+              { field: name, message: 'Malformed URL parameter' },
+            ]),
+            context.requestId
+          );
+        }
+      }
+
+      return route.handler(request, env, context);
+    }
+
+    if (allowed.size > 0 && request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 204,
+        headers: { Allow: [...allowed, 'OPTIONS'].join(', ') },
+      });
+    }
+
+    if (allowed.size > 0) {
+      return toErrorResponse(
+        new MethodNotAllowedError(request.method, [...allowed]),
+        context.requestId
+      );
+    }
+
+    return toErrorResponse(
+      new NotFoundError(`No route for ${url.pathname}`),
+      context.requestId
+    );
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Request Validation
+ *
+ * A small schema layer for JSON request bodies. Each schema is declared once
+ * and gives both the TypeScript type (via `Infer`) and the runtime validator.
+ * Failures throw ValidationError with field-level details, which the
+ * top-level catch returns as a 400 error envelope.
+ *
+ * Usage:
+ * export const LoginRequestSchema = v.object({
+ *   email: v.string({ max: 255, pattern: EMAIL_PATTERN }),
+ *   password: v.string({ min: 6, max: 100 }),
+ * });
+ * export type LoginRequest = Infer<typeof LoginRequestSchema>;
+ *
+ * const body = await parseJsonBody(request, LoginRequestSchema);
+ */
+
+import { ValidationError } from './errors';
+
+// One failed check; `field` is a dotted path such as `conversationHistory.2.role`
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  readonly isOptional: boolean;
+  // Returns the (possibly normalized) value and records any issues
+  check(value: unknown, path: string, issues: ValidationIssue[]): T;
+}
+
+interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type Prettify<T> = { [K in keyof T]: T[K] } & {};
+
+type InferShape<S extends Shape> = Prettify<
+  {
+    [K in keyof S as S[K] extends OptionalSchema<unknown> ? never : K]: Infer<S[K]>;
+  } & {
+    [K in keyof S as S[K] extends OptionalSchema<unknown> ? K : never]?: Infer<S[K]>;
+  }
+>;
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Label used in messages; the root path is the whole body
+function label(path: string): string {
+  return path || 'Request body';
+}
+
+function schema<T>(
+  check: (value: unknown, path: string, issues: ValidationIssue[]) => T
+): Schema<T> {
+  return { isOptional: false, check };
+}
+
+interface StringOptions {
+  min?: number;
+  max?: number;
+  // Trim before checking length; the trimmed value is returned
+  trim?: boolean;
+  pattern?: RegExp;
+  patternMessage?: string;
+}
+
+interface NumberOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+interface ArrayOptions {
+  max?: number;
+}
+
+export const v = {
+  string(options: StringOptions = {}): Schema<string> {
+    return schema((value, path, issues) => {
+      if (typeof value !== 'string') {
+        issues.push({ field: path, message: `${label(path)} must be a string` });
+        return value as string;
+      }
+
+      const str = options.trim ? value.trim() : value;
+
+      if (options.min !== undefined && str.length < options.min) {
+        issues.push({
+          field: path,
+          message:
+            options.min === 1
+              ? `${label(path)} is required`
+              : `${label(path)} must be at least ${options.min} characters`,
+        });
+      } else if (options.max !== undefined && str.length > options.max) {
+        issues.push({
+          field: path,
+          message: `${label(path)} must be at most ${options.max.toLocaleString('en-US')} characters`,
+        });
+      } else if (options.pattern && !options.pattern.test(str)) {
+        issues.push({
+          field: path,
+          message: options.patternMessage ?? `${label(path)} is invalid`,
+        });
+      }
+
+      return str;
+    });
+  },
+
+  number(options: NumberOptions = {}): Schema<number> {
+    return schema((value, path, issues) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ field: path, message: `${label(path)} must be a number` });
+      } else if (options.integer && !Number.isInteger(value)) {
+        issues.push({ field: path, message: `${label(path)} must be an integer` });
+      } else if (options.min !== undefined && value < options.min) {
+        issues.push({ field: path, message: `${label(path)} must be at least ${options.min}` });
+      } else if (options.max !== undefined && value > options.max) {
+        issues.push({ field: path, message: `${label(path)} must be at most ${options.max}` });
+      }
+
+      return value as number;
+    });
+  },
+
+  boolean(): Schema<boolean> {
+    return schema((value, path, issues) => {
+      if (typeof value !== 'boolean') {
+        issues.push({ field: path, message: `${label(path)} must be a boolean` });
+      }
+      return value as boolean;
+    });
+  },
+
+  enum<const T extends readonly string[]>(values: T): Schema<T[number]> {
+    return schema((value, path, issues) => {
+      if (typeof value !== 'string' || !values.includes(value)) {
+        issues.push({
+          field: path,
+          message: `${label(path)} must be one of: ${values.join(', ')}`,
+        });
+      }
+      return value as T[number];
+    });
+  },
+
+  array<T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> {
+    return schema((value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ field: path, message: `${label(path)} must be an array` });
+        return value as T[];
+      }
+
+      if (options.max !== undefined && value.length > options.max) {
+        issues.push({
+          field: path,
+          message: `${label(path)} must have at most ${options.max} items`,
+        });
+        return value as T[];
+      }
+
+      return value.map((element, index) =>
+        item.check(element, path ? `${path}.${index}` : String(index), issues)
+      );
+    });
+  },
+
+  object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+    return schema((value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ field: path, message: `${label(path)} must be an object` });
+        return value as InferShape<S>;
+      }
+
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+
+      for (const [key, fieldSchema] of Object.entries(shape)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const fieldValue = input[key];
+
+        if (fieldValue === undefined || fieldValue === null) {
+          if (!fieldSchema.isOptional) {
+            issues.push({ field: fieldPath, message: `${fieldPath} is required` });
+          }
+          continue;
+        }
+
+        output[key] = fieldSchema.check(fieldValue, fieldPath, issues);
+      }
+
+      // Unknown keys are dropped so handlers only see declared fields
+      return output as InferShape<S>;
+    });
+  },
+
+  optional<T>(inner: Schema<T>): OptionalSchema<T> {
+    return {
+      isOptional: true,
+      check: (value, path, issues) =>
+        value === undefined || value === null
+          ? undefined
+          : inner.check(value, path, issues),
+    };
+  },
+};
+
+/**
+ * Validate already-parsed data against a schema.
+ * Throws ValidationError with `details: ValidationIssue[]` on failure.
+ */
+export function parse<T>(bodySchema: Schema<T>, data: unknown): T {
+  const issues: ValidationIssue[] = [];
+  const value = bodySchema.check(data, '', issues);
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues[0].message, issues);
+  }
+
+  return value;
+}
+
+/**
+ * Parse and validate a JSON request body.
+ * Malformed JSON is a 400, not a generic 500.
+ */
+export async function parseJsonBody<T>(
+  request: Request,
+  bodySchema: Schema<T>
+): Promise<T> {
+  let data: unknown;
+
+  try {
+    data = await request.json();
+  } catch {
+    throw new ValidationError('Request body must be valid JSON', [
+      { field: '', message: 'Malformed JSON' },
+    ]);
+  }
+
+  return parse(bodySchema, data);
+}